@@ -7,12 +7,21 @@ import { domainWhitelist } from "./middleware/domainWhitelist";
 import { errorHandler } from "./middleware/errorHandler";
 
 import accountRoutes from "./routes/account";
+import alertRoutes from "./routes/alerts";
+import auditRoutes from "./routes/audit";
+import bracketRoutes from "./routes/brackets";
+import dcaRoutes from "./routes/dca";
+import exportRoutes from "./routes/exports";
 // Route imports
 import healthRoutes from "./routes/health";
 import positionRoutes from "./routes/positions";
+import riskRoutes from "./routes/risk";
 import serverInfoRoutes from "./routes/serverInfo";
+import streamRoutes from "./routes/stream";
 import symbolRoutes from "./routes/symbols";
 import tradeRoutes from "./routes/trades";
+import trailingStopRoutes from "./routes/trailingStops";
+import webhookRoutes from "./routes/webhooks";
 
 const app = express();
 
@@ -59,10 +68,19 @@ app.use(domainWhitelist);
 // Routes
 app.use("/api/health", healthRoutes);
 app.use("/api/trades", tradeRoutes);
+app.use("/api/brackets", bracketRoutes);
+app.use("/api/trailing-stops", trailingStopRoutes);
+app.use("/api/dca-plans", dcaRoutes);
 app.use("/api/symbols", symbolRoutes);
 app.use("/api/account", accountRoutes);
 app.use("/api/positions", positionRoutes);
 app.use("/api/server", serverInfoRoutes);
+app.use("/api/exports", exportRoutes);
+app.use("/api/alerts", alertRoutes);
+app.use("/api/audit", auditRoutes);
+app.use("/api/risk", riskRoutes);
+app.use("/api/webhooks", webhookRoutes);
+app.use("/api/stream", streamRoutes);
 
 // 404 handler
 app.use("*", (req, res) => {
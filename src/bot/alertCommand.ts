@@ -0,0 +1,83 @@
+import type { AlertCondition, PriceAlertInput } from "../types/alerts.js";
+
+export const ALERT_USAGE =
+  "Usage: /alert <symbol> <above|below|cross|change> <value> [repeat [cooldown]]\n" +
+  "Examples: /alert BTCUSD > 65000, /alert ETHUSD cross 3000 repeat 1h, /alert BTCUSD change 5%";
+
+const CONDITION_ALIASES: Record<string, AlertCondition> = {
+  ">": "above",
+  ">=": "above",
+  above: "above",
+  "<": "below",
+  "<=": "below",
+  below: "below",
+  cross: "cross",
+  crosses: "cross",
+  change: "change",
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as "45s", "30m", "1h" or "2d"
+ *
+ * @returns Milliseconds, or undefined when the text is not a duration
+ */
+export function parseDuration(text: string): number | undefined {
+  const match = /^(\d+)([smhd])$/.exec(text.toLowerCase());
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+  return Number(match[1]) * (DURATION_UNITS_MS[match[2]] ?? 0);
+}
+
+/**
+ * Parses the arguments of the /alert command
+ *
+ * `cooldownMs` is only set when a cooldown follows `repeat`, so the caller
+ * can fall back to the configured default.
+ *
+ * @returns Alert fields without the chat, or undefined when the arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * parseAlertArgs("btcusd change 5% repeat 30m")
+ * // { symbol: "BTCUSD", condition: "change", value: 5, repeat: true, cooldownMs: 1800000 }
+ * ```
+ */
+export function parseAlertArgs(
+  text: string,
+): (Omit<PriceAlertInput, "chatId" | "cooldownMs"> & { cooldownMs?: number }) | undefined {
+  const [symbol, operator, rawValue, ...rest] = text.trim().split(/\s+/).filter(Boolean);
+  const condition = CONDITION_ALIASES[operator?.toLowerCase() ?? ""];
+  if (!symbol || !condition || !rawValue) {
+    return undefined;
+  }
+
+  const isPercent = rawValue.endsWith("%");
+  if (isPercent && condition !== "change") {
+    return undefined;
+  }
+  const value = Number(isPercent ? rawValue.slice(0, -1) : rawValue);
+  if (!Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+
+  const alert = { symbol: symbol.toUpperCase(), condition, value, repeat: false };
+  if (rest.length === 0) {
+    return alert;
+  }
+  if (rest[0]?.toLowerCase() !== "repeat" || rest.length > 2) {
+    return undefined;
+  }
+  if (rest[1] === undefined) {
+    return { ...alert, repeat: true };
+  }
+  const cooldownMs = parseDuration(rest[1]);
+  return cooldownMs === undefined ? undefined : { ...alert, repeat: true, cooldownMs };
+}
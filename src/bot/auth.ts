@@ -0,0 +1,105 @@
+import type { MiddlewareFn } from "grammy";
+import { getTelegramAllowedChats, getTelegramAllowedUsers } from "../config/env.js";
+import { BOT_ROLES, type BotRole } from "../types/bot.js";
+import type { MyContext } from "./context.js";
+
+/**
+ * Resolves the effective role of a Telegram user in a chat
+ *
+ * A user gets the highest of the roles granted to their user ID and to the
+ * chat they are writing from. Users that are not allowlisted directly or via
+ * the chat have no role.
+ *
+ * @param userId - Telegram user ID of the sender
+ * @param chatId - ID of the chat the update came from
+ * @returns The effective role, or undefined if the user is not allowed
+ *
+ * @example
+ * ```typescript
+ * // Assuming TELEGRAM_ALLOWED_USERS="111:admin" and TELEGRAM_ALLOWED_CHATS="-100:viewer"
+ * resolveRole(111, 111) // "admin"
+ * resolveRole(222, -100) // "viewer"
+ * resolveRole(222, 222) // undefined
+ * ```
+ */
+export function resolveRole(
+  userId: number | undefined,
+  chatId: number | undefined,
+): BotRole | undefined {
+  const granted = [
+    ...getTelegramAllowedUsers().filter((entry) => entry.id === userId),
+    ...getTelegramAllowedChats().filter((entry) => entry.id === chatId),
+  ].map((entry) => entry.role);
+
+  if (granted.length === 0) {
+    return undefined;
+  }
+
+  return granted.reduce((highest, role) =>
+    BOT_ROLES.indexOf(role) > BOT_ROLES.indexOf(highest) ? role : highest,
+  );
+}
+
+/**
+ * Checks whether a role grants at least the required access level
+ */
+export function hasRole(role: BotRole | undefined, required: BotRole): boolean {
+  return role !== undefined && BOT_ROLES.indexOf(role) >= BOT_ROLES.indexOf(required);
+}
+
+function logDenied(ctx: MyContext, required: BotRole, role: BotRole | undefined): void {
+  console.warn(`[${new Date().toISOString()}] Telegram access denied:`, {
+    userId: ctx.from?.id,
+    username: ctx.from?.username,
+    chatId: ctx.chat?.id,
+    text: ctx.message?.text ?? ctx.callbackQuery?.data,
+    role: role ?? "none",
+    required,
+  });
+}
+
+async function deny(ctx: MyContext, message: string): Promise<void> {
+  if (ctx.callbackQuery) {
+    await ctx.answerCallbackQuery({ text: message, show_alert: true });
+  } else if (ctx.message?.text?.startsWith("/")) {
+    // Only answer commands, so that plain chatter in group chats is ignored silently
+    await ctx.reply(message);
+  }
+}
+
+/**
+ * Bot middleware that enforces a minimum role for the handlers after it
+ *
+ * Denied attempts are logged and answered with an access denied message.
+ * Installed globally with "viewer" it rejects every user that is not on the
+ * allowlist; per command it restricts e.g. trading to traders.
+ *
+ * @param required - Minimum role needed to continue
+ *
+ * @example
+ * ```typescript
+ * bot.use(requireRole("viewer"));
+ * bot.command("buy", requireRole("trader"), handler);
+ * ```
+ */
+export function requireRole(required: BotRole): MiddlewareFn<MyContext> {
+  return async (ctx, next) => {
+    const role = resolveRole(ctx.from?.id, ctx.chat?.id);
+
+    if (hasRole(role, required)) {
+      await next();
+      return;
+    }
+
+    logDenied(ctx, required, role);
+
+    if (role === undefined) {
+      await deny(
+        ctx,
+        `⛔ Access denied. Ask an admin to allowlist your Telegram user ID: ${ctx.from?.id ?? "unknown"}`,
+      );
+    } else {
+      await deny(ctx, `⛔ This command requires the ${required} role (you are ${role}).`);
+    }
+  };
+}
@@ -0,0 +1,19 @@
+import type { ConversationFlavor } from "@grammyjs/conversations";
+import type { Context, SessionFlavor } from "grammy";
+
+// Session data structure
+export interface SessionData {
+  step?: string;
+  tradeData?: {
+    symbol?: string;
+    side?: "buy" | "sell";
+    amount?: number;
+    price?: number;
+  };
+}
+
+// Context with session and conversation support
+export type MyContext = ConversationFlavor<Context & SessionFlavor<SessionData>>;
+
+// Context available inside conversations (no outside middleware is applied)
+export type ConversationContext = Context;
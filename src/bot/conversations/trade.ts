@@ -0,0 +1,383 @@
+import type { Conversation } from "@grammyjs/conversations";
+import { InlineKeyboard } from "grammy";
+import { recordAudit } from "../../services/audit.js";
+import {
+  type BracketTargets,
+  formatBracketTarget,
+  getBracketManager,
+  parseBracketTarget,
+  validateBracket,
+} from "../../services/brackets.js";
+import { cryptoApi } from "../../services/cryptoApi.js";
+import { getRiskEngine } from "../../services/risk.js";
+import { validateTrade } from "../../services/tradeValidator.js";
+import { publishWebhookEvent } from "../../services/webhooks.js";
+import type { CreateTradeRequest, TradingSide, TradingType } from "../../types/api.js";
+import type { BracketLegKind, BracketTarget } from "../../types/brackets.js";
+import type { TradeAdjustment } from "../../types/trading.js";
+import { formatDecimal } from "../../utils/decimal.js";
+import type { ConversationContext, MyContext } from "../context.js";
+import { formatBracket } from "../formatters.js";
+
+export const TRADE_CONVERSATION = "trade";
+
+// Number of symbols offered as buttons; other symbols can be typed in
+const SYMBOL_KEYBOARD_SIZE = 12;
+const SYMBOL_KEYBOARD_COLUMNS = 3;
+
+const ORDER_TYPES: TradingType[] = ["Market", "Limit", "Stop", "StopLimit"];
+
+type TradeConversation = Conversation<MyContext, ConversationContext>;
+
+type ExternalResult<T> = { ok: true; value: T } | { ok: false; message: string };
+
+/**
+ * Runs an API call outside of the conversation replay and captures errors as
+ * plain data, so they survive serialization of the conversation state.
+ */
+function callApi<T>(conversation: TradeConversation, task: () => Promise<T>) {
+  return conversation.external(async (): Promise<ExternalResult<T>> => {
+    try {
+      return { ok: true, value: await task() };
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : "Unknown error" };
+    }
+  });
+}
+
+function parsePositiveNumber(text: string): number | undefined {
+  const value = Number(text.trim().replace(",", "."));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Waits for a text message or button press. Returns `undefined` when the user
+ * cancels, either with the Cancel button or by sending another command.
+ */
+async function waitForAnswer(
+  conversation: TradeConversation,
+  prefix: string,
+): Promise<string | undefined> {
+  const ctx = await conversation.waitFor(["message:text", "callback_query:data"]);
+
+  if (ctx.callbackQuery?.data) {
+    await ctx.answerCallbackQuery();
+    const data = ctx.callbackQuery.data;
+    if (data === "trade:cancel") {
+      return undefined;
+    }
+    return data.startsWith(prefix)
+      ? data.slice(prefix.length)
+      : await waitForAnswer(conversation, prefix);
+  }
+
+  const text = ctx.message?.text?.trim() ?? "";
+  return text.startsWith("/") ? undefined : text;
+}
+
+async function askPrice(
+  conversation: TradeConversation,
+  ctx: ConversationContext,
+  label: "Price" | "StopPrice",
+): Promise<string | undefined> {
+  await ctx.reply(
+    label === "Price" ? "💵 Enter the limit price:" : "🛑 Enter the stop (trigger) price:",
+    { reply_markup: new InlineKeyboard().text("❌ Cancel", "trade:cancel") },
+  );
+
+  for (;;) {
+    const answer = await waitForAnswer(conversation, "trade:price:");
+    if (answer === undefined) {
+      return undefined;
+    }
+    const price = parsePositiveNumber(answer);
+    if (price !== undefined) {
+      return formatDecimal(price);
+    }
+    await ctx.reply("⚠️ Please enter a positive number.");
+  }
+}
+
+/**
+ * Asks for an optional take-profit or stop-loss. Returns `null` when skipped
+ * and `undefined` when the user cancels.
+ */
+async function askBracketTarget(
+  conversation: TradeConversation,
+  ctx: ConversationContext,
+  kind: BracketLegKind,
+): Promise<BracketTarget | null | undefined> {
+  await ctx.reply(
+    kind === "takeProfit"
+      ? "🎯 Enter a take-profit price, or a percentage from the fill price (e.g. 3%):"
+      : "🛡 Enter a stop-loss price, or a percentage from the fill price (e.g. 2%):",
+    {
+      reply_markup: new InlineKeyboard()
+        .text("⏭ Skip", "trade:bracket:skip")
+        .text("❌ Cancel", "trade:cancel"),
+    },
+  );
+
+  for (;;) {
+    const answer = await waitForAnswer(conversation, "trade:bracket:");
+    if (answer === undefined) {
+      return undefined;
+    }
+    if (answer === "skip") {
+      return null;
+    }
+    const target = parseBracketTarget(answer);
+    if (target !== undefined) {
+      return target;
+    }
+    await ctx.reply("⚠️ Please enter a positive price or a percentage such as 2%.");
+  }
+}
+
+function formatAdjustments(adjustments: TradeAdjustment[]): string {
+  return adjustments
+    .map((adjustment) => `ℹ️ ${adjustment.field} rounded: ${adjustment.from} → ${adjustment.to}\n`)
+    .join("");
+}
+
+/**
+ * Guided /buy and /sell flow: symbol → amount → order type → prices → optional
+ * take-profit and stop-loss → summary with live bid/ask → explicit confirmation
+ * before the order is placed.
+ *
+ * @param side - Trade side, passed from `ctx.conversation.enter(TRADE_CONVERSATION, side)`
+ */
+export async function tradeConversation(
+  conversation: TradeConversation,
+  ctx: ConversationContext,
+  side: TradingSide,
+): Promise<void> {
+  const cancel = () => ctx.reply("🚫 Trade cancelled.");
+  const cancelKeyboard = new InlineKeyboard().text("❌ Cancel", "trade:cancel");
+
+  // 1. Symbol. Close-only symbols stay in the list so positions in them can
+  // still be reduced; validateTrade rejects orders that would grow them.
+  const symbols = await callApi(conversation, async () =>
+    (await cryptoApi.getSymbols())
+      .filter((symbol) => symbol.IsTradeAllowed)
+      .map((symbol) => ({ name: symbol.Symbol, closeOnly: symbol.IsCloseOnly })),
+  );
+  if (!symbols.ok) {
+    await ctx.reply(`❌ Error fetching symbols: ${symbols.message}`);
+    return;
+  }
+
+  const symbolKeyboard = new InlineKeyboard();
+  symbols.value.slice(0, SYMBOL_KEYBOARD_SIZE).forEach(({ name, closeOnly }, index) => {
+    symbolKeyboard.text(closeOnly ? `${name} (close-only)` : name, `trade:symbol:${name}`);
+    if ((index + 1) % SYMBOL_KEYBOARD_COLUMNS === 0) {
+      symbolKeyboard.row();
+    }
+  });
+  symbolKeyboard.row().text("❌ Cancel", "trade:cancel");
+
+  await ctx.reply(`📈 ${side}: choose a symbol or type its name:`, {
+    reply_markup: symbolKeyboard,
+  });
+
+  const symbolName = (await waitForAnswer(conversation, "trade:symbol:"))?.toUpperCase();
+  if (!symbolName) {
+    await cancel();
+    return;
+  }
+  if (!symbols.value.some(({ name }) => name === symbolName)) {
+    await ctx.reply(`❌ ${symbolName} is not available for trading.`);
+    return;
+  }
+
+  const symbol = await callApi(conversation, () => cryptoApi.getSymbol(symbolName));
+  if (!symbol.ok || !symbol.value) {
+    await ctx.reply(`❌ Error fetching symbol: ${symbol.ok ? "not found" : symbol.message}`);
+    return;
+  }
+  const { MinTradeAmount, MaxTradeAmount, TradeAmountStep, ContractSize, ProfitCurrency } =
+    symbol.value;
+
+  // 2. Amount
+  await ctx.reply(
+    `🔢 Enter the amount of ${symbolName} to ${side.toLowerCase()}\n` +
+      `Min: ${MinTradeAmount} | Max: ${MaxTradeAmount} | Step: ${TradeAmountStep}`,
+    { reply_markup: cancelKeyboard },
+  );
+
+  let amount: number | undefined;
+  while (amount === undefined) {
+    const answer = await waitForAnswer(conversation, "trade:amount:");
+    if (answer === undefined) {
+      await cancel();
+      return;
+    }
+    amount = parsePositiveNumber(answer);
+    if (amount === undefined) {
+      await ctx.reply("⚠️ Please enter a positive number.");
+    }
+  }
+
+  // 3. Order type and prices
+  const typeKeyboard = new InlineKeyboard();
+  for (const type of ORDER_TYPES) {
+    typeKeyboard.text(type, `trade:type:${type}`);
+  }
+  typeKeyboard.row().text("❌ Cancel", "trade:cancel");
+  await ctx.reply("📑 Choose the order type:", { reply_markup: typeKeyboard });
+
+  let type: TradingType | undefined;
+  while (type === undefined) {
+    const answer = await waitForAnswer(conversation, "trade:type:");
+    if (answer === undefined) {
+      await cancel();
+      return;
+    }
+    type = ORDER_TYPES.find((orderType) => orderType.toLowerCase() === answer.toLowerCase());
+    if (type === undefined) {
+      await ctx.reply(`⚠️ Please choose one of: ${ORDER_TYPES.join(", ")}`);
+    }
+  }
+
+  const request: CreateTradeRequest = {
+    Symbol: symbolName,
+    Side: side,
+    Type: type,
+    Amount: formatDecimal(amount),
+  };
+
+  if (type === "Stop" || type === "StopLimit") {
+    const stopPrice = await askPrice(conversation, ctx, "StopPrice");
+    if (stopPrice === undefined) {
+      await cancel();
+      return;
+    }
+    request.StopPrice = stopPrice;
+  }
+
+  if (type === "Limit" || type === "StopLimit") {
+    const price = await askPrice(conversation, ctx, "Price");
+    if (price === undefined) {
+      await cancel();
+      return;
+    }
+    request.Price = price;
+  }
+
+  // 4. Optional bracket of a market order, placed as linked exit orders once the entry fills
+  const targets: BracketTargets = {};
+  for (const kind of type === "Market" ? (["takeProfit", "stopLoss"] as const) : []) {
+    const target = await askBracketTarget(conversation, ctx, kind);
+    if (target === undefined) {
+      await cancel();
+      return;
+    }
+    if (target !== null) {
+      targets[kind] = target;
+    }
+  }
+  const bracketed = targets.takeProfit !== undefined || targets.stopLoss !== undefined;
+
+  // 5. Pre-trade validation (shared with POST /api/trades)
+  const checked = await callApi(conversation, async () => {
+    const result = await validateTrade(request, { round: true });
+    if (bracketed) {
+      await validateBracket(result.trade, targets);
+    }
+    return result;
+  });
+  if (!checked.ok) {
+    await ctx.reply(`❌ Trade rejected: ${checked.message}`);
+    return;
+  }
+  const trade = checked.value.trade;
+
+  // 6. Summary with live prices
+  const tick = await callApi(conversation, async () => (await cryptoApi.getTick(symbolName))[0]);
+  const bid = tick.ok ? tick.value?.BestBid.Price : undefined;
+  const ask = tick.ok ? tick.value?.BestAsk.Price : undefined;
+  const executionPrice =
+    trade.Price !== undefined
+      ? Number(trade.Price)
+      : trade.StopPrice !== undefined
+        ? Number(trade.StopPrice)
+        : side === "Buy"
+          ? ask
+          : bid;
+  const estimatedCost =
+    executionPrice !== undefined
+      ? Number(trade.Amount) * executionPrice * (ContractSize || 1)
+      : undefined;
+
+  let summary = "🧾 Trade Summary\n\n";
+  summary += `${side} ${trade.Amount} ${symbolName} (${type})\n`;
+  if (trade.StopPrice !== undefined) {
+    summary += `Stop price: ${trade.StopPrice}\n`;
+  }
+  if (trade.Price !== undefined) {
+    summary += `Limit price: ${trade.Price}\n`;
+  }
+  summary += `Bid: ${bid ?? "n/a"} | Ask: ${ask ?? "n/a"}\n`;
+  summary += `Estimated cost: ${estimatedCost !== undefined ? `${estimatedCost.toFixed(2)} ${ProfitCurrency}` : "n/a"}\n`;
+  if (targets.takeProfit) {
+    summary += `Take profit: ${formatBracketTarget(targets.takeProfit)}\n`;
+  }
+  if (targets.stopLoss) {
+    summary += `Stop loss: ${formatBracketTarget(targets.stopLoss)}\n`;
+  }
+  summary += formatAdjustments(checked.value.adjustments);
+
+  await ctx.reply(summary, {
+    reply_markup: new InlineKeyboard()
+      .text("✅ Confirm", "trade:confirm")
+      .text("❌ Cancel", "trade:cancel"),
+  });
+
+  // 7. Explicit confirmation
+  const confirmation = await conversation.waitForCallbackQuery(["trade:confirm", "trade:cancel"], {
+    otherwise: (otherCtx) => otherCtx.reply("Please press ✅ Confirm or ❌ Cancel."),
+  });
+  await confirmation.answerCallbackQuery();
+
+  if (confirmation.callbackQuery.data !== "trade:confirm") {
+    await cancel();
+    return;
+  }
+
+  // 8. Risk limits, checked right before placing as prices may have moved meanwhile
+  const created = await callApi(conversation, async () => {
+    const placed = await getRiskEngine().placeTrade(trade, () => cryptoApi.createTrade(trade));
+    await recordAudit({
+      action: "trade.create",
+      source: "telegram",
+      actor: ctx.from ? String(ctx.from.id) : null,
+      tradeId: placed.Id,
+      details: { ...trade },
+    });
+    publishWebhookEvent("trade.created", placed);
+    return placed;
+  });
+  if (!created.ok) {
+    await ctx.reply(`❌ Error creating trade: ${created.message}`);
+    return;
+  }
+
+  await ctx.reply(
+    `✅ Trade ${created.value.Id} placed: ${created.value.Side} ${created.value.InitialAmount} ${created.value.Symbol}\n` +
+      `Status: ${created.value.Status}`,
+  );
+
+  if (bracketed) {
+    const placed = created.value;
+    const bracket = await callApi(conversation, () => getBracketManager().attach(placed, targets));
+    if (!bracket.ok) {
+      await ctx.reply(`⚠️ Trade placed, but the bracket could not be attached: ${bracket.message}`);
+      return;
+    }
+    await ctx.reply(
+      bracket.value.status === "pending"
+        ? `🔗 Bracket #${bracket.value.id} attached: exit orders follow once the entry fills.`
+        : formatBracket(bracket.value),
+    );
+  }
+}
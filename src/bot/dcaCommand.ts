@@ -0,0 +1,73 @@
+import type { DcaPlanInput } from "../types/dca.js";
+
+export const DCA_USAGE = [
+  "Usage: /dca [add <symbol> <quote amount> <schedule> [max <price>] | pause|resume|delete|history <id>]",
+  "Schedule: a cron expression in UTC (minute hour day-of-month month day-of-week) or @hourly, @daily, @weekly, @monthly",
+  "Examples: /dca add BTCUSD 100 0 9 * * 1, /dca add ETHUSD 50 @daily max 3000, /dca pause 2",
+].join("\n");
+
+const PLAN_ACTIONS = ["pause", "resume", "delete", "history"] as const;
+
+export type DcaCommand =
+  | { action: "list" }
+  | { action: (typeof PLAN_ACTIONS)[number]; id: number }
+  | { action: "add"; input: DcaPlanInput };
+
+function parsePositive(text: string | undefined): number | undefined {
+  const value = Number(text?.replace(",", "."));
+  return text !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Parses the arguments of the /dca command; the schedule itself is validated
+ * when the plan is created
+ *
+ * @returns The requested action, or undefined when the arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * parseDcaArgs("") // { action: "list" }
+ * parseDcaArgs("add btcusd 100 0 9 * * 1 max 60000")
+ * // { action: "add", input: { symbol: "BTCUSD", quoteAmount: 100, schedule: "0 9 * * 1", maxPrice: 60000 } }
+ * parseDcaArgs("pause 2") // { action: "pause", id: 2 }
+ * ```
+ */
+export function parseDcaArgs(text: string): DcaCommand | undefined {
+  const [first, ...args] = text.trim().split(/\s+/).filter(Boolean);
+  if (first === undefined) {
+    return { action: "list" };
+  }
+
+  const action = first.toLowerCase();
+  const planAction = PLAN_ACTIONS.find((candidate) => candidate === action);
+  if (planAction) {
+    const id = Number(args[0]);
+    return Number.isInteger(id) && id > 0 && args.length === 1
+      ? { action: planAction, id }
+      : undefined;
+  }
+  if (action !== "add") {
+    return undefined;
+  }
+
+  const [symbol, amount, ...schedule] = args;
+  let maxPrice: number | null = null;
+  if (schedule.at(-2)?.toLowerCase() === "max") {
+    const cap = parsePositive(schedule.at(-1));
+    if (cap === undefined) {
+      return undefined;
+    }
+    maxPrice = cap;
+    schedule.splice(-2);
+  }
+
+  const quoteAmount = parsePositive(amount);
+  const isShortcut = schedule.length === 1 && schedule[0]?.startsWith("@");
+  if (!symbol || quoteAmount === undefined || (schedule.length !== 5 && !isShortcut)) {
+    return undefined;
+  }
+  return {
+    action: "add",
+    input: { symbol: symbol.toUpperCase(), quoteAmount, schedule: schedule.join(" "), maxPrice },
+  };
+}
@@ -0,0 +1,89 @@
+import { PassThrough } from "node:stream";
+import { finished } from "node:stream/promises";
+import { InputFile } from "grammy";
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  type ExportDataset,
+  type ExportOptions,
+  exportFileName,
+  writeExport,
+} from "../services/dataExport.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EXPORT_USAGE =
+  "Usage: /export <trades|positions|assets> [csv|ndjson|xlsx] [days | from-date [to-date]]\n" +
+  "Examples: /export trades csv 30, /export trades xlsx 2024-09-01 2024-09-30";
+
+/**
+ * Parses the arguments of the /export command
+ *
+ * Dates are taken as whole UTC days: the range runs from the start of the
+ * first date to the end of the second (or of today).
+ *
+ * @returns Export options, or undefined when the arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * parseExportArgs("trades xlsx 2024-09-01 2024-09-30", "UTC")
+ * // { dataset: "trades", format: "xlsx", from: 1725148800000, to: 1727740799999, timeZone: "UTC" }
+ * ```
+ */
+export function parseExportArgs(
+  text: string,
+  timeZone: string,
+  now = Date.now(),
+): ExportOptions | undefined {
+  const [dataset, ...rest] = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!EXPORT_DATASETS.includes(dataset as ExportDataset)) {
+    return undefined;
+  }
+
+  const format = EXPORT_FORMATS.find((candidate) => candidate === rest[0]) ?? "csv";
+  const range = rest[0] === format ? rest.slice(1) : rest;
+  const options: ExportOptions = { dataset: dataset as ExportDataset, format, timeZone };
+
+  if (range.length === 1 && /^\d+$/.test(range[0] ?? "")) {
+    const days = Number(range[0]);
+    if (days === 0) {
+      return undefined;
+    }
+    return { ...options, from: now - days * DAY_MS, to: now };
+  }
+
+  if (range.length > 2) {
+    return undefined;
+  }
+  const [from, to] = range.map((date) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(date) ? Date.parse(`${date}T00:00:00Z`) : Number.NaN,
+  );
+  if (from === undefined) {
+    return options;
+  }
+  const end = to !== undefined ? to + DAY_MS - 1 : now;
+  if (Number.isNaN(from) || Number.isNaN(end) || from > end) {
+    return undefined;
+  }
+
+  return { ...options, from, to: end };
+}
+
+/**
+ * Renders an export into memory so it can be sent as a Telegram document
+ */
+export async function createExportDocument(
+  options: ExportOptions,
+): Promise<{ file: InputFile; rows: number }> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+  const rows = await writeExport(options, out);
+  await finished(out);
+
+  return {
+    file: new InputFile(Buffer.concat(chunks), exportFileName(options.dataset, options.format)),
+    rows,
+  };
+}
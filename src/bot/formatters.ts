@@ -0,0 +1,285 @@
+import type { PriceAlert } from "../types/alerts.js";
+import type { Position, Symbol as TradingSymbol, TradingTick } from "../types/api.js";
+import type { Bracket } from "../types/brackets.js";
+import type { DcaExecution, DcaPlan } from "../types/dca.js";
+import type { OrderEvent } from "../types/notifications.js";
+import type { PnlReport, Portfolio } from "../types/trading.js";
+import type { TrailDistance, TrailingStop } from "../types/trailingStops.js";
+import type { Page } from "./pagination.js";
+
+export function formatSymbolsPage(page: Page<TradingSymbol>, total: number): string {
+  let message = `📈 Trading Symbols (${total}):\n\n`;
+  for (const symbol of page.items) {
+    const status = symbol.IsTradeAllowed ? (symbol.IsCloseOnly ? "🔒" : "🟢") : "🚫";
+    message += `${status} ${symbol.Symbol} — ${symbol.Description}\n`;
+  }
+  message += "\n🟢 tradable | 🔒 close-only | 🚫 disabled\nUse /symbol <name> for details.";
+
+  return message;
+}
+
+export function formatSymbolDetails(symbol: TradingSymbol, tick: TradingTick | undefined): string {
+  let message = `📊 ${symbol.Symbol} — ${symbol.Description}\n\n`;
+
+  message += "💹 Market:\n";
+  if (tick) {
+    const bid = tick.BestBid.Price;
+    const ask = tick.BestAsk.Price;
+    const spread = ask - bid;
+    const mid = (ask + bid) / 2;
+    message += `Bid: ${bid.toFixed(symbol.Precision)} | Ask: ${ask.toFixed(symbol.Precision)}\n`;
+    message += `Spread: ${spread.toFixed(symbol.Precision)} (${mid > 0 ? ((spread / mid) * 100).toFixed(3) : "0"}%)\n\n`;
+  } else {
+    message += "No quotes available\n\n";
+  }
+
+  message += "📏 Trading Limits:\n";
+  message += `Trading: ${symbol.IsTradeAllowed ? "allowed" : "disabled"}${symbol.IsCloseOnly ? " (close-only)" : ""}${symbol.IsLongOnly ? " (long-only)" : ""}\n`;
+  message += `Min amount: ${symbol.MinTradeAmount} | Max amount: ${symbol.MaxTradeAmount}\n`;
+  message += `Amount step: ${symbol.TradeAmountStep} | Price precision: ${symbol.Precision}\n`;
+  message += `Contract size: ${symbol.ContractSize} | Default slippage: ${symbol.DefaultSlippage}\n\n`;
+
+  message += "💸 Commissions:\n";
+  message += `Commission: ${symbol.Commission} (${symbol.CommissionType}, ${symbol.CommissionChargeType})\n`;
+  message += `Limit orders: ${symbol.LimitsCommission}\n`;
+  message += `Minimum: ${symbol.MinCommission} ${symbol.MinCommissionCurrency}\n\n`;
+
+  message += "🔄 Swap:\n";
+  if (symbol.SwapEnabled) {
+    message += `Type: ${symbol.SwapType}\n`;
+    message += `Long: ${symbol.SwapSizeLong} | Short: ${symbol.SwapSizeShort}\n`;
+    message += `Triple swap day: ${symbol.TripleSwapDay}\n`;
+  } else {
+    message += "Disabled\n";
+  }
+
+  return message;
+}
+
+export function formatPositionsPage(page: Page<Position>, total: number): string {
+  let message = `📂 Open Positions (${total}):\n\n`;
+  for (const position of page.items) {
+    message += `🔸 [${position.Id}] ${position.Symbol}\n`;
+    if (position.LongAmount > 0) {
+      message += `   Long: ${position.LongAmount} @ ${position.LongPrice}\n`;
+    }
+    if (position.ShortAmount > 0) {
+      message += `   Short: ${position.ShortAmount} @ ${position.ShortPrice}\n`;
+    }
+    message += `   Bid/Ask: ${position.CurrentBestBid} / ${position.CurrentBestAsk}\n`;
+    message += `   P&L: ${Number(position.Profit).toFixed(2)} | Margin: ${Number(position.Margin).toFixed(2)}\n\n`;
+  }
+
+  return message;
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}`;
+}
+
+export function formatPnlReport(report: PnlReport): string {
+  const range = report.from
+    ? `${new Date(report.from).toLocaleDateString()} – ${new Date(report.to).toLocaleDateString()}`
+    : "all time";
+  let message = `📊 Profit & Loss (${range}, ${report.method.toUpperCase()}):\n\n`;
+
+  if (report.symbols.length === 0) {
+    return `${message}No fills or open positions in this period.`;
+  }
+
+  for (const item of report.symbols) {
+    message += `${item.total >= 0 ? "🟢" : "🔴"} ${item.symbol}: ${formatSigned(item.total)} ${item.currency}\n`;
+    message += `   Realized: ${formatSigned(item.realized)} | Unrealized: ${formatSigned(item.unrealized)}\n`;
+    if (item.openAmount !== 0) {
+      message += `   Open: ${item.openAmount} @ ${item.averageCost} (now ${item.marketPrice ?? "n/a"})\n`;
+    }
+  }
+
+  message += "\n💰 Total:\n";
+  for (const total of report.totals) {
+    message += `${total.currency || "?"}: ${formatSigned(total.total)} (realized ${formatSigned(total.realized)}, unrealized ${formatSigned(total.unrealized)})\n`;
+  }
+
+  return message;
+}
+
+/**
+ * Renders a percentage as a fixed-width text bar, e.g. "███░░░░░░░" for 30%
+ */
+export function allocationBar(percent: number, width = 10): string {
+  const filled = Math.min(width, Math.max(0, Math.round((percent / 100) * width)));
+  return "█".repeat(filled) + "░".repeat(width - filled);
+}
+
+export function formatPortfolio(portfolio: Portfolio): string {
+  const currency = portfolio.reportCurrency;
+  let message = `💼 Portfolio: ${portfolio.equity.toFixed(2)} ${currency}\n`;
+  message += `Free: ${portfolio.freeValue.toFixed(2)} | Locked: ${portfolio.lockedValue.toFixed(2)}\n\n`;
+
+  for (const asset of portfolio.assets) {
+    message += `${asset.currency.padEnd(6)} ${allocationBar(asset.allocation)} ${asset.allocation.toFixed(1)}%\n`;
+    message += `   ${asset.amount} = ${asset.value.toFixed(2)} ${currency}`;
+    message += asset.lockedAmount > 0 ? ` (locked ${asset.lockedValue.toFixed(2)})\n` : "\n";
+  }
+
+  return message;
+}
+
+/**
+ * Describes an alert condition, e.g. "BTCUSD above 65000" or "BTCUSD moves 5%"
+ */
+export function describeAlert(alert: PriceAlert): string {
+  switch (alert.condition) {
+    case "above":
+      return `${alert.symbol} above ${alert.value}`;
+    case "below":
+      return `${alert.symbol} below ${alert.value}`;
+    case "cross":
+      return `${alert.symbol} crosses ${alert.value}`;
+    case "change":
+      return `${alert.symbol} moves ${alert.value}%`;
+  }
+}
+
+export function formatAlerts(alerts: PriceAlert[]): string {
+  if (alerts.length === 0) {
+    return "🔕 No price alerts. Create one with /alert";
+  }
+
+  let message = "🔔 Price alerts:\n\n";
+  for (const alert of alerts) {
+    const state = alert.active ? "🟢" : "⚪️";
+    const repeat = alert.repeat
+      ? ` (repeats, ${Math.round(alert.cooldownMs / 60000)}m cooldown)`
+      : "";
+    message += `${state} #${alert.id} ${describeAlert(alert)}${repeat}\n`;
+    if (alert.triggerCount > 0) {
+      message += `   Triggered ${alert.triggerCount}x, last ${new Date(alert.lastTriggeredAt ?? 0).toLocaleString()}\n`;
+    }
+  }
+
+  return message;
+}
+
+export function formatAlertTriggered(alert: PriceAlert, price: number): string {
+  let message = `🔔 Alert #${alert.id}: ${describeAlert(alert)}\n`;
+  message += `Current price: ${price}`;
+  if (!alert.repeat) {
+    message += "\nThis alert is now inactive.";
+  }
+  return message;
+}
+
+const ORDER_EVENT_TITLES: Record<OrderEvent["type"], string> = {
+  filled: "✅ Order filled",
+  partial: "🌓 Order partially filled",
+  cancelled: "🚫 Order cancelled",
+  activated: "⚡️ Order activated",
+};
+
+export function formatOrderEvent(event: OrderEvent): string {
+  const { trade } = event;
+  let message = `${ORDER_EVENT_TITLES[event.type]}: #${trade.Id}\n`;
+  message += `${trade.Side} ${trade.InitialAmount} ${trade.Symbol} (${trade.Type})\n`;
+
+  if (event.type === "partial" || event.type === "filled") {
+    const price = trade.Price > 0 ? trade.Price : trade.CurrentPrice;
+    message += `Filled: ${trade.FilledAmount} / ${trade.InitialAmount} @ ${price}`;
+    if (event.type === "partial") {
+      message += ` (+${event.filledDelta})`;
+    }
+  } else if (event.type === "cancelled" && trade.FilledAmount > 0) {
+    message += `Filled before cancellation: ${trade.FilledAmount}`;
+  } else if (trade.Price > 0) {
+    message += `Price: ${trade.Price}`;
+  }
+
+  return message.trimEnd();
+}
+
+/**
+ * Summarizes the exit orders of a bracket, one line per leg
+ */
+export function formatBracket(bracket: Bracket): string {
+  let message = `🔗 Bracket #${bracket.id} (${bracket.status})\n`;
+  for (const [label, leg] of [
+    ["Take profit", bracket.takeProfit],
+    ["Stop loss", bracket.stopLoss],
+  ] as const) {
+    if (!leg) {
+      continue;
+    }
+    const order = leg.orderId !== null ? ` #${leg.orderId}` : "";
+    message += `${label} @ ${leg.price ?? "n/a"}: ${leg.status}${order}`;
+    message += leg.status === "failed" && leg.error ? ` (${leg.error})\n` : "\n";
+  }
+  return message.trimEnd();
+}
+
+export function formatTrailDistance(distance: TrailDistance): string {
+  if ("percent" in distance) {
+    return `${distance.percent}%`;
+  }
+  return "atr" in distance ? `${distance.atr} ATR` : String(distance.price);
+}
+
+export function describeTrailingStop(stop: TrailingStop): string {
+  return `${stop.side} ${stop.amount} ${stop.symbol} stop @ ${stop.stopPrice}, trailing ${formatTrailDistance(stop.distance)} behind ${stop.extremePrice}`;
+}
+
+export function formatTrailingStops(stops: TrailingStop[]): string {
+  if (stops.length === 0) {
+    return "📉 No active trailing stops. Create one with /trail <symbol> <distance>";
+  }
+
+  let message = "📉 Trailing stops:\n\n";
+  for (const stop of stops) {
+    message += `#${stop.id} ${describeTrailingStop(stop)} (order #${stop.orderId})\n`;
+    if (stop.error) {
+      message += `   ⚠️ ${stop.error}\n`;
+    }
+  }
+
+  return message;
+}
+
+export function describeDcaPlan(plan: DcaPlan): string {
+  const cap = plan.maxPrice !== null ? ` up to ${plan.maxPrice}` : "";
+  return `Buy ${plan.symbol} for ${plan.quoteAmount}${cap} on "${plan.schedule}" (UTC)`;
+}
+
+export function formatDcaPlans(plans: DcaPlan[]): string {
+  if (plans.length === 0) {
+    return "🗓 No DCA plans. Create one with /dca add <symbol> <quote amount> <schedule>";
+  }
+
+  let message = "🗓 DCA plans:\n\n";
+  for (const plan of plans) {
+    const next = plan.nextRunAt !== null ? `next ${new Date(plan.nextRunAt).toISOString()}` : "";
+    message += `#${plan.id} ${describeDcaPlan(plan)}\n`;
+    message += `   ${plan.active ? `▶️ Active, ${next}` : "⏸ Paused"}\n`;
+  }
+
+  return message;
+}
+
+/**
+ * Lists the executions of a plan, newest first
+ */
+export function formatDcaExecutions(planId: number, executions: DcaExecution[]): string {
+  if (executions.length === 0) {
+    return `🗓 DCA plan #${planId} has not run yet`;
+  }
+
+  const icons = { placed: "✅", skipped: "⏭", failed: "❌" } as const;
+  let message = `🗓 DCA plan #${planId} history:\n\n`;
+  for (const execution of executions) {
+    message += `${icons[execution.status]} ${new Date(execution.scheduledAt).toISOString()} `;
+    message +=
+      execution.status === "placed"
+        ? `bought ${execution.amount} @ ${execution.price} (order #${execution.orderId})\n`
+        : `${execution.status}: ${execution.reason}\n`;
+  }
+
+  return message;
+}
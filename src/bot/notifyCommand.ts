@@ -0,0 +1,40 @@
+import { ORDER_EVENTS, type OrderEventType } from "../types/notifications.js";
+
+export const NOTIFY_USAGE = [
+  "Usage: /notify [on|off|<events>]",
+  `Events: ${ORDER_EVENTS.join(", ")}`,
+  "Examples: /notify on, /notify filled cancelled, /notify off",
+].join("\n");
+
+/**
+ * Parses the arguments of the /notify command
+ *
+ * @returns The events to subscribe to (empty for "off"), null to show the
+ * current settings, or undefined when the arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * parseNotifyArgs("filled, cancelled") // ["filled", "cancelled"]
+ * parseNotifyArgs("on") // ["filled", "partial", "cancelled", "activated"]
+ * ```
+ */
+export function parseNotifyArgs(text: string): OrderEventType[] | null | undefined {
+  const words = text
+    .trim()
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+  if (words.length === 1 && (words[0] === "on" || words[0] === "all")) {
+    return [...ORDER_EVENTS];
+  }
+  if (words.length === 1 && words[0] === "off") {
+    return [];
+  }
+  if (!words.every((word) => ORDER_EVENTS.includes(word as OrderEventType))) {
+    return undefined;
+  }
+  return words as OrderEventType[];
+}
@@ -0,0 +1,56 @@
+import { InlineKeyboard } from "grammy";
+
+/** Callback data of buttons that only display information */
+export const NOOP_CALLBACK = "noop";
+
+export interface Page<T> {
+  items: T[];
+  /** Zero-based page index, clamped to the available pages */
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Slices a list into a single page
+ *
+ * @example
+ * ```typescript
+ * paginate(["a", "b", "c"], 1, 2) // { items: ["c"], page: 1, totalPages: 2 }
+ * ```
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(0, page), totalPages - 1);
+
+  return {
+    items: items.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    totalPages,
+  };
+}
+
+/**
+ * Builds a previous/next keyboard whose buttons send `<prefix>:<page>` callback data
+ *
+ * @returns The keyboard, or undefined when everything fits on one page
+ */
+export function paginationKeyboard(
+  prefix: string,
+  page: number,
+  totalPages: number,
+): InlineKeyboard | undefined {
+  if (totalPages <= 1) {
+    return undefined;
+  }
+
+  const keyboard = new InlineKeyboard();
+  if (page > 0) {
+    keyboard.text("⬅️ Previous", `${prefix}:${page - 1}`);
+  }
+  keyboard.text(`${page + 1}/${totalPages}`, NOOP_CALLBACK);
+  if (page < totalPages - 1) {
+    keyboard.text("Next ➡️", `${prefix}:${page + 1}`);
+  }
+
+  return keyboard;
+}
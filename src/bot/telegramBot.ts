@@ -1,38 +1,107 @@
-import type { Bot, Context, SessionFlavor } from "grammy";
+import {
+  type ConversationData,
+  type VersionedState,
+  conversations,
+  createConversation,
+} from "@grammyjs/conversations";
+import type { Bot, Context } from "grammy";
 import { Bot as GrammyBot, session } from "grammy";
-import { env } from "../config/env.js";
+import { env, getAlertOptions, getExportTimeZone } from "../config/env.js";
+import { AlertEvaluator, alertStore, createPriceAlert } from "../services/alerts.js";
+import { recordAudit } from "../services/audit.js";
 import { cryptoApi } from "../services/cryptoApi.js";
+import { DcaStore, getDcaScheduler } from "../services/dca.js";
+import { type OrderWatcher, getOrderWatcher } from "../services/orderNotifications.js";
+import { getPnlReport } from "../services/pnl.js";
+import { getPortfolio } from "../services/portfolio.js";
+import { getRiskEngine } from "../services/risk.js";
+import { createStorageAdapter, getDataStore } from "../services/storage.js";
+import { TrailingStopStore, getTrailingStopManager } from "../services/trailingStops.js";
+import { ALERT_USAGE, parseAlertArgs } from "./alertCommand.js";
+import { requireRole } from "./auth.js";
+import type { ConversationContext, MyContext, SessionData } from "./context.js";
+import { TRADE_CONVERSATION, tradeConversation } from "./conversations/trade.js";
+import { DCA_USAGE, parseDcaArgs } from "./dcaCommand.js";
+import { EXPORT_USAGE, createExportDocument, parseExportArgs } from "./exportCommand.js";
+import {
+  describeAlert,
+  describeDcaPlan,
+  describeTrailingStop,
+  formatAlertTriggered,
+  formatAlerts,
+  formatDcaExecutions,
+  formatDcaPlans,
+  formatOrderEvent,
+  formatPnlReport,
+  formatPortfolio,
+  formatPositionsPage,
+  formatSymbolDetails,
+  formatSymbolsPage,
+  formatTrailingStops,
+} from "./formatters.js";
+import { NOTIFY_USAGE, parseNotifyArgs } from "./notifyCommand.js";
+import { NOOP_CALLBACK, paginate, paginationKeyboard } from "./pagination.js";
+import { TRAIL_USAGE, parseTrailArgs } from "./trailCommand.js";
 
-// Session data structure
-interface SessionData {
-  step?: string;
-  tradeData?: {
-    symbol?: string;
-    side?: "buy" | "sell";
-    amount?: number;
-    price?: number;
-  };
-}
+const SYMBOLS_PAGE_SIZE = 20;
+const POSITIONS_PAGE_SIZE = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-// Context with session support
-type MyContext = Context & SessionFlavor<SessionData>;
+// Sessions and conversations belong to one user in a chat, so in group chats
+// other members cannot answer or confirm someone else's trade
+function getChatMemberKey(ctx: Context): string | undefined {
+  return ctx.chat && ctx.from ? `${ctx.chat.id}:${ctx.from.id}` : undefined;
+}
 
 export class TelegramBot {
   private bot: Bot<MyContext>;
+  private alertEvaluator: AlertEvaluator;
+  private orderWatcher: OrderWatcher;
 
   constructor() {
     this.bot = new GrammyBot<MyContext>(env.TELEGRAM_BOT_TOKEN);
+    this.alertEvaluator = new AlertEvaluator(alertStore, async (alert, price) => {
+      await this.bot.api.sendMessage(alert.chatId, formatAlertTriggered(alert, price));
+    });
+    // The watcher itself is started by the app, so webhooks do not depend on the bot
+    this.orderWatcher = getOrderWatcher();
+    this.orderWatcher.setNotifier(async (chatId, event) => {
+      await this.bot.api.sendMessage(chatId, formatOrderEvent(event));
+    });
     this.setupMiddleware();
     this.setupCommands();
   }
 
   private setupMiddleware(): void {
-    // Session middleware
+    // Access control: only allowlisted users and chats may use the bot. Runs
+    // first so updates from anyone else never read or write a session.
+    this.bot.use(requireRole("viewer"));
+
+    // Session middleware, persisted so restarts do not lose conversation state
     this.bot.use(
       session({
         initial: (): SessionData => ({}),
+        getSessionKey: getChatMemberKey,
+        storage: createStorageAdapter<SessionData>(getDataStore(), "sessions"),
       }),
     );
+
+    // Conversations (guided multi-step flows)
+    this.bot.use(
+      conversations({
+        storage: {
+          type: "key",
+          getStorageKey: getChatMemberKey,
+          adapter: createStorageAdapter<VersionedState<ConversationData>>(
+            getDataStore(),
+            "conversations",
+          ),
+        },
+      }),
+    );
+    this.bot.use(
+      createConversation<MyContext, ConversationContext>(tradeConversation, TRADE_CONVERSATION),
+    );
   }
 
   private setupCommands(): void {
@@ -49,28 +118,52 @@ export class TelegramBot {
         "🤖 Crypton Trading Bot Help\n\n" +
           "This bot allows you to interact with the crypto trading API:\n\n" +
           "📊 Trading Commands:\n" +
+          "• /buy - Place a buy order step by step\n" +
+          "• /sell - Place a sell order step by step\n" +
           "• /trades - List all your active trades\n" +
-          "• /cancel <trade_id> - Cancel a specific trade by its ID\n\n" +
+          "• /positions - List your open positions\n" +
+          "• /cancel <trade_id> - Cancel a specific trade by its ID\n" +
+          "• /trail [<symbol> <distance> [amount] | cancel <id>] - Trailing stops\n" +
+          "• /dca [add <symbol> <quote amount> <schedule> | pause|resume|delete|history <id>] - Recurring buys\n\n" +
+          "📈 Market Data:\n" +
+          "• /symbols - List available trading symbols\n" +
+          "• /symbol <name> - Show symbol limits, fees and prices\n\n" +
+          "🔔 Alerts:\n" +
+          "• /alert <symbol> <condition> <value> - Get notified about a price\n" +
+          "• /alerts - List your price alerts\n" +
+          "• /unalert <alert_id> - Delete a price alert\n" +
+          "• /notify [on|off|events] - Order fill and status notifications\n\n" +
           "💰 Account:\n" +
           "• /balance - Check your account balances\n" +
+          "• /portfolio - Show portfolio value and allocation\n" +
+          "• /pnl [days] [fifo|average] - Show realized and unrealized profit\n" +
+          "• /export <trades|positions|assets> [format] [range] - Download a file\n\n" +
           "🔧 System:\n" +
-          "• /status - Check bot and server status\n\n",
+          "• /status - Check bot and server status\n" +
+          "• /killswitch [on|off] [reason] - Halt or resume all trading (admins)\n\n",
       );
     });
 
     // Status command
     this.bot.command("status", async (ctx) => {
+      const circuit = cryptoApi.getCircuitStatus();
+      const circuitLine =
+        circuit.state === "open"
+          ? `🔴 Trading API circuit: open (retry at ${circuit.retryAt})`
+          : `${circuit.state === "closed" ? "🟢" : "🟡"} Trading API circuit: ${circuit.state}`;
+
       try {
         const serverInfo = await cryptoApi.getServerInfo();
 
         await ctx.reply(
           `✅ Bot Status: Online
 🌐 Server: ${serverInfo.ServerName}
-🌐 Address: ${serverInfo.ServerAddress}`,
+🌐 Address: ${serverInfo.ServerAddress}
+${circuitLine}`,
         );
       } catch (error) {
         await ctx.reply(
-          `❌ Error checking status: ${error instanceof Error ? error.message : "Unknown error"}`,
+          `❌ Error checking status: ${error instanceof Error ? error.message : "Unknown error"}\n${circuitLine}`,
         );
       }
     });
@@ -99,6 +192,134 @@ export class TelegramBot {
       }
     });
 
+    // Portfolio command
+    this.bot.command("portfolio", async (ctx) => {
+      try {
+        const portfolio = await getPortfolio();
+
+        if (portfolio.assets.length === 0) {
+          await ctx.reply("💼 No assets found in your account.");
+          return;
+        }
+
+        await ctx.reply(formatPortfolio(portfolio));
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching portfolio: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // P&L command: /pnl [days] [fifo|average]
+    this.bot.command("pnl", async (ctx) => {
+      const args = ctx.match?.toString().trim().toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+      const days = args.find((arg) => /^\d+$/.test(arg));
+      const method = args.includes("average") ? "average" : "fifo";
+      const unknown = args.filter((arg) => arg !== days && arg !== "fifo" && arg !== "average");
+      if (unknown.length > 0 || days === "0") {
+        await ctx.reply("Usage: /pnl [days] [fifo|average]");
+        return;
+      }
+
+      try {
+        await ctx.replyWithChatAction("typing");
+        const report = await getPnlReport({
+          method,
+          from: days ? Date.now() - Number(days) * DAY_MS : undefined,
+        });
+        await ctx.reply(formatPnlReport(report));
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error calculating P&L: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Export command: sends trades, positions or assets as a document
+    this.bot.command("export", async (ctx) => {
+      const options = parseExportArgs(ctx.match?.toString() ?? "", getExportTimeZone());
+      if (!options) {
+        await ctx.reply(EXPORT_USAGE);
+        return;
+      }
+
+      try {
+        await ctx.replyWithChatAction("upload_document");
+        const { file, rows } = await createExportDocument(options);
+        await ctx.replyWithDocument(file, {
+          caption: `📄 ${rows} ${options.dataset} exported (${options.timeZone})`,
+        });
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error exporting ${options.dataset}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Price alert commands, scoped to the current chat
+    this.bot.command("alert", async (ctx) => {
+      const args = parseAlertArgs(ctx.match?.toString() ?? "");
+      if (!args) {
+        await ctx.reply(ALERT_USAGE);
+        return;
+      }
+
+      try {
+        const alert = await createPriceAlert({
+          ...args,
+          chatId: ctx.chat.id,
+          cooldownMs: args.cooldownMs ?? getAlertOptions().defaultCooldownMs,
+        });
+        await ctx.reply(`✅ Alert #${alert.id} created: ${describeAlert(alert)}`);
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error creating alert: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    this.bot.command("alerts", async (ctx) => {
+      const alerts = await alertStore.list(ctx.chat.id);
+      await ctx.reply(formatAlerts(alerts));
+    });
+
+    this.bot.command("unalert", async (ctx) => {
+      const id = Number(ctx.match?.toString().trim());
+      const alert = Number.isInteger(id) ? await alertStore.get(id) : undefined;
+      if (!alert || alert.chatId !== ctx.chat.id) {
+        await ctx.reply("Please provide one of your alert IDs: /unalert <alert_id> (see /alerts)");
+        return;
+      }
+
+      await alertStore.delete(alert.id);
+      await ctx.reply(`✅ Alert #${alert.id} deleted: ${describeAlert(alert)}`);
+    });
+
+    // Order notification settings of the current chat
+    this.bot.command("notify", async (ctx) => {
+      const events = parseNotifyArgs(ctx.match?.toString() ?? "");
+      if (events === undefined) {
+        await ctx.reply(NOTIFY_USAGE);
+        return;
+      }
+
+      try {
+        if (events !== null) {
+          await this.orderWatcher.setSubscription(ctx.chat.id, events);
+        }
+        const subscribed = await this.orderWatcher.getSubscription(ctx.chat.id);
+        await ctx.reply(
+          subscribed.length > 0
+            ? `🔔 Order notifications: ${subscribed.join(", ")}`
+            : `🔕 Order notifications are off.\n\n${NOTIFY_USAGE}`,
+        );
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error updating notifications: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
     // Trades command
     this.bot.command("trades", async (ctx) => {
       try {
@@ -123,8 +344,205 @@ export class TelegramBot {
       }
     });
 
+    // Informational buttons (e.g. page counters)
+    this.bot.callbackQuery(NOOP_CALLBACK, async (ctx) => {
+      await ctx.answerCallbackQuery();
+    });
+
+    // Symbols command (paginated)
+    this.bot.command("symbols", async (ctx) => {
+      try {
+        const { text, keyboard } = await this.renderSymbolsPage(0);
+        await ctx.reply(text, { ...(keyboard && { reply_markup: keyboard }) });
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching symbols: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    this.bot.callbackQuery(/^symbols:(\d+)$/, async (ctx) => {
+      await ctx.answerCallbackQuery();
+      try {
+        const { text, keyboard } = await this.renderSymbolsPage(Number(ctx.match[1]));
+        await ctx.editMessageText(text, { ...(keyboard && { reply_markup: keyboard }) });
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching symbols: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Symbol details command
+    this.bot.command("symbol", async (ctx) => {
+      const name = ctx.match?.toString().trim().toUpperCase();
+      if (!name) {
+        await ctx.reply("Please provide a symbol name: /symbol <name>");
+        return;
+      }
+
+      try {
+        const symbol = await cryptoApi.getSymbol(name);
+        if (!symbol) {
+          await ctx.reply(`❌ Symbol ${name} not found.`);
+          return;
+        }
+
+        const ticks = await cryptoApi.getTick(name).catch(() => []);
+        await ctx.reply(formatSymbolDetails(symbol, ticks[0]));
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching symbol: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Positions command (paginated)
+    this.bot.command("positions", async (ctx) => {
+      try {
+        const page = await this.renderPositionsPage(0);
+        if (!page) {
+          await ctx.reply("📂 No open positions found.");
+          return;
+        }
+        await ctx.reply(page.text, { ...(page.keyboard && { reply_markup: page.keyboard }) });
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching positions: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    this.bot.callbackQuery(/^positions:(\d+)$/, async (ctx) => {
+      await ctx.answerCallbackQuery();
+      try {
+        const page = await this.renderPositionsPage(Number(ctx.match[1]));
+        await ctx.editMessageText(page?.text ?? "📂 No open positions found.", {
+          ...(page?.keyboard && { reply_markup: page.keyboard }),
+        });
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error fetching positions: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Guided buy/sell commands
+    this.bot.command("buy", requireRole("trader"), async (ctx) => {
+      await ctx.conversation.enter(TRADE_CONVERSATION, "Buy");
+    });
+
+    this.bot.command("sell", requireRole("trader"), async (ctx) => {
+      await ctx.conversation.enter(TRADE_CONVERSATION, "Sell");
+    });
+
+    // Kill switch: /killswitch shows the state, /killswitch on|off [reason] toggles it
+    this.bot.command("killswitch", requireRole("admin"), async (ctx) => {
+      const [rawMode = "", ...reasonWords] = ctx.match?.toString().trim().split(/\s+/) ?? [];
+      const mode = rawMode.toLowerCase();
+      const reason = reasonWords.join(" ") || undefined;
+      if (mode !== "" && mode !== "on" && mode !== "off") {
+        await ctx.reply("Usage: /killswitch [on|off] [reason]");
+        return;
+      }
+
+      try {
+        const engine = getRiskEngine();
+        const state =
+          mode === ""
+            ? (await engine.getStatus()).killSwitch
+            : await engine.setKillSwitch(mode === "on", {
+                reason,
+                actor: ctx.from ? String(ctx.from.id) : null,
+                source: "telegram",
+              });
+        await ctx.reply(
+          state.active
+            ? `🛑 Trading is halted${state.reason ? `: ${state.reason}` : ""}`
+            : "🟢 Trading is enabled",
+        );
+      } catch (error) {
+        await ctx.reply(
+          `❌ Error updating the kill switch: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // Trailing stops: /trail lists them, /trail <symbol> <distance> [amount] creates one
+    this.bot.command("trail", requireRole("trader"), async (ctx) => {
+      const command = parseTrailArgs(ctx.match?.toString() ?? "");
+      if (!command) {
+        await ctx.reply(TRAIL_USAGE);
+        return;
+      }
+
+      try {
+        if (command.action === "list") {
+          await ctx.reply(formatTrailingStops(await new TrailingStopStore().list("active")));
+        } else if (command.action === "cancel") {
+          const stop = await getTrailingStopManager().cancel(command.id);
+          await ctx.reply(
+            stop
+              ? `✅ Trailing stop #${stop.id} cancelled`
+              : `Trailing stop #${command.id} not found (see /trail)`,
+          );
+        } else {
+          const stop = await getTrailingStopManager().create(command.input);
+          await ctx.reply(`✅ Trailing stop #${stop.id} created: ${describeTrailingStop(stop)}`);
+        }
+      } catch (error) {
+        await ctx.reply(
+          `❌ Trailing stop error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
+    // DCA plans: /dca lists them, /dca add <symbol> <quote amount> <schedule> creates one
+    this.bot.command("dca", requireRole("trader"), async (ctx) => {
+      const command = parseDcaArgs(ctx.match?.toString() ?? "");
+      if (!command) {
+        await ctx.reply(DCA_USAGE);
+        return;
+      }
+
+      try {
+        const store = new DcaStore();
+        const scheduler = getDcaScheduler();
+        if (command.action === "list") {
+          await ctx.reply(formatDcaPlans(await store.listPlans()));
+        } else if (command.action === "add") {
+          const plan = await scheduler.create(command.input);
+          await ctx.reply(`✅ DCA plan #${plan.id} created: ${describeDcaPlan(plan)}`);
+        } else if (command.action === "history") {
+          const plan = await store.getPlan(command.id);
+          await ctx.reply(
+            plan
+              ? formatDcaExecutions(plan.id, await store.listExecutions(plan.id, 10))
+              : `DCA plan #${command.id} not found (see /dca)`,
+          );
+        } else if (command.action === "delete") {
+          await ctx.reply(
+            (await scheduler.delete(command.id))
+              ? `✅ DCA plan #${command.id} deleted`
+              : `DCA plan #${command.id} not found (see /dca)`,
+          );
+        } else {
+          const plan = await scheduler.setActive(command.id, command.action === "resume");
+          await ctx.reply(
+            plan
+              ? `✅ DCA plan #${plan.id} ${plan.active ? "resumed" : "paused"}`
+              : `DCA plan #${command.id} not found (see /dca)`,
+          );
+        }
+      } catch (error) {
+        await ctx.reply(
+          `❌ DCA plan error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    });
+
     // Cancel trade command
-    this.bot.command("cancel", async (ctx) => {
+    this.bot.command("cancel", requireRole("trader"), async (ctx) => {
       const tradeId = ctx.match?.toString().trim();
       if (!tradeId) {
         await ctx.reply("Please provide a trade ID: /cancel <trade_id>");
@@ -133,6 +551,13 @@ export class TelegramBot {
 
       try {
         const trade = await cryptoApi.cancelTrade(tradeId);
+        await recordAudit({
+          action: "trade.cancel",
+          source: "telegram",
+          actor: ctx.from ? String(ctx.from.id) : null,
+          tradeId: trade.Id,
+          details: {},
+        });
         await ctx.reply(`✅ Trade ${trade.Id} cancelled successfully!`);
       } catch (error) {
         await ctx.reply(
@@ -142,14 +567,42 @@ export class TelegramBot {
     });
   }
 
+  private async renderSymbolsPage(pageIndex: number) {
+    const symbols = await cryptoApi.getSymbols();
+    const page = paginate(symbols, pageIndex, SYMBOLS_PAGE_SIZE);
+
+    return {
+      text: formatSymbolsPage(page, symbols.length),
+      keyboard: paginationKeyboard("symbols", page.page, page.totalPages),
+    };
+  }
+
+  private async renderPositionsPage(pageIndex: number) {
+    const positions = (await cryptoApi.getPositions()).filter(
+      (position) => position.LongAmount > 0 || position.ShortAmount > 0,
+    );
+    if (positions.length === 0) {
+      return undefined;
+    }
+    const page = paginate(positions, pageIndex, POSITIONS_PAGE_SIZE);
+
+    return {
+      text: formatPositionsPage(page, positions.length),
+      keyboard: paginationKeyboard("positions", page.page, page.totalPages),
+    };
+  }
+
   async start(): Promise<void> {
     console.log("🤖 Starting Telegram bot...");
+    // bot.start() only resolves once polling stops, so background jobs start first
+    this.alertEvaluator.start();
     await this.bot.start();
     console.log("✅ Telegram bot started successfully!");
   }
 
   async stop(): Promise<void> {
     console.log("🛑 Stopping Telegram bot...");
+    this.alertEvaluator.stop();
     await this.bot.stop();
     console.log("✅ Telegram bot stopped!");
   }
@@ -0,0 +1,77 @@
+import type { TrailingStopInput } from "../services/trailingStops.js";
+import type { TrailDistance } from "../types/trailingStops.js";
+
+export const TRAIL_USAGE = [
+  "Usage: /trail [<symbol> <distance> [amount] | cancel <id>]",
+  "Distance: a price difference (500), a percentage (2%) or an ATR multiple (1.5atr)",
+  "Examples: /trail BTCUSD 2%, /trail ETHUSD 40 0.5, /trail BTCUSD 3atr, /trail cancel 4",
+].join("\n");
+
+/**
+ * Parses a trail distance typed by a user: a price difference, a percentage
+ * ending in "%" or an ATR multiple ending in "atr"
+ *
+ * @example
+ * ```typescript
+ * parseTrailDistance("2%") // { percent: 2 }
+ * parseTrailDistance("1.5atr") // { atr: 1.5 }
+ * parseTrailDistance("500") // { price: 500 }
+ * ```
+ */
+export function parseTrailDistance(text: string): TrailDistance | undefined {
+  const trimmed = text.trim().toLowerCase().replace(",", ".");
+  const match = /^(\d+(?:\.\d+)?)\s*(%|x?atr)?$/.exec(trimmed);
+  const value = Number(match?.[1]);
+  if (!match || !(value > 0)) {
+    return undefined;
+  }
+  if (match[2] === "%") {
+    return value < 100 ? { percent: value } : undefined;
+  }
+  return match[2] ? { atr: value } : { price: value };
+}
+
+export type TrailCommand =
+  | { action: "list" }
+  | { action: "cancel"; id: number }
+  | { action: "create"; input: TrailingStopInput };
+
+/**
+ * Parses the arguments of the /trail command
+ *
+ * @returns The requested action, or undefined when the arguments are invalid
+ *
+ * @example
+ * ```typescript
+ * parseTrailArgs("") // { action: "list" }
+ * parseTrailArgs("btcusd 2% 0.1")
+ * // { action: "create", input: { symbol: "BTCUSD", distance: { percent: 2 }, amount: 0.1 } }
+ * parseTrailArgs("cancel 4") // { action: "cancel", id: 4 }
+ * ```
+ */
+export function parseTrailArgs(text: string): TrailCommand | undefined {
+  const [first, second, third, ...rest] = text.trim().split(/\s+/).filter(Boolean);
+  if (first === undefined) {
+    return { action: "list" };
+  }
+
+  if (first.toLowerCase() === "cancel") {
+    const id = Number(second);
+    return Number.isInteger(id) && id > 0 && third === undefined
+      ? { action: "cancel", id }
+      : undefined;
+  }
+
+  const distance = parseTrailDistance(second ?? "");
+  if (!distance || rest.length > 0) {
+    return undefined;
+  }
+  const input = { symbol: first.toUpperCase(), distance };
+  if (third === undefined) {
+    return { action: "create", input };
+  }
+  const amount = Number(third.replace(",", "."));
+  return Number.isFinite(amount) && amount > 0
+    ? { action: "create", input: { ...input, amount } }
+    : undefined;
+}
@@ -1,8 +1,51 @@
 import { config } from "dotenv";
 import { z } from "zod";
+import type { AlertOptions } from "../services/alerts.js";
+import type { BracketOptions } from "../services/brackets.js";
+import type { CacheOptions } from "../services/cache.js";
+import type { CandleOptions } from "../services/candles.js";
+import type { CircuitBreakerOptions } from "../services/circuitBreaker.js";
+import type { DcaOptions } from "../services/dca.js";
+import type { OrderNotificationOptions } from "../services/orderNotifications.js";
+import type { RiskOptions } from "../services/risk.js";
+import type { StorageOptions } from "../services/storage.js";
+import type { StreamOptions } from "../services/stream.js";
+import type { TrailingStopOptions } from "../services/trailingStops.js";
+import type { ResponseValidationMode } from "../services/upstreamContract.js";
+import type { WebhookOptions } from "../services/webhooks.js";
+import { BOT_ROLES, type BotRole, type TelegramAccessEntry } from "../types/bot.js";
+import { CANDLE_INTERVALS } from "../types/candles.js";
+import { isValidTimeZone } from "../utils/date.js";
+import type { RetryPolicy } from "../utils/retry.js";
 
 config();
 
+// Parses "id[:role],id[:role]" lists; entries without a role default to viewer
+const TelegramAccessList = z
+  .string()
+  .default("")
+  .transform((val, ctx) => {
+    const entries = val
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter((entry) => entry.length > 0)
+      .map((entry): TelegramAccessEntry | undefined => {
+        const [rawId = "", rawRole = "viewer"] = entry.split(":").map((part) => part.trim());
+        const id = Number(rawId);
+        const role = rawRole.toLowerCase() as BotRole;
+        if (!Number.isInteger(id)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid Telegram ID: ${rawId}` });
+          return undefined;
+        }
+        if (!BOT_ROLES.includes(role)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown role: ${rawRole}` });
+          return undefined;
+        }
+        return { id, role };
+      });
+    return entries.every((entry) => entry !== undefined) ? entries : z.NEVER;
+  });
+
 const EnvSchema = z.object({
   TELEGRAM_BOT_TOKEN: z.string().min(1, "Telegram bot token is required"),
   WEB_API_HOST: z.string().min(1, "Web API host is required"),
@@ -30,6 +73,134 @@ const EnvSchema = z.object({
       }
       return tokens;
     }),
+  API_RETRY_MAX_ATTEMPTS: z.string().default("3").transform(Number).pipe(z.number().int().min(1)),
+  API_RETRY_BASE_DELAY_MS: z.string().default("250").transform(Number).pipe(z.number().min(0)),
+  API_RETRY_MAX_DELAY_MS: z.string().default("5000").transform(Number).pipe(z.number().min(0)),
+  API_CIRCUIT_FAILURE_THRESHOLD: z
+    .string()
+    .default("5")
+    .transform(Number)
+    .pipe(z.number().int().min(1)),
+  API_CIRCUIT_COOLDOWN_MS: z.string().default("30000").transform(Number).pipe(z.number().min(0)),
+  API_CACHE_MAX_ENTRIES: z.string().default("500").transform(Number).pipe(z.number().int().min(1)),
+  API_CACHE_SYMBOLS_TTL_MS: z.string().default("300000").transform(Number).pipe(z.number().min(0)),
+  API_CACHE_SERVER_INFO_TTL_MS: z
+    .string()
+    .default("3600000")
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  API_CACHE_TICK_TTL_MS: z.string().default("1000").transform(Number).pipe(z.number().min(0)),
+  API_RESPONSE_VALIDATION: z.enum(["strict", "log"]).default("log"),
+  ACCOUNT_REPORT_CURRENCY: z.string().min(1).default("USD"),
+  EXPORT_TIMEZONE: z
+    .string()
+    .default("UTC")
+    .refine(isValidTimeZone, { message: "EXPORT_TIMEZONE must be an IANA time zone" }),
+  ALERTS_POLL_INTERVAL_MS: z
+    .string()
+    .default("15000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  ALERTS_DEFAULT_COOLDOWN_MS: z
+    .string()
+    .default("900000")
+    .transform(Number)
+    .pipe(z.number().int().min(0)),
+  ALERTS_MAX_PER_CHAT: z.string().default("20").transform(Number).pipe(z.number().int().min(1)),
+  ORDER_NOTIFICATIONS_POLL_INTERVAL_MS: z
+    .string()
+    .default("30000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  WEBHOOK_POLL_INTERVAL_MS: z
+    .string()
+    .default("15000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  WEBHOOK_TIMEOUT_MS: z.string().default("10000").transform(Number).pipe(z.number().int().min(1)),
+  WEBHOOK_MAX_ATTEMPTS: z.string().default("6").transform(Number).pipe(z.number().int().min(1)),
+  WEBHOOK_RETRY_BASE_DELAY_MS: z
+    .string()
+    .default("10000")
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  WEBHOOK_RETRY_MAX_DELAY_MS: z
+    .string()
+    .default("3600000")
+    .transform(Number)
+    .pipe(z.number().min(0)),
+  WEBHOOK_LOG_LIMIT: z.string().default("100").transform(Number).pipe(z.number().int().min(1)),
+  STREAM_POLL_INTERVAL_MS: z
+    .string()
+    .default("2000")
+    .transform(Number)
+    .pipe(z.number().int().min(500)),
+  STREAM_HEARTBEAT_INTERVAL_MS: z
+    .string()
+    .default("15000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  STREAM_BUFFER_SIZE: z.string().default("500").transform(Number).pipe(z.number().int().min(0)),
+  STREAM_MAX_CLIENTS: z.string().default("100").transform(Number).pipe(z.number().int().min(1)),
+  CANDLE_SYMBOLS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((symbol) => symbol.trim())
+        .filter(Boolean),
+    ),
+  CANDLE_SAMPLE_INTERVAL_MS: z
+    .string()
+    .default("5000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  CANDLE_RETENTION_DAYS: z.string().default("7").transform(Number).pipe(z.number().int().min(1)),
+  CANDLE_DAILY_RETENTION_DAYS: z
+    .string()
+    .default("365")
+    .transform(Number)
+    .pipe(z.number().int().min(1)),
+  BRACKET_POLL_INTERVAL_MS: z
+    .string()
+    .default("5000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  TRAILING_STOP_POLL_INTERVAL_MS: z
+    .string()
+    .default("5000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  TRAILING_STOP_ATR_INTERVAL: z.enum(CANDLE_INTERVALS).default("5m"),
+  TRAILING_STOP_ATR_PERIOD: z
+    .string()
+    .default("14")
+    .transform(Number)
+    .pipe(z.number().int().min(1).max(500)),
+  DCA_POLL_INTERVAL_MS: z
+    .string()
+    .default("30000")
+    .transform(Number)
+    .pipe(z.number().int().min(1000)),
+  DCA_MAX_DELAY_MS: z.string().default("3600000").transform(Number).pipe(z.number().int().min(0)),
+  DCA_HISTORY_LIMIT: z.string().default("100").transform(Number).pipe(z.number().int().min(1)),
+  RISK_MAX_ORDER_NOTIONAL: z.string().default("0").transform(Number).pipe(z.number().min(0)),
+  RISK_MAX_POSITION_VALUE: z.string().default("0").transform(Number).pipe(z.number().min(0)),
+  RISK_MAX_TOTAL_EXPOSURE: z.string().default("0").transform(Number).pipe(z.number().min(0)),
+  RISK_MAX_DAILY_LOSS: z.string().default("0").transform(Number).pipe(z.number().min(0)),
+  RISK_MAX_ORDERS_PER_MINUTE: z
+    .string()
+    .default("0")
+    .transform(Number)
+    .pipe(z.number().int().min(0)),
+  STORAGE_DRIVER: z.enum(["file", "memory", "netlify-blobs"]).default("file"),
+  STORAGE_FILE: z.string().min(1).default("data/crypton.json"),
+  STORAGE_SHARED_FILE: z.string().min(1).default("data/shared.json"),
+  STORAGE_BLOB_STORE: z.string().min(1).default("crypton"),
+  STORAGE_CANDLE_DIR: z.string().min(1).default("data/candles"),
+  TELEGRAM_ALLOWED_USERS: TelegramAccessList,
+  TELEGRAM_ALLOWED_CHATS: TelegramAccessList,
 });
 
 export type Environment = z.infer<typeof EnvSchema>;
@@ -59,3 +230,136 @@ export const getTrustProxy = (): boolean => {
 export const getBearerTokens = (): string[] => {
   return env.BEARER_TOKENS;
 };
+
+export const getTelegramAllowedUsers = (): TelegramAccessEntry[] => {
+  return env.TELEGRAM_ALLOWED_USERS;
+};
+
+export const getTelegramAllowedChats = (): TelegramAccessEntry[] => {
+  return env.TELEGRAM_ALLOWED_CHATS;
+};
+
+export const getRetryPolicy = (): RetryPolicy => {
+  return {
+    maxAttempts: env.API_RETRY_MAX_ATTEMPTS,
+    baseDelayMs: env.API_RETRY_BASE_DELAY_MS,
+    maxDelayMs: env.API_RETRY_MAX_DELAY_MS,
+  };
+};
+
+export const getCircuitBreakerOptions = (): CircuitBreakerOptions => {
+  return {
+    failureThreshold: env.API_CIRCUIT_FAILURE_THRESHOLD,
+    cooldownMs: env.API_CIRCUIT_COOLDOWN_MS,
+  };
+};
+
+export const getCacheOptions = (): CacheOptions => {
+  return {
+    maxEntries: env.API_CACHE_MAX_ENTRIES,
+    ttls: {
+      symbols: env.API_CACHE_SYMBOLS_TTL_MS,
+      serverInfo: env.API_CACHE_SERVER_INFO_TTL_MS,
+      ticks: env.API_CACHE_TICK_TTL_MS,
+    },
+  };
+};
+
+export const getResponseValidationMode = (): ResponseValidationMode => {
+  return env.API_RESPONSE_VALIDATION;
+};
+
+export const getReportCurrency = (): string => {
+  return env.ACCOUNT_REPORT_CURRENCY;
+};
+
+export const getExportTimeZone = (): string => {
+  return env.EXPORT_TIMEZONE;
+};
+
+export const getAlertOptions = (): AlertOptions => {
+  return {
+    pollIntervalMs: env.ALERTS_POLL_INTERVAL_MS,
+    defaultCooldownMs: env.ALERTS_DEFAULT_COOLDOWN_MS,
+    maxPerChat: env.ALERTS_MAX_PER_CHAT,
+  };
+};
+
+export const getOrderNotificationOptions = (): OrderNotificationOptions => {
+  return {
+    pollIntervalMs: env.ORDER_NOTIFICATIONS_POLL_INTERVAL_MS,
+  };
+};
+
+export const getStorageOptions = (): StorageOptions => {
+  return {
+    driver: env.STORAGE_DRIVER,
+    file: env.STORAGE_FILE,
+    sharedFile: env.STORAGE_SHARED_FILE,
+    blobStore: env.STORAGE_BLOB_STORE,
+    candleDirectory: env.STORAGE_CANDLE_DIR,
+  };
+};
+
+export const getWebhookOptions = (): WebhookOptions => {
+  return {
+    pollIntervalMs: env.WEBHOOK_POLL_INTERVAL_MS,
+    timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+    retry: {
+      maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+      baseDelayMs: env.WEBHOOK_RETRY_BASE_DELAY_MS,
+      maxDelayMs: env.WEBHOOK_RETRY_MAX_DELAY_MS,
+    },
+    logLimit: env.WEBHOOK_LOG_LIMIT,
+  };
+};
+
+export const getCandleOptions = (): CandleOptions => {
+  return {
+    symbols: env.CANDLE_SYMBOLS,
+    sampleIntervalMs: env.CANDLE_SAMPLE_INTERVAL_MS,
+    retentionDays: env.CANDLE_RETENTION_DAYS,
+    dailyRetentionDays: env.CANDLE_DAILY_RETENTION_DAYS,
+  };
+};
+
+export const getStreamOptions = (): StreamOptions => {
+  return {
+    pollIntervalMs: env.STREAM_POLL_INTERVAL_MS,
+    heartbeatIntervalMs: env.STREAM_HEARTBEAT_INTERVAL_MS,
+    bufferSize: env.STREAM_BUFFER_SIZE,
+    maxClients: env.STREAM_MAX_CLIENTS,
+  };
+};
+
+export const getRiskOptions = (): RiskOptions => {
+  return {
+    maxOrderNotional: env.RISK_MAX_ORDER_NOTIONAL,
+    maxPositionValue: env.RISK_MAX_POSITION_VALUE,
+    maxTotalExposure: env.RISK_MAX_TOTAL_EXPOSURE,
+    maxDailyLoss: env.RISK_MAX_DAILY_LOSS,
+    maxOrdersPerMinute: env.RISK_MAX_ORDERS_PER_MINUTE,
+  };
+};
+
+export const getBracketOptions = (): BracketOptions => {
+  return {
+    pollIntervalMs: env.BRACKET_POLL_INTERVAL_MS,
+  };
+};
+
+export const getTrailingStopOptions = (): TrailingStopOptions => {
+  return {
+    pollIntervalMs: env.TRAILING_STOP_POLL_INTERVAL_MS,
+    atrInterval: env.TRAILING_STOP_ATR_INTERVAL,
+    atrPeriod: env.TRAILING_STOP_ATR_PERIOD,
+  };
+};
+
+export const getDcaOptions = (): DcaOptions => {
+  return {
+    pollIntervalMs: env.DCA_POLL_INTERVAL_MS,
+    maxDelayMs: env.DCA_MAX_DELAY_MS,
+    historyLimit: env.DCA_HISTORY_LIMIT,
+  };
+};
@@ -1,12 +1,26 @@
 import "./config/env.js"; // Load environment variables first
 import { telegramBot } from "./bot/telegramBot.js";
 import { env } from "./config/env.js";
+import { getBracketManager } from "./services/brackets.js";
+import { getTickRecorder } from "./services/candles.js";
+import { getDcaScheduler } from "./services/dca.js";
+import { getOrderWatcher } from "./services/orderNotifications.js";
+import { getDataStore } from "./services/storage.js";
+import { getTrailingStopManager } from "./services/trailingStops.js";
+import { getWebhookDispatcher } from "./services/webhooks.js";
 
 // Graceful shutdown handler
 const shutdown = async (signal: string): Promise<void> => {
   console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
 
   try {
+    getWebhookDispatcher().stop();
+    getBracketManager().stop();
+    getTrailingStopManager().stop();
+    getDcaScheduler().stop();
+    getOrderWatcher().stop();
+    getTickRecorder().stop();
+
     // Stop Telegram bot
     await telegramBot.stop();
     console.log("✅ Telegram bot stopped");
@@ -41,6 +55,27 @@ const startApp = async (): Promise<void> => {
     console.log(`📊 Environment: ${env.NODE_ENV}`);
     console.log(`🌐 Port: ${env.PORT}`);
 
+    // Load and migrate the data store, so an unreadable store stops the start
+    await getDataStore().open();
+
+    // Deliver webhook events raised by the bot
+    getWebhookDispatcher().start();
+
+    // Watch the take-profit and stop-loss brackets of trades placed in the bot
+    getBracketManager().start();
+
+    // Move the Stop orders of trailing stops set with /trail
+    getTrailingStopManager().start();
+
+    // Detect fills and cancellations for webhooks and /notify
+    getOrderWatcher().start();
+
+    // Place the recurring buys of DCA plans managed with /dca
+    getDcaScheduler().start();
+
+    // Record ticks of CANDLE_SYMBOLS for the ATR distances of /trail
+    getTickRecorder().start();
+
     // Start Telegram bot
     await telegramBot.start();
 
@@ -0,0 +1,24 @@
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Cache-Control Middleware
+ *
+ * Sets a private Cache-Control header matching the server-side cache TTL of
+ * the upstream data served by the route. Responses are private because every
+ * API request is authenticated.
+ *
+ * @param ttlMs - How long clients may reuse the response, in milliseconds
+ *
+ * @example
+ * ```typescript
+ * router.get("/", cacheControl(300000), handler); // Cache-Control: private, max-age=300
+ * ```
+ */
+export const cacheControl = (ttlMs: number) => {
+  const maxAge = Math.floor(ttlMs / 1000);
+
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    res.set("Cache-Control", maxAge > 0 ? `private, max-age=${maxAge}` : "no-cache");
+    next();
+  };
+};
@@ -1,14 +1,17 @@
 import type { NextFunction, Request, Response } from "express";
+import { ZodError } from "zod";
 import type { ApiResponse } from "../types/api.js";
 
 export class AppError extends Error {
   public readonly statusCode: number;
   public readonly isOperational: boolean;
+  public readonly details: unknown;
 
-  constructor(message: string, statusCode = 500, isOperational = true) {
+  constructor(message: string, statusCode = 500, isOperational = true, details?: unknown) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.details = details;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -23,11 +26,17 @@ export const errorHandler = (
   let statusCode = 500;
   let message = "Internal server error";
   let isOperational = false;
+  let details: unknown;
 
   if (error instanceof AppError) {
     statusCode = error.statusCode;
     message = error.message;
     isOperational = error.isOperational;
+    details = error.details;
+  } else if (error instanceof ZodError) {
+    statusCode = 400;
+    message = error.errors.map((err) => `${err.path.join(".")}: ${err.message}`).join("; ");
+    isOperational = true;
   }
 
   // Log error details
@@ -45,6 +54,11 @@ export const errorHandler = (
     error: message,
   };
 
+  // Structured error details (e.g. validation violations) are returned as data
+  if (details !== undefined) {
+    response.data = details;
+  }
+
   // In development, include stack trace
   if (process.env.NODE_ENV === "development" && !isOperational) {
     response.data = {
@@ -1,10 +1,25 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import { z } from "zod";
 import { AppError, asyncHandler } from "../middleware/errorHandler.js";
 import { cryptoApi } from "../services/cryptoApi.js";
+import { getPnlReport } from "../services/pnl.js";
+import { getPortfolio } from "../services/portfolio.js";
+import { DateParam } from "../utils/date.js";
 
 const router = Router();
 
+const PnlQuerySchema = z
+  .object({
+    from: DateParam.optional(),
+    to: DateParam.optional(),
+    method: z.enum(["fifo", "average"]).default("fifo"),
+  })
+  .refine((query) => query.from === undefined || query.to === undefined || query.from <= query.to, {
+    path: ["from"],
+    message: "from must not be after to",
+  });
+
 // Get list of all cash account assets
 router.get(
   "/assets",
@@ -33,4 +48,29 @@ router.get(
   }),
 );
 
+// Get portfolio value and allocation in the report currency
+router.get(
+  "/portfolio",
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const portfolio = await getPortfolio();
+    res.json({
+      success: true,
+      data: portfolio,
+    });
+  }),
+);
+
+// Get realized and unrealized P&L per symbol for a date range
+router.get(
+  "/pnl",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const query = PnlQuerySchema.parse(req.query);
+    const report = await getPnlReport(query);
+    res.json({
+      success: true,
+      data: report,
+    });
+  }),
+);
+
 export default router;
@@ -0,0 +1,117 @@
+import { omitBy } from "es-toolkit";
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { getAlertOptions } from "../config/env.js";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { alertStore, createPriceAlert } from "../services/alerts.js";
+import { ALERT_CONDITIONS, type PriceAlert, type PriceAlertUpdate } from "../types/alerts.js";
+
+const router = Router();
+
+const CreateAlertSchema = z.object({
+  chatId: z.number().int(),
+  symbol: z
+    .string()
+    .min(1, "symbol is required")
+    .transform((value) => value.toUpperCase()),
+  condition: z.enum(ALERT_CONDITIONS),
+  value: z.number().positive(),
+  repeat: z.boolean().default(false),
+  cooldownMs: z.number().int().nonnegative().optional(),
+});
+
+const UpdateAlertSchema = z
+  .object({
+    value: z.number().positive().optional(),
+    active: z.boolean().optional(),
+    repeat: z.boolean().optional(),
+    cooldownMs: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+const ListAlertsSchema = z.object({
+  chatId: z.coerce.number().int().optional(),
+});
+
+async function findAlert(param: string | undefined): Promise<PriceAlert> {
+  const id = Number(param);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError("Alert ID must be a positive integer", 400);
+  }
+  const alert = await alertStore.get(id);
+  if (!alert) {
+    throw new AppError(`Alert ${id} not found`, 404);
+  }
+  return alert;
+}
+
+// List alerts, optionally of one chat
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { chatId } = ListAlertsSchema.parse(req.query);
+    const alerts = await alertStore.list(chatId);
+    res.json({ success: true, data: alerts });
+  }),
+);
+
+// Get a single alert
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const alert = await findAlert(req.params.id);
+    res.json({ success: true, data: alert });
+  }),
+);
+
+// Create a new alert
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { cooldownMs, ...input } = CreateAlertSchema.parse(req.body);
+    const alert = await createPriceAlert({
+      ...input,
+      cooldownMs: cooldownMs ?? getAlertOptions().defaultCooldownMs,
+    });
+    res.status(201).json({
+      success: true,
+      data: alert,
+      message: "Alert created successfully",
+    });
+  }),
+);
+
+// Change the target, cooldown or state of an alert
+router.patch(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const alert = await findAlert(req.params.id);
+    const changes = UpdateAlertSchema.parse(req.body);
+    const updated = await alertStore.update(
+      alert.id,
+      omitBy(changes, (value) => value === undefined) as PriceAlertUpdate,
+    );
+    res.json({
+      success: true,
+      data: updated,
+      message: "Alert updated successfully",
+    });
+  }),
+);
+
+// Delete an alert
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const alert = await findAlert(req.params.id);
+    await alertStore.delete(alert.id);
+    res.json({
+      success: true,
+      data: alert,
+      message: "Alert deleted successfully",
+    });
+  }),
+);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../middleware/errorHandler.js";
+import { listAudit } from "../services/audit.js";
+
+const router = Router();
+
+const AuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// Most recent trading actions, newest first
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { limit } = AuditQuerySchema.parse(req.query);
+    const entries = await listAudit(limit);
+    res.json({ success: true, data: entries });
+  }),
+);
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { BracketStore, getBracketManager } from "../services/brackets.js";
+
+const router = Router();
+const bracketStore = new BracketStore();
+
+const BracketQuerySchema = z.object({
+  status: z.enum(["pending", "active", "closed", "cancelled", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+function parseId(value: string | undefined): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError("Bracket ID must be a positive integer", 400);
+  }
+  return id;
+}
+
+// Take-profit and stop-loss brackets, newest first
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { status, limit } = BracketQuerySchema.parse(req.query);
+    const brackets = (await bracketStore.list())
+      .filter((bracket) => status === undefined || bracket.status === status)
+      .slice(0, limit);
+    res.json({ success: true, data: brackets });
+  }),
+);
+
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const bracket = await bracketStore.get(id);
+    if (!bracket) {
+      throw new AppError(`Bracket ${id} not found`, 404);
+    }
+    res.json({ success: true, data: bracket });
+  }),
+);
+
+// Cancel the open exit orders of a bracket; the entry order or position is left alone
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const bracket = await getBracketManager().cancel(id);
+    if (!bracket) {
+      throw new AppError(`Bracket ${id} not found`, 404);
+    }
+    res.json({ success: true, data: bracket, message: "Bracket cancelled successfully" });
+  }),
+);
+
+export default router;
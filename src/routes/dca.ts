@@ -0,0 +1,138 @@
+import { omitBy } from "es-toolkit";
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { DcaStore, getDcaScheduler } from "../services/dca.js";
+import type { DcaPlan, DcaPlanUpdate } from "../types/dca.js";
+
+const router = Router();
+const dcaStore = new DcaStore();
+
+const CreateDcaPlanSchema = z.object({
+  symbol: z
+    .string()
+    .min(1, "symbol is required")
+    .transform((symbol) => symbol.toUpperCase()),
+  schedule: z.string().min(1, "schedule is required"),
+  quoteAmount: z.number().positive("quoteAmount must be a positive number"),
+  maxPrice: z.number().positive("maxPrice must be a positive number").nullable().default(null),
+});
+
+const UpdateDcaPlanSchema = z
+  .object({
+    schedule: z.string().min(1).optional(),
+    quoteAmount: z.number().positive().optional(),
+    maxPrice: z.number().positive().nullable().optional(),
+  })
+  .strict();
+
+const ExecutionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+function parseId(value: string | undefined): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError("DCA plan ID must be a positive integer", 400);
+  }
+  return id;
+}
+
+function found(id: number, plan: DcaPlan | undefined): DcaPlan {
+  if (!plan) {
+    throw new AppError(`DCA plan ${id} not found`, 404);
+  }
+  return plan;
+}
+
+// DCA plans, oldest first
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    res.json({ success: true, data: await dcaStore.listPlans() });
+  }),
+);
+
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    res.json({ success: true, data: found(id, await dcaStore.getPlan(id)) });
+  }),
+);
+
+// Create a recurring buy plan; the schedule is a cron expression in UTC
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const input = CreateDcaPlanSchema.parse(req.body);
+    const plan = await getDcaScheduler().create(input);
+    res.status(201).json({
+      success: true,
+      data: plan,
+      message: "DCA plan created successfully",
+    });
+  }),
+);
+
+router.patch(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const changes = UpdateDcaPlanSchema.parse(req.body);
+    const plan = await getDcaScheduler().update(
+      id,
+      omitBy(changes, (value) => value === undefined) as DcaPlanUpdate,
+    );
+    res.json({
+      success: true,
+      data: found(id, plan),
+      message: "DCA plan updated successfully",
+    });
+  }),
+);
+
+// Stop running a plan without losing its settings and history
+router.post(
+  "/:id/pause",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const plan = await getDcaScheduler().setActive(id, false);
+    res.json({ success: true, data: found(id, plan), message: "DCA plan paused" });
+  }),
+);
+
+// Resume at the next scheduled time; runs missed while paused are not caught up
+router.post(
+  "/:id/resume",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const plan = await getDcaScheduler().setActive(id, true);
+    res.json({ success: true, data: found(id, plan), message: "DCA plan resumed" });
+  }),
+);
+
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    if (!(await getDcaScheduler().delete(id))) {
+      throw new AppError(`DCA plan ${id} not found`, 404);
+    }
+    res.json({ success: true, message: "DCA plan deleted successfully" });
+  }),
+);
+
+// Execution history of a plan, newest first
+router.get(
+  "/:id/executions",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const { limit } = ExecutionQuerySchema.parse(req.query);
+    found(id, await dcaStore.getPlan(id));
+    res.json({ success: true, data: await dcaStore.listExecutions(id, limit) });
+  }),
+);
+
+export default router;
@@ -0,0 +1,79 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { getExportTimeZone } from "../config/env.js";
+import { asyncHandler } from "../middleware/errorHandler.js";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  exportFileName,
+  writeExport,
+} from "../services/dataExport.js";
+import { DateParam } from "../utils/date.js";
+
+const router = Router();
+
+const ExportQuerySchema = z
+  .object({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    columns: z
+      .string()
+      .transform((value) =>
+        value
+          .split(",")
+          .map((column) => column.trim())
+          .filter(Boolean),
+      )
+      .optional(),
+    timezone: z.string().optional(),
+    from: DateParam.optional(),
+    to: DateParam.optional(),
+  })
+  .refine((query) => query.from === undefined || query.to === undefined || query.from <= query.to, {
+    path: ["from"],
+    message: "from must not be after to",
+  });
+
+// Download trade history, positions or account assets as CSV, NDJSON or XLSX
+router.get(
+  "/:dataset",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const dataset = z.enum(EXPORT_DATASETS).parse(req.params.dataset);
+    const query = ExportQuerySchema.parse(req.query);
+
+    try {
+      await writeExport(
+        {
+          dataset,
+          format: query.format,
+          columns: query.columns,
+          timeZone: query.timezone ?? getExportTimeZone(),
+          from: query.from,
+          to: query.to,
+        },
+        res,
+        () => {
+          res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[query.format]);
+          res.setHeader(
+            "Content-Disposition",
+            `attachment; filename="${exportFileName(dataset, query.format)}"`,
+          );
+        },
+      );
+    } catch (error) {
+      if (!res.headersSent) {
+        throw error;
+      }
+      if (res.destroyed) {
+        // The client disconnected and the export stopped; there is nobody to tell
+        return;
+      }
+      // The download already started; abort it so the client sees a truncated transfer
+      console.error(`[${new Date().toISOString()}] Export of ${dataset} failed mid-stream:`, error);
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }),
+);
+
+export default router;
@@ -1,21 +1,24 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
 import { asyncHandler } from "../middleware/errorHandler.js";
+import { cryptoApi } from "../services/cryptoApi.js";
 
 const router = Router();
 
-// Health check endpoint - does not depend on external APIs
+// Health check endpoint - does not call external APIs, but reports the upstream circuit state
 router.get(
   "/",
   asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const circuit = cryptoApi.getCircuitStatus();
     res.json({
       success: true,
       data: {
-        status: "healthy",
+        status: circuit.state === "open" ? "degraded" : "healthy",
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         environment: process.env.NODE_ENV || "development",
-        apiAvailable: true,
+        apiAvailable: circuit.state !== "open",
+        circuit,
       },
     });
   }),
@@ -0,0 +1,41 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { asyncHandler } from "../middleware/errorHandler.js";
+import { getRiskEngine } from "../services/risk.js";
+
+const router = Router();
+
+const KillSwitchSchema = z.object({
+  active: z.boolean({ required_error: "active must be true or false" }),
+  reason: z.string().trim().min(1).max(256).optional(),
+});
+
+// Risk limits, kill switch state and the current order rate
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const status = await getRiskEngine().getStatus();
+    res.json({ success: true, data: status });
+  }),
+);
+
+// Halt or resume all new orders
+router.put(
+  "/kill-switch",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { active, reason } = KillSwitchSchema.parse(req.body);
+    const state = await getRiskEngine().setKillSwitch(active, {
+      reason,
+      actor: req.ip ?? null,
+      source: "api",
+    });
+    res.json({
+      success: true,
+      data: state,
+      message: active ? "Trading halted" : "Trading resumed",
+    });
+  }),
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import { getCacheOptions } from "../config/env.js";
+import { cacheControl } from "../middleware/cacheControl.js";
 import { asyncHandler } from "../middleware/errorHandler.js";
 import { cryptoApi } from "../services/cryptoApi.js";
 
@@ -8,6 +10,7 @@ const router = Router();
 // Get trade server information
 router.get(
   "/info",
+  cacheControl(getCacheOptions().ttls.serverInfo),
   asyncHandler(async (_req: Request, res: Response): Promise<void> => {
     const serverInfo = await cryptoApi.getServerInfo();
     res.json({
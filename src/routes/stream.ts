@@ -0,0 +1,125 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { getStreamOptions } from "../config/env.js";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { cryptoApi } from "../services/cryptoApi.js";
+import { formatStreamMessage, getStreamHub } from "../services/stream.js";
+import { STREAM_EVENTS, type StreamFilter } from "../types/stream.js";
+
+const router = Router();
+
+const MAX_SYMBOLS = 20;
+
+const commaList = z
+  .string()
+  .optional()
+  .transform((value) =>
+    (value ?? "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0),
+  );
+
+const StreamQuerySchema = z.object({
+  symbols: commaList
+    .transform((symbols) => [...new Set(symbols.map((symbol) => symbol.toUpperCase()))])
+    .pipe(z.array(z.string().regex(/^[A-Z0-9._-]+$/, "Invalid symbol")).max(MAX_SYMBOLS)),
+  events: commaList.pipe(z.array(z.enum(STREAM_EVENTS))),
+  lastEventId: z.coerce.number().int().nonnegative().optional(),
+});
+
+/**
+ * Reads the stream filter from the query; tick events need at least one
+ * symbol, trade events default to all symbols
+ */
+async function parseStreamFilter(query: unknown): Promise<StreamFilter> {
+  const { symbols, events } = StreamQuerySchema.parse(query);
+  const defaultEvents: StreamFilter["events"] =
+    symbols.length > 0 ? [...STREAM_EVENTS] : ["trades"];
+  const filter: StreamFilter = {
+    symbols,
+    events: events.length > 0 ? [...new Set(events)] : defaultEvents,
+  };
+
+  if (filter.events.includes("ticks") && symbols.length === 0) {
+    throw new AppError("At least one symbol is required for tick events", 400);
+  }
+  for (const symbol of symbols) {
+    if (!(await cryptoApi.getSymbol(symbol))) {
+      throw new AppError(`Symbol ${symbol} not found`, 404);
+    }
+  }
+  return filter;
+}
+
+/**
+ * Last-Event-ID header sent by reconnecting EventSource clients, or the
+ * lastEventId query parameter for clients that cannot set headers
+ */
+function parseLastEventId(req: Request): number | undefined {
+  const header = req.get("Last-Event-ID");
+  if (header !== undefined && /^\d+$/.test(header.trim())) {
+    return Number(header.trim());
+  }
+  return StreamQuerySchema.shape.lastEventId.parse(req.query.lastEventId);
+}
+
+// Server-Sent Events stream of ticks and trade updates
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const options = getStreamOptions();
+    const hub = getStreamHub();
+    const filter = await parseStreamFilter(req.query);
+    const lastEventId = parseLastEventId(req);
+
+    if (hub.clientCount >= options.maxClients) {
+      res.setHeader("Retry-After", "30");
+      throw new AppError("Too many stream clients, try again later", 503);
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    // Disable response buffering of nginx-style reverse proxies
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    res.write(`retry: ${options.pollIntervalMs}\n\n`);
+
+    if (lastEventId !== undefined) {
+      const replay = hub.replaySince(lastEventId, filter);
+      if (!replay.complete) {
+        // Some messages were missed; clients should reload state from the REST API
+        res.write(`event: reset\ndata: ${JSON.stringify({ lastEventId })}\n\n`);
+      }
+      for (const message of replay.messages) {
+        res.write(formatStreamMessage(message));
+      }
+    } else if (filter.events.includes("ticks")) {
+      // Start new clients with the latest known prices
+      for (const symbol of filter.symbols) {
+        const tick = hub.latestTick(symbol);
+        if (tick) {
+          res.write(`event: tick\ndata: ${JSON.stringify(tick)}\n\n`);
+        }
+      }
+    }
+
+    const unsubscribe = hub.subscribe(filter, (message) => {
+      res.write(formatStreamMessage(message));
+    });
+    const heartbeat = setInterval(() => {
+      res.write(`: heartbeat ${Date.now()}\n\n`);
+    }, options.heartbeatIntervalMs);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }),
+);
+
+export default router;
@@ -1,13 +1,63 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
+import { z } from "zod";
+import { getCacheOptions } from "../config/env.js";
+import { cacheControl } from "../middleware/cacheControl.js";
 import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { aggregateCandles, getTickRecorder } from "../services/candles.js";
 import { cryptoApi } from "../services/cryptoApi.js";
+import { computeIndicators, parseIndicatorSet } from "../services/indicators.js";
+import {
+  CANDLE_GAP_MODES,
+  CANDLE_INTERVALS,
+  CANDLE_PRICES,
+  type CandleInterval,
+  type MinuteBar,
+} from "../types/candles.js";
+import { DateParam } from "../utils/date.js";
 
 const router = Router();
+const { ttls } = getCacheOptions();
+
+const CandleQuerySchema = z
+  .object({
+    interval: z.enum(CANDLE_INTERVALS).default("1m"),
+    price: z.enum(CANDLE_PRICES).default("mid"),
+    gaps: z.enum(CANDLE_GAP_MODES).default("fill"),
+    from: DateParam.optional(),
+    to: DateParam.optional(),
+    limit: z.coerce.number().int().min(1).max(5000).default(500),
+  })
+  .refine((query) => query.from === undefined || query.to === undefined || query.from <= query.to, {
+    path: ["from"],
+    message: "from must not be after to",
+  });
+
+const IndicatorQuerySchema = z.object({
+  set: z.string({ required_error: "set is required, e.g. rsi:14,ema:50" }),
+  interval: z.enum(CANDLE_INTERVALS).default("1m"),
+  price: z.enum(CANDLE_PRICES).default("mid"),
+  to: DateParam.optional(),
+  limit: z.coerce.number().int().min(0).max(5000).default(100),
+});
+
+/**
+ * Bars recorded for a symbol, for candles of an interval
+ *
+ * @throws {AppError} 404 when the ticks of the symbol are not recorded
+ */
+async function getRecordedBars(symbol: string, interval: CandleInterval): Promise<MinuteBar[]> {
+  const recorder = getTickRecorder();
+  if (!recorder.isRecording(symbol)) {
+    throw new AppError(`Ticks of ${symbol} are not recorded; add it to CANDLE_SYMBOLS`, 404);
+  }
+  return recorder.getBars(symbol, interval);
+}
 
 // Get all symbols
 router.get(
   "/",
+  cacheControl(ttls.symbols),
   asyncHandler(async (_req: Request, res: Response): Promise<void> => {
     const symbols = await cryptoApi.getSymbols();
     res.json({
@@ -20,6 +70,7 @@ router.get(
 // Get symbol by name
 router.get(
   "/:symbol",
+  cacheControl(ttls.symbols),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { symbol } = req.params;
     if (!symbol) {
@@ -36,6 +87,7 @@ router.get(
 // Get ticks by name
 router.get(
   "/ticks/:symbol",
+  cacheControl(ttls.ticks),
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
     const { symbol } = req.params;
     if (!symbol) {
@@ -49,4 +101,54 @@ router.get(
   }),
 );
 
+// Get OHLC candles built from recorded ticks
+router.get(
+  "/:symbol/candles",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { symbol } = req.params;
+    if (!symbol) {
+      throw new AppError("Symbol is required", 400);
+    }
+    const { limit, ...query } = CandleQuerySchema.parse(req.query);
+
+    const candles = aggregateCandles(await getRecordedBars(symbol, query.interval), query);
+    res.json({
+      success: true,
+      data: candles.slice(-limit),
+    });
+  }),
+);
+
+// Get technical indicators over the candles of a symbol
+router.get(
+  "/:symbol/indicators",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { symbol } = req.params;
+    if (!symbol) {
+      throw new AppError("Symbol is required", 400);
+    }
+    const { set, interval, price, to, limit } = IndicatorQuerySchema.parse(req.query);
+    const specs = parseIndicatorSet(set);
+
+    // Indicators need evenly spaced candles, so gaps are always filled
+    const candles = aggregateCandles(await getRecordedBars(symbol, interval), {
+      interval,
+      price,
+      gaps: "fill",
+      to,
+    });
+    res.json({
+      success: true,
+      data: {
+        symbol,
+        interval,
+        price,
+        candles: candles.length,
+        time: candles.at(-1)?.time ?? null,
+        indicators: computeIndicators(candles, specs, limit),
+      },
+    });
+  }),
+);
+
 export default router;
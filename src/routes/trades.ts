@@ -2,25 +2,213 @@ import { Router } from "express";
 import type { Request, Response } from "express";
 import { z } from "zod";
 import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { recordAudit } from "../services/audit.js";
+import { getBracketManager, validateBracket } from "../services/brackets.js";
 import { cryptoApi } from "../services/cryptoApi.js";
+import { getRiskEngine } from "../services/risk.js";
+import { getTradeHistoryPage } from "../services/tradeHistory.js";
+import { validateTrade } from "../services/tradeValidator.js";
+import { publishWebhookEvent } from "../services/webhooks.js";
+import type { Bracket } from "../types/brackets.js";
+import { errorMessage } from "../utils/errors.js";
 
 const router = Router();
 
 // Validation schemas
-const CreateTradeSchema = z.object({
-  Symbol: z.string().min(1, "Symbol is required"),
-  Side: z.enum(["Buy", "Sell"], { required_error: "Side must be 'Buy' or 'Sell'" }),
-  Amount: z.string().min(1, "Amount is required"),
-});
+const DecimalString = (field: string) =>
+  z
+    .string()
+    .min(1, `${field} is required`)
+    .refine((val) => Number.isFinite(Number(val)) && Number(val) > 0, {
+      message: `${field} must be a positive number`,
+    });
+
+// Exit price of a bracket leg: an absolute price or a distance from the fill price in percent
+const BracketTargetSchema = (field: string) =>
+  z
+    .object({
+      Price: DecimalString(`${field}.Price`).optional(),
+      Percent: z.number().positive(`${field}.Percent must be a positive number`).optional(),
+    })
+    .strict()
+    .refine((target) => (target.Price === undefined) !== (target.Percent === undefined), {
+      message: `${field} needs either Price or Percent`,
+    })
+    .transform((target) =>
+      target.Price !== undefined
+        ? { price: Number(target.Price) }
+        : { percent: target.Percent as number },
+    );
+
+const CreateTradeSchema = z
+  .object({
+    Symbol: z.string().min(1, "Symbol is required"),
+    Side: z.enum(["Buy", "Sell"], { required_error: "Side must be 'Buy' or 'Sell'" }),
+    Type: z.enum(["Market", "Limit", "Stop", "StopLimit"]).default("Market"),
+    Amount: DecimalString("Amount"),
+    Price: DecimalString("Price").optional(),
+    StopPrice: DecimalString("StopPrice").optional(),
+    Expired: z.number().int().positive().optional(),
+    ImmediateOrCancel: z.boolean().optional(),
+    FillOrKill: z.boolean().optional(),
+    MarketWithSlippage: z.boolean().optional(),
+    Comment: z.string().max(512).optional(),
+    ClientId: z.string().min(1).max(64).optional(),
+    TakeProfit: BracketTargetSchema("TakeProfit").optional(),
+    StopLoss: BracketTargetSchema("StopLoss").optional(),
+  })
+  .superRefine((trade, ctx) => {
+    const requirePrice = trade.Type === "Limit" || trade.Type === "StopLimit";
+    const requireStopPrice = trade.Type === "Stop" || trade.Type === "StopLimit";
+
+    if (requirePrice && trade.Price === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["Price"],
+        message: `Price is required for ${trade.Type} orders`,
+      });
+    }
+    if (!requirePrice && trade.Price !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["Price"],
+        message: `Price is not allowed for ${trade.Type} orders`,
+      });
+    }
+    if (requireStopPrice && trade.StopPrice === undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["StopPrice"],
+        message: `StopPrice is required for ${trade.Type} orders`,
+      });
+    }
+    if (!requireStopPrice && trade.StopPrice !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["StopPrice"],
+        message: `StopPrice is not allowed for ${trade.Type} orders`,
+      });
+    }
+
+    // Time-in-force flags only make sense for orders that can rest on the book
+    if (trade.ImmediateOrCancel && trade.FillOrKill) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["FillOrKill"],
+        message: "ImmediateOrCancel and FillOrKill cannot be combined",
+      });
+    }
+    if (trade.ImmediateOrCancel && trade.Type !== "Limit" && trade.Type !== "StopLimit") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["ImmediateOrCancel"],
+        message: "ImmediateOrCancel is only allowed for Limit and StopLimit orders",
+      });
+    }
+    if (trade.FillOrKill && trade.Type !== "Limit") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["FillOrKill"],
+        message: "FillOrKill is only allowed for Limit orders",
+      });
+    }
+    // Brackets are priced from the fill of a market entry
+    for (const field of ["TakeProfit", "StopLoss"] as const) {
+      if (trade[field] !== undefined && trade.Type !== "Market") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `${field} is only allowed for Market orders`,
+        });
+      }
+    }
+    if (trade.MarketWithSlippage && trade.Type !== "Market") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["MarketWithSlippage"],
+        message: "MarketWithSlippage is only allowed for Market orders",
+      });
+    }
+
+    if (trade.Expired !== undefined) {
+      if (trade.Type === "Market") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["Expired"],
+          message: "Expired is not allowed for Market orders",
+        });
+      } else if (trade.ImmediateOrCancel || trade.FillOrKill) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["Expired"],
+          message: "Expired cannot be combined with ImmediateOrCancel or FillOrKill",
+        });
+      } else if (trade.Expired <= Date.now()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["Expired"],
+          message: "Expired must be a timestamp in the future",
+        });
+      }
+    }
+  });
+
+const ModifyTradeSchema = z
+  .object({
+    Amount: DecimalString("Amount").optional(),
+    Price: DecimalString("Price").optional(),
+    StopPrice: DecimalString("StopPrice").optional(),
+    Expired: z
+      .number()
+      .int()
+      .positive()
+      .refine((val) => val > Date.now(), { message: "Expired must be a timestamp in the future" })
+      .optional(),
+    Comment: z.string().max(512).optional(),
+  })
+  .refine((changes) => Object.values(changes).some((value) => value !== undefined), {
+    message: "At least one of Amount, Price, StopPrice, Expired or Comment must be provided",
+  });
+
+const TradeHistorySchema = z
+  .object({
+    TimestampFrom: z.number().int().nonnegative().optional(),
+    TimestampTo: z.number().int().nonnegative().optional(),
+    OrderId: z.number().int().positive().optional(),
+    SkipCancelOrder: z.boolean().optional(),
+    RequestDirection: z.enum(["Forwards", "Backwards"]).default("Backwards"),
+    Symbol: z
+      .string()
+      .min(1)
+      .transform((symbol) => symbol.toUpperCase())
+      .optional(),
+    Side: z.enum(["Buy", "Sell"]).optional(),
+    Type: z.enum(["Market", "Limit", "Stop", "StopLimit"]).optional(),
+    Limit: z.number().int().min(1).max(500).default(100),
+    Cursor: z.string().min(1).optional(),
+  })
+  .refine(
+    (query) =>
+      query.TimestampFrom === undefined ||
+      query.TimestampTo === undefined ||
+      query.TimestampFrom <= query.TimestampTo,
+    { path: ["TimestampFrom"], message: "TimestampFrom must not be after TimestampTo" },
+  );
 
-// Get trade history with optional filters
+// Get trade history with optional filters, one cursor page at a time
 router.post(
   "/history",
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const trades = await cryptoApi.getTradesHistory(req.body);
+    const { Limit, Cursor, ...query } = TradeHistorySchema.parse(req.body ?? {});
+    const page = await getTradeHistoryPage(query, Limit, Cursor);
     res.json({
       success: true,
-      data: trades,
+      data: page.trades,
+      pagination: {
+        limit: Limit,
+        nextCursor: page.nextCursor,
+        hasMore: page.nextCursor !== null,
+      },
     });
   }),
 );
@@ -37,15 +225,57 @@ router.get(
   }),
 );
 
-// Create new trade
+// Create new trade (pass ?round=true to snap amount and prices to the symbol grid,
+// an Idempotency-Key header or ClientId to make the request safe to retry, and
+// TakeProfit/StopLoss to place linked exit orders once it fills)
 router.post(
   "/",
   asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const validatedData = CreateTradeSchema.parse(req.body);
-    const trade = await cryptoApi.createTrade(validatedData);
+    const { TakeProfit, StopLoss, ...validatedData } = CreateTradeSchema.parse({
+      ...req.body,
+      // An Idempotency-Key header doubles as the upstream ClientId
+      ClientId: req.body?.ClientId ?? req.get("Idempotency-Key"),
+    });
+    const { trade: checkedTrade, adjustments } = await validateTrade(validatedData, {
+      round: req.query.round === "true",
+    });
+    const targets = { takeProfit: TakeProfit, stopLoss: StopLoss };
+    const bracketed = TakeProfit !== undefined || StopLoss !== undefined;
+    if (bracketed) {
+      await validateBracket(checkedTrade, targets);
+    }
+    const trade = await getRiskEngine().placeTrade(checkedTrade, () =>
+      cryptoApi.createTrade(checkedTrade),
+    );
+    await recordAudit({
+      action: "trade.create",
+      source: "api",
+      actor: req.ip ?? null,
+      tradeId: trade.Id,
+      details: { ...checkedTrade },
+    });
+    publishWebhookEvent("trade.created", trade);
+    // The order exists at this point, so a failed bracket must not turn into an
+    // error response that a client would answer by placing the order again
+    let bracket: Bracket | undefined;
+    let bracketError: string | undefined;
+    if (bracketed) {
+      try {
+        bracket = await getBracketManager().attach(trade, targets);
+      } catch (error) {
+        bracketError = errorMessage(error);
+        console.error(
+          `[${new Date().toISOString()}] Attaching the bracket of trade ${trade.Id} failed:`,
+          bracketError,
+        );
+      }
+    }
     res.status(201).json({
       success: true,
       data: trade,
+      ...(adjustments.length > 0 && { adjustments }),
+      ...(bracket && { bracket }),
+      ...(bracketError !== undefined && { bracketError }),
     });
   }),
 );
@@ -66,6 +296,34 @@ router.get(
   }),
 );
 
+// Modify pending order; the changed order goes through the risk limits
+router.put(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new AppError("Trade ID must be a positive integer", 400);
+    }
+    const changes = ModifyTradeSchema.parse(req.body);
+    const order = await cryptoApi.getTrade(String(id));
+    const trade = await getRiskEngine().modifyTrade(order, changes, () =>
+      cryptoApi.modifyTrade({ Id: id, ...changes }),
+    );
+    await recordAudit({
+      action: "trade.modify",
+      source: "api",
+      actor: req.ip ?? null,
+      tradeId: trade.Id,
+      details: { ...changes },
+    });
+    res.json({
+      success: true,
+      data: trade,
+      message: "Trade modified successfully",
+    });
+  }),
+);
+
 // Cancel or close existing trade
 router.delete(
   "/:id",
@@ -75,6 +333,13 @@ router.delete(
       throw new AppError("Trade ID is required", 400);
     }
     const trade = await cryptoApi.cancelTrade(id);
+    await recordAudit({
+      action: "trade.cancel",
+      source: "api",
+      actor: req.ip ?? null,
+      tradeId: trade.Id,
+      details: {},
+    });
     res.json({
       success: true,
       data: trade,
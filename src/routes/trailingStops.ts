@@ -0,0 +1,95 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import { TrailingStopStore, getTrailingStopManager } from "../services/trailingStops.js";
+import { TRAILING_STOP_STATUSES } from "../types/trailingStops.js";
+
+const router = Router();
+const trailingStopStore = new TrailingStopStore();
+
+const TrailingStopQuerySchema = z.object({
+  status: z.enum(TRAILING_STOP_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+const PositiveNumber = (field: string) => z.number().positive(`${field} must be a positive number`);
+
+const CreateTrailingStopSchema = z.object({
+  symbol: z
+    .string()
+    .min(1, "symbol is required")
+    .transform((symbol) => symbol.toUpperCase()),
+  distance: z.union(
+    [
+      z.object({ price: PositiveNumber("distance.price") }).strict(),
+      z
+        .object({
+          percent: PositiveNumber("distance.percent").lt(100, "distance.percent must be below 100"),
+        })
+        .strict(),
+      z.object({ atr: PositiveNumber("distance.atr") }).strict(),
+    ],
+    { errorMap: () => ({ message: "distance needs exactly one of price, percent or atr" }) },
+  ),
+  amount: PositiveNumber("amount").optional(),
+});
+
+function parseId(value: string | undefined): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError("Trailing stop ID must be a positive integer", 400);
+  }
+  return id;
+}
+
+// Trailing stops, newest first
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { status, limit } = TrailingStopQuerySchema.parse(req.query);
+    const stops = (await trailingStopStore.list(status)).slice(0, limit);
+    res.json({ success: true, data: stops });
+  }),
+);
+
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const stop = await trailingStopStore.get(id);
+    if (!stop) {
+      throw new AppError(`Trailing stop ${id} not found`, 404);
+    }
+    res.json({ success: true, data: stop });
+  }),
+);
+
+// Place a Stop order behind an open position and move it after the price
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const input = CreateTrailingStopSchema.parse(req.body);
+    const stop = await getTrailingStopManager().create(input);
+    res.status(201).json({
+      success: true,
+      data: stop,
+      message: "Trailing stop created successfully",
+    });
+  }),
+);
+
+// Cancel the Stop order of a trailing stop; the position is left alone
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const id = parseId(req.params.id);
+    const stop = await getTrailingStopManager().cancel(id);
+    if (!stop) {
+      throw new AppError(`Trailing stop ${id} not found`, 404);
+    }
+    res.json({ success: true, data: stop, message: "Trailing stop cancelled successfully" });
+  }),
+);
+
+export default router;
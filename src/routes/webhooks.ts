@@ -0,0 +1,179 @@
+import { omitBy } from "es-toolkit";
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { z } from "zod";
+import { AppError, asyncHandler } from "../middleware/errorHandler.js";
+import {
+  generateWebhookSecret,
+  getWebhookDispatcher,
+  webhookStore,
+  withoutSecret,
+} from "../services/webhooks.js";
+import { WEBHOOK_EVENTS, type WebhookSubscription } from "../types/webhooks.js";
+
+const router = Router();
+
+const WebhookUrl = z
+  .string()
+  .url()
+  .refine((url) => /^https?:\/\//i.test(url), { message: "url must use http or https" });
+
+const WebhookEvents = z.array(z.enum(WEBHOOK_EVENTS)).min(1, "At least one event is required");
+
+const CreateWebhookSchema = z.object({
+  url: WebhookUrl,
+  events: WebhookEvents,
+  secret: z.string().min(16, "secret must have at least 16 characters").optional(),
+  active: z.boolean().default(true),
+  description: z.string().max(200).nullable().default(null),
+});
+
+const UpdateWebhookSchema = z
+  .object({
+    url: WebhookUrl.optional(),
+    events: WebhookEvents.optional(),
+    active: z.boolean().optional(),
+    description: z.string().max(200).nullable().optional(),
+    rotateSecret: z.boolean().optional(),
+  })
+  .strict();
+
+const DeliveryQuerySchema = z.object({
+  status: z.enum(["pending", "delivered", "dead"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const DeadLetterQuerySchema = z.object({
+  subscriptionId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+function parseId(param: string | undefined, name: string): number {
+  const id = Number(param);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new AppError(`${name} ID must be a positive integer`, 400);
+  }
+  return id;
+}
+
+async function findSubscription(param: string | undefined): Promise<WebhookSubscription> {
+  const id = parseId(param, "Webhook");
+  const subscription = await webhookStore.getSubscription(id);
+  if (!subscription) {
+    throw new AppError(`Webhook ${id} not found`, 404);
+  }
+  return subscription;
+}
+
+// List webhook subscriptions (secrets are not included)
+router.get(
+  "/",
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const subscriptions = await webhookStore.listSubscriptions();
+    res.json({ success: true, data: subscriptions.map(withoutSecret) });
+  }),
+);
+
+// Create a subscription; the response is the only one that contains the secret
+router.post(
+  "/",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const input = CreateWebhookSchema.parse(req.body);
+    const subscription = await webhookStore.createSubscription(input);
+    res.status(201).json({
+      success: true,
+      data: subscription,
+      message: "Webhook created successfully",
+    });
+  }),
+);
+
+// Failed deliveries of all subscriptions, newest first
+router.get(
+  "/dead-letters",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const { subscriptionId, limit } = DeadLetterQuerySchema.parse(req.query);
+    const deliveries = await webhookStore.listDeliveries({ subscriptionId, status: "dead" });
+    res.json({ success: true, data: deliveries.slice(0, limit) });
+  }),
+);
+
+// Get a single subscription
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findSubscription(req.params.id);
+    res.json({ success: true, data: withoutSecret(subscription) });
+  }),
+);
+
+// Change a subscription; rotateSecret returns a new secret
+router.patch(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findSubscription(req.params.id);
+    const { rotateSecret, ...changes } = UpdateWebhookSchema.parse(req.body);
+    const updated = await webhookStore.updateSubscription(subscription.id, {
+      ...(omitBy(changes, (value) => value === undefined) as Partial<WebhookSubscription>),
+      ...(rotateSecret && { secret: generateWebhookSecret() }),
+    });
+    res.json({
+      success: true,
+      data: updated && (rotateSecret ? updated : withoutSecret(updated)),
+      message: "Webhook updated successfully",
+    });
+  }),
+);
+
+// Delete a subscription and its delivery log
+router.delete(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findSubscription(req.params.id);
+    await webhookStore.deleteSubscription(subscription.id);
+    res.json({
+      success: true,
+      data: withoutSecret(subscription),
+      message: "Webhook deleted successfully",
+    });
+  }),
+);
+
+// Delivery log of a subscription, newest first
+router.get(
+  "/:id/deliveries",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findSubscription(req.params.id);
+    const { status, limit } = DeliveryQuerySchema.parse(req.query);
+    const deliveries = await webhookStore.listDeliveries({
+      subscriptionId: subscription.id,
+      status,
+    });
+    res.json({ success: true, data: deliveries.slice(0, limit) });
+  }),
+);
+
+// Send the event of an earlier delivery again, e.g. from the dead-letter list
+router.post(
+  "/:id/deliveries/:deliveryId/replay",
+  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findSubscription(req.params.id);
+    const deliveryId = parseId(req.params.deliveryId, "Delivery");
+    const delivery = await webhookStore.getDelivery(deliveryId);
+    if (!delivery || delivery.subscriptionId !== subscription.id) {
+      throw new AppError(`Delivery ${deliveryId} not found`, 404);
+    }
+
+    const replayed = await getWebhookDispatcher().replay(delivery);
+    res.status(201).json({
+      success: true,
+      data: replayed,
+      message:
+        replayed.status === "delivered"
+          ? "Delivery replayed successfully"
+          : "Delivery replay queued",
+    });
+  }),
+);
+
+export default router;
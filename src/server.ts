@@ -2,12 +2,26 @@ import "./config/env.js"; // Load environment variables first
 import app from "./app.js";
 import { telegramBot } from "./bot/telegramBot.js";
 import { env } from "./config/env.js";
+import { getBracketManager } from "./services/brackets.js";
+import { getTickRecorder } from "./services/candles.js";
+import { getDcaScheduler } from "./services/dca.js";
+import { getOrderWatcher } from "./services/orderNotifications.js";
+import { getDataStore } from "./services/storage.js";
+import { getTrailingStopManager } from "./services/trailingStops.js";
+import { getWebhookDispatcher } from "./services/webhooks.js";
 
 // Graceful shutdown handler
 const shutdown = async (signal: string): Promise<void> => {
   console.log(`\n🛑 Received ${signal}. Starting graceful shutdown...`);
 
   try {
+    getWebhookDispatcher().stop();
+    getBracketManager().stop();
+    getTrailingStopManager().stop();
+    getDcaScheduler().stop();
+    getOrderWatcher().stop();
+    getTickRecorder().stop();
+
     // Stop Telegram bot (if it was running)
     try {
       await telegramBot.stop();
@@ -46,12 +60,33 @@ const startApp = async (): Promise<void> => {
     console.log(`📊 Environment: ${env.NODE_ENV}`);
     console.log(`🌐 Port: ${env.PORT}`);
 
+    // Load and migrate the data store, so an unreadable store stops the start
+    await getDataStore().open();
+
     // Start Express server
     const server = app.listen(env.PORT, () => {
       console.log(`🚀 Express server running on port ${env.PORT}`);
       console.log(`📡 API available at http://localhost:${env.PORT}/api`);
     });
 
+    // Deliver webhook retries and account change events in the background
+    getWebhookDispatcher().start();
+
+    // Place and cancel the exit orders of take-profit and stop-loss brackets
+    getBracketManager().start();
+
+    // Move the Stop orders of trailing stops after the price
+    getTrailingStopManager().start();
+
+    // Detect fills and cancellations for webhooks and /notify, with or without the bot
+    getOrderWatcher().start();
+
+    // Place the recurring buys of DCA plans
+    getDcaScheduler().start();
+
+    // Record ticks of CANDLE_SYMBOLS for the candle endpoint
+    getTickRecorder().start();
+
     // Start Telegram bot (non-blocking)
     try {
       await telegramBot.start();
@@ -0,0 +1,68 @@
+import type { Asset, Position } from "../types/api.js";
+
+export interface PositionChange {
+  symbol: string;
+  /** Null when the position was opened */
+  previous: Position | null;
+  /** Null when the position was closed */
+  current: Position | null;
+}
+
+export interface BalanceChange {
+  currency: string;
+  previous: Asset | null;
+  current: Asset | null;
+}
+
+function isOpen(position: Position): boolean {
+  return position.LongAmount !== 0 || position.ShortAmount !== 0;
+}
+
+/**
+ * Compares two position snapshots by symbol
+ *
+ * Only amounts and entry prices count as a change; profit, margin and current
+ * prices move with every tick and are ignored.
+ *
+ * @example
+ * ```typescript
+ * diffPositions([], [btcPosition]) // [{ symbol: "BTCUSD", previous: null, current: btcPosition }]
+ * ```
+ */
+export function diffPositions(previous: Position[], current: Position[]): PositionChange[] {
+  const before = new Map(previous.filter(isOpen).map((position) => [position.Symbol, position]));
+  const after = new Map(current.filter(isOpen).map((position) => [position.Symbol, position]));
+  const symbols = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  return symbols.flatMap((symbol) => {
+    const old = before.get(symbol) ?? null;
+    const now = after.get(symbol) ?? null;
+    const unchanged =
+      old !== null &&
+      now !== null &&
+      old.LongAmount === now.LongAmount &&
+      old.LongPrice === now.LongPrice &&
+      old.ShortAmount === now.ShortAmount &&
+      old.ShortPrice === now.ShortPrice;
+    return unchanged ? [] : [{ symbol, previous: old, current: now }];
+  });
+}
+
+/**
+ * Compares two balance snapshots by currency; conversion rates are ignored
+ */
+export function diffBalances(previous: Asset[], current: Asset[]): BalanceChange[] {
+  const before = new Map(previous.map((asset) => [asset.Currency, asset]));
+  const after = new Map(current.map((asset) => [asset.Currency, asset]));
+  const currencies = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  return currencies.flatMap((currency) => {
+    const old = before.get(currency) ?? null;
+    const now = after.get(currency) ?? null;
+    const unchanged =
+      (old?.Amount ?? 0) === (now?.Amount ?? 0) &&
+      (old?.FreeAmount ?? 0) === (now?.FreeAmount ?? 0) &&
+      (old?.LockedAmount ?? 0) === (now?.LockedAmount ?? 0);
+    return unchanged ? [] : [{ currency, previous: old, current: now }];
+  });
+}
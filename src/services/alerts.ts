@@ -0,0 +1,316 @@
+import { getAlertOptions } from "../config/env.js";
+import { AppError } from "../middleware/errorHandler.js";
+import type { PriceAlert, PriceAlertInput, PriceAlertUpdate } from "../types/alerts.js";
+import type { TradingTick } from "../types/api.js";
+import { IntervalTask } from "../utils/async.js";
+import { errorMessage } from "../utils/errors.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { type DataStore, getDataStore } from "./storage.js";
+
+export interface AlertOptions {
+  /** Interval between two evaluation rounds */
+  pollIntervalMs: number;
+  /** Cooldown of repeating alerts when none is given */
+  defaultCooldownMs: number;
+  /** Maximum number of alerts per chat */
+  maxPerChat: number;
+}
+
+const ALERTS = "alerts";
+
+/**
+ * Price alerts kept in the app data store
+ */
+export class AlertStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the app-wide store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getDataStore;
+  }
+
+  async create(alert: Omit<PriceAlert, "id">): Promise<PriceAlert> {
+    const store = this.getStore();
+    const created = { ...alert, id: await store.nextId(ALERTS) };
+    await store.set(ALERTS, String(created.id), created);
+    return created;
+  }
+
+  async get(id: number): Promise<PriceAlert | undefined> {
+    return this.getStore().get<PriceAlert>(ALERTS, String(id));
+  }
+
+  /** Lists alerts, optionally only those of one chat, oldest first */
+  async list(chatId?: number): Promise<PriceAlert[]> {
+    const records = await this.getStore().list<PriceAlert>(ALERTS);
+    return records
+      .map((record) => record.value)
+      .filter((alert) => chatId === undefined || alert.chatId === chatId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async update(id: number, changes: PriceAlertUpdate): Promise<PriceAlert | undefined> {
+    const alert = await this.get(id);
+    if (!alert) {
+      return undefined;
+    }
+    const updated = { ...alert, ...changes };
+    await this.getStore().set(ALERTS, String(id), updated);
+    return updated;
+  }
+
+  async delete(id: number): Promise<boolean> {
+    return this.getStore().delete(ALERTS, String(id));
+  }
+}
+
+export const alertStore = new AlertStore();
+
+/**
+ * Price alerts are evaluated against the mid price between bid and ask
+ */
+export function midPrice(tick: TradingTick): number {
+  return (tick.BestBid.Price + tick.BestAsk.Price) / 2;
+}
+
+export interface AlertEvaluation {
+  fired: boolean;
+  /** Changes to the alert; only `lastPrice` when it did not fire */
+  changes: PriceAlertUpdate;
+}
+
+/**
+ * Checks an alert against the current price
+ *
+ * Pure function. A fired alert is deactivated unless it repeats; repeating
+ * alerts stay silent until their cooldown has passed, and change alerts
+ * measure the next move from the price they fired at.
+ *
+ * @example
+ * ```typescript
+ * evaluateAlert({ ...alert, condition: "above", value: 65000 }, 65100, Date.now())
+ * // { fired: true, changes: { lastPrice: 65100, lastTriggeredAt: ..., triggerCount: 1, active: false } }
+ * ```
+ */
+export function evaluateAlert(alert: PriceAlert, price: number, now: number): AlertEvaluation {
+  const changes: PriceAlertUpdate = { lastPrice: price };
+  const coolingDown =
+    alert.lastTriggeredAt !== null && now - alert.lastTriggeredAt < alert.cooldownMs;
+
+  if (!alert.active || coolingDown) {
+    return { fired: false, changes };
+  }
+
+  let reached: boolean;
+  switch (alert.condition) {
+    case "above":
+      reached = price >= alert.value;
+      break;
+    case "below":
+      reached = price <= alert.value;
+      break;
+    case "cross":
+      reached =
+        alert.lastPrice !== null &&
+        ((alert.lastPrice < alert.value && price >= alert.value) ||
+          (alert.lastPrice > alert.value && price <= alert.value));
+      break;
+    case "change":
+      reached =
+        alert.basePrice !== null &&
+        alert.basePrice > 0 &&
+        (Math.abs(price - alert.basePrice) / alert.basePrice) * 100 >= alert.value;
+      break;
+  }
+
+  if (!reached) {
+    return { fired: false, changes };
+  }
+
+  return {
+    fired: true,
+    changes: {
+      ...changes,
+      lastTriggeredAt: now,
+      triggerCount: alert.triggerCount + 1,
+      active: alert.repeat,
+      ...(alert.condition === "change" && { basePrice: price }),
+    },
+  };
+}
+
+/**
+ * Creates an alert after checking the symbol and the per-chat limit
+ *
+ * The current price is recorded as the reference of change alerts and as
+ * the starting point of cross alerts.
+ *
+ * @throws {AppError} 404 for unknown symbols, 409 when the chat has too many alerts
+ */
+export async function createPriceAlert(
+  input: PriceAlertInput,
+  store: AlertStore = alertStore,
+  options: AlertOptions = getAlertOptions(),
+): Promise<PriceAlert> {
+  const existing = await store.list(input.chatId);
+  if (existing.length >= options.maxPerChat) {
+    throw new AppError(
+      `Alert limit reached (${options.maxPerChat} per chat); remove an alert first`,
+      409,
+    );
+  }
+
+  const symbol = await cryptoApi.getSymbol(input.symbol).catch((error: unknown) => {
+    if (error instanceof AppError && error.statusCode === 404) {
+      return undefined;
+    }
+    throw error;
+  });
+  if (!symbol) {
+    throw new AppError(`Symbol ${input.symbol} not found`, 404);
+  }
+
+  const [tick] = await cryptoApi.getTick(input.symbol);
+  const price = tick ? midPrice(tick) : null;
+
+  return store.create({
+    ...input,
+    active: true,
+    basePrice: price,
+    lastPrice: price,
+    lastTriggeredAt: null,
+    triggerCount: 0,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Receives fired alerts, e.g. to send a Telegram message to the owning chat
+ */
+export type AlertNotifier = (alert: PriceAlert, price: number) => Promise<void>;
+
+/**
+ * Background job that polls ticks for every symbol with an active alert
+ *
+ * The price seen by the previous round is kept in memory, so an alert is only
+ * written to the store when it fires. After a restart cross alerts compare
+ * against the price stored when they were created or last fired.
+ *
+ * @example
+ * ```typescript
+ * const evaluator = new AlertEvaluator(alertStore, (alert, price) => notifyChat(alert, price));
+ * evaluator.start();
+ * ```
+ */
+export class AlertEvaluator {
+  private readonly store: AlertStore;
+  private readonly notify: AlertNotifier;
+  private readonly fetchTick: (symbol: string) => Promise<TradingTick | undefined>;
+  private readonly now: () => number;
+  // Price seen by the previous round, by alert ID
+  private readonly lastPrices = new Map<number, number>();
+  private readonly poller: IntervalTask;
+  private running = false;
+
+  /**
+   * @param store - Alerts to evaluate
+   * @param notify - Called for every alert that fires
+   * @param intervalMs - Time between two evaluation rounds
+   * @param fetchTick - Tick source, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    store: AlertStore,
+    notify: AlertNotifier,
+    intervalMs: number = getAlertOptions().pollIntervalMs,
+    fetchTick: (symbol: string) => Promise<TradingTick | undefined> = async (symbol) =>
+      (await cryptoApi.getTick(symbol))[0],
+    now: () => number = Date.now,
+  ) {
+    this.store = store;
+    this.notify = notify;
+    this.fetchTick = fetchTick;
+    this.now = now;
+    this.poller = new IntervalTask("Alert evaluation", intervalMs, async () => {
+      await this.evaluate();
+    });
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Runs one evaluation round. Rounds do not overlap: a call while another
+   * round is still running returns immediately.
+   *
+   * @returns Number of alerts that fired
+   */
+  async evaluate(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const alerts = (await this.store.list()).filter((alert) => alert.active);
+      const symbols = [...new Set(alerts.map((alert) => alert.symbol))];
+      let fired = 0;
+
+      // Forget deleted and deactivated alerts
+      const ids = new Set(alerts.map((alert) => alert.id));
+      for (const id of this.lastPrices.keys()) {
+        if (!ids.has(id)) {
+          this.lastPrices.delete(id);
+        }
+      }
+
+      for (const symbol of symbols) {
+        let tick: TradingTick | undefined;
+        try {
+          tick = await this.fetchTick(symbol);
+        } catch (error) {
+          console.warn(
+            `[${new Date().toISOString()}] Alert evaluation skipped for ${symbol}:`,
+            errorMessage(error),
+          );
+          continue;
+        }
+        if (!tick) {
+          continue;
+        }
+
+        const price = midPrice(tick);
+        for (const alert of alerts.filter((candidate) => candidate.symbol === symbol)) {
+          const lastPrice = this.lastPrices.get(alert.id) ?? alert.lastPrice;
+          const evaluation = evaluateAlert({ ...alert, lastPrice }, price, this.now());
+          this.lastPrices.set(alert.id, price);
+          if (!evaluation.fired) {
+            continue;
+          }
+
+          const updated = await this.store.update(alert.id, evaluation.changes);
+          if (updated) {
+            fired++;
+            await this.notify(updated, price).catch((error: unknown) => {
+              console.error(
+                `[${new Date().toISOString()}] Failed to deliver alert ${alert.id}:`,
+                errorMessage(error),
+              );
+            });
+          }
+        }
+      }
+
+      return fired;
+    } finally {
+      this.running = false;
+    }
+  }
+}
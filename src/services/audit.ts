@@ -0,0 +1,45 @@
+import type { AuditEntry } from "../types/audit.js";
+import { type DataStore, getDataStore } from "./storage.js";
+
+const AUDIT = "audit";
+
+/**
+ * Appends an entry to the audit log
+ *
+ * Never throws: the action being audited already happened, so a storage
+ * failure is logged instead of failing the request.
+ *
+ * @example
+ * ```typescript
+ * await recordAudit({ action: "trade.cancel", source: "api", actor: req.ip ?? null, tradeId: 42, details: {} });
+ * ```
+ */
+export async function recordAudit(
+  entry: Omit<AuditEntry, "id" | "timestamp">,
+  store: DataStore = getDataStore(),
+): Promise<void> {
+  try {
+    const id = await store.nextId(AUDIT);
+    await store.set<AuditEntry>(AUDIT, String(id), { ...entry, id, timestamp: Date.now() });
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Failed to record audit entry:`, {
+      action: entry.action,
+      tradeId: entry.tradeId,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+/**
+ * Lists the most recent audit entries, newest first
+ */
+export async function listAudit(
+  limit = 100,
+  store: DataStore = getDataStore(),
+): Promise<AuditEntry[]> {
+  const records = await store.list<AuditEntry>(AUDIT);
+  return records
+    .map((record) => record.value)
+    .sort((a, b) => b.id - a.id)
+    .slice(0, limit);
+}
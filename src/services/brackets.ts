@@ -0,0 +1,464 @@
+import { getBracketOptions } from "../config/env.js";
+import { AppError } from "../middleware/errorHandler.js";
+import type { CreateTradeRequest, Trade, TradingSide } from "../types/api.js";
+import type {
+  Bracket,
+  BracketLeg,
+  BracketLegKind,
+  BracketStatus,
+  BracketTarget,
+} from "../types/brackets.js";
+import type { TradeViolation } from "../types/trading.js";
+import { IntervalTask, createLock } from "../utils/async.js";
+import { formatDecimal, roundToPrecision } from "../utils/decimal.js";
+import { errorMessage, isRetryableError } from "../utils/errors.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { type DataStore, getDataStore } from "./storage.js";
+import { getFillPrice, getLatestOrders } from "./tradeHistory.js";
+import { TradeValidationError } from "./tradeValidator.js";
+import { publishWebhookEvent } from "./webhooks.js";
+
+export interface BracketOptions {
+  /** Interval between two checks of the entry and exit orders */
+  pollIntervalMs: number;
+}
+
+/**
+ * Take-profit and stop-loss requested with an entry order; at least one is set
+ */
+export interface BracketTargets {
+  takeProfit?: BracketTarget | undefined;
+  stopLoss?: BracketTarget | undefined;
+}
+
+const COLLECTION = "brackets";
+const OPEN_STATUSES: BracketStatus[] = ["pending", "active"];
+const LEG_KINDS: BracketLegKind[] = ["takeProfit", "stopLoss"];
+const LEG_LABELS: Record<BracketLegKind, string> = {
+  takeProfit: "take-profit",
+  stopLoss: "stop-loss",
+};
+const LEG_FIELDS = { takeProfit: "TakeProfit", stopLoss: "StopLoss" } as const;
+
+/**
+ * Parses a bracket target typed by a user: a price, or a percentage ending in "%"
+ *
+ * @example
+ * ```typescript
+ * parseBracketTarget("2.5%") // { percent: 2.5 }
+ * parseBracketTarget("64000") // { price: 64000 }
+ * ```
+ */
+export function parseBracketTarget(text: string): BracketTarget | undefined {
+  const trimmed = text.trim().replace(",", ".");
+  const percent = trimmed.endsWith("%");
+  const value = Number(percent ? trimmed.slice(0, -1) : trimmed);
+  if (trimmed === "" || trimmed === "%" || !Number.isFinite(value) || value <= 0) {
+    return undefined;
+  }
+  return percent ? { percent: value } : { price: value };
+}
+
+export function formatBracketTarget(target: BracketTarget): string {
+  return "percent" in target ? `${target.percent}%` : String(target.price);
+}
+
+/**
+ * Price of an exit order, rounded to the symbol precision
+ *
+ * @param side - Side of the entry order
+ * @param entryPrice - Fill price of the entry, the base of percentage targets
+ */
+export function resolveBracketPrice(
+  kind: BracketLegKind,
+  target: BracketTarget,
+  side: TradingSide,
+  entryPrice: number,
+  precision: number,
+): number {
+  if ("price" in target) {
+    return roundToPrecision(target.price, precision);
+  }
+  // Take-profit lies above a long entry and below a short one, stop-loss the other way round
+  const direction = (kind === "takeProfit") === (side === "Buy") ? 1 : -1;
+  return roundToPrecision(entryPrice * (1 + (direction * target.percent) / 100), precision);
+}
+
+/**
+ * Checks bracket targets against the entry side
+ *
+ * Pure function. Percentages must be below 100; absolute prices must lie on
+ * the correct side of the reference price when one is known.
+ *
+ * @param referencePrice - Expected entry price, the current touch
+ */
+export function checkBracketTargets(
+  side: TradingSide,
+  targets: BracketTargets,
+  referencePrice?: number | undefined,
+): TradeViolation[] {
+  const violations: TradeViolation[] = [];
+
+  for (const kind of LEG_KINDS) {
+    const target = targets[kind];
+    if (!target) {
+      continue;
+    }
+    const field = LEG_FIELDS[kind];
+
+    if ("percent" in target) {
+      if (!(target.percent > 0 && target.percent < 100)) {
+        violations.push({
+          rule: "BRACKET_PRICE",
+          field,
+          message: `${field} percent must be between 0 and 100`,
+        });
+      }
+      continue;
+    }
+
+    if (referencePrice === undefined) {
+      continue;
+    }
+    const above = (kind === "takeProfit") === (side === "Buy");
+    if (above ? target.price <= referencePrice : target.price >= referencePrice) {
+      violations.push({
+        rule: "BRACKET_PRICE",
+        field,
+        message: `${field} of a ${side} order must be ${above ? "above" : "below"} the entry price ${referencePrice}`,
+        limit: referencePrice,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Checks the bracket of a market entry order against the current touch
+ *
+ * @throws TradeValidationError (422) listing every invalid target
+ */
+export async function validateBracket(
+  trade: CreateTradeRequest,
+  targets: BracketTargets,
+): Promise<void> {
+  const [tick] = await cryptoApi.getTick(trade.Symbol).catch(() => []);
+  const referencePrice = trade.Side === "Buy" ? tick?.BestAsk.Price : tick?.BestBid.Price;
+
+  const violations = checkBracketTargets(trade.Side, targets, referencePrice);
+  if (violations.length > 0) {
+    throw new TradeValidationError(violations);
+  }
+}
+
+function createLeg(target: BracketTarget | undefined): BracketLeg | null {
+  return target ? { target, price: null, orderId: null, status: "waiting", error: null } : null;
+}
+
+function legsOf(bracket: Bracket): [BracketLegKind, BracketLeg][] {
+  return LEG_KINDS.flatMap((kind) => {
+    const leg = bracket[kind];
+    return leg ? [[kind, leg] as [BracketLegKind, BracketLeg]] : [];
+  });
+}
+
+/**
+ * Brackets by ID, kept in the app data store
+ */
+export class BracketStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the app-wide store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getDataStore;
+  }
+
+  async create(bracket: Omit<Bracket, "id">): Promise<Bracket> {
+    const store = this.getStore();
+    const created: Bracket = { id: await store.nextId(COLLECTION), ...bracket };
+    await store.set(COLLECTION, String(created.id), created);
+    return created;
+  }
+
+  async get(id: number): Promise<Bracket | undefined> {
+    return this.getStore().get<Bracket>(COLLECTION, String(id));
+  }
+
+  async list(): Promise<Bracket[]> {
+    const records = await this.getStore().list<Bracket>(COLLECTION);
+    return records.map((record) => record.value).sort((a, b) => b.id - a.id);
+  }
+
+  async save(bracket: Bracket): Promise<void> {
+    await this.getStore().set(COLLECTION, String(bracket.id), bracket);
+  }
+}
+
+/**
+ * Places the exit orders of brackets once their entry fills and cancels the
+ * remaining exit order once the other one fills (one-cancels-the-other on the
+ * client side, as the upstream API has no linked orders)
+ *
+ * Take-profit legs are Limit orders and stop-loss legs Stop orders on the
+ * opposite side, for the filled entry amount. Exit orders bypass the risk
+ * limits, as they only close the entry. Fills are detected by polling, so both
+ * legs can fill when the price crosses them within one poll interval; a
+ * partially filled leg leaves the other one at the full amount until it completes.
+ *
+ * @example
+ * ```typescript
+ * const manager = getBracketManager();
+ * manager.start();
+ * const bracket = await manager.attach(entry, { stopLoss: { percent: 2 } });
+ * ```
+ */
+export class BracketManager {
+  private readonly store: BracketStore;
+  private readonly fetch: (ids: number[]) => Promise<Map<number, Trade>>;
+  private readonly now: () => number;
+  private readonly poller: IntervalTask;
+  // Serializes polls and API calls so that no exit order is placed twice
+  private readonly exclusive = createLock();
+
+  /**
+   * @param options - Poll interval
+   * @param store - Storage of the brackets
+   * @param fetch - Source of order states by ID, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    options: BracketOptions = getBracketOptions(),
+    store: BracketStore = new BracketStore(),
+    fetch: (ids: number[]) => Promise<Map<number, Trade>> = getLatestOrders,
+    now: () => number = Date.now,
+  ) {
+    this.store = store;
+    this.fetch = fetch;
+    this.now = now;
+    this.poller = new IntervalTask("Bracket poll", options.pollIntervalMs, () => this.poll());
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Links exit orders to a placed entry order; when the entry already filled,
+   * the exit orders are placed right away
+   */
+  attach(entry: Trade, targets: BracketTargets): Promise<Bracket> {
+    return this.exclusive(async () => {
+      const now = this.now();
+      const bracket = await this.store.create({
+        entryOrderId: entry.Id,
+        symbol: entry.Symbol,
+        side: entry.Side,
+        amount: null,
+        entryPrice: null,
+        takeProfit: createLeg(targets.takeProfit),
+        stopLoss: createLeg(targets.stopLoss),
+        status: "pending",
+        createdAt: now,
+        updatedAt: now,
+      });
+      await this.update(bracket, new Map([[entry.Id, entry]]));
+      return bracket;
+    });
+  }
+
+  /**
+   * Cancels the open exit orders of a bracket and stops watching it
+   *
+   * @returns The bracket, or undefined when it does not exist
+   * @throws {AppError} 409 when the bracket is already finished
+   */
+  cancel(id: number): Promise<Bracket | undefined> {
+    return this.exclusive(async () => {
+      const bracket = await this.store.get(id);
+      if (!bracket) {
+        return undefined;
+      }
+      if (!OPEN_STATUSES.includes(bracket.status)) {
+        throw new AppError(`Bracket ${id} is already ${bracket.status}`, 409);
+      }
+      for (const [, leg] of legsOf(bracket)) {
+        await this.cancelLeg(bracket, leg);
+      }
+      const open = legsOf(bracket).some(([, leg]) => leg.status === "open");
+      if (!open) {
+        bracket.status = "cancelled";
+      }
+      await this.save(bracket);
+      if (open) {
+        throw new AppError(`An exit order of bracket ${id} could not be cancelled, try again`, 502);
+      }
+      return bracket;
+    });
+  }
+
+  /**
+   * Checks the orders of every open bracket once
+   */
+  poll(): Promise<void> {
+    return this.exclusive(async () => {
+      const brackets = (await this.store.list()).filter((bracket) =>
+        OPEN_STATUSES.includes(bracket.status),
+      );
+      if (brackets.length === 0) {
+        return;
+      }
+      const ids = brackets.flatMap((bracket) => [
+        bracket.entryOrderId,
+        ...legsOf(bracket).flatMap(([, leg]) => (leg.orderId !== null ? [leg.orderId] : [])),
+      ]);
+      const orders = await this.fetch(ids);
+      for (const bracket of brackets) {
+        await this.update(bracket, orders);
+      }
+    });
+  }
+
+  private async update(bracket: Bracket, orders: Map<number, Trade>): Promise<void> {
+    const before = JSON.stringify(bracket);
+
+    if (bracket.status === "pending") {
+      const entry = orders.get(bracket.entryOrderId);
+      if (entry && (entry.Status === "Completed" || entry.Status === "Cancelled")) {
+        if (entry.FilledAmount > 0) {
+          this.fill(bracket, entry);
+        } else {
+          bracket.status = "cancelled";
+        }
+      }
+    }
+
+    if (bracket.status === "active") {
+      for (const [kind, leg] of legsOf(bracket)) {
+        if (leg.status === "waiting") {
+          await this.placeLeg(bracket, kind, leg);
+        } else if (leg.status === "open" && leg.orderId !== null) {
+          const order = orders.get(leg.orderId);
+          if (order?.Status === "Completed") {
+            leg.status = "filled";
+          } else if (order?.Status === "Cancelled") {
+            leg.status = "cancelled";
+          }
+        }
+      }
+
+      const legs = legsOf(bracket).map(([, leg]) => leg);
+      if (legs.some((leg) => leg.status === "filled")) {
+        // One-cancels-the-other
+        for (const leg of legs) {
+          await this.cancelLeg(bracket, leg);
+        }
+      }
+      if (!legs.some((leg) => leg.status === "open" || leg.status === "waiting")) {
+        bracket.status = legs.some((leg) => leg.status === "filled")
+          ? "closed"
+          : legs.some((leg) => leg.status === "cancelled")
+            ? "cancelled"
+            : "failed";
+      }
+    }
+
+    if (JSON.stringify(bracket) !== before) {
+      await this.save(bracket);
+    }
+  }
+
+  private fill(bracket: Bracket, entry: Trade): void {
+    const entryPrice = getFillPrice(entry);
+    bracket.amount = entry.FilledAmount;
+    bracket.entryPrice = entryPrice;
+    for (const [kind, leg] of legsOf(bracket)) {
+      leg.price = resolveBracketPrice(
+        kind,
+        leg.target,
+        bracket.side,
+        entryPrice,
+        entry.SymbolPrecision,
+      );
+    }
+    bracket.status = "active";
+  }
+
+  private async placeLeg(bracket: Bracket, kind: BracketLegKind, leg: BracketLeg): Promise<void> {
+    // Both are resolved when the entry fills
+    if (leg.price === null || bracket.amount === null) {
+      return;
+    }
+    const price = formatDecimal(leg.price);
+    const request: CreateTradeRequest = {
+      Symbol: bracket.symbol,
+      Side: bracket.side === "Buy" ? "Sell" : "Buy",
+      Type: kind === "takeProfit" ? "Limit" : "Stop",
+      Amount: formatDecimal(bracket.amount),
+      ...(kind === "takeProfit" ? { Price: price } : { StopPrice: price }),
+      Comment: `Bracket ${bracket.id} ${LEG_LABELS[kind]}`,
+      // Lets the upstream reject a duplicate if a retry follows a lost response
+      ClientId: `bracket-${bracket.id}-${kind === "takeProfit" ? "tp" : "sl"}`,
+    };
+
+    try {
+      const order = await cryptoApi.createTrade(request);
+      leg.orderId = order.Id;
+      leg.status = "open";
+      leg.error = null;
+      publishWebhookEvent("trade.created", order);
+    } catch (error) {
+      leg.error = errorMessage(error);
+      if (!isRetryableError(error)) {
+        leg.status = "failed";
+      }
+      console.warn(
+        `[${new Date().toISOString()}] Placing the ${LEG_LABELS[kind]} of bracket ${bracket.id} failed:`,
+        leg.error,
+      );
+    }
+  }
+
+  private async cancelLeg(bracket: Bracket, leg: BracketLeg): Promise<void> {
+    if (leg.status === "waiting") {
+      leg.status = "cancelled";
+      return;
+    }
+    if (leg.status !== "open" || leg.orderId === null) {
+      return;
+    }
+    try {
+      await cryptoApi.cancelTrade(String(leg.orderId));
+      leg.status = "cancelled";
+      leg.error = null;
+    } catch (error) {
+      // Stays open: the next poll sees whether the order filled meanwhile or retries
+      leg.error = errorMessage(error);
+      console.warn(
+        `[${new Date().toISOString()}] Cancelling order ${leg.orderId} of bracket ${bracket.id} failed:`,
+        leg.error,
+      );
+    }
+  }
+
+  private async save(bracket: Bracket): Promise<void> {
+    bracket.updatedAt = this.now();
+    await this.store.save(bracket);
+  }
+}
+
+let defaultManager: BracketManager | undefined;
+
+/**
+ * Returns the app-wide bracket manager, creating it on first use
+ */
+export function getBracketManager(): BracketManager {
+  defaultManager ??= new BracketManager();
+  return defaultManager;
+}
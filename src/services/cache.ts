@@ -0,0 +1,96 @@
+/**
+ * Pluggable response cache used by the upstream API client
+ */
+
+/**
+ * Storage backend for cached values. Methods are async so that remote stores
+ * (e.g. Redis) can implement the same interface; values must be JSON-serializable.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Time-to-live per cached upstream endpoint, in milliseconds */
+export interface CacheTtls {
+  symbols: number;
+  serverInfo: number;
+  ticks: number;
+}
+
+export interface CacheOptions {
+  /** Maximum number of entries kept by the default in-memory store */
+  maxEntries: number;
+  ttls: CacheTtls;
+}
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-memory least-recently-used cache with per-entry expiry
+ *
+ * Relies on Map preserving insertion order: reads move an entry to the end,
+ * and the first entry is evicted when the cache is full.
+ *
+ * @example
+ * ```typescript
+ * const cache = new MemoryLruCache(100);
+ * await cache.set("symbols", symbols, 60000);
+ * await cache.get("symbols"); // symbols, for the next minute
+ * ```
+ */
+export class MemoryLruCache implements CacheStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(maxEntries = 500, now: () => number = Date.now) {
+    this.maxEntries = maxEntries;
+    this.now = now;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= this.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
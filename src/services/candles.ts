@@ -0,0 +1,525 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getStore } from "@netlify/blobs";
+import { getCandleOptions, getStorageOptions } from "../config/env.js";
+import type { TradingTick } from "../types/api.js";
+import type {
+  Candle,
+  CandleGapMode,
+  CandleInterval,
+  CandlePrice,
+  MinuteBar,
+  Ohlc,
+} from "../types/candles.js";
+import { IntervalTask } from "../utils/async.js";
+import { errorMessage } from "../utils/errors.js";
+import { midPrice } from "./alerts.js";
+import { cryptoApi } from "./cryptoApi.js";
+import type { BlobStore, StorageOptions } from "./storage.js";
+
+export interface CandleOptions {
+  /** Symbols whose ticks are recorded; recording is off when empty */
+  symbols: string[];
+  /** Interval between two tick samples */
+  sampleIntervalMs: number;
+  /** Days of minute bars kept in the candle store */
+  retentionDays: number;
+  /** Days of daily bars, rolled up from the minute bars, kept in the candle store */
+  dailyRetentionDays: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Bars past the retention are dropped from storage once the oldest is this much older
+const PRUNE_INTERVAL_MS = 60 * MINUTE_MS;
+// Series of a candle store
+type CandleSeries = "minutes" | "days";
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": MINUTE_MS,
+  "5m": 5 * MINUTE_MS,
+  "15m": 15 * MINUTE_MS,
+  "1h": 60 * MINUTE_MS,
+  "1d": DAY_MS,
+};
+
+export interface CandleQuery {
+  interval: CandleInterval;
+  price: CandlePrice;
+  gaps: CandleGapMode;
+  /** Earliest candle start to include */
+  from?: number | undefined;
+  /** Latest candle start to include */
+  to?: number | undefined;
+}
+
+function mergeOhlc(ohlc: Ohlc | undefined, next: Ohlc): Ohlc {
+  if (!ohlc) {
+    return { ...next };
+  }
+  return {
+    open: ohlc.open,
+    high: Math.max(ohlc.high, next.high),
+    low: Math.min(ohlc.low, next.low),
+    close: next.close,
+  };
+}
+
+function flat(price: number): Ohlc {
+  return { open: price, high: price, low: price, close: price };
+}
+
+/**
+ * Adds a tick sample to the minute bar it falls into
+ *
+ * @param bar - Bar of the sample's minute; a new bar is started when undefined
+ * @param time - Time of the sample
+ */
+export function addTickSample(
+  bar: MinuteBar | undefined,
+  tick: TradingTick,
+  time: number,
+): MinuteBar {
+  const mid = midPrice(tick);
+  return {
+    time: bar?.time ?? Math.floor(time / MINUTE_MS) * MINUTE_MS,
+    bid: mergeOhlc(bar?.bid, flat(tick.BestBid.Price)),
+    ask: mergeOhlc(bar?.ask, flat(tick.BestAsk.Price)),
+    mid: mergeOhlc(bar?.mid, flat(mid)),
+    samples: (bar?.samples ?? 0) + 1,
+  };
+}
+
+/**
+ * Merges bars into bars of a larger period, e.g. minute bars into daily bars
+ *
+ * @param bars - Bars sorted by time
+ * @param size - Length of the period; periods start at multiples of it in UTC
+ */
+export function rollUpBars(bars: MinuteBar[], size: number): MinuteBar[] {
+  const periods: MinuteBar[] = [];
+  for (const bar of bars) {
+    const time = Math.floor(bar.time / size) * size;
+    const last = periods.at(-1);
+    if (last?.time === time) {
+      last.bid = mergeOhlc(last.bid, bar.bid);
+      last.ask = mergeOhlc(last.ask, bar.ask);
+      last.mid = mergeOhlc(last.mid, bar.mid);
+      last.samples += bar.samples;
+    } else {
+      periods.push({ ...structuredClone(bar), time });
+    }
+  }
+  return periods;
+}
+
+/**
+ * Builds candles of an interval from minute bars
+ *
+ * Candles start at multiples of the interval in UTC. A period without
+ * samples between two recorded periods is a gap: with `gaps: "fill"` it is
+ * returned as a flat candle at the previous close with `gap: true`, with
+ * `gaps: "omit"` it is left out. Nothing is returned before the first or after
+ * the last recorded period.
+ *
+ * @param bars - Minute bars sorted by time
+ *
+ * @example
+ * ```typescript
+ * aggregateCandles(bars, { interval: "5m", price: "mid", gaps: "fill" })
+ * // [{ time: 1727000100000, open: 63120.5, high: 63140, low: 63101, close: 63133, samples: 60, gap: false }, ...]
+ * ```
+ */
+export function aggregateCandles(bars: MinuteBar[], query: CandleQuery): Candle[] {
+  const size = CANDLE_INTERVAL_MS[query.interval];
+  const periods: Candle[] = [];
+
+  for (const bar of bars) {
+    const time = Math.floor(bar.time / size) * size;
+    const last = periods.at(-1);
+    if (last?.time === time) {
+      Object.assign(last, mergeOhlc(last, bar[query.price]));
+      last.samples += bar.samples;
+    } else {
+      periods.push({ time, ...bar[query.price], samples: bar.samples, gap: false });
+    }
+  }
+
+  const candles: Candle[] = [];
+  for (const candle of periods) {
+    const previous = candles.at(-1);
+    if (previous && query.gaps === "fill") {
+      for (let time = previous.time + size; time < candle.time; time += size) {
+        candles.push({ time, ...flat(previous.close), samples: 0, gap: true });
+      }
+    }
+    candles.push(candle);
+  }
+
+  return candles.filter(
+    (candle) =>
+      (query.from === undefined || candle.time >= query.from) &&
+      (query.to === undefined || candle.time <= query.to),
+  );
+}
+
+/**
+ * Storage of finished bars, one series per symbol
+ *
+ * Bars are kept apart from the app data store, as every recorded symbol adds
+ * a bar per minute.
+ */
+export interface CandleStore {
+  /** Stored bars of a symbol, sorted by time */
+  getBars(symbol: string): Promise<MinuteBar[]>;
+  /** Adds a bar after the stored bars of its symbol */
+  appendBar(symbol: string, bar: MinuteBar): Promise<void>;
+  /** Replaces the stored bars of a symbol, e.g. to drop bars past the retention */
+  saveBars(symbol: string, bars: MinuteBar[]): Promise<void>;
+}
+
+/**
+ * Candle store that keeps bars in memory only; all bars are lost on restart
+ */
+export class MemoryCandleStore implements CandleStore {
+  private readonly bars = new Map<string, MinuteBar[]>();
+
+  async getBars(symbol: string): Promise<MinuteBar[]> {
+    return structuredClone(this.bars.get(symbol) ?? []);
+  }
+
+  async appendBar(symbol: string, bar: MinuteBar): Promise<void> {
+    this.bars.set(symbol, [...(this.bars.get(symbol) ?? []), structuredClone(bar)]);
+  }
+
+  async saveBars(symbol: string, bars: MinuteBar[]): Promise<void> {
+    this.bars.set(symbol, structuredClone(bars));
+  }
+}
+
+/**
+ * Candle store with one file per symbol in a directory
+ *
+ * Each file holds one JSON bar per line. A finished bar is appended to its
+ * file, so a write never touches other symbols or older bars; only pruning
+ * rewrites the file, through a temporary file that replaces it. A line left
+ * incomplete by a crash is skipped when reading.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileCandleStore("data/candles");
+ * await store.appendBar("BTCUSD", bar); // appends to data/candles/BTCUSD.ndjson
+ * ```
+ */
+export class FileCandleStore implements CandleStore {
+  private readonly directory: string;
+
+  /**
+   * @param directory - Directory of the files; created on the first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async getBars(symbol: string): Promise<MinuteBar[]> {
+    let content: string;
+    try {
+      content = await readFile(this.fileOf(symbol), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const bars: MinuteBar[] = [];
+    for (const line of content.split("\n")) {
+      if (line.trim() === "") {
+        continue;
+      }
+      try {
+        bars.push(JSON.parse(line) as MinuteBar);
+      } catch {
+        // Incomplete line of an interrupted append
+      }
+    }
+    return bars;
+  }
+
+  async appendBar(symbol: string, bar: MinuteBar): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await appendFile(this.fileOf(symbol), `${JSON.stringify(bar)}\n`);
+  }
+
+  async saveBars(symbol: string, bars: MinuteBar[]): Promise<void> {
+    const file = this.fileOf(symbol);
+    const temporary = `${file}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(temporary, bars.map((bar) => `${JSON.stringify(bar)}\n`).join(""));
+    await rename(temporary, file);
+  }
+
+  private fileOf(symbol: string): string {
+    return join(this.directory, `${encodeURIComponent(symbol)}.ndjson`);
+  }
+}
+
+/**
+ * Candle store with one Netlify blob per symbol
+ */
+export class BlobsCandleStore implements CandleStore {
+  private readonly blobs: BlobStore;
+  private readonly prefix: string;
+
+  /**
+   * @param blobs - Blob store holding the bars
+   * @param prefix - Prefix of the blob keys
+   */
+  constructor(blobs: BlobStore, prefix = "candles") {
+    this.blobs = blobs;
+    this.prefix = prefix;
+  }
+
+  async getBars(symbol: string): Promise<MinuteBar[]> {
+    return (
+      ((await this.blobs.get(this.keyOf(symbol), { type: "json" })) as MinuteBar[] | null) ?? []
+    );
+  }
+
+  async appendBar(symbol: string, bar: MinuteBar): Promise<void> {
+    await this.saveBars(symbol, [...(await this.getBars(symbol)), bar]);
+  }
+
+  async saveBars(symbol: string, bars: MinuteBar[]): Promise<void> {
+    await this.blobs.setJSON(this.keyOf(symbol), bars);
+  }
+
+  private keyOf(symbol: string): string {
+    return `${this.prefix}/${encodeURIComponent(symbol)}`;
+  }
+}
+
+/**
+ * Creates the candle store of a series matching a storage configuration;
+ * daily bars are kept in a `1d` directory or blob prefix next to the minute bars
+ */
+export function createCandleStore(
+  options: StorageOptions,
+  series: CandleSeries = "minutes",
+): CandleStore {
+  switch (options.driver) {
+    case "file":
+      return new FileCandleStore(
+        series === "days" ? join(options.candleDirectory, "1d") : options.candleDirectory,
+      );
+    case "memory":
+      return new MemoryCandleStore();
+    case "netlify-blobs":
+      return new BlobsCandleStore(
+        getStore({ name: options.blobStore, consistency: "strong" }),
+        series === "days" ? "candles-1d" : "candles",
+      );
+  }
+}
+
+/**
+ * Samples the latest tick of the configured symbols and folds the samples into
+ * minute bars
+ *
+ * The bar of the current minute is kept in memory; finished bars are appended
+ * to the candle store and dropped after `retentionDays`. Once a day has passed
+ * its minute bars are rolled up into a daily bar, kept for `dailyRetentionDays`,
+ * so daily candles reach further back than the minute bars. Minutes in which
+ * the recorder did not run, or all samples failed, have no bar.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new TickRecorder();
+ * recorder.start();
+ * const bars = await recorder.getBars("BTCUSD");
+ * ```
+ */
+export class TickRecorder {
+  private readonly options: CandleOptions;
+  private readonly store: CandleStore;
+  private readonly dailyStore: CandleStore;
+  private readonly fetchTick: (symbol: string) => Promise<TradingTick | undefined>;
+  private readonly now: () => number;
+  private readonly current = new Map<string, MinuteBar>();
+  private readonly finished = new Map<string, Promise<MinuteBar[]>>();
+  private readonly days = new Map<string, Promise<MinuteBar[]>>();
+  private readonly poller: IntervalTask;
+  private running = false;
+
+  /**
+   * @param options - Symbols, sample interval and retention
+   * @param store - Storage of finished minute bars
+   * @param dailyStore - Storage of daily bars
+   * @param fetchTick - Tick source, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    options: CandleOptions = getCandleOptions(),
+    store: CandleStore = createCandleStore(getStorageOptions()),
+    dailyStore: CandleStore = createCandleStore(getStorageOptions(), "days"),
+    fetchTick: (symbol: string) => Promise<TradingTick | undefined> = async (symbol) =>
+      (await cryptoApi.getTick(symbol))[0],
+    now: () => number = Date.now,
+  ) {
+    this.options = options;
+    this.store = store;
+    this.dailyStore = dailyStore;
+    this.fetchTick = fetchTick;
+    this.now = now;
+    this.poller = new IntervalTask("Tick sampling", options.sampleIntervalMs, () => this.sample());
+  }
+
+  isRecording(symbol: string): boolean {
+    return this.options.symbols.includes(symbol);
+  }
+
+  start(): void {
+    if (this.poller.started || this.options.symbols.length === 0) {
+      return;
+    }
+    this.poller.start();
+    void this.sample();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Bars of a symbol sorted by time, including the unfinished current minute
+   *
+   * @param interval - Interval the bars are aggregated into; `1d` adds the
+   * daily bars kept beyond the retention of the minute bars
+   */
+  async getBars(symbol: string, interval: CandleInterval = "1m"): Promise<MinuteBar[]> {
+    const bars = await this.loadFinished(symbol);
+    const current = this.current.get(symbol);
+    const minutes = current ? [...bars, current] : [...bars];
+    if (interval !== "1d") {
+      return minutes;
+    }
+
+    const days = await this.loadSeries(this.days, this.dailyStore, symbol);
+    const rolledUntil = days.at(-1)?.time ?? Number.NEGATIVE_INFINITY;
+    return [...days, ...minutes.filter((bar) => bar.time >= rolledUntil + DAY_MS)];
+  }
+
+  /**
+   * Takes one tick sample of every configured symbol. Samples do not overlap;
+   * a failed symbol is logged and skipped.
+   */
+  async sample(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await Promise.all(
+        this.options.symbols.map((symbol) =>
+          this.sampleSymbol(symbol).catch((error: unknown) => {
+            console.warn(
+              `[${new Date().toISOString()}] Tick sample of ${symbol} failed:`,
+              errorMessage(error),
+            );
+          }),
+        ),
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sampleSymbol(symbol: string): Promise<void> {
+    const tick = await this.fetchTick(symbol);
+    if (!tick) {
+      return;
+    }
+
+    const time = this.now();
+    const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+    const current = this.current.get(symbol);
+    if (current && current.time !== minute) {
+      await this.finish(symbol, current);
+      this.current.delete(symbol);
+    }
+    this.current.set(symbol, addTickSample(this.current.get(symbol), tick, time));
+  }
+
+  private async finish(symbol: string, bar: MinuteBar): Promise<void> {
+    let bars = [...(await this.loadFinished(symbol)), bar];
+    await this.rollUpDays(symbol, bars, bar.time);
+    await this.store.appendBar(symbol, bar);
+
+    // Rewrite the stored bars only now and then, as appending is much cheaper
+    const cutoff = this.now() - this.options.retentionDays * DAY_MS;
+    if ((bars[0]?.time ?? cutoff) < cutoff - PRUNE_INTERVAL_MS) {
+      bars = bars.filter((b) => b.time >= cutoff);
+      await this.store.saveBars(symbol, bars);
+    }
+    this.finished.set(symbol, Promise.resolve(bars));
+  }
+
+  /**
+   * Stores a daily bar for every day before the day of `time` that has minute
+   * bars but no daily bar yet
+   */
+  private async rollUpDays(symbol: string, minutes: MinuteBar[], time: number): Promise<void> {
+    let days = await this.loadSeries(this.days, this.dailyStore, symbol);
+    const rolledUntil = days.at(-1)?.time ?? Number.NEGATIVE_INFINITY;
+    const today = Math.floor(time / DAY_MS) * DAY_MS;
+    const finished = rollUpBars(
+      minutes.filter((bar) => bar.time >= rolledUntil + DAY_MS && bar.time < today),
+      DAY_MS,
+    );
+    if (finished.length === 0) {
+      return;
+    }
+
+    for (const day of finished) {
+      await this.dailyStore.appendBar(symbol, day);
+    }
+    days = [...days, ...finished];
+    const cutoff = today - this.options.dailyRetentionDays * DAY_MS;
+    if ((days[0]?.time ?? cutoff) < cutoff) {
+      days = days.filter((day) => day.time >= cutoff);
+      await this.dailyStore.saveBars(symbol, days);
+    }
+    this.days.set(symbol, Promise.resolve(days));
+  }
+
+  private loadFinished(symbol: string): Promise<MinuteBar[]> {
+    return this.loadSeries(this.finished, this.store, symbol);
+  }
+
+  private loadSeries(
+    cache: Map<string, Promise<MinuteBar[]>>,
+    store: CandleStore,
+    symbol: string,
+  ): Promise<MinuteBar[]> {
+    let bars = cache.get(symbol);
+    if (!bars) {
+      bars = store.getBars(symbol).catch((error: unknown) => {
+        // Try again on the next call
+        cache.delete(symbol);
+        throw error;
+      });
+      cache.set(symbol, bars);
+    }
+    return bars;
+  }
+}
+
+let defaultRecorder: TickRecorder | undefined;
+
+/**
+ * Returns the app-wide tick recorder, creating it on first use
+ */
+export function getTickRecorder(): TickRecorder {
+  defaultRecorder ??= new TickRecorder();
+  return defaultRecorder;
+}
@@ -0,0 +1,145 @@
+import { AppError } from "../middleware/errorHandler.js";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** Time the circuit stays open before a trial call is let through */
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  /** ISO timestamp of when the circuit last opened */
+  openedAt: string | null;
+  /** ISO timestamp of when the next trial call is allowed, while open */
+  retryAt: string | null;
+}
+
+/**
+ * Circuit breaker that fails fast while a dependency is down
+ *
+ * - closed: calls pass through; consecutive failures are counted
+ * - open: calls are rejected immediately with a 503 until the cool-down ends
+ * - half-open: a single trial call is let through; success closes the
+ *   circuit, failure opens it again for another cool-down
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker("Trading API", { failureThreshold: 5, cooldownMs: 30000 });
+ * const result = await breaker.execute(() => fetchSomething());
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly now: () => number;
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * @param name - Dependency name used in errors and logs
+   * @param options - Failure threshold and cool-down
+   * @param isFailure - Decides which errors count as the dependency being down
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    name: string,
+    options: CircuitBreakerOptions,
+    isFailure: (error: unknown) => boolean = () => true,
+    now: () => number = Date.now,
+  ) {
+    this.name = name;
+    this.options = options;
+    this.isFailure = isFailure;
+    this.now = now;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure();
+      } else {
+        // The dependency answered, so it is reachable even if the call was rejected
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.options.failureThreshold,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      retryAt:
+        this.state === "open" && this.openedAt !== null
+          ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+          : null,
+    };
+  }
+
+  private refreshState(): void {
+    if (
+      this.state === "open" &&
+      this.openedAt !== null &&
+      this.now() - this.openedAt >= this.options.cooldownMs
+    ) {
+      this.state = "half-open";
+    }
+  }
+
+  private beforeCall(): void {
+    this.refreshState();
+
+    if (this.state === "open" || (this.state === "half-open" && this.trialInFlight)) {
+      throw new AppError(
+        `${this.name} is temporarily unavailable, please retry later`,
+        503,
+        true,
+        this.getStatus(),
+      );
+    }
+
+    if (this.state === "half-open") {
+      this.trialInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`[${new Date().toISOString()}] ${this.name} circuit closed`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === "half-open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = this.now();
+      console.warn(
+        `[${new Date().toISOString()}] ${this.name} circuit opened after ${this.consecutiveFailures} consecutive failures`,
+      );
+    }
+  }
+}
@@ -1,18 +1,51 @@
 import { createHmac } from "node:crypto";
 import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosError } from "axios";
-import { head } from "es-toolkit";
-import { env } from "../config/env.js";
+import { delay, head, omitBy } from "es-toolkit";
+import { z } from "zod";
+import {
+  env,
+  getCacheOptions,
+  getCircuitBreakerOptions,
+  getResponseValidationMode,
+  getRetryPolicy,
+} from "../config/env.js";
 import { AppError } from "../middleware/errorHandler.js";
-import type {
-  ApiResponse,
-  Asset,
-  Position,
-  ServerInfo,
-  Trade,
-  TradingSide,
-  Symbol as TradingSymbol,
-  TradingTick,
+import {
+  type ApiResponse,
+  type Asset,
+  AssetSchema,
+  type CreateTradeRequest,
+  type ModifyTradeRequest,
+  type Position,
+  PositionSchema,
+  type ServerInfo,
+  ServerInfoSchema,
+  type Trade,
+  type TradeHistoryRequest,
+  TradeSchema,
+  type Symbol as TradingSymbol,
+  SymbolSchema as TradingSymbolSchema,
+  type TradingTick,
+  TradingTickSchema,
 } from "../types/api.js";
+import {
+  type RetryPolicy,
+  computeBackoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+} from "../utils/retry.js";
+import { type CacheOptions, type CacheStore, MemoryLruCache } from "./cache.js";
+import { CircuitBreaker, type CircuitBreakerStatus } from "./circuitBreaker.js";
+import { type ResponseValidationMode, checkUpstreamResponse } from "./upstreamContract.js";
+
+interface RequestOptions<T> {
+  /** Expected shape of the response payload */
+  schema: z.ZodType<T>;
+  params?: Record<string, string>;
+  data?: unknown;
+  /** Allow retries for non-GET requests that are safe to repeat */
+  idempotent?: boolean;
+}
 
 export class CryptoApiClient {
   private readonly axiosClient: AxiosInstance;
@@ -20,12 +53,34 @@ export class CryptoApiClient {
   private readonly apiKey: string;
   private readonly apiSecret: string;
   private readonly apiBaseUrl: string;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly cacheOptions: CacheOptions;
+  private readonly cache: CacheStore;
+  private readonly responseValidation: ResponseValidationMode;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
 
-  constructor() {
+  constructor(
+    retryPolicy: RetryPolicy = getRetryPolicy(),
+    circuitBreakerOptions = getCircuitBreakerOptions(),
+    cacheOptions: CacheOptions = getCacheOptions(),
+    cache: CacheStore = new MemoryLruCache(cacheOptions.maxEntries),
+    responseValidation: ResponseValidationMode = getResponseValidationMode(),
+  ) {
     this.apiId = env.WEB_API_ID;
     this.apiKey = env.WEB_API_KEY;
     this.apiSecret = env.WEB_API_SECRET;
     this.apiBaseUrl = `https://${env.WEB_API_HOST}/api`;
+    this.retryPolicy = retryPolicy;
+    this.cacheOptions = cacheOptions;
+    this.cache = cache;
+    this.responseValidation = responseValidation;
+    // Only outages (network errors, timeouts and 5xx) count towards opening the circuit
+    this.circuitBreaker = new CircuitBreaker(
+      "Trading API",
+      circuitBreakerOptions,
+      (error) => error instanceof AppError && error.statusCode >= 500,
+    );
 
     if (!this.apiId || !this.apiKey || !this.apiSecret) {
       throw new Error("API credentials are not set in environment variables");
@@ -47,126 +102,229 @@ export class CryptoApiClient {
     return createHmac("sha256", this.apiSecret).update(signature).digest("base64");
   }
 
+  private toAppError(error: unknown): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (axios.isAxiosError(error)) {
+      const axiosError = error as AxiosError;
+      const status = axiosError.response?.status || 500;
+      const errorData = axiosError.response?.data as { message?: string; error?: string } | null;
+
+      return new AppError(
+        errorData?.message || errorData?.error || axiosError.message || "API request failed",
+        status,
+      );
+    }
+    return new AppError(error instanceof Error ? error.message : "Unknown error occurred", 500);
+  }
+
+  /**
+   * Returns the delay before retrying a failed attempt, or undefined to give up
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | undefined {
+    if (attempt >= this.retryPolicy.maxAttempts || !axios.isAxiosError(error)) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    if (!isRetryableStatus(status)) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"]);
+    if (retryAfter !== undefined) {
+      // Waiting longer than the policy allows would hold callers too long; surface the error
+      return retryAfter <= this.retryPolicy.maxDelayMs ? retryAfter : undefined;
+    }
+
+    return computeBackoffDelay(attempt, this.retryPolicy);
+  }
+
   private async makeRequest<T>(
     method: "GET" | "POST" | "PUT" | "DELETE",
     endpoint: string,
-    options: {
-      params?: Record<string, string>;
-      data?: unknown;
-    } = {},
+    options: RequestOptions<T>,
   ): Promise<T> {
+    const data = await this.circuitBreaker.execute(() =>
+      this.requestWithRetry(method, endpoint, options),
+    );
+
+    // Checked outside the circuit breaker: a contract mismatch does not mean the API is down
+    return checkUpstreamResponse(options.schema, data, endpoint, this.responseValidation);
+  }
+
+  private async requestWithRetry(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    endpoint: string,
+    options: RequestOptions<unknown>,
+  ): Promise<unknown> {
     const { params, data } = options;
+    const retryable = method === "GET" || options.idempotent === true;
 
-    const timestamp = Date.now();
-    const signature = this.createSignature(timestamp, method, this.apiBaseUrl + endpoint, data);
+    for (let attempt = 1; ; attempt++) {
+      // Every attempt is signed with a fresh timestamp
+      const timestamp = Date.now();
+      const signature = this.createSignature(timestamp, method, this.apiBaseUrl + endpoint, data);
 
-    const axiosConfig: AxiosRequestConfig = {
-      method,
-      url: endpoint,
-      params,
-      data,
-      headers: {
-        Authorization: `HMAC ${this.apiId}:${this.apiKey}:${timestamp}:${signature}`,
-      },
-    };
+      const axiosConfig: AxiosRequestConfig = {
+        method,
+        url: endpoint,
+        params,
+        data,
+        headers: {
+          Authorization: `HMAC ${this.apiId}:${this.apiKey}:${timestamp}:${signature}`,
+        },
+      };
 
-    try {
-      const response = await this.axiosClient.request<ApiResponse<T>>(axiosConfig);
-      if (!response.data) {
-        throw new AppError("API request failed", 400);
-      }
+      try {
+        const response = await this.axiosClient.request<ApiResponse>(axiosConfig);
+        if (!response.data) {
+          throw new AppError("API request failed", 400);
+        }
 
-      return response.data as T;
-    } catch (error) {
-      if (error instanceof AppError) {
-        throw error;
-      }
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError;
-        const status = axiosError.response?.status || 500;
-        const errorData = axiosError.response?.data as { message?: string; error?: string } | null;
-
-        throw new AppError(
-          errorData?.message || errorData?.error || axiosError.message || "API request failed",
-          status,
+        return response.data;
+      } catch (error) {
+        const retryDelay = retryable ? this.getRetryDelay(error, attempt) : undefined;
+        if (retryDelay === undefined) {
+          throw this.toAppError(error);
+        }
+
+        console.warn(
+          `[${new Date().toISOString()}] Retrying ${method} ${endpoint} in ${retryDelay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxAttempts}):`,
+          error instanceof Error ? error.message : error,
         );
+        await delay(retryDelay);
       }
-      throw new AppError(error instanceof Error ? error.message : "Unknown error occurred", 500);
     }
   }
 
+  /**
+   * Returns a cached value or loads it, sharing one upstream call between
+   * concurrent callers of the same key (stampede protection)
+   */
+  private async withCache<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<T> {
+    if (ttlMs <= 0) {
+      return loader();
+    }
+
+    const cached = await this.cache.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const request = loader()
+      .then(async (value) => {
+        await this.cache.set(key, value, ttlMs);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+    this.inFlight.set(key, request);
+
+    return request;
+  }
+
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
+  }
+
   // Server info
   async getServerInfo(): Promise<ServerInfo> {
-    return this.makeRequest("GET", "/v2/tradeserverinfo");
+    return this.withCache("serverInfo", this.cacheOptions.ttls.serverInfo, () =>
+      this.makeRequest("GET", "/v2/tradeserverinfo", { schema: ServerInfoSchema }),
+    );
   }
 
   // Symbols
   async getSymbols(): Promise<TradingSymbol[]> {
-    return this.makeRequest("GET", "/v2/symbol");
+    return this.withCache("symbols", this.cacheOptions.ttls.symbols, () =>
+      this.makeRequest("GET", "/v2/symbol", { schema: z.array(TradingSymbolSchema) }),
+    );
   }
 
   async getSymbol(symbol: string): Promise<TradingSymbol | undefined> {
-    const filteredSymbols: TradingSymbol[] = await this.makeRequest("GET", `/v2/symbol/${symbol}`);
+    const filteredSymbols = await this.withCache(
+      `symbol:${symbol}`,
+      this.cacheOptions.ttls.symbols,
+      () =>
+        this.makeRequest("GET", `/v2/symbol/${symbol}`, { schema: z.array(TradingSymbolSchema) }),
+    );
 
     return head(filteredSymbols);
   }
 
   async getTick(symbol: string): Promise<TradingTick[]> {
-    return this.makeRequest("GET", `/v2/tick/${symbol}`);
+    return this.withCache(`tick:${symbol}`, this.cacheOptions.ttls.ticks, () =>
+      this.makeRequest("GET", `/v2/tick/${symbol}`, { schema: z.array(TradingTickSchema) }),
+    );
   }
 
   // Trades
-  async getTradesHistory(data: {
-    TimestampFrom?: number;
-    TimestampTo?: number;
-    OrderId?: number;
-    SkipCancelOrder?: boolean;
-    RequestDirection?: "Forwards" | "Backwards";
-  }): Promise<Trade[]> {
-    return this.makeRequest("POST", "/v2/tradehistory", { data });
+  async getTradesHistory(request: TradeHistoryRequest): Promise<Trade[]> {
+    const data = omitBy(request, (value) => value === undefined);
+
+    // Read-only despite being a POST, so it is safe to retry
+    return this.makeRequest("POST", "/v2/tradehistory", {
+      schema: z.array(TradeSchema),
+      data,
+      idempotent: true,
+    });
   }
 
   async getTrades(): Promise<Trade[]> {
-    return this.makeRequest("GET", "/v2/trade");
+    return this.makeRequest("GET", "/v2/trade", { schema: z.array(TradeSchema) });
   }
 
-  async createTrade(trade: {
-    Symbol: string;
-    Side: TradingSide;
-    Amount: string;
-  }): Promise<Trade> {
+  async createTrade(trade: CreateTradeRequest): Promise<Trade> {
+    const { Type = "Market", ...rest } = trade;
+    // Drop unset fields so they are not part of the signed payload
+    const data = omitBy({ Type, ...rest }, (value) => value === undefined);
+
+    // Orders are only retried when a ClientId lets the upstream deduplicate them
     return this.makeRequest("POST", "/v2/trade", {
-      data: {
-        Type: "Market",
-        ...trade,
-      },
+      schema: TradeSchema,
+      data,
+      idempotent: rest.ClientId !== undefined,
     });
   }
 
+  async modifyTrade(trade: ModifyTradeRequest): Promise<Trade> {
+    const data = omitBy(trade, (value) => value === undefined);
+
+    return this.makeRequest("PUT", "/v2/trade", { schema: TradeSchema, data });
+  }
+
   async getTrade(id: string): Promise<Trade> {
-    return this.makeRequest("GET", `/v2/trade/${id}`);
+    return this.makeRequest("GET", `/v2/trade/${id}`, { schema: TradeSchema });
   }
 
   async cancelTrade(id: string): Promise<Trade> {
-    return this.makeRequest("DELETE", `/v2/trade?Type=Cancel&Id=${id}`);
+    return this.makeRequest("DELETE", `/v2/trade?Type=Cancel&Id=${id}`, { schema: TradeSchema });
   }
 
   // Account
   async getAccountAssets(): Promise<Asset[]> {
-    return this.makeRequest("GET", "/v2/asset");
+    return this.makeRequest("GET", "/v2/asset", { schema: z.array(AssetSchema) });
   }
 
   async getAccountAsset(currency: string): Promise<Asset> {
-    return this.makeRequest("GET", `/v2/asset/${currency}`);
+    return this.makeRequest("GET", `/v2/asset/${currency}`, { schema: AssetSchema });
   }
 
   // Positions
   async getPositions(): Promise<Position[]> {
-    return this.makeRequest("GET", "/v2/position"); // TODO: check and fix it
+    return this.makeRequest("GET", "/v2/position", { schema: z.array(PositionSchema) }); // TODO: check and fix it
   }
 
   async getPosition(identifier: string): Promise<Position> {
-    return this.makeRequest("GET", `/v2/position/${identifier}`); // TODO: check and fix it
+    return this.makeRequest("GET", `/v2/position/${identifier}`, { schema: PositionSchema }); // TODO: check and fix it
   }
 }
 
@@ -0,0 +1,284 @@
+import { once } from "node:events";
+import type { Writable } from "node:stream";
+import ExcelJS from "exceljs";
+import { AppError } from "../middleware/errorHandler.js";
+import { AssetSchema, PositionSchema, TradeSchema } from "../types/api.js";
+import { formatTimestamp, isValidTimeZone } from "../utils/date.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { getTradeHistoryPage } from "./tradeHistory.js";
+
+export const EXPORT_DATASETS = ["trades", "positions", "assets"] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface ExportOptions {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  /** Columns to include, in order; all columns when omitted */
+  columns?: string[] | undefined;
+  /** IANA time zone timestamps are written in */
+  timeZone: string;
+  /** Time range of the trade history, in milliseconds */
+  from?: number | undefined;
+  to?: number | undefined;
+}
+
+type Row = Record<string, unknown>;
+type Cell = string | number | boolean | null;
+
+interface DatasetDefinition {
+  columns: string[];
+  /** Columns holding millisecond timestamps */
+  timestampColumns: string[];
+}
+
+// Columns follow the upstream contracts, so they stay in sync with the API schemas
+const DATASETS: Record<ExportDataset, DatasetDefinition> = {
+  trades: { columns: Object.keys(TradeSchema.shape), timestampColumns: ["Created", "Modified"] },
+  positions: {
+    columns: Object.keys(PositionSchema.shape),
+    timestampColumns: ["Created", "Modified"],
+  },
+  assets: { columns: Object.keys(AssetSchema.shape), timestampColumns: [] },
+};
+
+// Records requested per history page while streaming trades
+const HISTORY_PAGE_SIZE = 500;
+
+/**
+ * Resolves the requested columns of a dataset
+ *
+ * @throws {AppError} 400 naming the unknown columns and listing the available ones
+ */
+export function resolveColumns(dataset: ExportDataset, requested?: string[]): string[] {
+  const available = DATASETS[dataset].columns;
+  if (!requested || requested.length === 0) {
+    return available;
+  }
+
+  const unknown = requested.filter((column) => !available.includes(column));
+  if (unknown.length > 0) {
+    throw new AppError(`Unknown ${dataset} columns: ${unknown.join(", ")}`, 400, true, {
+      available,
+    });
+  }
+
+  return requested;
+}
+
+/**
+ * Loads the rows of a dataset in batches, walking the trade history page by page
+ */
+async function* loadRows(options: ExportOptions): AsyncGenerator<Row[]> {
+  switch (options.dataset) {
+    case "trades": {
+      let cursor: string | undefined;
+      do {
+        const page = await getTradeHistoryPage(
+          {
+            RequestDirection: "Forwards",
+            TimestampFrom: options.from,
+            TimestampTo: options.to,
+          },
+          HISTORY_PAGE_SIZE,
+          cursor,
+        );
+        yield page.trades;
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor !== undefined);
+      return;
+    }
+    case "positions":
+      yield await cryptoApi.getPositions();
+      return;
+    case "assets":
+      yield await cryptoApi.getAccountAssets();
+      return;
+  }
+}
+
+function toCell(value: unknown, isTimestamp: boolean, timeZone: string): Cell {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (isTimestamp && typeof value === "number") {
+    return formatTimestamp(value, timeZone);
+  }
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Escapes a CSV field (RFC 4180). Text starting with a formula character is
+ * prefixed with a quote so spreadsheets do not evaluate it.
+ */
+export function toCsvField(cell: Cell): string {
+  if (cell === null) {
+    return "";
+  }
+  let text = String(cell);
+  if (typeof cell === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+interface RowWriter {
+  write(cells: Cell[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * @throws {AppError} 499 when the stream was closed, e.g. by a client that disconnected
+ */
+function assertOpen(out: Writable): void {
+  if (out.destroyed || out.writableEnded) {
+    throw new AppError("Export aborted: the output stream was closed", 499);
+  }
+}
+
+/**
+ * Writes a chunk and waits while the stream buffer is full. A stream that is
+ * closed or fails instead of draining ends the wait with an error.
+ */
+async function writeChunk(out: Writable, chunk: string): Promise<void> {
+  assertOpen(out);
+  if (out.write(chunk)) {
+    return;
+  }
+
+  const settled = new AbortController();
+  try {
+    await Promise.race([
+      once(out, "drain", { signal: settled.signal }),
+      once(out, "close", { signal: settled.signal }).then(() => assertOpen(out)),
+    ]);
+  } finally {
+    settled.abort();
+  }
+}
+
+async function createWriter(
+  format: ExportFormat,
+  dataset: ExportDataset,
+  columns: string[],
+  out: Writable,
+): Promise<RowWriter> {
+  switch (format) {
+    case "csv":
+      await writeChunk(out, `${columns.map(toCsvField).join(",")}\r\n`);
+      return {
+        async write(cells) {
+          await writeChunk(out, `${cells.map(toCsvField).join(",")}\r\n`);
+        },
+        async end() {
+          out.end();
+        },
+      };
+    case "ndjson":
+      return {
+        async write(cells) {
+          const record = Object.fromEntries(columns.map((column, index) => [column, cells[index]]));
+          await writeChunk(out, `${JSON.stringify(record)}\n`);
+        },
+        async end() {
+          out.end();
+        },
+      };
+    case "xlsx": {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out });
+      const worksheet = workbook.addWorksheet(dataset);
+      worksheet.columns = columns.map((column) => ({ header: column, key: column }));
+      return {
+        async write(cells) {
+          assertOpen(out);
+          worksheet.addRow(cells).commit();
+        },
+        async end() {
+          worksheet.commit();
+          await workbook.commit();
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Streams a dataset to a writable stream as CSV, NDJSON or XLSX
+ *
+ * Nothing is written before the first batch of rows has been loaded, so an
+ * upstream failure on the first request can still be reported as a normal
+ * error response. `onStart` is called right before the first write, e.g. to
+ * set response headers. Writes wait while the stream is backed up, and the
+ * export stops when the stream is closed, e.g. by a client that disconnected.
+ *
+ * @returns Number of rows written
+ * @throws {AppError} 400 for unknown columns or time zones, 499 when the stream was closed
+ *
+ * @example
+ * ```typescript
+ * await writeExport({ dataset: "trades", format: "csv", timeZone: "Europe/Berlin" }, res, () =>
+ *   res.setHeader("Content-Type", EXPORT_CONTENT_TYPES.csv),
+ * );
+ * ```
+ */
+export async function writeExport(
+  options: ExportOptions,
+  out: Writable,
+  onStart?: () => void,
+): Promise<number> {
+  if (!isValidTimeZone(options.timeZone)) {
+    throw new AppError(`Unknown time zone: ${options.timeZone}`, 400);
+  }
+  const columns = resolveColumns(options.dataset, options.columns);
+  const timestampColumns = new Set(DATASETS[options.dataset].timestampColumns);
+
+  let writer: RowWriter | undefined;
+  let count = 0;
+
+  for await (const rows of loadRows(options)) {
+    // Stop paging once nobody reads the export any more
+    assertOpen(out);
+    if (!writer) {
+      onStart?.();
+      writer = await createWriter(options.format, options.dataset, columns, out);
+    }
+    for (const row of rows) {
+      await writer.write(
+        columns.map((column) =>
+          toCell(row[column], timestampColumns.has(column), options.timeZone),
+        ),
+      );
+      count++;
+    }
+  }
+
+  if (!writer) {
+    onStart?.();
+    writer = await createWriter(options.format, options.dataset, columns, out);
+  }
+  await writer.end();
+
+  return count;
+}
+
+/**
+ * Builds the download file name, e.g. "trades-2024-09-22.csv"
+ */
+export function exportFileName(
+  dataset: ExportDataset,
+  format: ExportFormat,
+  now = Date.now(),
+): string {
+  return `${dataset}-${new Date(now).toISOString().slice(0, 10)}.${format}`;
+}
@@ -0,0 +1,404 @@
+import { getDcaOptions } from "../config/env.js";
+import { AppError } from "../middleware/errorHandler.js";
+import type { Symbol as TradingSymbol, TradingTick } from "../types/api.js";
+import type { DcaExecution, DcaPlan, DcaPlanInput, DcaPlanUpdate } from "../types/dca.js";
+import { IntervalTask, createLock } from "../utils/async.js";
+import { nextCronTime, parseCron } from "../utils/cron.js";
+import { formatDecimal, roundToStep } from "../utils/decimal.js";
+import { errorMessage, isRetryableError } from "../utils/errors.js";
+import { recordAudit } from "./audit.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { getRiskEngine } from "./risk.js";
+import { type DataStore, getDataStore } from "./storage.js";
+import { validateTrade } from "./tradeValidator.js";
+import { publishWebhookEvent } from "./webhooks.js";
+
+export interface DcaOptions {
+  /** Interval between two checks for due plans */
+  pollIntervalMs: number;
+  /** How late a run may still be executed; later runs are recorded as skipped */
+  maxDelayMs: number;
+  /** Executions kept per plan */
+  historyLimit: number;
+}
+
+const PLANS = "dcaPlans";
+const EXECUTIONS = "dcaExecutions";
+
+type RunResult = Omit<DcaExecution, "id" | "planId" | "scheduledAt" | "executedAt">;
+
+// Result of a run that placed no order, with the reason
+function noOrder(
+  status: "skipped" | "failed",
+  reason: string,
+  price: number | null = null,
+  amount: number | null = null,
+): RunResult {
+  return { status, price, amount, orderId: null, reason };
+}
+
+/**
+ * Next run of a cron schedule after a timestamp
+ *
+ * @throws {AppError} 400 when the schedule is invalid or never fires
+ */
+export function nextDcaRun(schedule: string, after: number): number {
+  let next: number | undefined;
+  try {
+    next = nextCronTime(parseCron(schedule), after);
+  } catch (error) {
+    throw new AppError(`Invalid schedule: ${errorMessage(error)}`, 400);
+  }
+  if (next === undefined) {
+    throw new AppError(`Schedule "${schedule}" never fires`, 400);
+  }
+  return next;
+}
+
+/**
+ * Base amount bought for a quote amount at a price, rounded down to the
+ * symbol's amount step so the quote amount is never exceeded
+ *
+ * @example
+ * ```typescript
+ * quoteToBaseAmount(100, 60000, { ContractSize: 1, TradeAmountStep: 0.0001 }) // 0.0016
+ * ```
+ */
+export function quoteToBaseAmount(
+  quoteAmount: number,
+  price: number,
+  symbol: Pick<TradingSymbol, "ContractSize" | "TradeAmountStep">,
+): number {
+  return roundToStep(
+    quoteAmount / (price * (symbol.ContractSize || 1)),
+    symbol.TradeAmountStep,
+    "floor",
+  );
+}
+
+/**
+ * DCA plans and their execution history, kept in the app data store
+ */
+export class DcaStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the app-wide store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getDataStore;
+  }
+
+  async createPlan(plan: Omit<DcaPlan, "id">): Promise<DcaPlan> {
+    const store = this.getStore();
+    const created: DcaPlan = { id: await store.nextId(PLANS), ...plan };
+    await store.set(PLANS, String(created.id), created);
+    return created;
+  }
+
+  async getPlan(id: number): Promise<DcaPlan | undefined> {
+    return this.getStore().get<DcaPlan>(PLANS, String(id));
+  }
+
+  /** Lists plans, oldest first */
+  async listPlans(): Promise<DcaPlan[]> {
+    const records = await this.getStore().list<DcaPlan>(PLANS);
+    return records.map((record) => record.value).sort((a, b) => a.id - b.id);
+  }
+
+  async savePlan(plan: DcaPlan): Promise<void> {
+    await this.getStore().set(PLANS, String(plan.id), plan);
+  }
+
+  /** Deletes a plan together with its execution history */
+  async deletePlan(id: number): Promise<boolean> {
+    const store = this.getStore();
+    for (const execution of await this.listExecutions(id)) {
+      await store.delete(EXECUTIONS, String(execution.id));
+    }
+    return store.delete(PLANS, String(id));
+  }
+
+  /**
+   * Appends an execution and drops the oldest ones of its plan beyond `limit`
+   */
+  async addExecution(execution: Omit<DcaExecution, "id">, limit: number): Promise<DcaExecution> {
+    const store = this.getStore();
+    const created: DcaExecution = { id: await store.nextId(EXECUTIONS), ...execution };
+    await store.set(EXECUTIONS, String(created.id), created);
+    for (const old of (await this.listExecutions(execution.planId)).slice(limit)) {
+      await store.delete(EXECUTIONS, String(old.id));
+    }
+    return created;
+  }
+
+  /** Lists the executions of a plan, newest first */
+  async listExecutions(planId: number, limit?: number): Promise<DcaExecution[]> {
+    const records = await this.getStore().list<DcaExecution>(EXECUTIONS);
+    return records
+      .map((record) => record.value)
+      .filter((execution) => execution.planId === planId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Runs recurring buy plans on their cron schedules
+ *
+ * Each run converts the plan's quote amount to a base amount at the current
+ * ask, rounded down to the amount step, and places a Market buy; with a price
+ * cap it places an immediate-or-cancel Limit buy at the cap instead, and skips
+ * the run while the ask is above it. Orders go through the same validation and
+ * risk limits as `POST /api/trades` and carry the ClientId
+ * `dca-<plan>-<scheduled time>`, so a retried run is not placed twice.
+ *
+ * Temporary upstream failures are retried on the next poll; runs more than
+ * `maxDelayMs` late (e.g. while the process was down) are recorded as skipped
+ * rather than caught up, and the next run is scheduled from the current time.
+ *
+ * @example
+ * ```typescript
+ * const scheduler = getDcaScheduler();
+ * scheduler.start();
+ * await scheduler.create({ symbol: "BTCUSD", schedule: "0 9 * * 1", quoteAmount: 100, maxPrice: null });
+ * ```
+ */
+export class DcaScheduler {
+  private readonly options: DcaOptions;
+  private readonly store: DcaStore;
+  private readonly fetchTick: (symbol: string) => Promise<TradingTick | undefined>;
+  private readonly now: () => number;
+  private readonly poller: IntervalTask;
+  // Serializes polls and plan changes so that a run does not overwrite a concurrent change
+  private readonly exclusive = createLock();
+
+  /**
+   * @param options - Poll interval, allowed delay and history size
+   * @param store - Storage of plans and executions
+   * @param fetchTick - Tick source, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    options: DcaOptions = getDcaOptions(),
+    store: DcaStore = new DcaStore(),
+    fetchTick: (symbol: string) => Promise<TradingTick | undefined> = async (symbol) =>
+      (await cryptoApi.getTick(symbol))[0],
+    now: () => number = Date.now,
+  ) {
+    this.options = options;
+    this.store = store;
+    this.fetchTick = fetchTick;
+    this.now = now;
+    this.poller = new IntervalTask("DCA poll", options.pollIntervalMs, () => this.poll());
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Creates an active plan
+   *
+   * @throws {AppError} 404 when the symbol does not exist, 400 for an invalid schedule
+   */
+  create(input: DcaPlanInput): Promise<DcaPlan> {
+    return this.exclusive(async () => {
+      const symbol = await cryptoApi.getSymbol(input.symbol).catch((error: unknown) => {
+        if (error instanceof AppError && error.statusCode === 404) {
+          return undefined;
+        }
+        throw error;
+      });
+      if (!symbol) {
+        throw new AppError(`Symbol ${input.symbol} not found`, 404);
+      }
+
+      const now = this.now();
+      return this.store.createPlan({
+        ...input,
+        active: true,
+        nextRunAt: nextDcaRun(input.schedule, now),
+        lastRunAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Changes the schedule, quote amount or price cap of a plan
+   *
+   * @returns The updated plan, or undefined when it does not exist
+   * @throws {AppError} 400 for an invalid schedule
+   */
+  update(id: number, changes: DcaPlanUpdate): Promise<DcaPlan | undefined> {
+    return this.exclusive(async () => {
+      const plan = await this.store.getPlan(id);
+      if (!plan) {
+        return undefined;
+      }
+      const updated: DcaPlan = { ...plan, ...changes };
+      if (changes.schedule !== undefined) {
+        // Validated even while paused, so that resuming cannot fail
+        const nextRunAt = nextDcaRun(changes.schedule, this.now());
+        updated.nextRunAt = updated.active ? nextRunAt : null;
+      }
+      await this.save(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Pauses or resumes a plan; a resumed plan runs at its next scheduled time
+   * without catching up on the runs missed while paused
+   *
+   * @returns The plan, or undefined when it does not exist
+   */
+  setActive(id: number, active: boolean): Promise<DcaPlan | undefined> {
+    return this.exclusive(async () => {
+      const plan = await this.store.getPlan(id);
+      if (!plan) {
+        return undefined;
+      }
+      if (plan.active !== active) {
+        plan.active = active;
+        plan.nextRunAt = active ? nextDcaRun(plan.schedule, this.now()) : null;
+        await this.save(plan);
+      }
+      return plan;
+    });
+  }
+
+  /**
+   * Deletes a plan and its history
+   *
+   * @returns Whether the plan existed
+   */
+  delete(id: number): Promise<boolean> {
+    return this.exclusive(() => this.store.deletePlan(id));
+  }
+
+  /**
+   * Runs every active plan that is due once
+   */
+  poll(): Promise<void> {
+    return this.exclusive(async () => {
+      const now = this.now();
+      const due = (await this.store.listPlans()).filter(
+        (plan) => plan.active && plan.nextRunAt !== null && plan.nextRunAt <= now,
+      );
+      for (const plan of due) {
+        await this.run(plan, plan.nextRunAt ?? now, now);
+      }
+    });
+  }
+
+  private async run(plan: DcaPlan, scheduledAt: number, now: number): Promise<void> {
+    let execution: RunResult;
+    if (now - scheduledAt > this.options.maxDelayMs) {
+      execution = noOrder(
+        "skipped",
+        `Missed the run due at ${new Date(scheduledAt).toISOString()}`,
+      );
+    } else {
+      try {
+        execution = await this.execute(plan, scheduledAt);
+      } catch (error) {
+        // Left due, so the next poll tries again until maxDelayMs has passed
+        console.warn(
+          `[${new Date().toISOString()}] DCA plan ${plan.id} run failed, retrying:`,
+          errorMessage(error),
+        );
+        return;
+      }
+    }
+
+    await this.store.addExecution(
+      { planId: plan.id, scheduledAt, executedAt: now, ...execution },
+      this.options.historyLimit,
+    );
+    plan.lastRunAt = now;
+    plan.nextRunAt = nextCronTime(parseCron(plan.schedule), now) ?? null;
+    await this.save(plan);
+  }
+
+  /**
+   * Places the buy order of one run
+   *
+   * @throws Only temporary upstream failures; everything else is returned as a failed run
+   */
+  private async execute(plan: DcaPlan, scheduledAt: number): Promise<RunResult> {
+    let price: number | null = null;
+    let amount: number | null = null;
+    try {
+      const symbol = await cryptoApi.getSymbol(plan.symbol);
+      const tick = await this.fetchTick(plan.symbol);
+      if (!symbol || !tick) {
+        return noOrder("failed", `No price is available for ${plan.symbol}`);
+      }
+
+      price = tick.BestAsk.Price;
+      if (plan.maxPrice !== null && price > plan.maxPrice) {
+        return noOrder("skipped", `Ask ${price} is above the price cap ${plan.maxPrice}`, price);
+      }
+      amount = quoteToBaseAmount(plan.quoteAmount, price, symbol);
+      if (amount <= 0 || amount < symbol.MinTradeAmount) {
+        return noOrder(
+          "skipped",
+          `${plan.quoteAmount} ${symbol.ProfitCurrency} buys less than the minimum amount ${symbol.MinTradeAmount}`,
+          price,
+          amount,
+        );
+      }
+
+      const { trade } = await validateTrade(
+        {
+          Symbol: plan.symbol,
+          Side: "Buy",
+          ...(plan.maxPrice !== null
+            ? { Type: "Limit", Price: formatDecimal(plan.maxPrice), ImmediateOrCancel: true }
+            : { Type: "Market" }),
+          Amount: formatDecimal(amount),
+          Comment: `DCA plan ${plan.id}`,
+          ClientId: `dca-${plan.id}-${scheduledAt}`,
+        },
+        { round: true },
+      );
+      const order = await getRiskEngine().placeTrade(trade, () => cryptoApi.createTrade(trade));
+      await recordAudit({
+        action: "trade.create",
+        source: "dca",
+        actor: null,
+        tradeId: order.Id,
+        details: { ...trade, planId: plan.id },
+      });
+      publishWebhookEvent("trade.created", order);
+      return { status: "placed", price, amount, orderId: order.Id, reason: null };
+    } catch (error) {
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      return noOrder("failed", errorMessage(error), price, amount);
+    }
+  }
+
+  private async save(plan: DcaPlan): Promise<void> {
+    plan.updatedAt = this.now();
+    await this.store.savePlan(plan);
+  }
+}
+
+let defaultScheduler: DcaScheduler | undefined;
+
+/**
+ * Returns the app-wide DCA scheduler, creating it on first use
+ */
+export function getDcaScheduler(): DcaScheduler {
+  defaultScheduler ??= new DcaScheduler();
+  return defaultScheduler;
+}
@@ -0,0 +1,314 @@
+import { AppError } from "../middleware/errorHandler.js";
+import type { Candle } from "../types/candles.js";
+import {
+  type BollingerValue,
+  INDICATORS,
+  type IndicatorName,
+  type IndicatorSeries,
+  type IndicatorSpec,
+  type IndicatorValue,
+  type MacdValue,
+} from "../types/indicators.js";
+
+/**
+ * Technical indicators over candle series
+ *
+ * Every function returns one value per input element, aligned by index, with
+ * null until enough elements are available.
+ */
+
+const MAX_PERIOD = 500;
+const MAX_INDICATORS = 10;
+
+/**
+ * Simple moving average
+ *
+ * @example
+ * ```typescript
+ * sma([1, 2, 3, 4], 3) // [null, null, 2, 3]
+ * ```
+ */
+export function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period] ?? 0;
+    }
+    return index >= period - 1 ? sum / period : null;
+  });
+}
+
+/**
+ * Exponential moving average with smoothing 2 / (period + 1), seeded with the
+ * simple average of the first `period` values
+ */
+export function ema(values: number[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seed = 0;
+
+  return values.map((value, index) => {
+    if (previous === null) {
+      seed += value;
+      if (index < period - 1) {
+        return null;
+      }
+      previous = seed / period;
+      return previous;
+    }
+    previous = (value - previous) * k + previous;
+    return previous;
+  });
+}
+
+/**
+ * Relative strength index with Wilder smoothing; the first value needs
+ * `period` price changes
+ */
+export function rsi(values: number[], period: number): (number | null)[] {
+  const result: (number | null)[] = values.map(() => null);
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let index = 1; index < values.length; index++) {
+    const change = (values[index] ?? 0) - (values[index - 1] ?? 0);
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (index <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (index < period) {
+        continue;
+      }
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (averageLoss === 0) {
+      result[index] = averageGain === 0 ? 50 : 100;
+    } else {
+      result[index] = 100 - 100 / (1 + averageGain / averageLoss);
+    }
+  }
+  return result;
+}
+
+/**
+ * MACD line (fast EMA minus slow EMA), its signal line (EMA of the MACD line)
+ * and the histogram (MACD minus signal)
+ */
+export function macd(
+  values: number[],
+  fast: number,
+  slow: number,
+  signal: number,
+): (MacdValue | null)[] {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, index) => {
+    const f = fastEma[index];
+    const s = slowEma[index];
+    return f === null || f === undefined || s === null || s === undefined ? null : f - s;
+  });
+
+  const start = line.findIndex((value) => value !== null);
+  const signalLine = start === -1 ? [] : ema(line.slice(start) as number[], signal);
+
+  return line.map((value, index) => {
+    if (value === null) {
+      return null;
+    }
+    const signalValue = signalLine[index - start] ?? null;
+    return {
+      macd: value,
+      signal: signalValue,
+      histogram: signalValue === null ? null : value - signalValue,
+    };
+  });
+}
+
+/**
+ * Bollinger Bands: simple moving average plus and minus `multiplier`
+ * population standard deviations
+ */
+export function bollinger(
+  values: number[],
+  period: number,
+  multiplier: number,
+): (BollingerValue | null)[] {
+  const middle = sma(values, period);
+  return middle.map((mean, index) => {
+    if (mean === null) {
+      return null;
+    }
+    const window = values.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * multiplier;
+    return { upper: mean + deviation, middle: mean, lower: mean - deviation };
+  });
+}
+
+/**
+ * Average true range with Wilder smoothing, seeded with the simple average of
+ * the first `period` true ranges. The first true range is high minus low.
+ */
+export function atr(
+  candles: Pick<Candle, "high" | "low" | "close">[],
+  period: number,
+): (number | null)[] {
+  let average = 0;
+
+  return candles.map((candle, index) => {
+    const previousClose = candles[index - 1]?.close;
+    const trueRange =
+      previousClose === undefined
+        ? candle.high - candle.low
+        : Math.max(
+            candle.high - candle.low,
+            Math.abs(candle.high - previousClose),
+            Math.abs(candle.low - previousClose),
+          );
+
+    if (index < period) {
+      average += trueRange / period;
+      return index === period - 1 ? average : null;
+    }
+    average = (average * (period - 1) + trueRange) / period;
+    return average;
+  });
+}
+
+const DEFAULT_PARAMETERS: Record<IndicatorName, number[]> = {
+  sma: [20],
+  ema: [20],
+  rsi: [14],
+  atr: [14],
+  macd: [12, 26, 9],
+  bb: [20, 2],
+};
+
+/**
+ * Parses the `set` query, e.g. "rsi:14,ema:50,macd"; omitted parameters use defaults
+ *
+ * @throws {AppError} 400 for unknown indicators or invalid parameters
+ *
+ * @example
+ * ```typescript
+ * parseIndicatorSet("rsi:14,bb")
+ * // [{ name: "rsi", period: 14 }, { name: "bb", period: 20, multiplier: 2 }]
+ * ```
+ */
+export function parseIndicatorSet(set: string): IndicatorSpec[] {
+  const items = set
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+  if (items.length === 0) {
+    throw new AppError("At least one indicator is required", 400);
+  }
+  if (items.length > MAX_INDICATORS) {
+    throw new AppError(`At most ${MAX_INDICATORS} indicators can be requested at once`, 400);
+  }
+
+  return items.map((item) => {
+    const [name = "", ...given] = item.split(":");
+    if (!INDICATORS.includes(name as IndicatorName)) {
+      throw new AppError(`Unknown indicator "${name}"; use one of ${INDICATORS.join(", ")}`, 400);
+    }
+    const defaults = DEFAULT_PARAMETERS[name as IndicatorName];
+    if (given.length > defaults.length) {
+      throw new AppError(`Too many parameters in "${item}"`, 400);
+    }
+    const parameters = defaults.map((fallback, index) =>
+      given[index] === undefined || given[index] === "" ? fallback : Number(given[index]),
+    );
+    const invalid = parameters.some((value, index) =>
+      name === "bb" && index === 1
+        ? !Number.isFinite(value) || value <= 0
+        : !Number.isInteger(value) || value < 1 || value > MAX_PERIOD,
+    );
+    if (invalid) {
+      throw new AppError(`Invalid parameters in "${item}"`, 400);
+    }
+
+    const [first = 0, second = 0, third = 0] = parameters;
+    switch (name as IndicatorName) {
+      case "macd":
+        if (first >= second) {
+          throw new AppError(`The fast period must be shorter than the slow one in "${item}"`, 400);
+        }
+        return { name: "macd", fast: first, slow: second, signal: third };
+      case "bb":
+        return { name: "bb", period: first, multiplier: second };
+      default:
+        return { name: name as "sma" | "ema" | "rsi" | "atr", period: first };
+    }
+  });
+}
+
+/**
+ * Canonical form of a spec with all parameters, used as the key in responses
+ *
+ * @example
+ * ```typescript
+ * formatIndicatorSpec({ name: "macd", fast: 12, slow: 26, signal: 9 }) // "macd:12:26:9"
+ * ```
+ */
+export function formatIndicatorSpec(spec: IndicatorSpec): string {
+  switch (spec.name) {
+    case "macd":
+      return `macd:${spec.fast}:${spec.slow}:${spec.signal}`;
+    case "bb":
+      return `bb:${spec.period}:${spec.multiplier}`;
+    default:
+      return `${spec.name}:${spec.period}`;
+  }
+}
+
+function computeValues(spec: IndicatorSpec, candles: Candle[]): (IndicatorValue | null)[] {
+  const closes = candles.map((candle) => candle.close);
+  switch (spec.name) {
+    case "sma":
+      return sma(closes, spec.period);
+    case "ema":
+      return ema(closes, spec.period);
+    case "rsi":
+      return rsi(closes, spec.period);
+    case "atr":
+      return atr(candles, spec.period);
+    case "macd":
+      return macd(closes, spec.fast, spec.slow, spec.signal);
+    case "bb":
+      return bollinger(closes, spec.period, spec.multiplier);
+  }
+}
+
+/**
+ * Computes indicators over a candle series
+ *
+ * @param limit - Number of most recent values to return per indicator; all
+ * candles are used for the calculation
+ */
+export function computeIndicators(
+  candles: Candle[],
+  specs: IndicatorSpec[],
+  limit: number = candles.length,
+): Record<string, IndicatorSeries> {
+  return Object.fromEntries(
+    specs.map((spec) => {
+      const values = computeValues(spec, candles).map((value, index) => ({
+        time: candles[index]?.time ?? 0,
+        value,
+      }));
+      const series: IndicatorSeries = {
+        spec,
+        latest: values.at(-1)?.value ?? null,
+        values: limit > 0 ? values.slice(-limit) : [],
+      };
+      return [formatIndicatorSpec(spec), series];
+    }),
+  );
+}
@@ -0,0 +1,306 @@
+import { getOrderNotificationOptions } from "../config/env.js";
+import type { Trade } from "../types/api.js";
+import {
+  ORDER_EVENTS,
+  type OrderEvent,
+  type OrderEventType,
+  type OrderSnapshot,
+  type OrderWatcherState,
+} from "../types/notifications.js";
+import { IntervalTask } from "../utils/async.js";
+import { errorMessage } from "../utils/errors.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { type DataStore, getDataStore } from "./storage.js";
+import { getTradeHistoryPage } from "./tradeHistory.js";
+import { publishWebhookEvent } from "./webhooks.js";
+
+export interface OrderNotificationOptions {
+  /** Interval between two polls */
+  pollIntervalMs: number;
+}
+
+// History is re-read from slightly before the last poll, so records modified
+// while a poll was running are not missed
+const HISTORY_OVERLAP_MS = 60 * 1000;
+// Orders no longer returned by the upstream are forgotten after this time
+const SNAPSHOT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const HISTORY_PAGE_SIZE = 500;
+
+// Location of the watcher state in the data store
+const STATE_COLLECTION = "orderWatcher";
+const STATE_KEY = "state";
+
+function emptyState(): OrderWatcherState {
+  return { lastPolledAt: null, orders: {}, subscriptions: {} };
+}
+
+// Orders seen for the first time are compared against an open, unfilled order
+const UNKNOWN_ORDER: Pick<OrderSnapshot, "status" | "filledAmount"> = {
+  status: "Active",
+  filledAmount: 0,
+};
+
+/**
+ * Compares an order with its previous snapshot
+ *
+ * Pure function. An order without a snapshot is treated as open and unfilled,
+ * so orders that were placed and completed between two polls are still reported.
+ *
+ * @example
+ * ```typescript
+ * detectOrderEvents({ status: "Active", filledAmount: 0, seenAt }, { ...trade, Status: "Completed", FilledAmount: 1 })
+ * // [{ type: "filled", trade, filledDelta: 1 }]
+ * ```
+ */
+export function detectOrderEvents(
+  previous: Pick<OrderSnapshot, "status" | "filledAmount"> | undefined,
+  trade: Trade,
+): OrderEvent[] {
+  const before = previous ?? UNKNOWN_ORDER;
+  const filledDelta = Math.max(0, trade.FilledAmount - before.filledAmount);
+  const events: OrderEvent[] = [];
+
+  if (trade.Status === before.status) {
+    if (trade.Status === "Active" && filledDelta > 0) {
+      events.push({ type: "partial", trade, filledDelta });
+    }
+    return events;
+  }
+
+  switch (trade.Status) {
+    case "Active":
+      if (before.status === "Pending") {
+        events.push({ type: "activated", trade, filledDelta });
+      }
+      if (filledDelta > 0) {
+        events.push({ type: "partial", trade, filledDelta });
+      }
+      break;
+    case "Completed":
+      events.push({ type: "filled", trade, filledDelta });
+      break;
+    case "Cancelled":
+      events.push({ type: "cancelled", trade, filledDelta });
+      break;
+    case "Pending":
+      break;
+  }
+
+  return events;
+}
+
+/**
+ * Merges open orders and history records, keeping the latest record of each order
+ */
+function latestById(trades: Trade[]): Trade[] {
+  const latest = new Map<number, Trade>();
+  for (const trade of trades) {
+    const known = latest.get(trade.Id);
+    if (!known || trade.Modified >= known.Modified) {
+      latest.set(trade.Id, trade);
+    }
+  }
+  return [...latest.values()].sort((a, b) => a.Modified - b.Modified);
+}
+
+async function fetchRecentTrades(since: number, until: number): Promise<Trade[]> {
+  const trades = await cryptoApi.getTrades();
+  let cursor: string | undefined;
+  do {
+    const page = await getTradeHistoryPage(
+      { RequestDirection: "Forwards", TimestampFrom: since, TimestampTo: until },
+      HISTORY_PAGE_SIZE,
+      cursor,
+    );
+    trades.push(...page.trades);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor !== undefined);
+  return trades;
+}
+
+/**
+ * Receives an order event for one subscribed chat
+ */
+export type OrderEventNotifier = (chatId: number, event: OrderEvent) => Promise<void>;
+
+/**
+ * Background job that diffs open orders and recent history against the
+ * previous poll, publishes the `trade.filled` and `trade.cancelled` webhook
+ * events and notifies subscribed chats about fills and status changes
+ *
+ * The state (order snapshots and subscriptions) is written to the data store
+ * after every change. The first poll without a stored state only records a baseline,
+ * so existing orders are not reported. Chats are only notified once a notifier
+ * is set; webhook events do not need one.
+ *
+ * @example
+ * ```typescript
+ * const watcher = getOrderWatcher();
+ * watcher.setNotifier((chatId, event) => sendMessage(chatId, formatOrderEvent(event)));
+ * watcher.start();
+ * ```
+ */
+export class OrderWatcher {
+  private notify: OrderEventNotifier | undefined;
+  private readonly store: DataStore;
+  private readonly fetchTrades: (since: number, until: number) => Promise<Trade[]>;
+  private readonly now: () => number;
+  private state: OrderWatcherState = emptyState();
+  private loaded: Promise<void> | undefined;
+  private readonly poller: IntervalTask;
+  private running = false;
+
+  /**
+   * @param notify - Called once per event and subscribed chat, if given
+   * @param options - Poll interval
+   * @param store - Data store the state is kept in
+   * @param fetchTrades - Source of open orders and history since a timestamp, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    notify?: OrderEventNotifier | undefined,
+    options: OrderNotificationOptions = getOrderNotificationOptions(),
+    store: DataStore = getDataStore(),
+    fetchTrades: (since: number, until: number) => Promise<Trade[]> = fetchRecentTrades,
+    now: () => number = Date.now,
+  ) {
+    this.notify = notify;
+    this.store = store;
+    this.fetchTrades = fetchTrades;
+    this.now = now;
+    this.poller = new IntervalTask("Order notification poll", options.pollIntervalMs, async () => {
+      await this.poll();
+    });
+  }
+
+  /**
+   * Sets the receiver of chat notifications, e.g. once the Telegram bot is created
+   */
+  setNotifier(notify: OrderEventNotifier | undefined): void {
+    this.notify = notify;
+  }
+
+  /**
+   * Reads the stored state once; without one the watcher starts empty
+   */
+  load(): Promise<void> {
+    this.loaded ??= this.store.get<OrderWatcherState>(STATE_COLLECTION, STATE_KEY).then((state) => {
+      this.state = state ?? emptyState();
+    });
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    await this.store.set(STATE_COLLECTION, STATE_KEY, this.state);
+  }
+
+  async getSubscription(chatId: number): Promise<OrderEventType[]> {
+    await this.load();
+    return this.state.subscriptions[chatId] ?? [];
+  }
+
+  /**
+   * Sets the events a chat receives; an empty list unsubscribes the chat
+   */
+  async setSubscription(chatId: number, events: OrderEventType[]): Promise<void> {
+    await this.load();
+    if (events.length === 0) {
+      delete this.state.subscriptions[chatId];
+    } else {
+      this.state.subscriptions[chatId] = ORDER_EVENTS.filter((event) => events.includes(event));
+    }
+    await this.save();
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Runs one poll. Polls do not overlap: a call while another poll is still
+   * running returns immediately.
+   *
+   * The state is saved after the notifications were sent; a crash in between
+   * may repeat the events of that poll, but never loses them.
+   *
+   * @returns Events detected in this poll
+   */
+  async poll(): Promise<OrderEvent[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    try {
+      await this.load();
+      const now = this.now();
+      const baseline = this.state.lastPolledAt === null;
+      const since = (this.state.lastPolledAt ?? now) - HISTORY_OVERLAP_MS;
+      const trades = latestById(await this.fetchTrades(since, now));
+
+      const events: OrderEvent[] = [];
+      for (const trade of trades) {
+        const previous = this.state.orders[trade.Id];
+        if (!baseline) {
+          events.push(...detectOrderEvents(previous, trade));
+        }
+        this.state.orders[trade.Id] = {
+          status: trade.Status,
+          filledAmount: trade.FilledAmount,
+          seenAt: now,
+        };
+      }
+
+      for (const event of events) {
+        await this.deliver(event);
+        if (event.type === "filled" || event.type === "cancelled") {
+          publishWebhookEvent(`trade.${event.type}`, event.trade);
+        }
+      }
+
+      for (const [id, snapshot] of Object.entries(this.state.orders)) {
+        if (now - snapshot.seenAt > SNAPSHOT_RETENTION_MS) {
+          delete this.state.orders[id];
+        }
+      }
+      this.state.lastPolledAt = now;
+      await this.save();
+
+      return events;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async deliver(event: OrderEvent): Promise<void> {
+    const notify = this.notify;
+    if (!notify) {
+      return;
+    }
+    for (const [chatId, subscribed] of Object.entries(this.state.subscriptions)) {
+      if (!subscribed.includes(event.type)) {
+        continue;
+      }
+      await notify(Number(chatId), event).catch((error: unknown) => {
+        console.error(
+          `[${new Date().toISOString()}] Failed to notify chat ${chatId} about order ${event.trade.Id}:`,
+          errorMessage(error),
+        );
+      });
+    }
+  }
+}
+
+let defaultWatcher: OrderWatcher | undefined;
+
+/**
+ * Returns the app-wide order watcher, creating it on first use
+ */
+export function getOrderWatcher(): OrderWatcher {
+  defaultWatcher ??= new OrderWatcher();
+  return defaultWatcher;
+}
@@ -0,0 +1,340 @@
+import { groupBy, round } from "es-toolkit";
+import type { Position, Trade, TradingTick } from "../types/api.js";
+import type {
+  CostBasisMethod,
+  Fill,
+  Lot,
+  PnlReport,
+  PnlTotals,
+  SymbolPnl,
+} from "../types/trading.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { getFillPrice, getTradeHistoryPage } from "./tradeHistory.js";
+
+// Amounts below this are treated as zero to absorb floating point noise
+const EPSILON = 1e-12;
+// Decimal places of the reported figures
+const REPORT_PRECISION = 8;
+// Records requested per history page while reading the whole history
+const HISTORY_PAGE_SIZE = 500;
+
+export interface PnlOptions {
+  method: CostBasisMethod;
+  /** Only fills at or after this timestamp count towards realized P&L */
+  from?: number | undefined;
+  /** Fills after this timestamp are ignored; defaults to now */
+  to?: number | undefined;
+}
+
+interface SymbolLedger {
+  realized: number;
+  lots: Lot[];
+}
+
+/**
+ * Turns history records into fills
+ *
+ * The history holds one record per order state change; the latest record of
+ * each order carries its cumulative filled amount. Orders without fills are
+ * dropped. The fill price is the order price, or the current price for market
+ * orders that report none.
+ */
+export function toFills(trades: Trade[]): Fill[] {
+  const latest = new Map<number, Trade>();
+  for (const trade of trades) {
+    const previous = latest.get(trade.Id);
+    if (!previous || trade.Modified >= previous.Modified) {
+      latest.set(trade.Id, trade);
+    }
+  }
+
+  return [...latest.values()]
+    .map((trade) => ({
+      orderId: trade.Id,
+      symbol: trade.Symbol,
+      side: trade.Side,
+      amount: trade.FilledAmount,
+      price: getFillPrice(trade),
+      timestamp: trade.Modified,
+    }))
+    .filter((fill) => fill.amount > 0 && fill.price > 0)
+    .sort((a, b) => a.timestamp - b.timestamp || a.orderId - b.orderId);
+}
+
+/**
+ * Applies a fill to the open lots of its symbol
+ *
+ * Lots always share one direction. A fill in the opposite direction closes
+ * lots (oldest first) and any remainder opens a new lot in its own direction.
+ * With the average method the lots are kept merged into a single lot.
+ *
+ * @returns Realized P&L of the closed amount
+ */
+export function applyFill(lots: Lot[], fill: Fill, method: CostBasisMethod): number {
+  const direction = fill.side === "Buy" ? 1 : -1;
+  let remaining = fill.amount;
+  let realized = 0;
+
+  while (remaining > EPSILON && lots[0] && Math.sign(lots[0].amount) !== direction) {
+    const lot = lots[0];
+    const closed = Math.min(remaining, Math.abs(lot.amount));
+    realized += (fill.price - lot.price) * closed * Math.sign(lot.amount);
+    lot.amount += direction * closed;
+    remaining -= closed;
+
+    if (Math.abs(lot.amount) <= EPSILON) {
+      lots.shift();
+    }
+  }
+
+  if (remaining > EPSILON) {
+    const opened: Lot = {
+      amount: direction * remaining,
+      price: fill.price,
+      timestamp: fill.timestamp,
+    };
+    const current = lots[0];
+
+    if (method === "average" && current) {
+      const amount = current.amount + opened.amount;
+      current.price =
+        (Math.abs(current.amount) * current.price + remaining * fill.price) / Math.abs(amount);
+      current.amount = amount;
+    } else {
+      lots.push(opened);
+    }
+  }
+
+  return realized;
+}
+
+/**
+ * Replays fills per symbol
+ *
+ * @param fills - Fills in chronological order
+ * @param method - Cost basis method
+ * @param from - Realized P&L is only counted for fills at or after this timestamp
+ * @returns Realized P&L and remaining open lots per symbol
+ */
+export function replayFills(
+  fills: Fill[],
+  method: CostBasisMethod,
+  from?: number | undefined,
+): Map<string, SymbolLedger> {
+  const ledgers = new Map<string, SymbolLedger>();
+
+  for (const fill of fills) {
+    const ledger = ledgers.get(fill.symbol) ?? { realized: 0, lots: [] };
+    const realized = applyFill(ledger.lots, fill, method);
+    if (from === undefined || fill.timestamp >= from) {
+      ledger.realized += realized;
+    }
+    ledgers.set(fill.symbol, ledger);
+  }
+
+  return ledgers;
+}
+
+function summarizeSymbol(
+  symbol: string,
+  currency: string,
+  ledger: SymbolLedger,
+  tick: TradingTick | undefined,
+): SymbolPnl {
+  const openAmount = ledger.lots.reduce((sum, lot) => sum + lot.amount, 0);
+  const flat = Math.abs(openAmount) <= EPSILON;
+  const marketPrice =
+    flat || !tick ? null : openAmount > 0 ? tick.BestBid.Price : tick.BestAsk.Price;
+  const unrealized =
+    marketPrice === null
+      ? 0
+      : ledger.lots.reduce((sum, lot) => sum + (marketPrice - lot.price) * lot.amount, 0);
+  const averageCost = flat
+    ? null
+    : ledger.lots.reduce((sum, lot) => sum + lot.price * lot.amount, 0) / openAmount;
+
+  return {
+    symbol,
+    currency,
+    realized: round(ledger.realized, REPORT_PRECISION),
+    unrealized: round(unrealized, REPORT_PRECISION),
+    total: round(ledger.realized + unrealized, REPORT_PRECISION),
+    openAmount: flat ? 0 : round(openAmount, REPORT_PRECISION),
+    averageCost: averageCost === null ? null : round(averageCost, REPORT_PRECISION),
+    marketPrice,
+  };
+}
+
+function sumByCurrency(symbols: SymbolPnl[]): PnlTotals[] {
+  return Object.entries(groupBy(symbols, (symbol) => symbol.currency)).map(([currency, items]) => {
+    const realized = items.reduce((sum, item) => sum + item.realized, 0);
+    const unrealized = items.reduce((sum, item) => sum + item.unrealized, 0);
+    return {
+      currency,
+      realized: round(realized, REPORT_PRECISION),
+      unrealized: round(unrealized, REPORT_PRECISION),
+      total: round(realized + unrealized, REPORT_PRECISION),
+    };
+  });
+}
+
+/**
+ * Seeds open lots from positions for symbols whose opening fills are older
+ * than the available history
+ */
+function seedFromPositions(ledgers: Map<string, SymbolLedger>, positions: Position[]): void {
+  for (const position of positions) {
+    const net = position.LongAmount - position.ShortAmount;
+    const ledger = ledgers.get(position.Symbol);
+    if (Math.abs(net) <= EPSILON || (ledger && ledger.lots.length > 0)) {
+      continue;
+    }
+
+    ledgers.set(position.Symbol, {
+      realized: ledger?.realized ?? 0,
+      lots: [
+        {
+          amount: net,
+          price: net > 0 ? position.LongPrice : position.ShortPrice,
+          timestamp: position.Created,
+        },
+      ],
+    });
+  }
+}
+
+async function readHistory(range: { from?: number | undefined; to: number }): Promise<Trade[]> {
+  const trades: Trade[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await getTradeHistoryPage(
+      { RequestDirection: "Forwards", TimestampFrom: range.from, TimestampTo: range.to },
+      HISTORY_PAGE_SIZE,
+      cursor,
+    );
+    trades.push(...page.trades);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor !== undefined);
+
+  return trades;
+}
+
+/**
+ * Builds a realized and unrealized P&L report from the trade history
+ *
+ * The whole history up to `to` is replayed so that fills inside the range
+ * are matched against lots opened before it. Open lots are valued at the
+ * current bid (long) or ask (short), so unrealized P&L is always as of now.
+ * Figures are in the profit currency of each symbol and totalled per currency.
+ *
+ * @example
+ * ```typescript
+ * const report = await getPnlReport({ method: "fifo", from: Date.parse("2024-01-01") });
+ * report.totals // [{ currency: "USD", realized: 1520.5, unrealized: -210, total: 1310.5 }]
+ * ```
+ */
+export async function getPnlReport(options: PnlOptions): Promise<PnlReport> {
+  const to = options.to ?? Date.now();
+  const [history, positions, symbols] = await Promise.all([
+    readHistory({ to }),
+    cryptoApi.getPositions(),
+    cryptoApi.getSymbols().catch(() => []),
+  ]);
+
+  const ledgers = replayFills(toFills(history), options.method, options.from);
+  seedFromPositions(ledgers, positions);
+
+  const currencies = new Map(symbols.map((symbol) => [symbol.Symbol, symbol.ProfitCurrency]));
+  const results = await Promise.all(
+    [...ledgers.entries()].map(async ([symbol, ledger]) => {
+      const tick =
+        ledger.lots.length > 0
+          ? await cryptoApi
+              .getTick(symbol)
+              .then((ticks) => ticks[0])
+              .catch(() => undefined)
+          : undefined;
+      return summarizeSymbol(symbol, currencies.get(symbol) ?? "", ledger, tick);
+    }),
+  );
+  const reported = results
+    .filter((result) => result.realized !== 0 || result.openAmount !== 0)
+    .sort((a, b) => a.symbol.localeCompare(b.symbol));
+
+  return {
+    method: options.method,
+    from: options.from ?? null,
+    to,
+    symbols: reported,
+    totals: sumByCurrency(reported),
+  };
+}
+
+/**
+ * Realized P&L since a point in time, for checks that run on every order
+ *
+ * The fills before `from` only matter for the lots they leave open, so they
+ * are read once per `from` and kept; each call then only reads the history
+ * since `from`. No ticks are fetched, as only realized P&L is reported.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new RealizedPnlTracker();
+ * await tracker.getTotals(Date.parse("2024-09-22"), "fifo")
+ * // [{ currency: "USD", realized: -120, unrealized: 0, total: -120 }]
+ * ```
+ */
+export class RealizedPnlTracker {
+  private opening: { from: number; fills: Promise<Fill[]> } | undefined;
+
+  async getTotals(
+    from: number,
+    method: CostBasisMethod,
+    now: number = Date.now(),
+  ): Promise<PnlTotals[]> {
+    const [openingFills, recent, symbols] = await Promise.all([
+      this.getOpeningFills(from),
+      readHistory({ from, to: now }),
+      cryptoApi.getSymbols().catch(() => []),
+    ]);
+
+    // An order counts once, at its latest record; later records replace older fills
+    const recentOrders = new Set(recent.map((trade) => trade.Id));
+    const fills = [
+      ...openingFills.filter((fill) => !recentOrders.has(fill.orderId)),
+      ...toFills(recent),
+    ];
+    const ledgers = replayFills(fills, method, from);
+
+    const currencies = new Map(symbols.map((symbol) => [symbol.Symbol, symbol.ProfitCurrency]));
+    const realized = new Map<string, number>();
+    for (const [symbol, ledger] of ledgers) {
+      const currency = currencies.get(symbol) ?? "";
+      realized.set(currency, (realized.get(currency) ?? 0) + ledger.realized);
+    }
+
+    return [...realized.entries()]
+      .filter(([, amount]) => amount !== 0)
+      .map(([currency, amount]) => ({
+        currency,
+        realized: round(amount, REPORT_PRECISION),
+        unrealized: 0,
+        total: round(amount, REPORT_PRECISION),
+      }));
+  }
+
+  private getOpeningFills(from: number): Promise<Fill[]> {
+    if (this.opening?.from !== from) {
+      const fills = readHistory({ to: from - 1 }).then(toFills);
+      // A failed read is retried on the next call instead of being kept
+      fills.catch(() => {
+        if (this.opening?.fills === fills) {
+          this.opening = undefined;
+        }
+      });
+      this.opening = { from, fills };
+    }
+    return this.opening.fills;
+  }
+}
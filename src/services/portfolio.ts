@@ -0,0 +1,71 @@
+import { round, sumBy } from "es-toolkit";
+import { getReportCurrency } from "../config/env.js";
+import type { Asset } from "../types/api.js";
+import type { Portfolio, PortfolioAsset } from "../types/trading.js";
+import { cryptoApi } from "./cryptoApi.js";
+
+// Decimal places of reported values and allocation percentages
+const VALUE_PRECISION = 8;
+const ALLOCATION_PRECISION = 2;
+
+/**
+ * Values account assets in the report currency
+ *
+ * Pure function: uses the `CurrencyToReportConversionRate` the trading server
+ * reports with every asset. Assets with a zero amount are left out.
+ *
+ * @param assets - Account assets from the upstream API
+ * @param reportCurrency - Label of the account's report currency
+ *
+ * @example
+ * ```typescript
+ * buildPortfolio([{ Currency: "BTC", Amount: 0.5, CurrencyToReportConversionRate: 60000, ... }], "USD")
+ * // { reportCurrency: "USD", equity: 30000, assets: [{ currency: "BTC", value: 30000, allocation: 100, ... }], ... }
+ * ```
+ */
+export function buildPortfolio(assets: Asset[], reportCurrency: string): Portfolio {
+  const valued = assets
+    .filter((asset) => asset.Amount !== 0)
+    .map((asset) => {
+      const rate = asset.CurrencyToReportConversionRate;
+      return {
+        currency: asset.Currency,
+        amount: asset.Amount,
+        freeAmount: asset.FreeAmount,
+        lockedAmount: asset.LockedAmount,
+        rate,
+        value: asset.Amount * rate,
+        freeValue: asset.FreeAmount * rate,
+        lockedValue: asset.LockedAmount * rate,
+      };
+    });
+
+  const equity = sumBy(valued, (asset) => asset.value);
+  const freeValue = sumBy(valued, (asset) => asset.freeValue);
+  const lockedValue = sumBy(valued, (asset) => asset.lockedValue);
+  const portfolioAssets: PortfolioAsset[] = valued
+    .sort((a, b) => b.value - a.value)
+    .map((asset) => ({
+      ...asset,
+      value: round(asset.value, VALUE_PRECISION),
+      freeValue: round(asset.freeValue, VALUE_PRECISION),
+      lockedValue: round(asset.lockedValue, VALUE_PRECISION),
+      allocation: equity > 0 ? round((asset.value / equity) * 100, ALLOCATION_PRECISION) : 0,
+    }));
+
+  return {
+    reportCurrency,
+    equity: round(equity, VALUE_PRECISION),
+    freeValue: round(freeValue, VALUE_PRECISION),
+    lockedValue: round(lockedValue, VALUE_PRECISION),
+    assets: portfolioAssets,
+  };
+}
+
+/**
+ * Fetches the account assets and values them in the report currency
+ */
+export async function getPortfolio(): Promise<Portfolio> {
+  const assets = await cryptoApi.getAccountAssets();
+  return buildPortfolio(assets, getReportCurrency());
+}
@@ -0,0 +1,575 @@
+import { round } from "es-toolkit";
+import { getReportCurrency, getRiskOptions } from "../config/env.js";
+import { AppError } from "../middleware/errorHandler.js";
+import type {
+  Asset,
+  CreateTradeRequest,
+  ModifyTradeRequest,
+  Position,
+  Trade,
+  TradingSide,
+  Symbol as TradingSymbol,
+} from "../types/api.js";
+import type { AuditSource } from "../types/audit.js";
+import type { KillSwitchState, RiskViolation } from "../types/risk.js";
+import type { PnlTotals } from "../types/trading.js";
+import { createLock } from "../utils/async.js";
+import { formatDecimal } from "../utils/decimal.js";
+import { recordAudit } from "./audit.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { RealizedPnlTracker } from "./pnl.js";
+import { type DataStore, getSharedDataStore } from "./storage.js";
+
+/**
+ * Risk limits; values are in the report currency and 0 turns a limit off
+ */
+export interface RiskOptions {
+  /** Largest value of a single order */
+  maxOrderNotional: number;
+  /** Largest value of the net position in one symbol after an order */
+  maxPositionValue: number;
+  /** Largest combined value of all net positions after an order */
+  maxTotalExposure: number;
+  /** Realized loss since midnight UTC at which orders that add risk are refused */
+  maxDailyLoss: number;
+  /** Most orders accepted within any 60 seconds */
+  maxOrdersPerMinute: number;
+}
+
+/**
+ * Account state a trade is checked against
+ */
+export interface RiskContext {
+  reportCurrency: string;
+  /** Metadata of the traded symbol and of every symbol with an open position */
+  symbols: TradingSymbol[];
+  positions: Position[];
+  /** Open orders; their remaining amounts count as filled on their side */
+  openOrders: Trade[];
+  /** Source of the conversion rates to the report currency */
+  assets: Asset[];
+  /** Price the order is valued at, in the profit currency; undefined when unquoted */
+  price: number | undefined;
+  /** Realized P&L since midnight UTC in the report currency; undefined when unknown */
+  dailyRealized: number | undefined;
+  /** Orders accepted within the last 60 seconds */
+  recentOrders: number;
+}
+
+export interface RiskStatus {
+  killSwitch: KillSwitchState;
+  limits: RiskOptions;
+  ordersLastMinute: number;
+}
+
+const COLLECTION = "risk";
+const KILL_SWITCH_KEY = "killSwitch";
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Decimal places of reported values
+const VALUE_PRECISION = 8;
+
+const INITIAL_KILL_SWITCH: KillSwitchState = {
+  active: false,
+  reason: null,
+  actor: null,
+  source: null,
+  updatedAt: null,
+};
+
+/**
+ * Raised when an order breaks one or more risk limits or trading is halted
+ */
+export class RiskRejectionError extends AppError {
+  public readonly violations: RiskViolation[];
+
+  constructor(violations: RiskViolation[]) {
+    super(
+      violations.map((violation) => violation.message).join("; ") || "Risk check failed",
+      422,
+      true,
+      { violations },
+    );
+    this.violations = violations;
+  }
+}
+
+/**
+ * Rate that converts an amount of `currency` into the report currency, taken
+ * from the `CurrencyToReportConversionRate` of the account asset
+ *
+ * @returns The rate, or undefined when the account holds no such asset
+ */
+export function conversionRate(
+  currency: string,
+  assets: Asset[],
+  reportCurrency: string,
+): number | undefined {
+  if (currency === reportCurrency) {
+    return 1;
+  }
+  const rate = assets.find((asset) => asset.Currency === currency)?.CurrencyToReportConversionRate;
+  return rate !== undefined && rate > 0 ? rate : undefined;
+}
+
+function netAmount(positions: Position[], symbol: string): number {
+  const position = positions.find((item) => item.Symbol === symbol);
+  return position ? position.LongAmount - position.ShortAmount : 0;
+}
+
+function restingAmount(openOrders: Trade[], symbol: string, side: TradingSide): number {
+  return openOrders
+    .filter((order) => order.Symbol === symbol && order.Side === side)
+    .reduce((sum, order) => sum + order.RemainingAmount, 0);
+}
+
+/**
+ * Net amount of a symbol if every open order on one side filled, taking the
+ * side that grows the position the most
+ */
+function projectedAmount(context: RiskContext, symbol: string): number {
+  const net = netAmount(context.positions, symbol);
+  const long = net + restingAmount(context.openOrders, symbol, "Buy");
+  const short = net - restingAmount(context.openOrders, symbol, "Sell");
+  return Math.abs(long) >= Math.abs(short) ? long : short;
+}
+
+function formatValue(value: number, currency: string): string {
+  return `${round(value, 2)} ${currency}`;
+}
+
+/**
+ * Values the projected positions of all symbols other than `excluded`: at the
+ * current bid (long) or ask (short), or at the order price for symbols that
+ * only have open orders
+ *
+ * @returns The total, or the currency or symbol that could not be valued
+ */
+function otherPositionsValue(
+  context: RiskContext,
+  excluded: string,
+): { value: number } | { missing: string } {
+  const names = new Set([...context.positions, ...context.openOrders].map((item) => item.Symbol));
+  let value = 0;
+  for (const name of names) {
+    const projected = projectedAmount(context, name);
+    if (name === excluded || projected === 0) {
+      continue;
+    }
+    const symbol = context.symbols.find((item) => item.Symbol === name);
+    const rate =
+      symbol && conversionRate(symbol.ProfitCurrency, context.assets, context.reportCurrency);
+    if (!symbol || rate === undefined) {
+      return { missing: symbol?.ProfitCurrency ?? name };
+    }
+    const position = context.positions.find((item) => item.Symbol === name);
+    const order = context.openOrders.find((item) => item.Symbol === name);
+    const mark = position
+      ? projected > 0
+        ? position.CurrentBestBid
+        : position.CurrentBestAsk
+      : order && (order.Price > 0 ? order.Price : order.CurrentPrice);
+    value += Math.abs(projected) * (symbol.ContractSize || 1) * (mark ?? 0) * rate;
+  }
+  return { value };
+}
+
+/**
+ * Checks an order against the risk limits
+ *
+ * Pure function: the caller loads the account state. Open orders on the
+ * side of the order are added to its position, so queued orders cannot build
+ * a position above the limits one by one. Orders that shrink the net position
+ * of their symbol pass the position, exposure and daily loss limits, so
+ * positions can always be reduced.
+ *
+ * @param trade - The order about to be sent upstream
+ * @param context - Account state, prices and conversion rates
+ * @param options - The risk limits
+ * @returns Every violated limit; empty when the order may be placed
+ *
+ * @example
+ * ```typescript
+ * evaluateRisk({ Symbol: "BTCUSD", Side: "Buy", Amount: "1" }, context, { ...limits, maxOrderNotional: 10000 })
+ * // [{ rule: "MAX_ORDER_NOTIONAL", message: "Order value 60000 USD exceeds the limit of 10000 USD", limit: 10000, value: 60000 }]
+ * ```
+ */
+export function evaluateRisk(
+  trade: CreateTradeRequest,
+  context: RiskContext,
+  options: RiskOptions,
+): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+  const currency = context.reportCurrency;
+
+  if (options.maxOrdersPerMinute > 0 && context.recentOrders >= options.maxOrdersPerMinute) {
+    violations.push({
+      rule: "MAX_ORDERS_PER_MINUTE",
+      message: `At most ${options.maxOrdersPerMinute} orders per minute are allowed`,
+      limit: options.maxOrdersPerMinute,
+      value: context.recentOrders,
+    });
+  }
+
+  const amount = Number(trade.Amount);
+  const before = netAmount(context.positions, trade.Symbol);
+  const added = amount + restingAmount(context.openOrders, trade.Symbol, trade.Side);
+  const after = before + (trade.Side === "Buy" ? added : -added);
+  const reducing = Math.abs(after) < Math.abs(before);
+
+  if (options.maxDailyLoss > 0 && !reducing) {
+    if (context.dailyRealized === undefined) {
+      violations.push({
+        rule: "CONVERSION_RATE_UNAVAILABLE",
+        message: `Today's realized P&L cannot be valued in ${currency}`,
+      });
+    } else if (-context.dailyRealized >= options.maxDailyLoss) {
+      violations.push({
+        rule: "MAX_DAILY_LOSS",
+        message: `Today's realized loss of ${formatValue(-context.dailyRealized, currency)} has reached the limit of ${formatValue(options.maxDailyLoss, currency)}`,
+        limit: options.maxDailyLoss,
+        value: round(-context.dailyRealized, VALUE_PRECISION),
+      });
+    }
+  }
+
+  const valued =
+    options.maxOrderNotional > 0 || options.maxPositionValue > 0 || options.maxTotalExposure > 0;
+  if (!valued) {
+    return violations;
+  }
+
+  const symbol = context.symbols.find((item) => item.Symbol === trade.Symbol);
+  const rate = symbol && conversionRate(symbol.ProfitCurrency, context.assets, currency);
+  if (context.price === undefined) {
+    violations.push({
+      rule: "PRICE_UNAVAILABLE",
+      message: `No price is available to value the ${trade.Symbol} order`,
+    });
+    return violations;
+  }
+  if (!symbol || rate === undefined) {
+    violations.push({
+      rule: "CONVERSION_RATE_UNAVAILABLE",
+      message: `${symbol?.ProfitCurrency ?? trade.Symbol} cannot be converted to ${currency}`,
+    });
+    return violations;
+  }
+  const unitValue = (symbol.ContractSize || 1) * context.price * rate;
+
+  const notional = amount * unitValue;
+  if (options.maxOrderNotional > 0 && notional > options.maxOrderNotional) {
+    violations.push({
+      rule: "MAX_ORDER_NOTIONAL",
+      message: `Order value ${formatValue(notional, currency)} exceeds the limit of ${formatValue(options.maxOrderNotional, currency)}`,
+      limit: options.maxOrderNotional,
+      value: round(notional, VALUE_PRECISION),
+    });
+  }
+
+  const positionValue = Math.abs(after) * unitValue;
+  if (options.maxPositionValue > 0 && !reducing && positionValue > options.maxPositionValue) {
+    violations.push({
+      rule: "MAX_POSITION_VALUE",
+      message: `The ${trade.Symbol} position would be worth ${formatValue(positionValue, currency)}, above the limit of ${formatValue(options.maxPositionValue, currency)}`,
+      limit: options.maxPositionValue,
+      value: round(positionValue, VALUE_PRECISION),
+    });
+  }
+
+  if (options.maxTotalExposure > 0 && !reducing) {
+    const others = otherPositionsValue(context, trade.Symbol);
+    if ("missing" in others) {
+      violations.push({
+        rule: "CONVERSION_RATE_UNAVAILABLE",
+        message: `The open ${others.missing} positions cannot be valued in ${currency}`,
+      });
+    } else if (others.value + positionValue > options.maxTotalExposure) {
+      const exposure = others.value + positionValue;
+      violations.push({
+        rule: "MAX_TOTAL_EXPOSURE",
+        message: `Total exposure would be ${formatValue(exposure, currency)}, above the limit of ${formatValue(options.maxTotalExposure, currency)}`,
+        limit: options.maxTotalExposure,
+        value: round(exposure, VALUE_PRECISION),
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * The order an open order becomes after a change, as checked by the risk
+ * limits: its remaining amount at the new limit or stop price
+ */
+function changedOrder(order: Trade, changes: Omit<ModifyTradeRequest, "Id">): CreateTradeRequest {
+  const amount =
+    changes.Amount !== undefined
+      ? Number(changes.Amount) - order.FilledAmount
+      : order.RemainingAmount;
+  const price =
+    changes.Price ??
+    (order.Type === "Stop" ? changes.StopPrice : undefined) ??
+    (order.Price > 0 ? formatDecimal(order.Price) : undefined);
+  return {
+    Symbol: order.Symbol,
+    Side: order.Side,
+    Type: order.Type,
+    Amount: formatDecimal(Math.max(0, amount)),
+    ...(price !== undefined && { Price: price }),
+  };
+}
+
+/**
+ * Converts realized P&L totals per profit currency into the report currency
+ *
+ * @returns The sum, or undefined when a currency has no conversion rate
+ */
+export function realizedInReportCurrency(
+  totals: PnlTotals[],
+  assets: Asset[],
+  reportCurrency: string,
+): number | undefined {
+  let realized = 0;
+  for (const total of totals) {
+    if (total.realized === 0) {
+      continue;
+    }
+    const rate = conversionRate(total.currency, assets, reportCurrency);
+    if (rate === undefined) {
+      return undefined;
+    }
+    realized += total.realized * rate;
+  }
+  return realized;
+}
+
+/**
+ * Kill switch state, kept in the shared data store so that it survives
+ * restarts and halts every process: the bot, the API server and all Netlify
+ * function instances read it before each order
+ */
+export class RiskStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the shared store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getSharedDataStore;
+  }
+
+  async getKillSwitch(): Promise<KillSwitchState> {
+    return (
+      (await this.getStore().get<KillSwitchState>(COLLECTION, KILL_SWITCH_KEY)) ?? {
+        ...INITIAL_KILL_SWITCH,
+      }
+    );
+  }
+
+  async saveKillSwitch(state: KillSwitchState): Promise<void> {
+    await this.getStore().set(COLLECTION, KILL_SWITCH_KEY, state);
+  }
+}
+
+/**
+ * Runs the risk checks before an order is sent upstream
+ *
+ * Account state is only loaded for the limits that are turned on. Orders are
+ * checked and placed one at a time, so concurrent orders cannot all pass
+ * against the same positions and order count. The order rate is counted per
+ * process, so the API server and the bot each apply the per-minute limit to
+ * their own orders.
+ *
+ * @example
+ * ```typescript
+ * // Throws RiskRejectionError without calling createTrade
+ * const placed = await getRiskEngine().placeTrade(trade, () => cryptoApi.createTrade(trade));
+ * ```
+ */
+export class RiskEngine {
+  private readonly options: RiskOptions;
+  private readonly store: RiskStore;
+  private readonly now: () => number;
+  private readonly realizedPnl: RealizedPnlTracker;
+  private orderTimes: number[] = [];
+  // Serializes checks with the placement of the checked order
+  private readonly exclusive = createLock();
+
+  /**
+   * @param options - Risk limits
+   * @param store - Storage of the kill switch
+   * @param now - Clock, injectable for tests
+   * @param realizedPnl - Source of today's realized P&L for the daily loss limit
+   */
+  constructor(
+    options: RiskOptions = getRiskOptions(),
+    store: RiskStore = new RiskStore(),
+    now: () => number = Date.now,
+    realizedPnl: RealizedPnlTracker = new RealizedPnlTracker(),
+  ) {
+    this.options = options;
+    this.store = store;
+    this.now = now;
+    this.realizedPnl = realizedPnl;
+  }
+
+  /**
+   * Checks an order and, when it passes, places it and counts it towards the
+   * per-minute limit. The next order is only checked once `place` settled, so
+   * it sees the position this one opened.
+   *
+   * @param place - Sends the checked order upstream; when it fails the order
+   * does not count towards the per-minute limit
+   * @returns The result of `place`
+   * @throws RiskRejectionError (422) listing every violated limit, or only
+   * the kill switch while trading is halted
+   */
+  placeTrade<T>(trade: CreateTradeRequest, place: () => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      await this.checkTrade(trade);
+      const slot = this.now();
+      this.orderTimes.push(slot);
+      try {
+        return await place();
+      } catch (error) {
+        this.orderTimes.splice(this.orderTimes.indexOf(slot), 1);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Checks a change to an open order and, when it passes, applies it. The
+   * changed order is checked as if it replaced the open one, which is left
+   * out of the open orders, so only the difference adds to the position.
+   * Changes do not count towards the per-minute limit.
+   *
+   * @param order - The open order before the change
+   * @param modify - Sends the change upstream
+   * @returns The result of `modify`
+   * @throws RiskRejectionError (422) listing every violated limit, or only
+   * the kill switch while trading is halted
+   */
+  modifyTrade<T>(
+    order: Trade,
+    changes: Omit<ModifyTradeRequest, "Id">,
+    modify: () => Promise<T>,
+  ): Promise<T> {
+    return this.exclusive(async () => {
+      await this.checkTrade(changedOrder(order, changes), order.Id);
+      return modify();
+    });
+  }
+
+  private async checkTrade(trade: CreateTradeRequest, replacedOrderId?: number): Promise<void> {
+    const killSwitch = await this.store.getKillSwitch();
+    if (killSwitch.active) {
+      throw new RiskRejectionError([
+        {
+          rule: "KILL_SWITCH",
+          message: `Trading is halted${killSwitch.reason ? `: ${killSwitch.reason}` : ""}`,
+        },
+      ]);
+    }
+
+    const context = await this.loadContext(trade, replacedOrderId);
+    const violations = evaluateRisk(trade, context, this.options);
+    if (violations.length > 0) {
+      throw new RiskRejectionError(violations);
+    }
+  }
+
+  async getStatus(): Promise<RiskStatus> {
+    return {
+      killSwitch: await this.store.getKillSwitch(),
+      limits: { ...this.options },
+      ordersLastMinute: this.countRecentOrders(),
+    };
+  }
+
+  /**
+   * Halts or resumes all new orders and records the change in the audit log
+   */
+  async setKillSwitch(
+    active: boolean,
+    change: { reason?: string | undefined; actor: string | null; source: AuditSource },
+  ): Promise<KillSwitchState> {
+    const state: KillSwitchState = {
+      active,
+      reason: change.reason ?? null,
+      actor: change.actor,
+      source: change.source,
+      updatedAt: this.now(),
+    };
+    await this.store.saveKillSwitch(state);
+    await recordAudit({
+      action: "risk.kill_switch",
+      source: change.source,
+      actor: change.actor,
+      tradeId: null,
+      details: { active, reason: state.reason },
+    });
+    return state;
+  }
+
+  private countRecentOrders(): number {
+    const cutoff = this.now() - MINUTE_MS;
+    this.orderTimes = this.orderTimes.filter((time) => time > cutoff);
+    return this.orderTimes.length;
+  }
+
+  private async loadContext(
+    trade: CreateTradeRequest,
+    replacedOrderId: number | undefined,
+  ): Promise<RiskContext> {
+    const { maxOrderNotional, maxPositionValue, maxTotalExposure, maxDailyLoss } = this.options;
+    const valued = maxOrderNotional > 0 || maxPositionValue > 0 || maxTotalExposure > 0;
+    const needsPositions = maxPositionValue > 0 || maxTotalExposure > 0 || maxDailyLoss > 0;
+    const reportCurrency = getReportCurrency();
+
+    const [symbols, positions, openOrders, assets, price, realized] = await Promise.all([
+      valued ? cryptoApi.getSymbols() : [],
+      needsPositions ? cryptoApi.getPositions() : [],
+      needsPositions ? cryptoApi.getTrades() : [],
+      valued || maxDailyLoss > 0 ? cryptoApi.getAccountAssets() : [],
+      valued ? this.orderPrice(trade) : undefined,
+      maxDailyLoss > 0
+        ? this.realizedPnl.getTotals(Math.floor(this.now() / DAY_MS) * DAY_MS, "fifo", this.now())
+        : undefined,
+    ]);
+
+    return {
+      reportCurrency,
+      symbols,
+      positions,
+      openOrders: openOrders.filter(
+        (order) => order.RemainingAmount > 0 && order.Id !== replacedOrderId,
+      ),
+      assets,
+      price,
+      dailyRealized: realized ? realizedInReportCurrency(realized, assets, reportCurrency) : 0,
+      recentOrders: replacedOrderId === undefined ? this.countRecentOrders() : 0,
+    };
+  }
+
+  // Limit and stop prices value the order where it executes; market orders use the touch
+  private async orderPrice(trade: CreateTradeRequest): Promise<number | undefined> {
+    const given = trade.Price ?? trade.StopPrice;
+    if (given !== undefined) {
+      return Number(given);
+    }
+    const [tick] = await cryptoApi.getTick(trade.Symbol);
+    return trade.Side === "Buy" ? tick?.BestAsk.Price : tick?.BestBid.Price;
+  }
+}
+
+let defaultEngine: RiskEngine | undefined;
+
+/**
+ * Returns the app-wide risk engine, creating it on first use
+ */
+export function getRiskEngine(): RiskEngine {
+  defaultEngine ??= new RiskEngine();
+  return defaultEngine;
+}
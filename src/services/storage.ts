@@ -0,0 +1,432 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getStore } from "@netlify/blobs";
+import type { StorageAdapter } from "grammy";
+import { z } from "zod";
+import { getStorageOptions } from "../config/env.js";
+import {
+  STORAGE_MIGRATIONS,
+  type StorageDocument,
+  type StorageMigration,
+  emptyStorageDocument,
+  migrateStorageDocument,
+} from "./storageMigrations.js";
+
+export const STORAGE_DRIVERS = ["file", "memory", "netlify-blobs"] as const;
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+export interface StorageOptions {
+  driver: StorageDriver;
+  /** JSON file of the file driver */
+  file: string;
+  /** JSON file of the file driver for state shared by all processes */
+  sharedFile: string;
+  /** Netlify Blobs store of the netlify-blobs driver */
+  blobStore: string;
+  /** Directory of the recorded candles of the file driver, one file per symbol */
+  candleDirectory: string;
+}
+
+export interface StorageRecord<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Key-value repository for app data, grouped in collections
+ *
+ * Collections are created by migrations; writing to an unknown collection
+ * fails. Values must be JSON-serializable and are copied on read and write, so
+ * callers never share references with the store.
+ */
+export interface DataStore {
+  /**
+   * Loads the store and applies pending migrations; other operations call it
+   * themselves. Call it at startup to fail early on an unreadable store.
+   */
+  open(): Promise<void>;
+  get<T>(collection: string, key: string): Promise<T | undefined>;
+  set<T>(collection: string, key: string, value: T): Promise<void>;
+  /** @returns Whether the record existed */
+  delete(collection: string, key: string): Promise<boolean>;
+  list<T>(collection: string): Promise<StorageRecord<T>[]>;
+  /** Increments a named sequence and returns the new value, starting at 1 */
+  nextId(sequence: string): Promise<number>;
+}
+
+const StorageDocumentSchema = z.object({
+  schemaVersion: z.number().int().nonnegative(),
+  collections: z.record(z.record(z.unknown())),
+  sequences: z.record(z.number().int()),
+});
+
+/**
+ * Data store kept in memory, for tests and deployments without a disk
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryDataStore();
+ * await store.set("alerts", "1", alert);
+ * ```
+ */
+export class MemoryDataStore implements DataStore {
+  protected document: StorageDocument = emptyStorageDocument();
+  private ready: Promise<void> | undefined;
+  protected readonly migrations: StorageMigration[];
+
+  /**
+   * @param migrations - Schema migrations, replaceable for tests
+   */
+  constructor(migrations: StorageMigration[] = STORAGE_MIGRATIONS) {
+    this.migrations = migrations;
+  }
+
+  /**
+   * Loads the document and applies pending migrations. Called before every
+   * operation; the work only happens once it succeeded, a failed load is
+   * tried again by the next operation.
+   */
+  open(): Promise<void> {
+    this.ready ??= this.load()
+      .then(async (document) => {
+        const applied = migrateStorageDocument(document, this.migrations);
+        this.document = document;
+        if (applied.length > 0) {
+          await this.persist();
+        }
+      })
+      .catch((error: unknown) => {
+        this.ready = undefined;
+        throw error;
+      });
+    return this.ready;
+  }
+
+  get schemaVersion(): number {
+    return this.document.schemaVersion;
+  }
+
+  protected async load(): Promise<StorageDocument> {
+    return emptyStorageDocument();
+  }
+
+  protected async persist(): Promise<void> {}
+
+  private collection(name: string): Record<string, unknown> {
+    const collection = this.document.collections[name];
+    if (!collection) {
+      throw new Error(`Unknown storage collection: ${name}`);
+    }
+    return collection;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    await this.open();
+    const value = this.collection(collection)[key];
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.open();
+    this.collection(collection)[key] = structuredClone(value);
+    await this.persist();
+  }
+
+  async delete(collection: string, key: string): Promise<boolean> {
+    await this.open();
+    const records = this.collection(collection);
+    if (!(key in records)) {
+      return false;
+    }
+    delete records[key];
+    await this.persist();
+    return true;
+  }
+
+  async list<T>(collection: string): Promise<StorageRecord<T>[]> {
+    await this.open();
+    return Object.entries(this.collection(collection)).map(([key, value]) => ({
+      key,
+      value: structuredClone(value) as T,
+    }));
+  }
+
+  async nextId(sequence: string): Promise<number> {
+    await this.open();
+    const id = (this.document.sequences[sequence] ?? 0) + 1;
+    this.document.sequences[sequence] = id;
+    await this.persist();
+    return id;
+  }
+}
+
+/**
+ * Data store persisted to a single JSON file
+ *
+ * The whole document is held in memory and rewritten after every change.
+ * Writes go to a temporary file that replaces the original, so a crash never
+ * leaves a truncated file behind. Meant for a single process; several
+ * processes sharing one file overwrite each other's changes.
+ */
+export class FileDataStore extends MemoryDataStore {
+  private readonly file: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param file - Path of the JSON file; missing directories are created
+   * @param migrations - Schema migrations, replaceable for tests
+   */
+  constructor(file: string, migrations: StorageMigration[] = STORAGE_MIGRATIONS) {
+    super(migrations);
+    this.file = file;
+  }
+
+  protected override async load(): Promise<StorageDocument> {
+    try {
+      return StorageDocumentSchema.parse(JSON.parse(await readFile(this.file, "utf8")));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyStorageDocument();
+      }
+      throw new Error(
+        `Cannot read storage file ${this.file}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  protected override persist(): Promise<void> {
+    // Serialize writes so an older snapshot never replaces a newer one
+    const content = JSON.stringify(this.document);
+    // A failed write was reported to its caller and must not block later ones
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const temporary = `${this.file}.tmp`;
+        await mkdir(dirname(this.file), { recursive: true });
+        await writeFile(temporary, content);
+        await rename(temporary, this.file);
+      });
+    return this.writing;
+  }
+}
+
+/**
+ * File data store that reads the file again before every operation, so that
+ * several processes see each other's changes. Each write replaces the whole
+ * file and the last one wins, so it is meant for small state that rarely
+ * changes, such as the kill switch.
+ */
+export class SharedFileDataStore extends FileDataStore {
+  override async open(): Promise<void> {
+    await super.open();
+    const document = await this.load();
+    migrateStorageDocument(document, this.migrations);
+    this.document = document;
+  }
+}
+
+/**
+ * The part of a Netlify Blobs store used by BlobsDataStore
+ */
+export interface BlobStore {
+  get(key: string, options: { type: "json" }): Promise<unknown>;
+  getWithMetadata(
+    key: string,
+    options: { type: "json" },
+  ): Promise<{ data: unknown; etag?: string | undefined } | null>;
+  setJSON(
+    key: string,
+    data: unknown,
+    options?: { onlyIfMatch: string } | { onlyIfNew: boolean },
+  ): Promise<{ modified: boolean }>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix: string }): Promise<{ blobs: { key: string }[] }>;
+}
+
+interface BlobSchema {
+  schemaVersion: number;
+  collections: string[];
+}
+
+const SCHEMA_KEY = "schema";
+// Attempts to increment a sequence that other instances keep changing
+const MAX_SEQUENCE_ATTEMPTS = 10;
+
+/**
+ * Data store kept in Netlify Blobs, for Netlify functions
+ *
+ * Every record is a blob of its own and is read from the blob store on each
+ * access, so all function instances share the data and nothing is lost on a
+ * cold start. Sequences are incremented with conditional writes, so two
+ * instances never hand out the same ID. Migrations run on an outline of the
+ * store: the collection names, plus any records a migration adds.
+ *
+ * @example
+ * ```typescript
+ * const store = new BlobsDataStore(getStore({ name: "crypton", consistency: "strong" }));
+ * await store.set("alerts", "1", alert);
+ * ```
+ */
+export class BlobsDataStore implements DataStore {
+  private readonly blobs: BlobStore;
+  private readonly migrations: StorageMigration[];
+  private collections = new Set<string>();
+  private ready: Promise<void> | undefined;
+
+  /**
+   * @param blobs - Blob store holding the data
+   * @param migrations - Schema migrations, replaceable for tests
+   */
+  constructor(blobs: BlobStore, migrations: StorageMigration[] = STORAGE_MIGRATIONS) {
+    this.blobs = blobs;
+    this.migrations = migrations;
+  }
+
+  open(): Promise<void> {
+    this.ready ??= this.migrate().catch((error: unknown) => {
+      this.ready = undefined;
+      throw error;
+    });
+    return this.ready;
+  }
+
+  async get<T>(collection: string, key: string): Promise<T | undefined> {
+    const value = await this.blobs.get(await this.recordKey(collection, key), { type: "json" });
+    return value === null ? undefined : (value as T);
+  }
+
+  async set<T>(collection: string, key: string, value: T): Promise<void> {
+    await this.blobs.setJSON(await this.recordKey(collection, key), value);
+  }
+
+  async delete(collection: string, key: string): Promise<boolean> {
+    const blobKey = await this.recordKey(collection, key);
+    if ((await this.blobs.get(blobKey, { type: "json" })) === null) {
+      return false;
+    }
+    await this.blobs.delete(blobKey);
+    return true;
+  }
+
+  async list<T>(collection: string): Promise<StorageRecord<T>[]> {
+    const prefix = await this.recordKey(collection, "");
+    const { blobs } = await this.blobs.list({ prefix });
+    const records = await Promise.all(
+      blobs.map(async (blob) => ({
+        key: decodeURIComponent(blob.key.slice(prefix.length)),
+        value: (await this.blobs.get(blob.key, { type: "json" })) as T | null,
+      })),
+    );
+    // Records deleted between listing and reading are left out
+    return records.filter((record): record is StorageRecord<T> => record.value !== null);
+  }
+
+  async nextId(sequence: string): Promise<number> {
+    await this.open();
+    const key = `sequences/${encodeURIComponent(sequence)}`;
+    for (let attempt = 0; attempt < MAX_SEQUENCE_ATTEMPTS; attempt++) {
+      const current = await this.blobs.getWithMetadata(key, { type: "json" });
+      const id = Number(current?.data ?? 0) + 1;
+      const { modified } = await this.blobs.setJSON(
+        key,
+        id,
+        current?.etag ? { onlyIfMatch: current.etag } : { onlyIfNew: true },
+      );
+      if (modified) {
+        return id;
+      }
+    }
+    throw new Error(`Sequence ${sequence} is changing too often to increment`);
+  }
+
+  private async recordKey(collection: string, key: string): Promise<string> {
+    await this.open();
+    if (!this.collections.has(collection)) {
+      throw new Error(`Unknown storage collection: ${collection}`);
+    }
+    return `records/${collection}/${encodeURIComponent(key)}`;
+  }
+
+  private async migrate(): Promise<void> {
+    const schema = (await this.blobs.get(SCHEMA_KEY, { type: "json" })) as BlobSchema | null;
+    const document: StorageDocument = {
+      schemaVersion: schema?.schemaVersion ?? 0,
+      collections: Object.fromEntries((schema?.collections ?? []).map((name) => [name, {}])),
+      sequences: {},
+    };
+    const applied = migrateStorageDocument(document, this.migrations);
+
+    if (applied.length > 0) {
+      for (const [collection, records] of Object.entries(document.collections)) {
+        for (const [key, value] of Object.entries(records)) {
+          await this.blobs.setJSON(`records/${collection}/${encodeURIComponent(key)}`, value);
+        }
+      }
+      for (const [sequence, id] of Object.entries(document.sequences)) {
+        await this.blobs.setJSON(`sequences/${encodeURIComponent(sequence)}`, id);
+      }
+      await this.blobs.setJSON(SCHEMA_KEY, {
+        schemaVersion: document.schemaVersion,
+        collections: Object.keys(document.collections),
+      } satisfies BlobSchema);
+    }
+    this.collections = new Set(Object.keys(document.collections));
+  }
+}
+
+export function createDataStore(options: StorageOptions): DataStore {
+  switch (options.driver) {
+    case "file":
+      return new FileDataStore(options.file);
+    case "memory":
+      return new MemoryDataStore();
+    case "netlify-blobs":
+      return new BlobsDataStore(getStore({ name: options.blobStore, consistency: "strong" }));
+  }
+}
+
+let defaultStore: DataStore | undefined;
+
+/**
+ * Returns the app-wide data store configured by STORAGE_DRIVER, creating it on first use
+ */
+export function getDataStore(): DataStore {
+  defaultStore ??= createDataStore(getStorageOptions());
+  return defaultStore;
+}
+
+let sharedStore: DataStore | undefined;
+
+/**
+ * Returns the data store for state that every process must see, such as the
+ * kill switch. With the file driver it is STORAGE_SHARED_FILE, read again
+ * before every operation, as each process needs its own STORAGE_FILE; the
+ * other drivers use the app-wide store, which Netlify instances already share.
+ */
+export function getSharedDataStore(): DataStore {
+  if (!sharedStore) {
+    const options = getStorageOptions();
+    sharedStore =
+      options.driver === "file" ? new SharedFileDataStore(options.sharedFile) : getDataStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Adapts a collection of the data store to grammy's storage interface, e.g.
+ * for `session()` or the conversations plugin
+ *
+ * @example
+ * ```typescript
+ * bot.use(session({ initial: () => ({}), storage: createStorageAdapter(store, "sessions") }));
+ * ```
+ */
+export function createStorageAdapter<T>(store: DataStore, collection: string): StorageAdapter<T> {
+  return {
+    read: (key) => store.get<T>(collection, key),
+    write: (key, value) => store.set(collection, key, value),
+    delete: async (key) => {
+      await store.delete(collection, key);
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Schema migrations of the storage document
+ *
+ * Migrations run in order when a store is opened, and the version of the last
+ * applied migration is kept in the document. Never edit a released migration;
+ * append a new one instead.
+ */
+
+export interface StorageDocument {
+  /** Version of the last migration applied to the document */
+  schemaVersion: number;
+  /** Records by collection and key */
+  collections: Record<string, Record<string, unknown>>;
+  /** Last value handed out by each ID sequence */
+  sequences: Record<string, number>;
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  up(document: StorageDocument): void;
+}
+
+function createCollection(document: StorageDocument, name: string): void {
+  document.collections[name] ??= {};
+}
+
+function dropCollection(document: StorageDocument, name: string): void {
+  delete document.collections[name];
+}
+
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: "Create collections for bot sessions and conversations",
+    up(document) {
+      createCollection(document, "sessions");
+      createCollection(document, "conversations");
+    },
+  },
+  {
+    version: 2,
+    description: "Create collections for price alerts and the order watcher",
+    up(document) {
+      createCollection(document, "alerts");
+      createCollection(document, "orderWatcher");
+    },
+  },
+  {
+    version: 3,
+    description: "Create the audit log collection",
+    up(document) {
+      createCollection(document, "audit");
+    },
+  },
+  {
+    version: 4,
+    description: "Create collections for webhook subscriptions and deliveries",
+    up(document) {
+      createCollection(document, "webhooks");
+      createCollection(document, "webhookDeliveries");
+    },
+  },
+  {
+    version: 5,
+    description: "Create the collection of minute bars recorded from ticks",
+    up(document) {
+      createCollection(document, "candles");
+    },
+  },
+  {
+    version: 6,
+    description: "Create the collection of risk engine state",
+    up(document) {
+      createCollection(document, "risk");
+    },
+  },
+  {
+    version: 7,
+    description: "Create the collection of take-profit and stop-loss brackets",
+    up(document) {
+      createCollection(document, "brackets");
+    },
+  },
+  {
+    version: 8,
+    description: "Create the collection of trailing stops",
+    up(document) {
+      createCollection(document, "trailingStops");
+    },
+  },
+  {
+    version: 9,
+    description: "Create the collections of DCA plans and their executions",
+    up(document) {
+      createCollection(document, "dcaPlans");
+      createCollection(document, "dcaExecutions");
+    },
+  },
+  {
+    version: 10,
+    description: "Drop the candles collection; minute bars moved to a candle store per symbol",
+    up(document) {
+      dropCollection(document, "candles");
+    },
+  },
+];
+
+export function emptyStorageDocument(): StorageDocument {
+  return { schemaVersion: 0, collections: {}, sequences: {} };
+}
+
+/**
+ * Applies all migrations newer than the document's schema version, in place
+ *
+ * @returns Versions of the applied migrations
+ * @throws {Error} When the document was written by a newer schema version
+ */
+export function migrateStorageDocument(
+  document: StorageDocument,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS,
+): number[] {
+  const latest = migrations.at(-1)?.version ?? 0;
+  if (document.schemaVersion > latest) {
+    throw new Error(
+      `Storage schema version ${document.schemaVersion} is newer than the supported version ${latest}`,
+    );
+  }
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version > document.schemaVersion) {
+      migration.up(document);
+      document.schemaVersion = migration.version;
+      applied.push(migration.version);
+    }
+  }
+  return applied;
+}
@@ -0,0 +1,291 @@
+import { getStreamOptions } from "../config/env.js";
+import type { Trade, TradingTick } from "../types/api.js";
+import type { StreamFilter, StreamMessage, TradeStreamAction } from "../types/stream.js";
+import { cryptoApi } from "./cryptoApi.js";
+
+export interface StreamOptions {
+  /** Interval of the shared upstream polling loop */
+  pollIntervalMs: number;
+  /** Interval of the keep-alive comments sent to idle clients */
+  heartbeatIntervalMs: number;
+  /** Recent messages kept for Last-Event-ID resume */
+  bufferSize: number;
+  /** Maximum number of connected clients */
+  maxClients: number;
+}
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+export type StreamSubscriber = (message: StreamMessage) => void;
+
+interface Subscription {
+  filter: StreamFilter;
+  deliver: StreamSubscriber;
+}
+
+export interface StreamReplay {
+  messages: StreamMessage[];
+  /** False when messages after the given ID are no longer buffered (or the ID is unknown) */
+  complete: boolean;
+}
+
+/**
+ * Formats a message in the text/event-stream wire format
+ *
+ * @example
+ * ```typescript
+ * formatStreamMessage({ id: 7, event: "tick", symbol: "BTCUSD", data: tick })
+ * // "id: 7\nevent: tick\ndata: {...}\n\n"
+ * ```
+ */
+export function formatStreamMessage(message: StreamMessage): string {
+  return `id: ${message.id}\nevent: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`;
+}
+
+export function matchesStreamFilter(message: StreamMessage, filter: StreamFilter): boolean {
+  if (message.event === "tick") {
+    return filter.events.includes("ticks") && filter.symbols.includes(message.symbol);
+  }
+  return (
+    filter.events.includes("trades") &&
+    (filter.symbols.length === 0 || filter.symbols.includes(message.symbol))
+  );
+}
+
+function tickChanged(previous: TradingTick | undefined, current: TradingTick): boolean {
+  return (
+    previous === undefined ||
+    previous.Timestamp !== current.Timestamp ||
+    previous.BestBid.Price !== current.BestBid.Price ||
+    previous.BestAsk.Price !== current.BestAsk.Price
+  );
+}
+
+function tradeChanged(previous: Trade, current: Trade): boolean {
+  return (
+    previous.Modified !== current.Modified ||
+    previous.Status !== current.Status ||
+    previous.RemainingAmount !== current.RemainingAmount ||
+    previous.Price !== current.Price
+  );
+}
+
+/**
+ * Compares two lists of active trades by ID
+ */
+export function diffActiveTrades(
+  previous: Trade[],
+  current: Trade[],
+): { action: TradeStreamAction; trade: Trade }[] {
+  const before = new Map(previous.map((trade) => [trade.Id, trade]));
+  const after = new Map(current.map((trade) => [trade.Id, trade]));
+  const changes: { action: TradeStreamAction; trade: Trade }[] = [];
+
+  for (const trade of current) {
+    const old = before.get(trade.Id);
+    if (!old) {
+      changes.push({ action: "created", trade });
+    } else if (tradeChanged(old, trade)) {
+      changes.push({ action: "updated", trade });
+    }
+  }
+  for (const trade of previous) {
+    if (!after.has(trade.Id)) {
+      changes.push({ action: "closed", trade });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Fans one upstream polling loop out to many stream clients
+ *
+ * The loop only runs while clients are connected, and only polls the symbols
+ * and event groups they asked for. Every message gets a sequential ID and the
+ * most recent ones are buffered so reconnecting clients can resume with
+ * Last-Event-ID. The first trade poll after the loop starts records a baseline.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = getStreamHub().subscribe({ events: ["ticks"], symbols: ["BTCUSD"] }, send);
+ * ```
+ */
+export class StreamHub {
+  private readonly options: StreamOptions;
+  private readonly fetchTick: (symbol: string) => Promise<TradingTick | undefined>;
+  private readonly fetchTrades: () => Promise<Trade[]>;
+  private readonly subscriptions = new Set<Subscription>();
+  private readonly buffer: StreamMessage[] = [];
+  private readonly ticks = new Map<string, TradingTick>();
+  private trades: Trade[] | undefined;
+  private sequence: number;
+  /** Last message ID before the current polling loop started; later IDs are resumable */
+  private loopStartSequence: number;
+  private timer: NodeJS.Timeout | undefined;
+  private polling: Promise<void> | undefined;
+
+  /**
+   * @param options - Poll interval, buffer size and client limit
+   * @param fetchTick - Tick source, injectable for tests
+   * @param fetchTrades - Source of the active trades, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    options: StreamOptions = getStreamOptions(),
+    fetchTick: (symbol: string) => Promise<TradingTick | undefined> = async (symbol) =>
+      (await cryptoApi.getTick(symbol))[0],
+    fetchTrades: () => Promise<Trade[]> = () => cryptoApi.getTrades(),
+    now: () => number = Date.now,
+  ) {
+    this.options = options;
+    this.fetchTick = fetchTick;
+    this.fetchTrades = fetchTrades;
+    // IDs keep growing across restarts, so IDs from before a restart are detected as unknown
+    this.sequence = now();
+    this.loopStartSequence = this.sequence;
+  }
+
+  get clientCount(): number {
+    return this.subscriptions.size;
+  }
+
+  /** Latest tick of a symbol polled for the connected clients */
+  latestTick(symbol: string): TradingTick | undefined {
+    return this.ticks.get(symbol);
+  }
+
+  /**
+   * Buffered messages after `lastEventId` that match the filter. The replay is
+   * only complete while the polling loop has run without a break since then.
+   */
+  replaySince(lastEventId: number, filter: StreamFilter): StreamReplay {
+    const oldest = this.buffer[0]?.id ?? this.sequence + 1;
+    const complete =
+      this.timer !== undefined &&
+      lastEventId > this.loopStartSequence &&
+      lastEventId >= oldest - 1 &&
+      lastEventId <= this.sequence;
+    const messages = this.buffer.filter(
+      (message) => message.id > lastEventId && matchesStreamFilter(message, filter),
+    );
+    return { messages, complete };
+  }
+
+  /**
+   * Registers a client and starts the polling loop if it is the first one
+   *
+   * @returns Function that removes the client again
+   */
+  subscribe(filter: StreamFilter, deliver: StreamSubscriber): () => void {
+    const subscription = { filter, deliver };
+    this.subscriptions.add(subscription);
+    this.start();
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      if (this.subscriptions.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Polls the ticks and trades wanted by the connected clients and publishes
+   * the changes. Calls during a running poll wait for that poll instead of
+   * starting another one.
+   */
+  poll(): Promise<void> {
+    this.polling ??= this.pollOnce().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  private start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.loopStartSequence = this.sequence;
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+    void this.poll();
+  }
+
+  private stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.trades = undefined;
+    this.ticks.clear();
+  }
+
+  private async pollOnce(): Promise<void> {
+    const filters = [...this.subscriptions].map((subscription) => subscription.filter);
+    const symbols = new Set(
+      filters.filter((filter) => filter.events.includes("ticks")).flatMap((f) => f.symbols),
+    );
+    const wantsTrades = filters.some((filter) => filter.events.includes("trades"));
+
+    const results = await Promise.allSettled([...symbols].map((s) => this.pollTick(s)));
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.logFailure("tick", result.reason);
+      }
+    }
+
+    if (wantsTrades) {
+      await this.pollTrades().catch((error: unknown) => this.logFailure("trade", error));
+    } else {
+      this.trades = undefined;
+    }
+  }
+
+  private async pollTick(symbol: string): Promise<void> {
+    const tick = await this.fetchTick(symbol);
+    if (tick && tickChanged(this.ticks.get(symbol), tick)) {
+      this.ticks.set(symbol, tick);
+      this.publish({ event: "tick", symbol, data: tick });
+    }
+  }
+
+  private async pollTrades(): Promise<void> {
+    const trades = await this.fetchTrades();
+    const previous = this.trades;
+    this.trades = trades;
+    for (const change of previous ? diffActiveTrades(previous, trades) : []) {
+      this.publish({ event: "trade", symbol: change.trade.Symbol, data: change });
+    }
+  }
+
+  private publish(message: DistributiveOmit<StreamMessage, "id">): void {
+    const published = { ...message, id: ++this.sequence } as StreamMessage;
+    this.buffer.push(published);
+    if (this.buffer.length > this.options.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.options.bufferSize);
+    }
+
+    for (const subscription of this.subscriptions) {
+      if (matchesStreamFilter(published, subscription.filter)) {
+        subscription.deliver(published);
+      }
+    }
+  }
+
+  private logFailure(kind: string, error: unknown): void {
+    console.warn(
+      `[${new Date().toISOString()}] Stream ${kind} polling failed:`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+}
+
+let defaultHub: StreamHub | undefined;
+
+/**
+ * Returns the app-wide stream hub, creating it on first use
+ */
+export function getStreamHub(): StreamHub {
+  defaultHub ??= new StreamHub();
+  return defaultHub;
+}
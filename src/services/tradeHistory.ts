@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { AppError } from "../middleware/errorHandler.js";
+import type { Trade, TradeHistoryRequest } from "../types/api.js";
+import type { TradeHistoryPage, TradeHistoryQuery } from "../types/trading.js";
+import { cryptoApi } from "./cryptoApi.js";
+
+// Records requested per upstream call
+const UPSTREAM_PAGE_SIZE = 500;
+// Upper bound of upstream calls per client page, so sparse filters cannot hold a request for long
+const MAX_UPSTREAM_PAGES = 10;
+// History records requested when looking up an order that is no longer open
+const ORDER_LOOKUP_PAGE_SIZE = 100;
+
+/**
+ * Position in the history: the timestamp of the last returned record and the
+ * IDs already returned at that timestamp, so records sharing it are neither
+ * skipped nor repeated on the next page
+ */
+const CursorSchema = z.object({
+  t: z.number().int(),
+  ids: z.array(z.number()),
+});
+type HistoryCursor = z.infer<typeof CursorSchema>;
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(value: string): HistoryCursor {
+  try {
+    return CursorSchema.parse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+  } catch {
+    throw new AppError("Invalid history cursor", 400);
+  }
+}
+
+function matchesQuery(trade: Trade, query: TradeHistoryQuery): boolean {
+  return (
+    (query.Symbol === undefined || trade.Symbol === query.Symbol) &&
+    (query.Side === undefined || trade.Side === query.Side) &&
+    (query.Type === undefined || trade.Type === query.Type)
+  );
+}
+
+/**
+ * Reads one client page of trade history
+ *
+ * Walks the upstream history in the requested direction, narrowing the time
+ * range to the cursor position on every call, until `limit` matching records
+ * are collected, the history is exhausted or MAX_UPSTREAM_PAGES calls were
+ * made. Clients must send the same filters with every cursor. A page may hold
+ * fewer than `limit` records (even none) while `nextCursor` is still set.
+ *
+ * @param query - Upstream and local filters
+ * @param limit - Maximum number of records in the page
+ * @param cursor - `nextCursor` of the previous page, if any
+ * @param fetchPage - Upstream page loader, injectable for tests
+ * @throws {AppError} 400 when the cursor cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const first = await getTradeHistoryPage({ RequestDirection: "Backwards", Symbol: "BTCUSD" }, 100);
+ * const second = await getTradeHistoryPage({ RequestDirection: "Backwards", Symbol: "BTCUSD" }, 100, first.nextCursor);
+ * ```
+ */
+export async function getTradeHistoryPage(
+  query: TradeHistoryQuery,
+  limit: number,
+  cursor?: string | undefined,
+  fetchPage: (request: TradeHistoryRequest) => Promise<Trade[]> = (request) =>
+    cryptoApi.getTradesHistory(request),
+): Promise<TradeHistoryPage> {
+  const backwards = query.RequestDirection === "Backwards";
+  let position = cursor !== undefined ? decodeCursor(cursor) : undefined;
+  const trades: Trade[] = [];
+
+  for (let call = 0; call < MAX_UPSTREAM_PAGES && trades.length < limit; call++) {
+    const records = await fetchPage({
+      TimestampFrom: !backwards && position ? position.t : query.TimestampFrom,
+      TimestampTo: backwards && position ? position.t : query.TimestampTo,
+      OrderId: query.OrderId,
+      SkipCancelOrder: query.SkipCancelOrder,
+      RequestDirection: query.RequestDirection,
+      RequestPageSize: UPSTREAM_PAGE_SIZE,
+    });
+
+    const seen = position;
+    const fresh = records
+      .filter((record) => !(seen && record.Modified === seen.t && seen.ids.includes(record.Id)))
+      .sort((a, b) => (backwards ? b.Modified - a.Modified : a.Modified - b.Modified));
+
+    if (records.length === 0) {
+      return { trades, nextCursor: null };
+    }
+    if (fresh.length === 0 && seen) {
+      // The page only held records already returned at the cursor timestamp; step past it.
+      // Records beyond a full upstream page that share one timestamp cannot be reached.
+      position = { t: backwards ? seen.t - 1 : seen.t + 1, ids: [] };
+      continue;
+    }
+
+    for (const record of fresh) {
+      position =
+        position?.t === record.Modified
+          ? { t: position.t, ids: [...position.ids, record.Id] }
+          : { t: record.Modified, ids: [record.Id] };
+
+      if (matchesQuery(record, query)) {
+        trades.push(record);
+        if (trades.length === limit) {
+          break;
+        }
+      }
+    }
+  }
+
+  return { trades, nextCursor: position ? encodeCursor(position) : null };
+}
+
+/**
+ * Price an order was executed at: the average fill price of its history record,
+ * else its own price, else the current price for market orders that carry none
+ */
+export function getFillPrice(trade: Trade): number {
+  if (trade.OrderFillPrice !== undefined && trade.OrderFillPrice > 0) {
+    return trade.OrderFillPrice;
+  }
+  return trade.Price > 0 ? trade.Price : trade.CurrentPrice;
+}
+
+/**
+ * Looks up the latest state of orders: open orders first, the history for the rest
+ *
+ * @returns Orders by ID; IDs found in neither are missing from the map
+ */
+export async function getLatestOrders(ids: number[]): Promise<Map<number, Trade>> {
+  const orders = new Map<number, Trade>();
+  for (const trade of await cryptoApi.getTrades()) {
+    if (ids.includes(trade.Id)) {
+      orders.set(trade.Id, trade);
+    }
+  }
+
+  for (const id of ids.filter((id) => !orders.has(id))) {
+    const page = await getTradeHistoryPage(
+      { RequestDirection: "Backwards", OrderId: id },
+      ORDER_LOOKUP_PAGE_SIZE,
+    );
+    const latest = page.trades
+      .filter((trade) => trade.Id === id)
+      .sort((a, b) => b.Modified - a.Modified)[0];
+    if (latest) {
+      orders.set(id, latest);
+    }
+  }
+  return orders;
+}
@@ -0,0 +1,208 @@
+import { AppError } from "../middleware/errorHandler.js";
+import type { CreateTradeRequest, Symbol as TradingSymbol } from "../types/api.js";
+import type { TradeAdjustment, TradeValidationOptions, TradeViolation } from "../types/trading.js";
+import {
+  countDecimals,
+  formatDecimal,
+  isMultipleOfStep,
+  roundToPrecision,
+  roundToStep,
+} from "../utils/decimal.js";
+import { cryptoApi } from "./cryptoApi.js";
+
+/**
+ * Raised when a trade request breaks one or more symbol trading constraints
+ */
+export class TradeValidationError extends AppError {
+  public readonly violations: TradeViolation[];
+
+  constructor(violations: TradeViolation[]) {
+    super(
+      violations.map((violation) => violation.message).join("; ") || "Trade validation failed",
+      422,
+      true,
+      { violations },
+    );
+    this.violations = violations;
+  }
+}
+
+export interface TradeCheckResult {
+  /** The trade request, with values rounded when rounding is enabled */
+  trade: CreateTradeRequest;
+  adjustments: TradeAdjustment[];
+  violations: TradeViolation[];
+}
+
+/**
+ * Checks a trade request against the trading constraints of its symbol
+ *
+ * Pure function: the caller provides the symbol metadata and, for long-only
+ * and close-only symbols, the currently held amounts so that orders reducing
+ * the position can pass.
+ *
+ * @param trade - The trade request to check
+ * @param symbol - Symbol metadata from the upstream API
+ * @param options - Validation options (rounding)
+ * @param longAmount - Current long position size for the symbol, if known
+ * @param shortAmount - Current short position size for the symbol, if known
+ * @returns The (possibly adjusted) trade, applied adjustments and any violations
+ *
+ * @example
+ * ```typescript
+ * checkTradeAgainstSymbol({ Symbol: "BTCUSD", Side: "Buy", Amount: "0.0015" }, symbol, { round: true })
+ * // { trade: { ..., Amount: "0.001" }, adjustments: [{ field: "Amount", from: "0.0015", to: "0.001" }], violations: [] }
+ * ```
+ */
+export function checkTradeAgainstSymbol(
+  trade: CreateTradeRequest,
+  symbol: TradingSymbol,
+  options: TradeValidationOptions = {},
+  longAmount = 0,
+  shortAmount = 0,
+): TradeCheckResult {
+  const violations: TradeViolation[] = [];
+  const adjustments: TradeAdjustment[] = [];
+  const adjusted: CreateTradeRequest = { ...trade };
+
+  if (!symbol.IsTradeAllowed) {
+    violations.push({
+      rule: "TRADE_NOT_ALLOWED",
+      field: "Symbol",
+      message: `Trading is not allowed for ${symbol.Symbol}`,
+    });
+  }
+
+  // Amount: snap to the step grid first so that min/max are checked on the final value
+  let amount = Number(trade.Amount);
+  const step = symbol.TradeAmountStep;
+
+  if (step > 0 && !isMultipleOfStep(amount, step)) {
+    if (options.round) {
+      amount = roundToStep(amount, step, "floor");
+      adjusted.Amount = formatDecimal(amount);
+      adjustments.push({ field: "Amount", from: trade.Amount, to: adjusted.Amount });
+    } else {
+      violations.push({
+        rule: "TRADE_AMOUNT_STEP",
+        field: "Amount",
+        message: `Amount must be a multiple of ${step}`,
+        limit: step,
+      });
+    }
+  }
+
+  if (amount < symbol.MinTradeAmount) {
+    violations.push({
+      rule: "MIN_TRADE_AMOUNT",
+      field: "Amount",
+      message: `Amount must be at least ${symbol.MinTradeAmount}`,
+      limit: symbol.MinTradeAmount,
+    });
+  }
+
+  if (amount > symbol.MaxTradeAmount) {
+    violations.push({
+      rule: "MAX_TRADE_AMOUNT",
+      field: "Amount",
+      message: `Amount must not exceed ${symbol.MaxTradeAmount}`,
+      limit: symbol.MaxTradeAmount,
+    });
+  }
+
+  // Long-only symbols accept sells only to reduce an existing long position
+  if (symbol.IsLongOnly && trade.Side === "Sell" && amount > longAmount) {
+    violations.push({
+      rule: "LONG_ONLY",
+      field: "Side",
+      message: `${symbol.Symbol} is long-only, sell amount cannot exceed the held ${longAmount}`,
+      limit: longAmount,
+    });
+  }
+
+  // Close-only symbols accept orders only up to the held amount on the opposite side
+  const closable = trade.Side === "Sell" ? longAmount : shortAmount;
+  if (symbol.IsCloseOnly && amount > closable) {
+    violations.push({
+      rule: "CLOSE_ONLY",
+      field: "Symbol",
+      message: `${symbol.Symbol} is in close-only mode, only orders reducing the position of ${closable} are accepted`,
+      limit: closable,
+    });
+  }
+
+  for (const field of ["Price", "StopPrice"] as const) {
+    const raw = trade[field];
+    if (raw === undefined) {
+      continue;
+    }
+
+    const price = Number(raw);
+    if (countDecimals(price) <= symbol.Precision) {
+      continue;
+    }
+
+    if (options.round) {
+      const rounded = formatDecimal(roundToPrecision(price, symbol.Precision));
+      adjusted[field] = rounded;
+      adjustments.push({ field, from: raw, to: rounded });
+    } else {
+      violations.push({
+        rule: "PRICE_PRECISION",
+        field,
+        message: `${field} must have at most ${symbol.Precision} decimal places`,
+        limit: symbol.Precision,
+      });
+    }
+  }
+
+  return { trade: adjusted, adjustments, violations };
+}
+
+/**
+ * Loads symbol metadata and validates a trade request before it is sent upstream
+ *
+ * @param trade - The trade request to validate
+ * @param options - Validation options (rounding)
+ * @returns The trade to submit (rounded if requested) and the applied adjustments
+ * @throws TradeValidationError (422) listing every violated rule
+ */
+export async function validateTrade(
+  trade: CreateTradeRequest,
+  options: TradeValidationOptions = {},
+): Promise<Pick<TradeCheckResult, "trade" | "adjustments">> {
+  let symbol: TradingSymbol | undefined;
+  try {
+    symbol = await cryptoApi.getSymbol(trade.Symbol);
+  } catch (error) {
+    if (!(error instanceof AppError && error.statusCode === 404)) {
+      throw error;
+    }
+  }
+
+  if (!symbol) {
+    throw new TradeValidationError([
+      {
+        rule: "SYMBOL_NOT_FOUND",
+        field: "Symbol",
+        message: `Symbol ${trade.Symbol} does not exist`,
+      },
+    ]);
+  }
+
+  let longAmount = 0;
+  let shortAmount = 0;
+  if (symbol.IsCloseOnly || (symbol.IsLongOnly && trade.Side === "Sell")) {
+    const positions = await cryptoApi.getPositions();
+    const position = positions.find((candidate) => candidate.Symbol === symbol.Symbol);
+    longAmount = position?.LongAmount ?? 0;
+    shortAmount = position?.ShortAmount ?? 0;
+  }
+
+  const result = checkTradeAgainstSymbol(trade, symbol, options, longAmount, shortAmount);
+  if (result.violations.length > 0) {
+    throw new TradeValidationError(result.violations);
+  }
+
+  return { trade: result.trade, adjustments: result.adjustments };
+}
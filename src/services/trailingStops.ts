@@ -0,0 +1,387 @@
+import { getTrailingStopOptions } from "../config/env.js";
+import { AppError } from "../middleware/errorHandler.js";
+import type { Trade, TradingSide, TradingTick } from "../types/api.js";
+import type { CandleInterval } from "../types/candles.js";
+import type { TrailDistance, TrailingStop, TrailingStopStatus } from "../types/trailingStops.js";
+import { IntervalTask, createLock } from "../utils/async.js";
+import { formatDecimal, roundToPrecision } from "../utils/decimal.js";
+import { errorMessage } from "../utils/errors.js";
+import { aggregateCandles, getTickRecorder } from "./candles.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { atr } from "./indicators.js";
+import { type DataStore, getDataStore } from "./storage.js";
+import { getLatestOrders } from "./tradeHistory.js";
+import { validateTrade } from "./tradeValidator.js";
+import { publishWebhookEvent } from "./webhooks.js";
+
+export interface TrailingStopOptions {
+  /** Interval between two price checks */
+  pollIntervalMs: number;
+  /** Candle interval of ATR distances */
+  atrInterval: CandleInterval;
+  /** Candles averaged by ATR distances */
+  atrPeriod: number;
+}
+
+export interface TrailingStopInput {
+  symbol: string;
+  distance: TrailDistance;
+  /** Amount to protect; the whole net position when omitted */
+  amount?: number | undefined;
+}
+
+const COLLECTION = "trailingStops";
+
+/**
+ * Stop price at a distance from the best price seen: below it for Sell stops,
+ * above it for Buy stops
+ */
+export function trailStopPrice(side: TradingSide, extremePrice: number, distance: number): number {
+  return side === "Sell" ? extremePrice - distance : extremePrice + distance;
+}
+
+/**
+ * Whether a price is better for the position than another: higher for the
+ * long position behind a Sell stop, lower for the short one behind a Buy stop
+ */
+function isBetter(side: TradingSide, price: number, than: number): boolean {
+  return side === "Sell" ? price > than : price < than;
+}
+
+// The stop follows the bid of a long position and the ask of a short one,
+// the prices it would be closed at
+function trackedPrice(side: TradingSide, tick: TradingTick): number {
+  return side === "Sell" ? tick.BestBid.Price : tick.BestAsk.Price;
+}
+
+/**
+ * Latest average true range of the candles recorded for a symbol
+ *
+ * @throws {AppError} 422 when the symbol is not recorded or not enough candles are available
+ */
+export async function getRecordedAtr(
+  symbol: string,
+  options: Pick<TrailingStopOptions, "atrInterval" | "atrPeriod">,
+): Promise<number> {
+  const recorder = getTickRecorder();
+  if (!recorder.isRecording(symbol)) {
+    throw new AppError(
+      `ATR distances need recorded ticks of ${symbol}; add it to CANDLE_SYMBOLS`,
+      422,
+    );
+  }
+
+  const candles = aggregateCandles(await recorder.getBars(symbol, options.atrInterval), {
+    interval: options.atrInterval,
+    price: "mid",
+    gaps: "fill",
+  });
+  const value = atr(candles, options.atrPeriod).at(-1);
+  if (value === null || value === undefined) {
+    throw new AppError(
+      `ATR of ${symbol} needs ${options.atrPeriod} ${options.atrInterval} candles, ${candles.length} recorded so far`,
+      422,
+    );
+  }
+  return value;
+}
+
+/**
+ * Trailing stops by ID, kept in the app data store
+ */
+export class TrailingStopStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the app-wide store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getDataStore;
+  }
+
+  async create(stop: Omit<TrailingStop, "id">): Promise<TrailingStop> {
+    const store = this.getStore();
+    const created: TrailingStop = { id: await store.nextId(COLLECTION), ...stop };
+    await store.set(COLLECTION, String(created.id), created);
+    return created;
+  }
+
+  async get(id: number): Promise<TrailingStop | undefined> {
+    return this.getStore().get<TrailingStop>(COLLECTION, String(id));
+  }
+
+  async list(status?: TrailingStopStatus): Promise<TrailingStop[]> {
+    const records = await this.getStore().list<TrailingStop>(COLLECTION);
+    return records
+      .map((record) => record.value)
+      .filter((stop) => status === undefined || stop.status === status)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async save(stop: TrailingStop): Promise<void> {
+    await this.getStore().set(COLLECTION, String(stop.id), stop);
+  }
+}
+
+/**
+ * Keeps a Stop order at a fixed distance behind the price of an open position
+ * (the upstream API has no native trailing stops)
+ *
+ * A trailing stop places a Stop order on the opposite side of the position
+ * and, on every poll, moves it after the best price seen since creation via
+ * modifyTrade; the stop is only ever tightened. ATR distances are recomputed
+ * from the recorded candles on every poll. The best price and the stop are
+ * persisted, so tracking resumes after a restart, but prices reached while
+ * the process was down are not seen. Stop orders bypass the risk limits, as
+ * they only close the position.
+ *
+ * @example
+ * ```typescript
+ * const manager = getTrailingStopManager();
+ * manager.start();
+ * const stop = await manager.create({ symbol: "BTCUSD", distance: { percent: 2 } });
+ * ```
+ */
+export class TrailingStopManager {
+  private readonly store: TrailingStopStore;
+  private readonly fetchTick: (symbol: string) => Promise<TradingTick | undefined>;
+  private readonly fetchOrders: (ids: number[]) => Promise<Map<number, Trade>>;
+  private readonly getAtr: (symbol: string) => Promise<number>;
+  private readonly now: () => number;
+  private readonly poller: IntervalTask;
+  // Serializes polls and API calls so that a stop is not moved and cancelled at once
+  private readonly exclusive = createLock();
+
+  /**
+   * @param options - Poll interval and ATR settings
+   * @param store - Storage of the trailing stops
+   * @param fetchTick - Tick source, injectable for tests
+   * @param fetchOrders - Source of order states by ID, injectable for tests
+   * @param getAtr - Source of the latest ATR of a symbol, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    options: TrailingStopOptions = getTrailingStopOptions(),
+    store: TrailingStopStore = new TrailingStopStore(),
+    fetchTick: (symbol: string) => Promise<TradingTick | undefined> = async (symbol) =>
+      (await cryptoApi.getTick(symbol))[0],
+    fetchOrders: (ids: number[]) => Promise<Map<number, Trade>> = getLatestOrders,
+    getAtr: (symbol: string) => Promise<number> = (symbol) => getRecordedAtr(symbol, options),
+    now: () => number = Date.now,
+  ) {
+    this.store = store;
+    this.fetchTick = fetchTick;
+    this.fetchOrders = fetchOrders;
+    this.getAtr = getAtr;
+    this.now = now;
+    this.poller = new IntervalTask("Trailing stop poll", options.pollIntervalMs, () => this.poll());
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Places a Stop order behind the current price of an open position and starts trailing it
+   *
+   * @throws {AppError} 422 when there is no position to protect, the amount
+   *   exceeds it or the distance cannot be resolved
+   * @throws TradeValidationError (422) when the stop order breaks the symbol's constraints
+   */
+  create(input: TrailingStopInput): Promise<TrailingStop> {
+    return this.exclusive(async () => {
+      const positions = await cryptoApi.getPositions();
+      const position = positions.find((candidate) => candidate.Symbol === input.symbol);
+      const net = position ? position.LongAmount - position.ShortAmount : 0;
+      if (net === 0) {
+        throw new AppError(`There is no open ${input.symbol} position to protect`, 422);
+      }
+      const side: TradingSide = net > 0 ? "Sell" : "Buy";
+      const amount = input.amount ?? Math.abs(net);
+      if (amount > Math.abs(net)) {
+        throw new AppError(
+          `Amount ${amount} exceeds the ${input.symbol} position of ${Math.abs(net)}`,
+          422,
+        );
+      }
+
+      const tick = await this.fetchTick(input.symbol);
+      if (!tick) {
+        throw new AppError(`No price is available for ${input.symbol}`, 503);
+      }
+      const extremePrice = trackedPrice(side, tick);
+      const distance = await this.resolveDistance(input.symbol, input.distance, extremePrice);
+      const stopPrice = trailStopPrice(side, extremePrice, distance);
+      if (stopPrice <= 0) {
+        throw new AppError(
+          `Trail distance ${distance} is larger than the price ${extremePrice}`,
+          422,
+        );
+      }
+
+      // Rounds the amount and the stop price to the symbol grid
+      const { trade: request } = await validateTrade(
+        {
+          Symbol: input.symbol,
+          Side: side,
+          Type: "Stop",
+          Amount: formatDecimal(amount),
+          StopPrice: formatDecimal(stopPrice),
+          Comment: "Trailing stop",
+        },
+        { round: true },
+      );
+      const order = await cryptoApi.createTrade(request);
+      publishWebhookEvent("trade.created", order);
+
+      const now = this.now();
+      return this.store.create({
+        symbol: input.symbol,
+        side,
+        amount: Number(request.Amount),
+        distance: input.distance,
+        precision: order.SymbolPrecision,
+        extremePrice,
+        stopPrice: Number(request.StopPrice),
+        orderId: order.Id,
+        status: "active",
+        error: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Cancels the stop order of a trailing stop and stops tracking it
+   *
+   * @returns The trailing stop, or undefined when it does not exist
+   * @throws {AppError} 409 when the trailing stop is no longer active
+   */
+  cancel(id: number): Promise<TrailingStop | undefined> {
+    return this.exclusive(async () => {
+      const stop = await this.store.get(id);
+      if (!stop) {
+        return undefined;
+      }
+      if (stop.status !== "active") {
+        throw new AppError(`Trailing stop ${id} is already ${stop.status}`, 409);
+      }
+      await cryptoApi.cancelTrade(String(stop.orderId));
+      stop.status = "cancelled";
+      await this.save(stop);
+      return stop;
+    });
+  }
+
+  /**
+   * Checks the stop order and the price of every active trailing stop once
+   */
+  poll(): Promise<void> {
+    return this.exclusive(async () => {
+      const stops = await this.store.list("active");
+      if (stops.length === 0) {
+        return;
+      }
+      const orders = await this.fetchOrders(stops.map((stop) => stop.orderId));
+      const ticks = new Map<string, TradingTick | undefined>();
+      for (const symbol of new Set(stops.map((stop) => stop.symbol))) {
+        ticks.set(
+          symbol,
+          await this.fetchTick(symbol).catch((error: unknown) => {
+            console.warn(
+              `[${new Date().toISOString()}] Tick of ${symbol} for trailing stops failed:`,
+              errorMessage(error),
+            );
+            return undefined;
+          }),
+        );
+      }
+      for (const stop of stops) {
+        await this.update(stop, orders.get(stop.orderId), ticks.get(stop.symbol));
+      }
+    });
+  }
+
+  private async resolveDistance(
+    symbol: string,
+    distance: TrailDistance,
+    price: number,
+  ): Promise<number> {
+    if ("price" in distance) {
+      return distance.price;
+    }
+    if ("percent" in distance) {
+      return (price * distance.percent) / 100;
+    }
+    return distance.atr * (await this.getAtr(symbol));
+  }
+
+  private async update(
+    stop: TrailingStop,
+    order: Trade | undefined,
+    tick: TradingTick | undefined,
+  ): Promise<void> {
+    const before = JSON.stringify(stop);
+
+    if (order?.Status === "Completed") {
+      stop.status = "triggered";
+    } else if (order?.Status === "Cancelled") {
+      stop.status = "cancelled";
+    } else if (tick) {
+      const price = trackedPrice(stop.side, tick);
+      if (isBetter(stop.side, price, stop.extremePrice)) {
+        stop.extremePrice = price;
+      }
+      await this.follow(stop);
+    }
+
+    if (JSON.stringify(stop) !== before) {
+      await this.save(stop);
+    }
+  }
+
+  // Tightens the stop order to the distance behind the best price seen
+  private async follow(stop: TrailingStop): Promise<void> {
+    try {
+      const distance = await this.resolveDistance(stop.symbol, stop.distance, stop.extremePrice);
+      const stopPrice = roundToPrecision(
+        trailStopPrice(stop.side, stop.extremePrice, distance),
+        stop.precision,
+      );
+      // A Sell stop only moves up and a Buy stop only moves down
+      if (!isBetter(stop.side, stopPrice, stop.stopPrice)) {
+        return;
+      }
+      await cryptoApi.modifyTrade({ Id: stop.orderId, StopPrice: formatDecimal(stopPrice) });
+      stop.stopPrice = stopPrice;
+      stop.error = null;
+    } catch (error) {
+      // The order stays at the previous stop price; the next poll tries again
+      stop.error = errorMessage(error);
+      console.warn(
+        `[${new Date().toISOString()}] Moving trailing stop ${stop.id} failed:`,
+        stop.error,
+      );
+    }
+  }
+
+  private async save(stop: TrailingStop): Promise<void> {
+    stop.updatedAt = this.now();
+    await this.store.save(stop);
+  }
+}
+
+let defaultManager: TrailingStopManager | undefined;
+
+/**
+ * Returns the app-wide trailing stop manager, creating it on first use
+ */
+export function getTrailingStopManager(): TrailingStopManager {
+  defaultManager ??= new TrailingStopManager();
+  return defaultManager;
+}
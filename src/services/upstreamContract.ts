@@ -0,0 +1,88 @@
+import type { z } from "zod";
+import { AppError } from "../middleware/errorHandler.js";
+
+/**
+ * How responses that do not match their schema are handled:
+ * - strict: the request fails with an UpstreamContractError
+ * - log: the mismatch is logged and the response is passed through unchanged
+ */
+export type ResponseValidationMode = "strict" | "log";
+
+export interface UpstreamContractIssue {
+  /** Dotted path of the failing field, e.g. "[0].InitialAmount" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when the trading API answers with a payload that does not match the
+ * contract this service was written against
+ */
+export class UpstreamContractError extends AppError {
+  public readonly endpoint: string;
+  public readonly issues: UpstreamContractIssue[];
+
+  constructor(endpoint: string, issues: UpstreamContractIssue[]) {
+    const first = issues[0];
+    super(
+      `Unexpected response from the trading API for ${endpoint}: ${first ? `${first.path}: ${first.message}` : "invalid payload"}`,
+      502,
+      true,
+      { endpoint, issues },
+    );
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path
+    .map((segment, index) =>
+      typeof segment === "number" ? `[${segment}]` : index === 0 ? segment : `.${segment}`,
+    )
+    .join("");
+}
+
+/**
+ * Checks an upstream payload against its schema
+ *
+ * The original payload is returned rather than the parsed one, so fields the
+ * schema does not know about are kept.
+ *
+ * @param schema - Expected shape of the payload
+ * @param data - Payload as received from the trading API
+ * @param endpoint - Endpoint the payload came from, used in errors and logs
+ * @param mode - Whether a mismatch throws or is only logged
+ * @throws {UpstreamContractError} When the payload does not match in strict mode
+ *
+ * @example
+ * ```typescript
+ * const trades = checkUpstreamResponse(z.array(TradeSchema), data, "/v2/trade", "strict");
+ * ```
+ */
+export function checkUpstreamResponse<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  endpoint: string,
+  mode: ResponseValidationMode,
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return data as T;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: formatPath(issue.path) || "(root)",
+    message: issue.message,
+  }));
+
+  if (mode === "strict") {
+    throw new UpstreamContractError(endpoint, issues);
+  }
+
+  console.warn(`[${new Date().toISOString()}] Upstream response contract mismatch:`, {
+    endpoint,
+    issues,
+  });
+  return data as T;
+}
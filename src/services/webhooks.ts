@@ -0,0 +1,495 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import axios from "axios";
+import { getWebhookOptions } from "../config/env.js";
+import type { Asset, Position } from "../types/api.js";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription,
+} from "../types/webhooks.js";
+import { IntervalTask } from "../utils/async.js";
+import { errorMessage } from "../utils/errors.js";
+import { type RetryPolicy, isRetryableStatus } from "../utils/retry.js";
+import { diffBalances, diffPositions } from "./accountChanges.js";
+import { cryptoApi } from "./cryptoApi.js";
+import { type DataStore, getDataStore } from "./storage.js";
+
+export interface WebhookOptions {
+  /** Interval of the retry queue and of the account polling */
+  pollIntervalMs: number;
+  /** Time a subscriber has to answer a delivery */
+  timeoutMs: number;
+  /** Attempts per delivery and the backoff between them */
+  retry: RetryPolicy;
+  /** Finished deliveries kept per subscription */
+  logLimit: number;
+}
+
+const SUBSCRIPTIONS = "webhooks";
+const DELIVERIES = "webhookDeliveries";
+
+export type WebhookSubscriptionInput = Pick<
+  WebhookSubscription,
+  "url" | "events" | "active" | "description"
+> & { secret?: string | undefined };
+
+/**
+ * Generates a random signing secret
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Signs a delivery body with HMAC-SHA256 over "<timestamp>.<body>"
+ *
+ * @example
+ * ```typescript
+ * signWebhookPayload("secret", 1727000000000, '{"id":"..."}') // "sha256=5f0c..."
+ * ```
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Delay before the next attempt: baseDelayMs doubled per failed attempt, capped at maxDelayMs
+ *
+ * @param attempt - Number of failed attempts so far, starting at 1
+ */
+export function webhookRetryDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Subscriptions without their secret, as listed by the API
+ */
+export function withoutSecret(
+  subscription: WebhookSubscription,
+): Omit<WebhookSubscription, "secret"> {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * Webhook subscriptions and their delivery log, kept in the app data store
+ */
+export class WebhookStore {
+  private readonly getStore: () => DataStore;
+
+  /**
+   * @param store - Data store to use; the app-wide store when omitted
+   */
+  constructor(store?: DataStore) {
+    this.getStore = store ? () => store : getDataStore;
+  }
+
+  async createSubscription(
+    input: WebhookSubscriptionInput,
+    now = Date.now(),
+  ): Promise<WebhookSubscription> {
+    const store = this.getStore();
+    const subscription: WebhookSubscription = {
+      id: await store.nextId(SUBSCRIPTIONS),
+      url: input.url,
+      events: input.events,
+      secret: input.secret ?? generateWebhookSecret(),
+      active: input.active,
+      description: input.description,
+      createdAt: now,
+    };
+    await store.set(SUBSCRIPTIONS, String(subscription.id), subscription);
+    return subscription;
+  }
+
+  async getSubscription(id: number): Promise<WebhookSubscription | undefined> {
+    return this.getStore().get<WebhookSubscription>(SUBSCRIPTIONS, String(id));
+  }
+
+  async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const records = await this.getStore().list<WebhookSubscription>(SUBSCRIPTIONS);
+    return records.map((record) => record.value).sort((a, b) => a.id - b.id);
+  }
+
+  async updateSubscription(
+    id: number,
+    changes: Partial<Omit<WebhookSubscription, "id" | "createdAt">>,
+  ): Promise<WebhookSubscription | undefined> {
+    const subscription = await this.getSubscription(id);
+    if (!subscription) {
+      return undefined;
+    }
+    const updated = { ...subscription, ...changes };
+    await this.getStore().set(SUBSCRIPTIONS, String(id), updated);
+    return updated;
+  }
+
+  /**
+   * Deletes a subscription together with its delivery log
+   */
+  async deleteSubscription(id: number): Promise<boolean> {
+    const store = this.getStore();
+    for (const delivery of await this.listDeliveries({ subscriptionId: id })) {
+      await store.delete(DELIVERIES, String(delivery.id));
+    }
+    return store.delete(SUBSCRIPTIONS, String(id));
+  }
+
+  async createDelivery(delivery: Omit<WebhookDelivery, "id">): Promise<WebhookDelivery> {
+    const store = this.getStore();
+    const created = { ...delivery, id: await store.nextId(DELIVERIES) };
+    await store.set(DELIVERIES, String(created.id), created);
+    return created;
+  }
+
+  async getDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    return this.getStore().get<WebhookDelivery>(DELIVERIES, String(id));
+  }
+
+  async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.getStore().set(DELIVERIES, String(delivery.id), delivery);
+  }
+
+  /** Lists deliveries, newest first */
+  async listDeliveries(
+    filter: {
+      subscriptionId?: number | undefined;
+      status?: WebhookDeliveryStatus | undefined;
+    } = {},
+  ): Promise<WebhookDelivery[]> {
+    const records = await this.getStore().list<WebhookDelivery>(DELIVERIES);
+    return records
+      .map((record) => record.value)
+      .filter(
+        (delivery) =>
+          (filter.subscriptionId === undefined ||
+            delivery.subscriptionId === filter.subscriptionId) &&
+          (filter.status === undefined || delivery.status === filter.status),
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  /**
+   * Removes the oldest finished deliveries of a subscription beyond `limit`.
+   * Pending deliveries are never removed.
+   */
+  async pruneDeliveries(subscriptionId: number, limit: number): Promise<void> {
+    const finished = (await this.listDeliveries({ subscriptionId })).filter(
+      (delivery) => delivery.status !== "pending",
+    );
+    for (const delivery of finished.slice(limit)) {
+      await this.getStore().delete(DELIVERIES, String(delivery.id));
+    }
+  }
+}
+
+export const webhookStore = new WebhookStore();
+
+/**
+ * Sends a signed body and resolves with the HTTP status; rejects when no
+ * response was received
+ */
+export type WebhookSender = (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs: number,
+) => Promise<number>;
+
+const sendWithAxios: WebhookSender = async (url, body, headers, timeoutMs) => {
+  const response = await axios.post(url, body, {
+    headers,
+    timeout: timeoutMs,
+    maxRedirects: 0,
+    // The body is signed as-is, so it must not be re-serialized
+    transformRequest: [(data: string) => data],
+    validateStatus: () => true,
+  });
+  return response.status;
+};
+
+interface AccountSnapshot {
+  positions?: Position[] | undefined;
+  assets?: Asset[] | undefined;
+}
+
+/**
+ * Creates, sends and retries webhook deliveries
+ *
+ * Events are delivered right away; failed deliveries are retried with
+ * exponential backoff by a background loop that also polls positions and
+ * balances for the position.changed and balance.changed events. A delivery
+ * that runs out of attempts, or that the subscriber rejects with a 4xx status
+ * other than 429, ends in the dead-letter list.
+ *
+ * @example
+ * ```typescript
+ * const dispatcher = new WebhookDispatcher(webhookStore);
+ * dispatcher.start();
+ * await dispatcher.publish("trade.created", trade);
+ * ```
+ */
+export class WebhookDispatcher {
+  private readonly store: WebhookStore;
+  private readonly options: WebhookOptions;
+  private readonly send: WebhookSender;
+  private readonly now: () => number;
+  private readonly inFlight = new Set<number>();
+  private account: AccountSnapshot = {};
+  private readonly poller: IntervalTask;
+  private running = false;
+
+  /**
+   * @param store - Subscriptions and deliveries
+   * @param options - Timeouts, retries and poll interval
+   * @param send - HTTP sender, injectable for tests
+   * @param now - Clock, injectable for tests
+   */
+  constructor(
+    store: WebhookStore,
+    options: WebhookOptions = getWebhookOptions(),
+    send: WebhookSender = sendWithAxios,
+    now: () => number = Date.now,
+  ) {
+    this.store = store;
+    this.options = options;
+    this.send = send;
+    this.now = now;
+    this.poller = new IntervalTask("Webhook round", options.pollIntervalMs, () => this.tick());
+  }
+
+  start(): void {
+    this.poller.start();
+  }
+
+  stop(): void {
+    this.poller.stop();
+  }
+
+  /**
+   * Runs one round of the background loop: account changes first, then due retries.
+   * Rounds do not overlap.
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.checkAccount().catch((error: unknown) => {
+        console.warn(
+          `[${new Date().toISOString()}] Webhook account polling failed:`,
+          errorMessage(error),
+        );
+      });
+      await this.processDue();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Creates a delivery for every active subscription of the event type and
+   * makes the first attempt
+   *
+   * @returns The deliveries after their first attempt
+   */
+  async publish(type: WebhookEventType, data: unknown): Promise<WebhookDelivery[]> {
+    const subscriptions = (await this.store.listSubscriptions()).filter(
+      (subscription) => subscription.active && subscription.events.includes(type),
+    );
+    if (subscriptions.length === 0) {
+      return [];
+    }
+
+    const event: WebhookEvent = { id: randomUUID(), type, timestamp: this.now(), data };
+    const deliveries: WebhookDelivery[] = [];
+    for (const subscription of subscriptions) {
+      const delivery = await this.store.createDelivery({
+        subscriptionId: subscription.id,
+        event,
+        status: "pending",
+        attempts: [],
+        nextAttemptAt: event.timestamp,
+        replayOf: null,
+        createdAt: event.timestamp,
+      });
+      deliveries.push(await this.attempt(delivery, subscription));
+    }
+    return deliveries;
+  }
+
+  /**
+   * Sends an earlier delivery again as a new delivery with the same event
+   *
+   * @returns The new delivery after its first attempt
+   */
+  async replay(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const now = this.now();
+    const replayed = await this.store.createDelivery({
+      subscriptionId: delivery.subscriptionId,
+      event: delivery.event,
+      status: "pending",
+      attempts: [],
+      nextAttemptAt: now,
+      replayOf: delivery.id,
+      createdAt: now,
+    });
+    return this.attempt(replayed);
+  }
+
+  /**
+   * Attempts all pending deliveries that are due. Deliveries of inactive
+   * subscriptions wait until the subscription is enabled again.
+   *
+   * @returns Number of attempted deliveries
+   */
+  async processDue(): Promise<number> {
+    const now = this.now();
+    const due = (await this.store.listDeliveries({ status: "pending" }))
+      .filter((delivery) => (delivery.nextAttemptAt ?? Number.POSITIVE_INFINITY) <= now)
+      .reverse();
+
+    let attempted = 0;
+    for (const delivery of due) {
+      const subscription = await this.store.getSubscription(delivery.subscriptionId);
+      if (subscription?.active) {
+        await this.attempt(delivery, subscription);
+        attempted++;
+      }
+    }
+    return attempted;
+  }
+
+  private async attempt(
+    delivery: WebhookDelivery,
+    known?: WebhookSubscription,
+  ): Promise<WebhookDelivery> {
+    const subscription = known ?? (await this.store.getSubscription(delivery.subscriptionId));
+    if (!subscription || this.inFlight.has(delivery.id)) {
+      return delivery;
+    }
+    this.inFlight.add(delivery.id);
+
+    try {
+      const timestamp = this.now();
+      const body = JSON.stringify(delivery.event);
+      const headers = {
+        "Content-Type": "application/json",
+        "User-Agent": "crypton-api-webhooks",
+        "X-Webhook-Event": delivery.event.type,
+        "X-Webhook-Delivery": String(delivery.id),
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+      };
+
+      let responseStatus: number | null = null;
+      let error: string | null = null;
+      try {
+        responseStatus = await this.send(subscription.url, body, headers, this.options.timeoutMs);
+        if (responseStatus < 200 || responseStatus >= 300) {
+          error = `Subscriber responded with HTTP ${responseStatus}`;
+        }
+      } catch (sendError) {
+        error = errorMessage(sendError);
+      }
+
+      const finishedAt = this.now();
+      const attempts = [
+        ...delivery.attempts,
+        { at: timestamp, responseStatus, error, durationMs: finishedAt - timestamp },
+      ];
+      const retryable =
+        isRetryableStatus(responseStatus ?? undefined) &&
+        attempts.length < this.options.retry.maxAttempts;
+
+      const updated: WebhookDelivery = {
+        ...delivery,
+        attempts,
+        status: error === null ? "delivered" : retryable ? "pending" : "dead",
+        nextAttemptAt:
+          error !== null && retryable
+            ? finishedAt + webhookRetryDelay(attempts.length, this.options.retry)
+            : null,
+      };
+      await this.store.saveDelivery(updated);
+
+      if (updated.status === "dead") {
+        console.warn(
+          `[${new Date().toISOString()}] Webhook delivery ${delivery.id} moved to the dead-letter list:`,
+          { subscriptionId: subscription.id, event: delivery.event.type, error },
+        );
+      }
+      if (updated.status !== "pending") {
+        await this.store.pruneDeliveries(subscription.id, this.options.logLimit);
+      }
+      return updated;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  /**
+   * Publishes position.changed and balance.changed events for changes since
+   * the previous check. Only polls what active subscriptions ask for; the first
+   * check after start (or after a subscription appears) records a baseline.
+   */
+  async checkAccount(): Promise<void> {
+    const wanted = new Set(
+      (await this.store.listSubscriptions())
+        .filter((subscription) => subscription.active)
+        .flatMap((subscription) => subscription.events),
+    );
+
+    if (wanted.has("position.changed")) {
+      const positions = await cryptoApi.getPositions();
+      const previous = this.account.positions;
+      this.account.positions = positions;
+      for (const change of previous ? diffPositions(previous, positions) : []) {
+        await this.publish("position.changed", change);
+      }
+    } else {
+      this.account.positions = undefined;
+    }
+
+    if (wanted.has("balance.changed")) {
+      const assets = await cryptoApi.getAccountAssets();
+      const previous = this.account.assets;
+      this.account.assets = assets;
+      for (const change of previous ? diffBalances(previous, assets) : []) {
+        await this.publish("balance.changed", change);
+      }
+    } else {
+      this.account.assets = undefined;
+    }
+  }
+}
+
+let defaultDispatcher: WebhookDispatcher | undefined;
+
+/**
+ * Returns the app-wide dispatcher, creating it on first use
+ */
+export function getWebhookDispatcher(): WebhookDispatcher {
+  defaultDispatcher ??= new WebhookDispatcher(webhookStore);
+  return defaultDispatcher;
+}
+
+/**
+ * Publishes an event without waiting for the deliveries; failures are logged
+ *
+ * Meant for request handlers and bot commands, which should not wait for (or
+ * fail because of) subscribers.
+ */
+export function publishWebhookEvent(type: WebhookEventType, data: unknown): void {
+  getWebhookDispatcher()
+    .publish(type, data)
+    .catch((error: unknown) => {
+      console.error(
+        `[${new Date().toISOString()}] Failed to publish webhook event ${type}:`,
+        error,
+      );
+    });
+}
@@ -0,0 +1,45 @@
+/**
+ * Type definitions for price alerts
+ */
+
+/**
+ * When an alert fires
+ * - above / below: the price is at or beyond the target
+ * - cross: the price moved through the target since the previous check
+ * - change: the price moved by at least `value` percent from the reference price
+ */
+export const ALERT_CONDITIONS = ["above", "below", "cross", "change"] as const;
+
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+export interface PriceAlertInput {
+  /** Telegram chat that is notified */
+  chatId: number;
+  symbol: string;
+  condition: AlertCondition;
+  /** Target price, or percentage for the change condition */
+  value: number;
+  /** Keep the alert after it fires; otherwise it is deactivated */
+  repeat: boolean;
+  /** Minimum time between two notifications of a repeating alert */
+  cooldownMs: number;
+}
+
+export interface PriceAlert extends PriceAlertInput {
+  id: number;
+  active: boolean;
+  /** Reference price of the change condition; moves to the trigger price when it fires */
+  basePrice: number | null;
+  /** Price seen by the previous check, used to detect crossings */
+  lastPrice: number | null;
+  lastTriggeredAt: number | null;
+  triggerCount: number;
+  createdAt: number;
+}
+
+/**
+ * Fields of an alert that can change after it was created
+ */
+export type PriceAlertUpdate = Partial<
+  Omit<PriceAlert, "id" | "chatId" | "symbol" | "condition" | "createdAt">
+>;
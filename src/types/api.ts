@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
@@ -5,132 +7,182 @@ export interface ApiResponse<T = unknown> {
   message?: string;
 }
 
-export type TradingSide = "Sell" | "Buy";
+/*
+ * Upstream response contracts. Responses are validated against these schemas
+ * in CryptoApiClient, and the TypeScript types are inferred from them.
+ */
 
-export type TradingType = "Market" | "Limit" | "Stop" | "StopLimit";
+export const TradingSideSchema = z.enum(["Sell", "Buy"]);
+export type TradingSide = z.infer<typeof TradingSideSchema>;
 
-export type TradeStatus = "Pending" | "Active" | "Completed" | "Cancelled";
+export const TradingTypeSchema = z.enum(["Market", "Limit", "Stop", "StopLimit"]);
+export type TradingType = z.infer<typeof TradingTypeSchema>;
 
-export interface Trade {
-  Id: number;
-  ClientId: string;
-  AccountId: number;
-  Type: TradingType;
-  InitialType: TradingType;
-  Side: TradingSide;
-  Status: TradeStatus;
-  Symbol: string;
-  SymbolPrecision: number;
-  Price: number;
-  CurrentPrice: number;
-  InitialAmount: number;
-  RemainingAmount: number;
-  FilledAmount: number;
-  Margin: number;
-  ImmediateOrCancel: boolean;
-  MarketWithSlippage: boolean;
-  FillOrKill: boolean;
-  OneCancelsTheOther: boolean;
-  Created: number;
-  Modified: number;
-  ClientApp: string;
-  ContingentOrder: boolean;
-}
+export const TradeStatusSchema = z.enum(["Pending", "Active", "Completed", "Cancelled"]);
+export type TradeStatus = z.infer<typeof TradeStatusSchema>;
 
-export interface PipsValue {
+export const TradeSchema = z.object({
+  Id: z.number(),
+  ClientId: z.string(),
+  AccountId: z.number(),
+  Type: TradingTypeSchema,
+  InitialType: TradingTypeSchema,
+  Side: TradingSideSchema,
+  Status: TradeStatusSchema,
+  Symbol: z.string(),
+  SymbolPrecision: z.number(),
+  Price: z.number(),
+  CurrentPrice: z.number(),
+  /** Average execution price, reported by history records of filled orders */
+  OrderFillPrice: z.number().optional(),
+  InitialAmount: z.number(),
+  RemainingAmount: z.number(),
+  FilledAmount: z.number(),
+  Margin: z.number(),
+  ImmediateOrCancel: z.boolean(),
+  MarketWithSlippage: z.boolean(),
+  FillOrKill: z.boolean(),
+  OneCancelsTheOther: z.boolean(),
+  Created: z.number(),
+  Modified: z.number(),
+  ClientApp: z.string(),
+  ContingentOrder: z.boolean(),
+});
+export type Trade = z.infer<typeof TradeSchema>;
+
+export interface CreateTradeRequest {
   Symbol: string;
-  Value: number;
+  Side: TradingSide;
+  Type?: TradingType | undefined;
+  Amount: string;
+  Price?: string | undefined;
+  StopPrice?: string | undefined;
+  Expired?: number | undefined;
+  ImmediateOrCancel?: boolean | undefined;
+  FillOrKill?: boolean | undefined;
+  MarketWithSlippage?: boolean | undefined;
+  Comment?: string | undefined;
+  /** Client-assigned order ID; the upstream rejects duplicates, which makes retries safe */
+  ClientId?: string | undefined;
 }
 
-export interface TradingTick {
-  Symbol: string;
-  Timestamp: number;
-  BestBid: {
-    Type: string;
-    Price: number;
-    Volume: number;
-  };
-  BestAsk: {
-    Type: string;
-    Price: number;
-    Volume: number;
-  };
-  IndicativeTick: true;
-  TickType: string;
+export interface ModifyTradeRequest {
+  Id: number;
+  Amount?: string | undefined;
+  Price?: string | undefined;
+  StopPrice?: string | undefined;
+  Expired?: number | undefined;
+  Comment?: string | undefined;
 }
 
-export interface Symbol {
-  Symbol: string;
-  Precision: number;
-  IsTradeAllowed: boolean;
-  MarginMode: string;
-  ProfitMode: string;
-  ContractSize: number;
-  MarginHedged: number;
-  MarginFactor: number;
-  MarginCurrency: string;
-  MarginCurrencyPrecision: number;
-  ProfitCurrency: string;
-  ProfitCurrencyPrecision: number;
-  Description: string;
-  Schedule: string;
-  Color: number;
-  SwapEnabled: boolean;
-  SwapType: string;
-  SwapSizeShort: number;
-  SwapSizeLong: number;
-  TripleSwapDay: number;
-  MinTradeAmount: number;
-  MaxTradeAmount: number;
-  TradeAmountStep: number;
-  CommissionType: string;
-  CommissionChargeType: string;
-  Commission: number;
-  LimitsCommission: number;
-  MinCommission: number;
-  MinCommissionCurrency: string;
-  DefaultSlippage: number;
-  StatusGroupId: string;
-  SecurityName: string;
-  SecurityDescription: string;
-  StopOrderMarginReduction: number;
-  HiddenLimitOrderMarginReduction: number;
-  IsCloseOnly: boolean;
-  IsLongOnly: boolean;
-  SlippageType: string;
-  ExtendedName: string;
-  TradingMode: string;
+export type HistoryRequestDirection = "Forwards" | "Backwards";
+
+export interface TradeHistoryRequest {
+  TimestampFrom?: number | undefined;
+  TimestampTo?: number | undefined;
+  OrderId?: number | undefined;
+  SkipCancelOrder?: boolean | undefined;
+  RequestDirection?: HistoryRequestDirection | undefined;
+  RequestPageSize?: number | undefined;
 }
 
-export interface Position {
-  Id: number;
+export interface PipsValue {
   Symbol: string;
-  LongAmount: number;
-  LongPrice: number;
-  ShortAmount: number;
-  ShortPrice: number;
-  Commission: number;
-  AgentCommission: number;
-  Swap: number;
-  Modified: number;
-  Margin: number;
-  Profit: number;
-  CurrentBestAsk: number;
-  CurrentBestBid: number;
-  TransferringCoefficient: number;
-  Created: number;
+  Value: number;
 }
 
-export interface Asset {
-  Currency: string;
-  Amount: number;
-  FreeAmount: number;
-  LockedAmount: number;
-  CurrencyToReportConversionRate: number;
-  ReportToCurrencyConversionRate: number;
-}
+const BestPriceSchema = z.object({
+  Type: z.string(),
+  Price: z.number(),
+  Volume: z.number(),
+});
 
-export interface ServerInfo {
-  ServerName: string;
-  ServerAddress: string;
-}
+export const TradingTickSchema = z.object({
+  Symbol: z.string(),
+  Timestamp: z.number(),
+  BestBid: BestPriceSchema,
+  BestAsk: BestPriceSchema,
+  IndicativeTick: z.boolean(),
+  TickType: z.string(),
+});
+export type TradingTick = z.infer<typeof TradingTickSchema>;
+
+export const SymbolSchema = z.object({
+  Symbol: z.string(),
+  Precision: z.number(),
+  IsTradeAllowed: z.boolean(),
+  MarginMode: z.string(),
+  ProfitMode: z.string(),
+  ContractSize: z.number(),
+  MarginHedged: z.number(),
+  MarginFactor: z.number(),
+  MarginCurrency: z.string(),
+  MarginCurrencyPrecision: z.number(),
+  ProfitCurrency: z.string(),
+  ProfitCurrencyPrecision: z.number(),
+  Description: z.string(),
+  Schedule: z.string(),
+  Color: z.number(),
+  SwapEnabled: z.boolean(),
+  SwapType: z.string(),
+  SwapSizeShort: z.number(),
+  SwapSizeLong: z.number(),
+  TripleSwapDay: z.number(),
+  MinTradeAmount: z.number(),
+  MaxTradeAmount: z.number(),
+  TradeAmountStep: z.number(),
+  CommissionType: z.string(),
+  CommissionChargeType: z.string(),
+  Commission: z.number(),
+  LimitsCommission: z.number(),
+  MinCommission: z.number(),
+  MinCommissionCurrency: z.string(),
+  DefaultSlippage: z.number(),
+  StatusGroupId: z.string(),
+  SecurityName: z.string(),
+  SecurityDescription: z.string(),
+  StopOrderMarginReduction: z.number(),
+  HiddenLimitOrderMarginReduction: z.number(),
+  IsCloseOnly: z.boolean(),
+  IsLongOnly: z.boolean(),
+  SlippageType: z.string(),
+  ExtendedName: z.string(),
+  TradingMode: z.string(),
+});
+export type Symbol = z.infer<typeof SymbolSchema>;
+
+export const PositionSchema = z.object({
+  Id: z.number(),
+  Symbol: z.string(),
+  LongAmount: z.number(),
+  LongPrice: z.number(),
+  ShortAmount: z.number(),
+  ShortPrice: z.number(),
+  Commission: z.number(),
+  AgentCommission: z.number(),
+  Swap: z.number(),
+  Modified: z.number(),
+  Margin: z.number(),
+  Profit: z.number(),
+  CurrentBestAsk: z.number(),
+  CurrentBestBid: z.number(),
+  TransferringCoefficient: z.number(),
+  Created: z.number(),
+});
+export type Position = z.infer<typeof PositionSchema>;
+
+export const AssetSchema = z.object({
+  Currency: z.string(),
+  Amount: z.number(),
+  FreeAmount: z.number(),
+  LockedAmount: z.number(),
+  CurrencyToReportConversionRate: z.number(),
+  ReportToCurrencyConversionRate: z.number(),
+});
+export type Asset = z.infer<typeof AssetSchema>;
+
+export const ServerInfoSchema = z.object({
+  ServerName: z.string(),
+  ServerAddress: z.string(),
+});
+export type ServerInfo = z.infer<typeof ServerInfoSchema>;
@@ -0,0 +1,20 @@
+/**
+ * Type definitions for the audit log of trading actions
+ */
+
+export type AuditAction = "trade.create" | "trade.modify" | "trade.cancel" | "risk.kill_switch";
+
+/** Where an action was requested; "dca" marks orders placed by a DCA plan */
+export type AuditSource = "api" | "telegram" | "dca";
+
+export interface AuditEntry {
+  id: number;
+  timestamp: number;
+  action: AuditAction;
+  source: AuditSource;
+  /** Telegram user ID or client IP, when known */
+  actor: string | null;
+  /** Trade the action applied to, null for account-wide actions */
+  tradeId: number | null;
+  details: Record<string, unknown>;
+}
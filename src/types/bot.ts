@@ -0,0 +1,20 @@
+/**
+ * Type definitions for the Telegram bot
+ */
+
+/**
+ * Access roles for bot users, ordered from least to most privileged
+ */
+export const BOT_ROLES = ["viewer", "trader", "admin"] as const;
+
+export type BotRole = (typeof BOT_ROLES)[number];
+
+/**
+ * An allowlisted Telegram user or chat and the role it grants
+ */
+export interface TelegramAccessEntry {
+  /** Telegram user ID or chat ID */
+  id: number;
+  /** Role granted to the user, or to everyone in the chat */
+  role: BotRole;
+}
@@ -0,0 +1,57 @@
+/**
+ * Type definitions for take-profit and stop-loss brackets
+ */
+
+import type { TradingSide } from "./api.js";
+
+export type BracketLegKind = "takeProfit" | "stopLoss";
+
+/**
+ * Exit price of a leg: an absolute price, or a distance from the entry fill
+ * price in percent (in the profitable direction for take-profit, the losing
+ * one for stop-loss)
+ */
+export type BracketTarget = { price: number } | { percent: number };
+
+/**
+ * - waiting: not placed yet, because the entry has not filled or placing failed temporarily
+ * - open: the exit order rests upstream
+ * - filled, cancelled: final state of the exit order
+ * - failed: the upstream refused the exit order
+ */
+export type BracketLegStatus = "waiting" | "open" | "filled" | "cancelled" | "failed";
+
+export interface BracketLeg {
+  target: BracketTarget;
+  /** Price of the exit order, resolved once the entry filled */
+  price: number | null;
+  orderId: number | null;
+  status: BracketLegStatus;
+  /** Last upstream error while placing or cancelling the order */
+  error: string | null;
+}
+
+/**
+ * - pending: waiting for the entry order to fill
+ * - active: at least one exit order is open or about to be placed
+ * - closed: an exit order filled and the other one was cancelled
+ * - cancelled: the entry was cancelled unfilled, or all exit orders were cancelled
+ * - failed: no exit order could be placed
+ */
+export type BracketStatus = "pending" | "active" | "closed" | "cancelled" | "failed";
+
+export interface Bracket {
+  id: number;
+  entryOrderId: number;
+  symbol: string;
+  /** Side of the entry; exit orders take the opposite side */
+  side: TradingSide;
+  /** Filled entry amount the exit orders close, set once the entry filled */
+  amount: number | null;
+  entryPrice: number | null;
+  takeProfit: BracketLeg | null;
+  stopLoss: BracketLeg | null;
+  status: BracketStatus;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,52 @@
+/**
+ * Type definitions for OHLC candles built from polled ticks
+ */
+
+export const CANDLE_INTERVALS = ["1m", "5m", "15m", "1h", "1d"] as const;
+
+export type CandleInterval = (typeof CANDLE_INTERVALS)[number];
+
+/**
+ * Price a candle series is built from; mid is halfway between best bid and ask
+ */
+export const CANDLE_PRICES = ["mid", "bid", "ask"] as const;
+
+export type CandlePrice = (typeof CANDLE_PRICES)[number];
+
+/**
+ * How periods without samples are returned
+ * - fill: a flat candle at the previous close, marked with `gap: true`
+ * - omit: the period is left out
+ */
+export const CANDLE_GAP_MODES = ["fill", "omit"] as const;
+
+export type CandleGapMode = (typeof CANDLE_GAP_MODES)[number];
+
+export interface Ohlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * One minute of tick samples of a symbol; the base of all intervals
+ */
+export interface MinuteBar {
+  /** Start of the minute, milliseconds since the epoch */
+  time: number;
+  bid: Ohlc;
+  ask: Ohlc;
+  mid: Ohlc;
+  /** Number of tick samples in the minute */
+  samples: number;
+}
+
+export interface Candle extends Ohlc {
+  /** Start of the period, milliseconds since the epoch (UTC) */
+  time: number;
+  /** Number of tick samples in the period; 0 for gaps */
+  samples: number;
+  /** True when no samples were recorded in the period */
+  gap: boolean;
+}
@@ -0,0 +1,54 @@
+/**
+ * Type definitions for recurring dollar-cost averaging (DCA) buy plans
+ */
+
+export interface DcaPlanInput {
+  symbol: string;
+  /** Cron expression in UTC, e.g. "0 9 * * 1" for Mondays at 09:00 */
+  schedule: string;
+  /** Amount of the quote currency spent per run, converted to the base amount at the ask */
+  quoteAmount: number;
+  /** Runs are skipped while the ask is above this price */
+  maxPrice: number | null;
+}
+
+export interface DcaPlan extends DcaPlanInput {
+  id: number;
+  /** Paused plans keep their settings but do not run */
+  active: boolean;
+  /** Next scheduled run, null while paused */
+  nextRunAt: number | null;
+  lastRunAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Fields of a plan that can change after it was created
+ */
+export type DcaPlanUpdate = Partial<Pick<DcaPlan, "schedule" | "quoteAmount" | "maxPrice">>;
+
+/**
+ * - placed: the buy order was accepted upstream
+ * - skipped: a price cap or the minimum trade amount prevented the buy, or the run was missed
+ * - failed: the order was rejected by validation, the risk limits or the upstream
+ */
+export const DCA_EXECUTION_STATUSES = ["placed", "skipped", "failed"] as const;
+
+export type DcaExecutionStatus = (typeof DCA_EXECUTION_STATUSES)[number];
+
+export interface DcaExecution {
+  id: number;
+  planId: number;
+  /** Time the run was scheduled for */
+  scheduledAt: number;
+  executedAt: number;
+  status: DcaExecutionStatus;
+  /** Ask the base amount was computed from */
+  price: number | null;
+  /** Base amount of the order */
+  amount: number | null;
+  orderId: number | null;
+  /** Why the run was skipped or failed */
+  reason: string | null;
+}
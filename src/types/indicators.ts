@@ -0,0 +1,42 @@
+/**
+ * Type definitions for technical indicators
+ */
+
+/**
+ * Supported indicators with their parameters in the `set` query, defaults in brackets
+ * - sma:period [20], ema:period [20]: simple and exponential moving average of the close
+ * - rsi:period [14]: relative strength index with Wilder smoothing
+ * - macd:fast:slow:signal [12:26:9]: moving average convergence divergence
+ * - bb:period:multiplier [20:2]: Bollinger Bands
+ * - atr:period [14]: average true range with Wilder smoothing
+ */
+export const INDICATORS = ["sma", "ema", "rsi", "macd", "bb", "atr"] as const;
+
+export type IndicatorName = (typeof INDICATORS)[number];
+
+export type IndicatorSpec =
+  | { name: "sma" | "ema" | "rsi" | "atr"; period: number }
+  | { name: "macd"; fast: number; slow: number; signal: number }
+  | { name: "bb"; period: number; multiplier: number };
+
+export interface MacdValue {
+  macd: number;
+  signal: number | null;
+  histogram: number | null;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export type IndicatorValue = number | MacdValue | BollingerValue;
+
+export interface IndicatorSeries {
+  spec: IndicatorSpec;
+  /** Most recent value; null while there are too few candles */
+  latest: IndicatorValue | null;
+  /** Values by candle start time; null during the warm-up period */
+  values: { time: number; value: IndicatorValue | null }[];
+}
@@ -0,0 +1,40 @@
+import type { Trade, TradeStatus } from "./api.js";
+
+/**
+ * Order events pushed to subscribed chats
+ * - filled: the order completed
+ * - partial: more of the order was filled, but it is still open
+ * - cancelled: the order was cancelled or expired
+ * - activated: a pending (e.g. stop) order became active
+ */
+export const ORDER_EVENTS = ["filled", "partial", "cancelled", "activated"] as const;
+
+export type OrderEventType = (typeof ORDER_EVENTS)[number];
+
+export interface OrderEvent {
+  type: OrderEventType;
+  trade: Trade;
+  /** Amount filled since the previous check */
+  filledDelta: number;
+}
+
+/**
+ * Last known state of an order, used to detect changes between polls
+ */
+export interface OrderSnapshot {
+  status: TradeStatus;
+  filledAmount: number;
+  /** When the order was last returned by the upstream API */
+  seenAt: number;
+}
+
+/**
+ * Watcher state, persisted so that restarts neither repeat nor miss notifications
+ */
+export interface OrderWatcherState {
+  /** Time of the last successful poll; null until the first poll recorded a baseline */
+  lastPolledAt: number | null;
+  orders: Record<string, OrderSnapshot>;
+  /** Events each chat is subscribed to, keyed by chat ID */
+  subscriptions: Record<string, OrderEventType[]>;
+}
@@ -0,0 +1,44 @@
+/**
+ * Type definitions for the pre-trade risk engine
+ */
+
+import type { AuditSource } from "./audit.js";
+
+/**
+ * Identifies the risk limit that rejected an order
+ */
+export type RiskRuleId =
+  | "KILL_SWITCH"
+  | "MAX_ORDER_NOTIONAL"
+  | "MAX_POSITION_VALUE"
+  | "MAX_TOTAL_EXPOSURE"
+  | "MAX_DAILY_LOSS"
+  | "MAX_ORDERS_PER_MINUTE"
+  | "PRICE_UNAVAILABLE"
+  | "CONVERSION_RATE_UNAVAILABLE";
+
+/**
+ * A single failed risk check
+ */
+export interface RiskViolation {
+  rule: RiskRuleId;
+  /** Human-readable explanation */
+  message: string;
+  /** The configured limit, when the rule has one */
+  limit?: number | undefined;
+  /** The value that broke the limit, in the report currency for value limits */
+  value?: number | undefined;
+}
+
+/**
+ * Global switch that halts all new orders while active
+ */
+export interface KillSwitchState {
+  active: boolean;
+  reason: string | null;
+  /** Telegram user ID or client IP of whoever last toggled the switch */
+  actor: string | null;
+  source: AuditSource | null;
+  /** When the switch was last toggled, or null when it never was */
+  updatedAt: number | null;
+}
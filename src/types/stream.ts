@@ -0,0 +1,36 @@
+/**
+ * Type definitions for the Server-Sent Events stream
+ */
+
+import type { Trade, TradingTick } from "./api.js";
+
+/**
+ * Event groups a client can subscribe to
+ * - ticks: best bid/ask updates of the requested symbols
+ * - trades: active orders that were placed, changed or closed
+ */
+export const STREAM_EVENTS = ["ticks", "trades"] as const;
+
+export type StreamEventType = (typeof STREAM_EVENTS)[number];
+
+/**
+ * - created: the order appeared in the active orders
+ * - updated: status, amounts or prices of the order changed
+ * - closed: the order left the active orders (filled, cancelled or expired)
+ */
+export type TradeStreamAction = "created" | "updated" | "closed";
+
+export type StreamMessage =
+  | { id: number; event: "tick"; symbol: string; data: TradingTick }
+  | {
+      id: number;
+      event: "trade";
+      symbol: string;
+      data: { action: TradeStreamAction; trade: Trade };
+    };
+
+export interface StreamFilter {
+  events: StreamEventType[];
+  /** Symbols of ticks and trades; trades of all symbols when empty */
+  symbols: string[];
+}
@@ -0,0 +1,160 @@
+/**
+ * Type definitions for trading domain logic built on top of the upstream API
+ */
+
+import type { HistoryRequestDirection, Trade, TradingSide, TradingType } from "./api.js";
+
+/**
+ * Identifies the symbol constraint that a trade request violated
+ */
+export type TradeRuleId =
+  | "SYMBOL_NOT_FOUND"
+  | "TRADE_NOT_ALLOWED"
+  | "CLOSE_ONLY"
+  | "LONG_ONLY"
+  | "MIN_TRADE_AMOUNT"
+  | "MAX_TRADE_AMOUNT"
+  | "TRADE_AMOUNT_STEP"
+  | "PRICE_PRECISION"
+  | "BRACKET_PRICE";
+
+/**
+ * A single failed pre-trade check
+ */
+export interface TradeViolation {
+  /** The rule that was violated */
+  rule: TradeRuleId;
+  /** The request field the rule applies to */
+  field: "Symbol" | "Side" | "Amount" | "Price" | "StopPrice" | "TakeProfit" | "StopLoss";
+  /** Human-readable explanation */
+  message: string;
+  /** The limit the value was checked against, when the rule has one */
+  limit?: number;
+}
+
+/**
+ * A value that was changed by the validator when rounding is enabled
+ */
+export interface TradeAdjustment {
+  field: "Amount" | "Price" | "StopPrice";
+  from: string;
+  to: string;
+}
+
+/**
+ * Options controlling how pre-trade validation treats out-of-grid values
+ */
+export interface TradeValidationOptions {
+  /** Round amounts down to the amount step and prices to the symbol precision */
+  round?: boolean;
+}
+
+/**
+ * Filters for the trade history; the first five are applied by the upstream
+ * API, Symbol, Side and Type are applied while walking its pages
+ */
+export interface TradeHistoryQuery {
+  TimestampFrom?: number | undefined;
+  TimestampTo?: number | undefined;
+  OrderId?: number | undefined;
+  SkipCancelOrder?: boolean | undefined;
+  RequestDirection: HistoryRequestDirection;
+  Symbol?: string | undefined;
+  Side?: TradingSide | undefined;
+  Type?: TradingType | undefined;
+}
+
+/**
+ * One page of trade history returned to clients
+ */
+export interface TradeHistoryPage {
+  trades: Trade[];
+  /** Opaque cursor for the next page, or null when the history is exhausted */
+  nextCursor: string | null;
+}
+
+/**
+ * How closing fills are matched against open lots
+ * - fifo: the oldest open lots are closed first
+ * - average: every fill closes at the weighted average cost of the open amount
+ */
+export type CostBasisMethod = "fifo" | "average";
+
+/**
+ * A filled order, as used by the P&L engine
+ */
+export interface Fill {
+  orderId: number;
+  symbol: string;
+  side: TradingSide;
+  amount: number;
+  price: number;
+  timestamp: number;
+}
+
+/**
+ * Open amount bought or sold at one price; negative amounts are short
+ */
+export interface Lot {
+  amount: number;
+  price: number;
+  timestamp: number;
+}
+
+export interface SymbolPnl {
+  symbol: string;
+  /** Profit currency of the symbol */
+  currency: string;
+  realized: number;
+  unrealized: number;
+  total: number;
+  /** Open amount after the last fill; negative when short */
+  openAmount: number;
+  /** Weighted average price of the open amount, or null when flat */
+  averageCost: number | null;
+  /** Bid for long and ask for short open amounts, or null when flat or unquoted */
+  marketPrice: number | null;
+}
+
+export interface PnlTotals {
+  currency: string;
+  realized: number;
+  unrealized: number;
+  total: number;
+}
+
+export interface PnlReport {
+  method: CostBasisMethod;
+  /** Start of the range realized P&L is reported for, in milliseconds */
+  from: number | null;
+  /** End of the range, in milliseconds */
+  to: number;
+  symbols: SymbolPnl[];
+  /** Totals per profit currency */
+  totals: PnlTotals[];
+}
+
+export interface PortfolioAsset {
+  currency: string;
+  amount: number;
+  freeAmount: number;
+  lockedAmount: number;
+  /** Conversion rate from the asset currency to the report currency */
+  rate: number;
+  /** Values in the report currency */
+  value: number;
+  freeValue: number;
+  lockedValue: number;
+  /** Share of the total equity, in percent */
+  allocation: number;
+}
+
+export interface Portfolio {
+  reportCurrency: string;
+  /** Total equity in the report currency */
+  equity: number;
+  freeValue: number;
+  lockedValue: number;
+  /** Assets with a non-zero amount, largest value first */
+  assets: PortfolioAsset[];
+}
@@ -0,0 +1,41 @@
+/**
+ * Type definitions for trailing stops
+ */
+
+import type { TradingSide } from "./api.js";
+
+/**
+ * Distance between the stop price and the best price seen: an absolute price
+ * difference, a percentage of the best price, or a multiple of the average
+ * true range of the symbol's recorded candles
+ */
+export type TrailDistance = { price: number } | { percent: number } | { atr: number };
+
+/**
+ * - active: the stop order rests upstream and follows the price
+ * - triggered: the stop order filled
+ * - cancelled: cancelled on request, or the stop order was cancelled elsewhere
+ */
+export const TRAILING_STOP_STATUSES = ["active", "triggered", "cancelled"] as const;
+
+export type TrailingStopStatus = (typeof TRAILING_STOP_STATUSES)[number];
+
+export interface TrailingStop {
+  id: number;
+  symbol: string;
+  /** Side of the stop order: Sell protects a long position, Buy a short one */
+  side: TradingSide;
+  amount: number;
+  distance: TrailDistance;
+  /** Price precision of the symbol, stop prices are rounded to it */
+  precision: number;
+  /** Best price seen so far: the highest bid for Sell stops, the lowest ask for Buy stops */
+  extremePrice: number;
+  stopPrice: number;
+  orderId: number;
+  status: TrailingStopStatus;
+  /** Last error while moving the stop order */
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,70 @@
+/**
+ * Type definitions for outbound webhooks
+ */
+
+/**
+ * Events delivered to webhook subscribers
+ * - trade.created: an order was placed through the API or the Telegram bot
+ * - trade.filled / trade.cancelled: detected by the order watcher
+ * - position.changed / balance.changed: detected by polling the account
+ */
+export const WEBHOOK_EVENTS = [
+  "trade.created",
+  "trade.filled",
+  "trade.cancelled",
+  "position.changed",
+  "balance.changed",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookSubscription {
+  id: number;
+  /** HTTP(S) endpoint the events are POSTed to */
+  url: string;
+  events: WebhookEventType[];
+  /** Key of the HMAC-SHA256 signature; only returned when the subscription is created */
+  secret: string;
+  active: boolean;
+  description: string | null;
+  createdAt: number;
+}
+
+/**
+ * Body of a delivery
+ */
+export interface WebhookEvent {
+  /** Unique per event; a replayed delivery keeps the ID so receivers can deduplicate */
+  id: string;
+  type: WebhookEventType;
+  timestamp: number;
+  data: unknown;
+}
+
+/**
+ * - pending: waiting for its first or next attempt
+ * - delivered: the subscriber answered with a 2xx status
+ * - dead: all attempts failed, or the subscriber rejected the event; kept in the dead-letter list
+ */
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export interface WebhookAttempt {
+  at: number;
+  /** HTTP status of the response; null when no response was received */
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  subscriptionId: number;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  /** When the next attempt is due; null once the delivery is final */
+  nextAttemptAt: number | null;
+  /** Delivery this one replays */
+  replayOf: number | null;
+  createdAt: number;
+}
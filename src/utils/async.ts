@@ -0,0 +1,89 @@
+/**
+ * Helpers for serializing async work and running it in the background
+ */
+
+import { errorMessage } from "./errors.js";
+
+/**
+ * Runs a task once every task passed to the same lock before it has settled
+ */
+export type Lock = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a lock that runs its tasks one at a time, in call order. A failed
+ * task only rejects its own caller and does not block the tasks queued after it.
+ *
+ * @example
+ * ```typescript
+ * const exclusive = createLock();
+ * await Promise.all([exclusive(() => save(a)), exclusive(() => save(b))]); // b after a
+ * ```
+ */
+export function createLock(): Lock {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (task) => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+/**
+ * Runs a task on a fixed interval in the background. A tick is skipped while
+ * the previous run is still in progress, and failures are logged as warnings.
+ */
+export class IntervalTask {
+  private readonly name: string;
+  private readonly intervalMs: number;
+  private readonly task: () => Promise<void>;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  /**
+   * @param name - What the task does, used in the log line of a failed run
+   * @param intervalMs - Time between two runs
+   * @param task - Work to run on every tick
+   */
+  constructor(name: string, intervalMs: number, task: () => Promise<void>) {
+    this.name = name;
+    this.intervalMs = intervalMs;
+    this.task = task;
+  }
+
+  get started(): boolean {
+    return this.timer !== undefined;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.run();
+    }, this.intervalMs);
+    // Background tasks must not keep the process alive on their own
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs the task now, unless a run is already in progress
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      console.warn(`[${new Date().toISOString()}] ${this.name} failed:`, errorMessage(error));
+    } finally {
+      this.running = false;
+    }
+  }
+}
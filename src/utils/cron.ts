@@ -0,0 +1,142 @@
+/**
+ * Minimal cron expression support for recurring jobs: the five standard
+ * fields (minute, hour, day of month, month, day of week) with lists, ranges
+ * and steps, plus the @hourly, @daily, @weekly and @monthly shortcuts.
+ * Expressions are evaluated in UTC.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 is Sunday; 7 is accepted in expressions and stored as 0 */
+  daysOfWeek: Set<number>;
+  /** Whether day of month and day of week are both restricted, which matches either one */
+  eitherDay: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MINUTE_MS = 60 * 1000;
+// Searching further ahead means the expression never matches, e.g. "0 0 30 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? field.min : Number(start);
+    // A single value with a step runs to the end of the field, like "5/15"
+    const to =
+      range === "*" || (end === undefined && step !== undefined) ? field.max : Number(end ?? start);
+    const increment = step === undefined ? 1 : Number(step);
+
+    if (from < field.min || to > field.max || from > to || increment < 1) {
+      throw new Error(`Invalid ${field.name} "${part}": values must be ${field.min}-${field.max}`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a cron expression
+ *
+ * @throws {Error} Naming the invalid field
+ *
+ * @example
+ * ```typescript
+ * parseCron("0 9 * * 1-5") // 09:00 UTC on weekdays
+ * parseCron("30 8 1,15 * *") // 08:30 UTC on the 1st and 15th of each month
+ * parseCron("@daily") // midnight UTC
+ * ```
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = expression.trim().toLowerCase();
+  const parts = (SHORTCUTS[normalized] ?? normalized).split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(
+      "Cron expression needs 5 fields (minute hour day-of-month month day-of-week) or a shortcut like @daily",
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((field, index) =>
+    parseField(parts[index] ?? "", field),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like Vixie cron, a field starting with "*" (also "*/2") counts as unrestricted
+    eitherDay: !parts[2]?.startsWith("*") && !parts[4]?.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  return schedule.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First minute after a timestamp at which the schedule fires
+ *
+ * @param after - Milliseconds since the epoch; the result is strictly later
+ * @returns Start of the matching minute, or undefined when nothing matches within five years
+ *
+ * @example
+ * ```typescript
+ * nextCronTime(parseCron("0 9 * * *"), Date.parse("2024-09-22T10:00:00Z"))
+ * // Date.parse("2024-09-23T09:00:00Z")
+ * ```
+ */
+export function nextCronTime(schedule: CronSchedule, after: number): number | undefined {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  // Skips whole months, days and hours that cannot match before stepping by minutes
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date.getTime();
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,77 @@
+/**
+ * Helpers for parsing dates from requests and formatting timestamps in a
+ * client-chosen IANA time zone
+ */
+
+import { z } from "zod";
+
+/**
+ * Query parameter accepting a millisecond timestamp or an ISO 8601 date
+ *
+ * @example
+ * ```typescript
+ * DateParam.parse("1717200000000") // 1717200000000
+ * DateParam.parse("2024-06-01") // 1717200000000
+ * ```
+ */
+export const DateParam = z
+  .string()
+  .transform((value) => (/^\d+$/.test(value) ? Number(value) : Date.parse(value)))
+  .pipe(z.number({ invalid_type_error: "Invalid date" }).int().nonnegative());
+
+/**
+ * Checks whether a string is a time zone known to the runtime, e.g. "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "longOffset",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Formats a timestamp as ISO 8601 local time with the zone's UTC offset
+ *
+ * @param timestamp - Milliseconds since the epoch
+ * @param timeZone - IANA time zone name
+ *
+ * @example
+ * ```typescript
+ * formatTimestamp(1727000000000, "Europe/Berlin") // "2024-09-22T12:13:20+02:00"
+ * formatTimestamp(1727000000000, "UTC") // "2024-09-22T10:13:20+00:00"
+ * ```
+ */
+export function formatTimestamp(timestamp: number, timeZone: string): string {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(timestamp)
+      .map((part) => [part.type, part.value]),
+  );
+  // "GMT+02:00", or just "GMT" for a zero offset
+  const offset = parts.timeZoneName?.replace("GMT", "") || "+00:00";
+
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Helpers for working with decimal step sizes and precisions on top of
+ * IEEE-754 numbers. Values are snapped to the step grid with a small
+ * tolerance so that e.g. 0.3 is treated as a multiple of 0.1.
+ */
+
+const EPSILON = 1e-9;
+
+/**
+ * Counts the number of decimal places of a number, including exponent notation
+ *
+ * @example
+ * ```typescript
+ * countDecimals(0.01) // 2
+ * countDecimals(1e-7) // 7
+ * countDecimals(35) // 0
+ * ```
+ */
+export function countDecimals(value: number): number {
+  if (!Number.isFinite(value) || Number.isInteger(value)) {
+    return 0;
+  }
+
+  const [mantissa = "", exponent] = value.toString().split("e");
+  const fraction = mantissa.split(".")[1]?.length ?? 0;
+
+  return Math.max(0, fraction - Number(exponent ?? 0));
+}
+
+/**
+ * Checks whether a value lies on the grid defined by `step`
+ */
+export function isMultipleOfStep(value: number, step: number): boolean {
+  if (step <= 0) {
+    return true;
+  }
+
+  const scaled = value / step;
+  return Math.abs(scaled - Math.round(scaled)) < EPSILON * Math.max(1, Math.abs(scaled));
+}
+
+/**
+ * Snaps a value to the grid defined by `step`
+ *
+ * @param mode - "floor" never rounds up (used for amounts), "nearest" rounds half away from zero
+ */
+export function roundToStep(
+  value: number,
+  step: number,
+  mode: "floor" | "nearest" = "nearest",
+): number {
+  if (step <= 0) {
+    return value;
+  }
+
+  const scaled = value / step;
+  const units = mode === "floor" ? Math.floor(scaled + EPSILON) : Math.round(scaled);
+
+  return Number((units * step).toFixed(countDecimals(step)));
+}
+
+/**
+ * Rounds a value to a fixed number of decimal places
+ */
+export function roundToPrecision(value: number, precision: number): number {
+  return Number(value.toFixed(precision));
+}
+
+/**
+ * Formats a value as a plain decimal string, never in exponent notation
+ *
+ * @example
+ * ```typescript
+ * formatDecimal(1e-7) // "0.0000001"
+ * formatDecimal(0.25) // "0.25"
+ * ```
+ */
+export function formatDecimal(value: number): string {
+  return value.toFixed(countDecimals(value));
+}
@@ -0,0 +1,22 @@
+/**
+ * Helpers for reporting and classifying caught errors
+ */
+
+import { AppError } from "../middleware/errorHandler.js";
+import { isRetryableStatus } from "./retry.js";
+
+/**
+ * Message of a caught value, which is not necessarily an Error
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Checks whether a failed upstream call is worth retrying: rate limits,
+ * server-side failures and errors without a status (network, timeouts) are,
+ * other rejections are final
+ */
+export function isRetryableError(error: unknown): boolean {
+  return !(error instanceof AppError) || isRetryableStatus(error.statusCode);
+}
@@ -0,0 +1,68 @@
+/**
+ * Helpers for retrying upstream requests with exponential backoff and jitter
+ */
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Backoff base; the cap for attempt n is baseDelayMs * 2^(n-1) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay and for honored Retry-After values */
+  maxDelayMs: number;
+}
+
+/**
+ * Computes the delay before the next attempt using "full jitter" backoff
+ *
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param policy - Retry policy
+ * @param random - Source of randomness in [0, 1), injectable for tests
+ * @returns Delay in milliseconds between 0 and min(maxDelayMs, baseDelayMs * 2^(attempt-1))
+ *
+ * @example
+ * ```typescript
+ * computeBackoffDelay(3, { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 5000 }, () => 0.5) // 200
+ * ```
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(random() * cap);
+}
+
+/**
+ * Parses a Retry-After header value (delta seconds or HTTP date) into milliseconds
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter("2") // 2000
+ * parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT", now) // ms until that date (>= 0)
+ * ```
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Checks whether a failed response is worth retrying
+ *
+ * @param status - HTTP status, or undefined for network errors and timeouts
+ */
+export function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status === 429 || status >= 500;
+}
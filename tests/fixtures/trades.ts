@@ -0,0 +1,56 @@
+/**
+ * Trade and tick fixtures shared by the service tests
+ */
+
+import type { Trade, TradingTick } from "../../src/types/api";
+
+/** Created and Modified time of fixture trades */
+export const TRADE_TIME = Date.parse("2024-09-22T10:00:00Z");
+
+/**
+ * Builds a trade, by default a market buy of 1 BTCUSD filled at 60000
+ */
+export function createTrade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    Id: 1,
+    ClientId: "",
+    AccountId: 1,
+    Type: "Market",
+    InitialType: "Market",
+    Side: "Buy",
+    Status: "Completed",
+    Symbol: "BTCUSD",
+    SymbolPrecision: 2,
+    Price: 60000,
+    CurrentPrice: 60000,
+    InitialAmount: 1,
+    RemainingAmount: 0,
+    FilledAmount: 1,
+    Margin: 0,
+    ImmediateOrCancel: false,
+    MarketWithSlippage: false,
+    FillOrKill: false,
+    OneCancelsTheOther: false,
+    Created: TRADE_TIME,
+    Modified: TRADE_TIME,
+    ClientApp: "",
+    ContingentOrder: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a BTCUSD tick at TRADE_TIME with the ask 2 above the bid, so the mid
+ * price is one above the bid
+ */
+export function createTick(bid: number, overrides: Partial<TradingTick> = {}): TradingTick {
+  return {
+    Symbol: "BTCUSD",
+    Timestamp: TRADE_TIME,
+    BestBid: { Type: "Bid", Price: bid, Volume: 1 },
+    BestAsk: { Type: "Ask", Price: bid + 2, Volume: 1 },
+    IndicativeTick: false,
+    TickType: "Normal",
+    ...overrides,
+  };
+}
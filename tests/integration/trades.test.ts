@@ -0,0 +1,281 @@
+import express from "express";
+import request from "supertest";
+import { AppError, errorHandler } from "../../src/middleware/errorHandler";
+import tradesRouter from "../../src/routes/trades";
+import { recordAudit } from "../../src/services/audit";
+import { getBracketManager } from "../../src/services/brackets";
+import { cryptoApi } from "../../src/services/cryptoApi";
+import { RiskEngine, type RiskOptions, RiskStore, getRiskEngine } from "../../src/services/risk";
+import { MemoryDataStore } from "../../src/services/storage";
+import type { CreateTradeRequest, Symbol as TradingSymbol } from "../../src/types/api";
+import { createTrade } from "../fixtures/trades";
+
+jest.mock("../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    createTrade: jest.fn(),
+    getTrade: jest.fn(),
+    modifyTrade: jest.fn(),
+    getSymbols: jest.fn(),
+    getAccountAssets: jest.fn(),
+  },
+}));
+jest.mock("../../src/services/tradeValidator", () => ({
+  validateTrade: jest.fn(async (trade: CreateTradeRequest) => ({ trade, adjustments: [] })),
+}));
+jest.mock("../../src/services/risk", () => ({
+  ...jest.requireActual("../../src/services/risk"),
+  getRiskEngine: jest.fn(),
+}));
+jest.mock("../../src/config/env", () => ({ getReportCurrency: () => "USD" }));
+jest.mock("../../src/services/brackets", () => ({
+  getBracketManager: jest.fn(),
+  validateBracket: jest.fn(),
+}));
+jest.mock("../../src/services/audit", () => ({ recordAudit: jest.fn() }));
+jest.mock("../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+
+const IN_ONE_HOUR = Date.now() + 60 * 60 * 1000;
+
+const NO_LIMITS: RiskOptions = {
+  maxOrderNotional: 0,
+  maxPositionValue: 0,
+  maxTotalExposure: 0,
+  maxDailyLoss: 0,
+  maxOrdersPerMinute: 0,
+};
+
+function useRiskLimits(limits: Partial<RiskOptions>): void {
+  const store = new RiskStore(new MemoryDataStore());
+  jest.mocked(getRiskEngine).mockReturnValue(new RiskEngine({ ...NO_LIMITS, ...limits }, store));
+}
+
+describe("Trades - Integration Tests", () => {
+  let app: express.Application;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app = express();
+    app.use(express.json());
+    app.use("/api/trades", tradesRouter);
+    app.use(errorHandler);
+
+    // The error handler logs every rejected request
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.mocked(cryptoApi.createTrade).mockResolvedValue(createTrade());
+    jest.mocked(cryptoApi.getSymbols).mockResolvedValue([
+      { Symbol: "BTCUSD", ContractSize: 1, ProfitCurrency: "USD" } as TradingSymbol,
+    ]);
+    jest.mocked(cryptoApi.getAccountAssets).mockResolvedValue([]);
+    useRiskLimits({});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  describe("POST /api/trades", () => {
+    const order = { Symbol: "BTCUSD", Side: "Buy", Amount: "0.5" };
+
+    it.each([
+      ["Limit without Price", { Type: "Limit" }, "Price: Price is required for Limit orders"],
+      [
+        "Stop without StopPrice",
+        { Type: "Stop" },
+        "StopPrice: StopPrice is required for Stop orders",
+      ],
+      [
+        "StopLimit without StopPrice",
+        { Type: "StopLimit", Price: "61000" },
+        "StopPrice: StopPrice is required for StopLimit orders",
+      ],
+      ["Market with Price", { Price: "60000" }, "Price: Price is not allowed for Market orders"],
+      [
+        "Limit with StopPrice",
+        { Type: "Limit", Price: "60000", StopPrice: "59000" },
+        "StopPrice: StopPrice is not allowed for Limit orders",
+      ],
+      [
+        "ImmediateOrCancel with FillOrKill",
+        { Type: "Limit", Price: "60000", ImmediateOrCancel: true, FillOrKill: true },
+        "FillOrKill: ImmediateOrCancel and FillOrKill cannot be combined",
+      ],
+      [
+        "ImmediateOrCancel on a Stop order",
+        { Type: "Stop", StopPrice: "59000", ImmediateOrCancel: true },
+        "ImmediateOrCancel: ImmediateOrCancel is only allowed for Limit and StopLimit orders",
+      ],
+      [
+        "FillOrKill on a StopLimit order",
+        { Type: "StopLimit", Price: "60000", StopPrice: "59000", FillOrKill: true },
+        "FillOrKill: FillOrKill is only allowed for Limit orders",
+      ],
+      [
+        "MarketWithSlippage on a Limit order",
+        { Type: "Limit", Price: "60000", MarketWithSlippage: true },
+        "MarketWithSlippage: MarketWithSlippage is only allowed for Market orders",
+      ],
+      [
+        "Expired on a Market order",
+        { Expired: IN_ONE_HOUR },
+        "Expired: Expired is not allowed for Market orders",
+      ],
+      [
+        "Expired with ImmediateOrCancel",
+        { Type: "Limit", Price: "60000", Expired: IN_ONE_HOUR, ImmediateOrCancel: true },
+        "Expired: Expired cannot be combined with ImmediateOrCancel or FillOrKill",
+      ],
+      [
+        "Expired in the past",
+        { Type: "Limit", Price: "60000", Expired: 1 },
+        "Expired: Expired must be a timestamp in the future",
+      ],
+      [
+        "TakeProfit on a Limit order",
+        { Type: "Limit", Price: "60000", TakeProfit: { Percent: 2 } },
+        "TakeProfit: TakeProfit is only allowed for Market orders",
+      ],
+    ])("should reject %s", async (_name, fields, error) => {
+      const response = await request(app)
+        .post("/api/trades")
+        .send({ ...order, ...fields });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ success: false, error });
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+    });
+
+    it("should report every invalid field at once", async () => {
+      const response = await request(app)
+        .post("/api/trades")
+        .send({ ...order, Type: "StopLimit" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        "Price: Price is required for StopLimit orders; " +
+          "StopPrice: StopPrice is required for StopLimit orders",
+      );
+    });
+
+    it.each([
+      ["Market", {}],
+      ["Limit", { Type: "Limit", Price: "60000", Expired: IN_ONE_HOUR }],
+      ["Limit FillOrKill", { Type: "Limit", Price: "60000", FillOrKill: true }],
+      ["Stop", { Type: "Stop", StopPrice: "59000" }],
+      [
+        "StopLimit",
+        { Type: "StopLimit", Price: "58900", StopPrice: "59000", ImmediateOrCancel: true },
+      ],
+    ])("should place a valid %s order", async (_name, fields) => {
+      const response = await request(app)
+        .post("/api/trades")
+        .send({ ...order, ...fields });
+
+      expect(response.status).toBe(201);
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith({
+        ...order,
+        Type: "Market",
+        ...fields,
+      });
+    });
+
+    it("should answer 201 with a bracketError when the bracket cannot be attached", async () => {
+      const attach = jest.fn().mockRejectedValue(new Error("Store write failed"));
+      jest
+        .mocked(getBracketManager)
+        .mockReturnValue({ attach } as unknown as ReturnType<typeof getBracketManager>);
+
+      const response = await request(app)
+        .post("/api/trades")
+        .send({ ...order, TakeProfit: { Percent: 2 } });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        success: true,
+        data: expect.objectContaining({ Id: 1 }),
+        bracketError: "Store write failed",
+      });
+      expect(attach).toHaveBeenCalledTimes(1);
+      expect(cryptoApi.createTrade).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("PUT /api/trades/:id", () => {
+    const pending = createTrade({ Id: 7, Type: "Limit", Status: "Pending", FilledAmount: 0 });
+
+    beforeEach(() => {
+      jest.mocked(cryptoApi.getTrade).mockResolvedValue(pending);
+      jest.mocked(cryptoApi.modifyTrade).mockResolvedValue({ ...pending, Price: 59000 });
+    });
+
+    it("should modify a pending order and return the updated trade", async () => {
+      const response = await request(app).put("/api/trades/7").send({ Price: "59000" });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        data: { Id: 7, Price: 59000 },
+        message: "Trade modified successfully",
+      });
+      expect(cryptoApi.modifyTrade).toHaveBeenCalledWith({ Id: 7, Price: "59000" });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "trade.modify", tradeId: 7 }),
+      );
+    });
+
+    it("should pass on the upstream rejection of an order that is no longer pending", async () => {
+      jest
+        .mocked(cryptoApi.modifyTrade)
+        .mockRejectedValue(new AppError("Order 7 is not pending", 400));
+
+      const response = await request(app).put("/api/trades/7").send({ Amount: "2" });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ success: false, error: "Order 7 is not pending" });
+      expect(recordAudit).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ["an empty body", {}],
+      ["only unknown fields", { Side: "Sell" }],
+    ])("should reject %s", async (_name, body) => {
+      const response = await request(app).put("/api/trades/7").send(body);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        ": At least one of Amount, Price, StopPrice, Expired or Comment must be provided",
+      );
+      expect(cryptoApi.modifyTrade).not.toHaveBeenCalled();
+    });
+
+    it.each(["abc", "0", "1.5"])("should reject the trade ID %p", async (id) => {
+      const response = await request(app).put(`/api/trades/${id}`).send({ Price: "59000" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Trade ID must be a positive integer");
+    });
+
+    it("should not turn an Idempotency-Key into a ClientId", async () => {
+      const response = await request(app)
+        .put("/api/trades/7")
+        .set("Idempotency-Key", "retry-1")
+        .send({ StopPrice: "58000" });
+
+      expect(response.status).toBe(200);
+      expect(cryptoApi.modifyTrade).toHaveBeenCalledWith({ Id: 7, StopPrice: "58000" });
+    });
+
+    it("should reject changes that break the risk limits", async () => {
+      useRiskLimits({ maxOrderNotional: 100000 });
+
+      const response = await request(app).put("/api/trades/7").send({ Amount: "2" });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({
+        success: false,
+        error: "Order value 120000 USD exceeds the limit of 100000 USD",
+      });
+      expect(cryptoApi.modifyTrade).not.toHaveBeenCalled();
+    });
+  });
+});
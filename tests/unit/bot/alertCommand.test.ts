@@ -0,0 +1,46 @@
+import { parseAlertArgs, parseDuration } from "../../../src/bot/alertCommand";
+
+describe("alertCommand - Unit Tests", () => {
+  it("should accept comparison operators and words", () => {
+    expect(parseAlertArgs("btcusd > 65000")).toEqual({
+      symbol: "BTCUSD",
+      condition: "above",
+      value: 65000,
+      repeat: false,
+    });
+    expect(parseAlertArgs("ETHUSD below 2500.5")).toMatchObject({
+      condition: "below",
+      value: 2500.5,
+    });
+    expect(parseAlertArgs("ETHUSD cross 3000")).toMatchObject({ condition: "cross" });
+  });
+
+  it("should accept percentages for change alerts only", () => {
+    expect(parseAlertArgs("BTCUSD change 5%")).toMatchObject({ condition: "change", value: 5 });
+    expect(parseAlertArgs("BTCUSD > 5%")).toBeUndefined();
+  });
+
+  it("should parse repeat with an optional cooldown", () => {
+    expect(parseAlertArgs("BTCUSD < 60000 repeat")).toMatchObject({ repeat: true });
+    expect(parseAlertArgs("BTCUSD < 60000 repeat")).not.toHaveProperty("cooldownMs");
+    expect(parseAlertArgs("BTCUSD < 60000 repeat 30m")).toMatchObject({
+      repeat: true,
+      cooldownMs: 30 * 60 * 1000,
+    });
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(parseAlertArgs("")).toBeUndefined();
+    expect(parseAlertArgs("BTCUSD")).toBeUndefined();
+    expect(parseAlertArgs("BTCUSD = 65000")).toBeUndefined();
+    expect(parseAlertArgs("BTCUSD > -1")).toBeUndefined();
+    expect(parseAlertArgs("BTCUSD > 65000 often")).toBeUndefined();
+    expect(parseAlertArgs("BTCUSD > 65000 repeat soon")).toBeUndefined();
+  });
+
+  it("should parse durations", () => {
+    expect(parseDuration("45s")).toBe(45000);
+    expect(parseDuration("2H")).toBe(2 * 60 * 60 * 1000);
+    expect(parseDuration("10")).toBeUndefined();
+  });
+});
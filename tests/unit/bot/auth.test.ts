@@ -0,0 +1,101 @@
+import { hasRole, requireRole, resolveRole } from "../../../src/bot/auth";
+import type { MyContext } from "../../../src/bot/context";
+
+// Mock the env module
+jest.mock("../../../src/config/env", () => ({
+  getTelegramAllowedUsers: jest.fn(() => [
+    { id: 111, role: "admin" },
+    { id: 222, role: "viewer" },
+  ]),
+  getTelegramAllowedChats: jest.fn(() => [{ id: -100, role: "trader" }]),
+}));
+
+function createContext(userId: number, chatId: number, text = "/buy"): MyContext {
+  return {
+    from: { id: userId },
+    chat: { id: chatId },
+    message: { text },
+    reply: jest.fn(),
+    answerCallbackQuery: jest.fn(),
+  } as unknown as MyContext;
+}
+
+describe("Bot auth - Unit Tests", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  describe("resolveRole", () => {
+    it("should return the role granted to the user", () => {
+      expect(resolveRole(111, 111)).toBe("admin");
+      expect(resolveRole(222, 222)).toBe("viewer");
+    });
+
+    it("should grant the chat role to non-listed users in an allowed chat", () => {
+      expect(resolveRole(333, -100)).toBe("trader");
+    });
+
+    it("should pick the highest of user and chat roles", () => {
+      expect(resolveRole(222, -100)).toBe("trader");
+      expect(resolveRole(111, -100)).toBe("admin");
+    });
+
+    it("should return undefined for unknown users", () => {
+      expect(resolveRole(333, 333)).toBeUndefined();
+      expect(resolveRole(undefined, undefined)).toBeUndefined();
+    });
+  });
+
+  describe("hasRole", () => {
+    it("should compare roles by privilege", () => {
+      expect(hasRole("admin", "trader")).toBe(true);
+      expect(hasRole("trader", "trader")).toBe(true);
+      expect(hasRole("viewer", "trader")).toBe(false);
+      expect(hasRole(undefined, "viewer")).toBe(false);
+    });
+  });
+
+  describe("requireRole", () => {
+    it("should call next for sufficiently privileged users", async () => {
+      const ctx = createContext(111, 111);
+      const next = jest.fn();
+
+      await requireRole("trader")(ctx, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(ctx.reply).not.toHaveBeenCalled();
+    });
+
+    it("should deny and log users without the required role", async () => {
+      const ctx = createContext(222, 222);
+      const next = jest.fn();
+
+      await requireRole("trader")(ctx, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining("requires the trader role"));
+      expect(console.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Telegram access denied"),
+        expect.objectContaining({ userId: 222, role: "viewer", required: "trader" }),
+      );
+    });
+
+    it("should tell unknown users their ID", async () => {
+      const ctx = createContext(333, 333, "/start");
+      const next = jest.fn();
+
+      await requireRole("viewer")(ctx, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining("333"));
+    });
+
+    it("should not reply to plain messages from unknown users", async () => {
+      const ctx = createContext(333, -200, "hello");
+
+      await requireRole("viewer")(ctx, jest.fn());
+
+      expect(ctx.reply).not.toHaveBeenCalled();
+    });
+  });
+});
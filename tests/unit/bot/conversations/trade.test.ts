@@ -0,0 +1,252 @@
+import { tradeConversation } from "../../../../src/bot/conversations/trade";
+import { cryptoApi } from "../../../../src/services/cryptoApi";
+import { validateTrade } from "../../../../src/services/tradeValidator";
+import type { CreateTradeRequest, TradingSymbol } from "../../../../src/types/api";
+import { createTrade } from "../../../fixtures/trades";
+
+jest.mock("../../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getSymbols: jest.fn(),
+    getSymbol: jest.fn(),
+    getTick: jest.fn(),
+    createTrade: jest.fn(),
+  },
+}));
+jest.mock("../../../../src/services/tradeValidator", () => ({ validateTrade: jest.fn() }));
+jest.mock("../../../../src/services/risk", () => ({
+  getRiskEngine: () => ({
+    placeTrade: (_trade: CreateTradeRequest, place: () => Promise<unknown>) => place(),
+  }),
+}));
+jest.mock("../../../../src/services/brackets", () => ({
+  formatBracketTarget: jest.fn(),
+  getBracketManager: jest.fn(),
+  parseBracketTarget: jest.fn(),
+  validateBracket: jest.fn(),
+}));
+jest.mock("../../../../src/services/audit", () => ({ recordAudit: jest.fn() }));
+jest.mock("../../../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+
+type Update = { text: string } | { data: string };
+
+const BTCUSD = {
+  Symbol: "BTCUSD",
+  IsTradeAllowed: true,
+  IsCloseOnly: false,
+  MinTradeAmount: 0.01,
+  MaxTradeAmount: 10,
+  TradeAmountStep: 0.01,
+  ContractSize: 1,
+  ProfitCurrency: "USD",
+} as TradingSymbol;
+
+/**
+ * Plays the conversation against scripted user updates and collects the replies
+ */
+async function run(updates: Update[]): Promise<string[]> {
+  const replies: string[] = [];
+  const reply = jest.fn(async (text: string) => {
+    replies.push(text);
+  });
+  const next = () => {
+    const update = updates.shift();
+    if (!update) {
+      throw new Error(`Conversation waited for an update after: ${replies.at(-1)}`);
+    }
+    return {
+      reply,
+      answerCallbackQuery: jest.fn(),
+      ...("text" in update
+        ? { message: { text: update.text } }
+        : { callbackQuery: { data: update.data } }),
+    };
+  };
+  const conversation = {
+    external: (task: () => Promise<unknown>) => task(),
+    waitFor: async () => next(),
+    waitForCallbackQuery: async (
+      data: string[],
+      options: { otherwise: (ctx: ReturnType<typeof next>) => Promise<unknown> },
+    ) => {
+      for (;;) {
+        const ctx = next();
+        if ("callbackQuery" in ctx && data.includes(ctx.callbackQuery.data)) {
+          return ctx;
+        }
+        await options.otherwise(ctx);
+      }
+    },
+  };
+
+  await tradeConversation(
+    conversation as unknown as Parameters<typeof tradeConversation>[0],
+    { reply, from: { id: 42 } } as unknown as Parameters<typeof tradeConversation>[1],
+    "Buy",
+  );
+  return replies;
+}
+
+describe("trade conversation - Unit Tests", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest
+      .mocked(cryptoApi.getSymbols)
+      .mockResolvedValue([
+        BTCUSD,
+        { ...BTCUSD, Symbol: "ETHUSD", IsCloseOnly: true },
+        { ...BTCUSD, Symbol: "XRPUSD", IsTradeAllowed: false },
+      ]);
+    jest.mocked(cryptoApi.getSymbol).mockResolvedValue(BTCUSD);
+    jest.mocked(cryptoApi.getTick).mockResolvedValue([
+      {
+        BestBid: { Price: 59990 },
+        BestAsk: { Price: 60010 },
+      },
+    ] as Awaited<ReturnType<typeof cryptoApi.getTick>>);
+    jest.mocked(cryptoApi.createTrade).mockResolvedValue(createTrade({ Id: 7 }));
+    jest.mocked(validateTrade).mockImplementation(async (trade) => ({ trade, adjustments: [] }));
+  });
+
+  it("should place the order once it is confirmed", async () => {
+    const replies = await run([
+      { data: "trade:symbol:BTCUSD" },
+      { text: "0.5" },
+      { data: "trade:type:Market" },
+      { data: "trade:bracket:skip" },
+      { data: "trade:bracket:skip" },
+      { data: "trade:confirm" },
+    ]);
+
+    expect(cryptoApi.createTrade).toHaveBeenCalledWith({
+      Symbol: "BTCUSD",
+      Side: "Buy",
+      Type: "Market",
+      Amount: "0.5",
+    });
+    expect(replies).toContainEqual(expect.stringContaining("Estimated cost: 30005.00 USD"));
+    expect(replies.at(-1)).toBe("✅ Trade 7 placed: Buy 1 BTCUSD\nStatus: Completed");
+  });
+
+  it.each([
+    ["the symbol", []],
+    ["the amount", [{ data: "trade:symbol:BTCUSD" }]],
+    ["the order type", [{ data: "trade:symbol:BTCUSD" }, { text: "0.5" }]],
+    [
+      "the limit price",
+      [{ data: "trade:symbol:BTCUSD" }, { text: "0.5" }, { data: "trade:type:Limit" }],
+    ],
+    [
+      "the take-profit",
+      [{ data: "trade:symbol:BTCUSD" }, { text: "0.5" }, { data: "trade:type:Market" }],
+    ],
+  ])("should cancel at %s with the Cancel button", async (_step, answers: Update[]) => {
+    const replies = await run([...answers, { data: "trade:cancel" }]);
+
+    expect(replies.at(-1)).toBe("🚫 Trade cancelled.");
+    expect(validateTrade).not.toHaveBeenCalled();
+  });
+
+  it("should cancel when another command is sent", async () => {
+    const replies = await run([{ data: "trade:symbol:BTCUSD" }, { text: "/balance" }]);
+
+    expect(replies.at(-1)).toBe("🚫 Trade cancelled.");
+  });
+
+  it("should cancel at the confirmation without placing the order", async () => {
+    const replies = await run([
+      { text: "btcusd" },
+      { text: "0.5" },
+      { data: "trade:type:Market" },
+      { data: "trade:bracket:skip" },
+      { data: "trade:bracket:skip" },
+      { text: "yes" },
+      { data: "trade:cancel" },
+    ]);
+
+    expect(replies.slice(-2)).toEqual([
+      "Please press ✅ Confirm or ❌ Cancel.",
+      "🚫 Trade cancelled.",
+    ]);
+    expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+  });
+
+  it("should stop at symbols that are not tradable", async () => {
+    const replies = await run([{ text: "XRPUSD" }]);
+
+    expect(replies.at(-1)).toBe("❌ XRPUSD is not available for trading.");
+    expect(cryptoApi.getSymbol).not.toHaveBeenCalled();
+  });
+
+  it("should leave close-only symbols to the pre-trade validation", async () => {
+    const closeOnly =
+      "ETHUSD is in close-only mode, only orders reducing the position of 0 are accepted";
+    jest.mocked(validateTrade).mockRejectedValue(new Error(closeOnly));
+
+    const replies = await run([
+      { data: "trade:symbol:ETHUSD" },
+      { text: "0.5" },
+      { data: "trade:type:Market" },
+      { data: "trade:bracket:skip" },
+      { data: "trade:bracket:skip" },
+    ]);
+
+    expect(validateTrade).toHaveBeenCalledWith(expect.objectContaining({ Symbol: "ETHUSD" }), {
+      round: true,
+    });
+    expect(replies.at(-1)).toBe(`❌ Trade rejected: ${closeOnly}`);
+  });
+
+  it("should ask again for invalid amounts, order types and prices", async () => {
+    const replies = await run([
+      { data: "trade:symbol:BTCUSD" },
+      { text: "abc" },
+      { text: "-1" },
+      { text: "0,5" },
+      { text: "trailing" },
+      { data: "trade:type:StopLimit" },
+      { text: "0" },
+      { text: "59000" },
+      { text: "59100" },
+      { data: "trade:confirm" },
+    ]);
+
+    expect(replies.filter((text) => text === "⚠️ Please enter a positive number.")).toHaveLength(3);
+    expect(replies).toContain("⚠️ Please choose one of: Market, Limit, Stop, StopLimit");
+    expect(cryptoApi.createTrade).toHaveBeenCalledWith({
+      Symbol: "BTCUSD",
+      Side: "Buy",
+      Type: "StopLimit",
+      Amount: "0.5",
+      StopPrice: "59000",
+      Price: "59100",
+    });
+  });
+
+  it("should not ask for a bracket on pending orders", async () => {
+    const replies = await run([
+      { data: "trade:symbol:BTCUSD" },
+      { text: "0.5" },
+      { data: "trade:type:Stop" },
+      { text: "59000" },
+      { data: "trade:confirm" },
+    ]);
+
+    expect(replies.some((text) => text.includes("take-profit"))).toBe(false);
+    expect(cryptoApi.createTrade).toHaveBeenCalled();
+  });
+
+  it("should report orders rejected by the pre-trade validation", async () => {
+    jest.mocked(validateTrade).mockRejectedValue(new Error("Amount is above the maximum of 10"));
+
+    const replies = await run([
+      { data: "trade:symbol:BTCUSD" },
+      { text: "50" },
+      { data: "trade:type:Market" },
+      { data: "trade:bracket:skip" },
+      { data: "trade:bracket:skip" },
+    ]);
+
+    expect(replies.at(-1)).toBe("❌ Trade rejected: Amount is above the maximum of 10");
+    expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+  });
+});
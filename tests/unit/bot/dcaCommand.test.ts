@@ -0,0 +1,38 @@
+import { parseDcaArgs } from "../../../src/bot/dcaCommand";
+
+describe("dcaCommand - Unit Tests", () => {
+  it("should list plans without arguments", () => {
+    expect(parseDcaArgs("")).toEqual({ action: "list" });
+    expect(parseDcaArgs("  ")).toEqual({ action: "list" });
+  });
+
+  it("should parse a plan with a cron expression and an optional price cap", () => {
+    expect(parseDcaArgs("add btcusd 100 0 9 * * 1")).toEqual({
+      action: "add",
+      input: { symbol: "BTCUSD", quoteAmount: 100, schedule: "0 9 * * 1", maxPrice: null },
+    });
+    expect(parseDcaArgs("ADD ETHUSD 50,5 @daily MAX 3000")).toEqual({
+      action: "add",
+      input: { symbol: "ETHUSD", quoteAmount: 50.5, schedule: "@daily", maxPrice: 3000 },
+    });
+  });
+
+  it("should parse plan actions by ID", () => {
+    expect(parseDcaArgs("pause 2")).toEqual({ action: "pause", id: 2 });
+    expect(parseDcaArgs("Resume 2")).toEqual({ action: "resume", id: 2 });
+    expect(parseDcaArgs("delete 3")).toEqual({ action: "delete", id: 3 });
+    expect(parseDcaArgs("history 4")).toEqual({ action: "history", id: 4 });
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(parseDcaArgs("add BTCUSD 100")).toBeUndefined();
+    expect(parseDcaArgs("add BTCUSD all @daily")).toBeUndefined();
+    expect(parseDcaArgs("add BTCUSD 100 0 9 * *")).toBeUndefined();
+    expect(parseDcaArgs("add BTCUSD 100 daily")).toBeUndefined();
+    expect(parseDcaArgs("add BTCUSD 100 @daily max")).toBeUndefined();
+    expect(parseDcaArgs("add BTCUSD 100 @daily max -1")).toBeUndefined();
+    expect(parseDcaArgs("pause")).toBeUndefined();
+    expect(parseDcaArgs("pause 1 2")).toBeUndefined();
+    expect(parseDcaArgs("stop 1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { parseExportArgs } from "../../../src/bot/exportCommand";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+
+const NOW = Date.parse("2024-09-22T10:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("exportCommand - Unit Tests", () => {
+  it("should default to CSV without a range", () => {
+    expect(parseExportArgs("assets", "UTC", NOW)).toEqual({
+      dataset: "assets",
+      format: "csv",
+      timeZone: "UTC",
+    });
+  });
+
+  it("should accept a number of days", () => {
+    expect(parseExportArgs("trades ndjson 30", "UTC", NOW)).toMatchObject({
+      format: "ndjson",
+      from: NOW - 30 * DAY_MS,
+      to: NOW,
+    });
+  });
+
+  it("should accept a date range covering whole days", () => {
+    expect(parseExportArgs("Trades XLSX 2024-09-01 2024-09-30", "UTC", NOW)).toMatchObject({
+      dataset: "trades",
+      format: "xlsx",
+      from: Date.parse("2024-09-01T00:00:00Z"),
+      to: Date.parse("2024-10-01T00:00:00Z") - 1,
+    });
+    expect(parseExportArgs("trades 2024-09-01", "UTC", NOW)).toMatchObject({
+      from: Date.parse("2024-09-01T00:00:00Z"),
+      to: NOW,
+    });
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(parseExportArgs("", "UTC", NOW)).toBeUndefined();
+    expect(parseExportArgs("orders", "UTC", NOW)).toBeUndefined();
+    expect(parseExportArgs("trades pdf", "UTC", NOW)).toBeUndefined();
+    expect(parseExportArgs("trades 0", "UTC", NOW)).toBeUndefined();
+    expect(parseExportArgs("trades 2024-09-30 2024-09-01", "UTC", NOW)).toBeUndefined();
+  });
+});
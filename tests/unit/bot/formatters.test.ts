@@ -0,0 +1,40 @@
+import { allocationBar, formatPortfolio } from "../../../src/bot/formatters";
+
+describe("formatters - Unit Tests", () => {
+  describe("allocationBar", () => {
+    it("should fill the bar proportionally and clamp out-of-range values", () => {
+      expect(allocationBar(0)).toBe("░░░░░░░░░░");
+      expect(allocationBar(34)).toBe("███░░░░░░░");
+      expect(allocationBar(100)).toBe("██████████");
+      expect(allocationBar(150, 4)).toBe("████");
+    });
+  });
+
+  describe("formatPortfolio", () => {
+    it("should show equity and a bar per asset", () => {
+      const message = formatPortfolio({
+        reportCurrency: "USD",
+        equity: 4000,
+        freeValue: 3400,
+        lockedValue: 600,
+        assets: [
+          {
+            currency: "BTC",
+            amount: 0.05,
+            freeAmount: 0.04,
+            lockedAmount: 0.01,
+            rate: 60000,
+            value: 3000,
+            freeValue: 2400,
+            lockedValue: 600,
+            allocation: 75,
+          },
+        ],
+      });
+
+      expect(message).toContain("Portfolio: 4000.00 USD");
+      expect(message).toContain("BTC    ████████░░ 75.0%");
+      expect(message).toContain("(locked 600.00)");
+    });
+  });
+});
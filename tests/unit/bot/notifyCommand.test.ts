@@ -0,0 +1,18 @@
+import { parseNotifyArgs } from "../../../src/bot/notifyCommand";
+
+describe("notifyCommand - Unit Tests", () => {
+  it("should show the settings without arguments", () => {
+    expect(parseNotifyArgs("  ")).toBeNull();
+  });
+
+  it("should subscribe to all or no events", () => {
+    expect(parseNotifyArgs("on")).toEqual(["filled", "partial", "cancelled", "activated"]);
+    expect(parseNotifyArgs("OFF")).toEqual([]);
+  });
+
+  it("should accept a list of events", () => {
+    expect(parseNotifyArgs("filled, cancelled")).toEqual(["filled", "cancelled"]);
+    expect(parseNotifyArgs("filled unknown")).toBeUndefined();
+    expect(parseNotifyArgs("on filled")).toBeUndefined();
+  });
+});
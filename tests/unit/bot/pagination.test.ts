@@ -0,0 +1,55 @@
+import { NOOP_CALLBACK, paginate, paginationKeyboard } from "../../../src/bot/pagination";
+
+const items = ["a", "b", "c", "d", "e"];
+
+function buttons(prefix: string, page: number, totalPages: number) {
+  return paginationKeyboard(prefix, page, totalPages)?.inline_keyboard.flat();
+}
+
+describe("pagination - Unit Tests", () => {
+  describe("paginate", () => {
+    it("should slice the requested page", () => {
+      expect(paginate(items, 0, 2)).toEqual({ items: ["a", "b"], page: 0, totalPages: 3 });
+      expect(paginate(items, 2, 2)).toEqual({ items: ["e"], page: 2, totalPages: 3 });
+    });
+
+    it("should clamp pages outside the list", () => {
+      expect(paginate(items, -1, 2)).toMatchObject({ items: ["a", "b"], page: 0 });
+      expect(paginate(items, 3, 2)).toMatchObject({ items: ["e"], page: 2 });
+      expect(paginate(items, 99, 5)).toEqual({ items, page: 0, totalPages: 1 });
+    });
+
+    it("should return one empty page for an empty list", () => {
+      expect(paginate([], 0, 10)).toEqual({ items: [], page: 0, totalPages: 1 });
+      expect(paginate([], 2, 10)).toEqual({ items: [], page: 0, totalPages: 1 });
+    });
+  });
+
+  describe("paginationKeyboard", () => {
+    it("should omit the keyboard when everything fits on one page", () => {
+      expect(paginationKeyboard("symbols", 0, 1)).toBeUndefined();
+    });
+
+    it("should only offer the next page on the first page", () => {
+      expect(buttons("symbols", 0, 3)).toEqual([
+        { text: "1/3", callback_data: NOOP_CALLBACK },
+        { text: "Next ➡️", callback_data: "symbols:1" },
+      ]);
+    });
+
+    it("should offer both directions on a middle page", () => {
+      expect(buttons("positions", 1, 3)).toEqual([
+        { text: "⬅️ Previous", callback_data: "positions:0" },
+        { text: "2/3", callback_data: NOOP_CALLBACK },
+        { text: "Next ➡️", callback_data: "positions:2" },
+      ]);
+    });
+
+    it("should only offer the previous page on the last page", () => {
+      expect(buttons("symbols", 2, 3)).toEqual([
+        { text: "⬅️ Previous", callback_data: "symbols:1" },
+        { text: "3/3", callback_data: NOOP_CALLBACK },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { parseTrailArgs, parseTrailDistance } from "../../../src/bot/trailCommand";
+
+describe("trailCommand - Unit Tests", () => {
+  describe("parseTrailDistance", () => {
+    it.each([
+      ["500", { price: 500 }],
+      ["2%", { percent: 2 }],
+      ["1,5ATR", { atr: 1.5 }],
+      ["3xatr", { atr: 3 }],
+      ["100%", undefined],
+      ["0", undefined],
+      ["-2%", undefined],
+      ["two", undefined],
+    ])("should parse %p", (text, expected) => {
+      expect(parseTrailDistance(text)).toEqual(expected);
+    });
+  });
+
+  it("should list trailing stops without arguments", () => {
+    expect(parseTrailArgs("")).toEqual({ action: "list" });
+    expect(parseTrailArgs("  ")).toEqual({ action: "list" });
+  });
+
+  it("should parse a symbol, a distance and an optional amount", () => {
+    expect(parseTrailArgs("btcusd 2%")).toEqual({
+      action: "create",
+      input: { symbol: "BTCUSD", distance: { percent: 2 } },
+    });
+    expect(parseTrailArgs("ETHUSD 40 0,5")).toEqual({
+      action: "create",
+      input: { symbol: "ETHUSD", distance: { price: 40 }, amount: 0.5 },
+    });
+    expect(parseTrailArgs("BTCUSD 1.5atr")).toMatchObject({ input: { distance: { atr: 1.5 } } });
+  });
+
+  it("should parse cancellation by ID", () => {
+    expect(parseTrailArgs("cancel 4")).toEqual({ action: "cancel", id: 4 });
+    expect(parseTrailArgs("CANCEL 4")).toEqual({ action: "cancel", id: 4 });
+  });
+
+  it("should reject invalid arguments", () => {
+    expect(parseTrailArgs("BTCUSD")).toBeUndefined();
+    expect(parseTrailArgs("BTCUSD far")).toBeUndefined();
+    expect(parseTrailArgs("BTCUSD 2% all")).toBeUndefined();
+    expect(parseTrailArgs("BTCUSD 2% 1 2")).toBeUndefined();
+    expect(parseTrailArgs("cancel")).toBeUndefined();
+    expect(parseTrailArgs("cancel 1.5")).toBeUndefined();
+  });
+});
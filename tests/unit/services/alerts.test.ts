@@ -0,0 +1,204 @@
+import {
+  AlertEvaluator,
+  AlertStore,
+  createPriceAlert,
+  evaluateAlert,
+} from "../../../src/services/alerts";
+import { MemoryDataStore } from "../../../src/services/storage";
+import type { PriceAlert } from "../../../src/types/alerts";
+import { createTick } from "../../fixtures/trades";
+
+const mockGetSymbol = jest.fn();
+const mockGetTick = jest.fn();
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getSymbol: (...args: unknown[]) => mockGetSymbol(...args),
+    getTick: (...args: unknown[]) => mockGetTick(...args),
+  },
+}));
+jest.mock("../../../src/config/env", () => ({
+  getAlertOptions: jest.fn(() => ({
+    pollIntervalMs: 15000,
+    defaultCooldownMs: 900000,
+    maxPerChat: 2,
+  })),
+}));
+
+const NOW = Date.parse("2024-09-22T10:00:00Z");
+
+function createAlert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: 1,
+    chatId: 42,
+    symbol: "BTCUSD",
+    condition: "above",
+    value: 65000,
+    repeat: false,
+    cooldownMs: 60000,
+    active: true,
+    basePrice: 60000,
+    lastPrice: 60000,
+    lastTriggeredAt: null,
+    triggerCount: 0,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("alerts - Unit Tests", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("evaluateAlert", () => {
+    it("should fire above and below targets and deactivate one-shot alerts", () => {
+      expect(evaluateAlert(createAlert(), 65000, NOW)).toEqual({
+        fired: true,
+        changes: { lastPrice: 65000, lastTriggeredAt: NOW, triggerCount: 1, active: false },
+      });
+      expect(evaluateAlert(createAlert(), 64999, NOW).fired).toBe(false);
+      const below = createAlert({ condition: "below", value: 59000 });
+      expect(evaluateAlert(below, 58000, NOW).fired).toBe(true);
+    });
+
+    it("should fire cross alerts only when the price moves through the target", () => {
+      const alert = createAlert({ condition: "cross", value: 62000 });
+
+      expect(evaluateAlert(alert, 63000, NOW).fired).toBe(true);
+      expect(evaluateAlert({ ...alert, lastPrice: 63000 }, 64000, NOW).fired).toBe(false);
+      expect(evaluateAlert({ ...alert, lastPrice: 63000 }, 61000, NOW).fired).toBe(true);
+      expect(evaluateAlert({ ...alert, lastPrice: null }, 63000, NOW).fired).toBe(false);
+    });
+
+    it("should fire change alerts in both directions and rebase the reference", () => {
+      const alert = createAlert({ condition: "change", value: 5, repeat: true });
+
+      expect(evaluateAlert(alert, 62000, NOW).fired).toBe(false);
+      expect(evaluateAlert(alert, 56999, NOW)).toMatchObject({
+        fired: true,
+        changes: { basePrice: 56999, active: true },
+      });
+    });
+
+    it("should keep repeating alerts silent during the cooldown", () => {
+      const alert = createAlert({ repeat: true, lastTriggeredAt: NOW - 30000 });
+
+      expect(evaluateAlert(alert, 66000, NOW)).toEqual({
+        fired: false,
+        changes: { lastPrice: 66000 },
+      });
+      expect(evaluateAlert(alert, 66000, NOW + 30000).fired).toBe(true);
+    });
+
+    it("should not fire inactive alerts", () => {
+      expect(evaluateAlert(createAlert({ active: false }), 70000, NOW).fired).toBe(false);
+    });
+  });
+
+  describe("createPriceAlert", () => {
+    const input = {
+      chatId: 42,
+      symbol: "BTCUSD",
+      condition: "change" as const,
+      value: 5,
+      repeat: false,
+      cooldownMs: 60000,
+    };
+
+    it("should record the current mid price", async () => {
+      mockGetSymbol.mockResolvedValue({ Symbol: "BTCUSD" });
+      mockGetTick.mockResolvedValue([createTick(60000 - 1)]);
+
+      const alert = await createPriceAlert(input, new AlertStore(new MemoryDataStore()));
+
+      expect(alert).toMatchObject({ id: 1, active: true, basePrice: 60000, lastPrice: 60000 });
+    });
+
+    it("should reject unknown symbols", async () => {
+      mockGetSymbol.mockResolvedValue(undefined);
+
+      const store = new AlertStore(new MemoryDataStore());
+
+      await expect(createPriceAlert(input, store)).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("should enforce the per-chat limit", async () => {
+      mockGetSymbol.mockResolvedValue({ Symbol: "BTCUSD" });
+      mockGetTick.mockResolvedValue([createTick(60000 - 1)]);
+      const store = new AlertStore(new MemoryDataStore());
+      await createPriceAlert(input, store);
+      await createPriceAlert(input, store);
+
+      await expect(createPriceAlert(input, store)).rejects.toMatchObject({ statusCode: 409 });
+      await expect(createPriceAlert({ ...input, chatId: 7 }, store)).resolves.toBeDefined();
+    });
+  });
+
+  describe("AlertEvaluator", () => {
+    it("should fetch one tick per symbol and notify fired alerts", async () => {
+      const store = new AlertStore(new MemoryDataStore());
+      const { id, ...alert } = createAlert();
+      await store.create(alert);
+      await store.create({ ...alert, condition: "below", value: 50000 });
+      await store.create({ ...alert, symbol: "ETHUSD", active: false });
+      const fetchTick = jest.fn(async () => createTick(66000 - 1));
+      const notify = jest.fn(async () => undefined);
+
+      const evaluator = new AlertEvaluator(store, notify, 1000, fetchTick, () => NOW);
+
+      await expect(evaluator.evaluate()).resolves.toBe(1);
+      expect(fetchTick).toHaveBeenCalledTimes(1);
+      expect(fetchTick).toHaveBeenCalledWith("BTCUSD");
+      expect(notify).toHaveBeenCalledWith(expect.objectContaining({ id: 1, active: false }), 66000);
+      expect(await store.get(1)).toMatchObject({ active: false, lastPrice: 66000 });
+      expect(await store.get(2)).toMatchObject({ active: true, lastPrice: 60000 });
+    });
+
+    it("should only write alerts that fire and keep the last price in memory", async () => {
+      const store = new AlertStore(new MemoryDataStore());
+      const { id, ...alert } = createAlert();
+      await store.create({ ...alert, condition: "cross", value: 62000, lastPrice: null });
+      const update = jest.spyOn(store, "update");
+      const prices = [61000, 61500, 62500];
+      const fetchTick = jest.fn(async () => createTick((prices.shift() ?? 0) - 1));
+
+      const evaluator = new AlertEvaluator(store, jest.fn(async () => undefined), 1000, fetchTick);
+
+      await expect(evaluator.evaluate()).resolves.toBe(0);
+      await expect(evaluator.evaluate()).resolves.toBe(0);
+      expect(update).not.toHaveBeenCalled();
+      await expect(evaluator.evaluate()).resolves.toBe(1);
+      expect(update).toHaveBeenCalledTimes(1);
+      expect(await store.get(1)).toMatchObject({ lastPrice: 62500, triggerCount: 1 });
+    });
+
+    it("should keep evaluating other symbols when a tick or notification fails", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+      const store = new AlertStore(new MemoryDataStore());
+      const { id, ...alert } = createAlert();
+      await store.create({ ...alert, symbol: "ETHUSD" });
+      await store.create(alert);
+      await store.create(alert);
+      const fetchTick = jest.fn(async (symbol: string) => {
+        if (symbol === "ETHUSD") {
+          throw new Error("timeout");
+        }
+        return createTick(66000 - 1);
+      });
+      const notify = jest
+        .fn(async () => undefined)
+        .mockRejectedValueOnce(new Error("chat not found"));
+
+      const evaluator = new AlertEvaluator(store, notify, 1000, fetchTick, () => NOW);
+
+      await expect(evaluator.evaluate()).resolves.toBe(2);
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(error).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+      error.mockRestore();
+    });
+  });
+});
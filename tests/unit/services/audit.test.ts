@@ -0,0 +1,39 @@
+import { listAudit, recordAudit } from "../../../src/services/audit";
+import { MemoryDataStore } from "../../../src/services/storage";
+
+jest.mock("../../../src/config/env", () => ({
+  getStorageOptions: jest.fn(() => ({ driver: "memory", file: "" })),
+}));
+
+describe("audit - Unit Tests", () => {
+  it("should list recorded entries newest first", async () => {
+    const store = new MemoryDataStore();
+    const entry = { source: "api" as const, actor: "127.0.0.1", details: {} };
+    await recordAudit({ ...entry, action: "trade.create", tradeId: 1 }, store);
+    await recordAudit({ ...entry, action: "trade.cancel", tradeId: 1 }, store);
+
+    const entries = await listAudit(10, store);
+
+    expect(entries.map((item) => [item.id, item.action])).toEqual([
+      [2, "trade.cancel"],
+      [1, "trade.create"],
+    ]);
+    expect(entries[0]?.timestamp).toEqual(expect.any(Number));
+    await expect(listAudit(1, store)).resolves.toHaveLength(1);
+  });
+
+  it("should log instead of throwing when the store fails", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const store = new MemoryDataStore();
+    jest.spyOn(store, "nextId").mockRejectedValue(new Error("disk full"));
+
+    await expect(
+      recordAudit(
+        { action: "trade.cancel", source: "telegram", actor: "1", tradeId: 5, details: {} },
+        store,
+      ),
+    ).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,217 @@
+import { AppError } from "../../../src/middleware/errorHandler";
+import {
+  BracketManager,
+  BracketStore,
+  checkBracketTargets,
+  parseBracketTarget,
+  resolveBracketPrice,
+} from "../../../src/services/brackets";
+import { cryptoApi } from "../../../src/services/cryptoApi";
+import { MemoryDataStore } from "../../../src/services/storage";
+import type { Trade } from "../../../src/types/api";
+import { TRADE_TIME, createTrade } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: { createTrade: jest.fn(), cancelTrade: jest.fn() },
+}));
+jest.mock("../../../src/config/env", () => ({ getBracketOptions: jest.fn() }));
+jest.mock("../../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+
+const NOW = TRADE_TIME;
+
+describe("brackets - Unit Tests", () => {
+  describe("parseBracketTarget", () => {
+    it.each([
+      ["2.5%", { percent: 2.5 }],
+      [" 64000 ", { price: 64000 }],
+      ["0,5%", { percent: 0.5 }],
+      ["%", undefined],
+      ["-3", undefined],
+      ["abc", undefined],
+    ])("should parse %p", (text, expected) => {
+      expect(parseBracketTarget(text)).toEqual(expected);
+    });
+  });
+
+  describe("resolveBracketPrice", () => {
+    it("should place take-profit above and stop-loss below a long entry", () => {
+      expect(resolveBracketPrice("takeProfit", { percent: 2 }, "Buy", 60000, 2)).toBe(61200);
+      expect(resolveBracketPrice("stopLoss", { percent: 2 }, "Buy", 60000, 2)).toBe(58800);
+    });
+
+    it("should mirror percentages for a short entry and round to the precision", () => {
+      expect(resolveBracketPrice("takeProfit", { percent: 1 }, "Sell", 123.456, 2)).toBe(122.22);
+      expect(resolveBracketPrice("stopLoss", { price: 130.129 }, "Sell", 123.456, 2)).toBe(130.13);
+    });
+  });
+
+  describe("checkBracketTargets", () => {
+    it("should require absolute prices on the correct side of the entry", () => {
+      const violations = checkBracketTargets(
+        "Sell",
+        { takeProfit: { price: 61000 }, stopLoss: { price: 59000 } },
+        60000,
+      );
+
+      expect(violations).toEqual([
+        {
+          rule: "BRACKET_PRICE",
+          field: "TakeProfit",
+          message: "TakeProfit of a Sell order must be below the entry price 60000",
+          limit: 60000,
+        },
+        {
+          rule: "BRACKET_PRICE",
+          field: "StopLoss",
+          message: "StopLoss of a Sell order must be above the entry price 60000",
+          limit: 60000,
+        },
+      ]);
+    });
+
+    it("should reject percentages of 100 or more", () => {
+      expect(checkBracketTargets("Buy", { stopLoss: { percent: 100 } })).toEqual([
+        expect.objectContaining({ field: "StopLoss", rule: "BRACKET_PRICE" }),
+      ]);
+      expect(checkBracketTargets("Buy", { takeProfit: { price: 1 } })).toEqual([]);
+    });
+  });
+
+  describe("BracketManager", () => {
+    let store: BracketStore;
+    let orders: Map<number, Trade>;
+    let manager: BracketManager;
+    let nextOrderId: number;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      store = new BracketStore(new MemoryDataStore());
+      orders = new Map();
+      nextOrderId = 100;
+      manager = new BracketManager(
+        { pollIntervalMs: 5000 },
+        store,
+        async () => orders,
+        () => NOW,
+      );
+      jest
+        .mocked(cryptoApi.createTrade)
+        .mockImplementation(async (request) =>
+          createTrade({ Id: nextOrderId++, Side: request.Side, Status: "Pending" }),
+        );
+      jest.mocked(cryptoApi.cancelTrade).mockResolvedValue(createTrade({ Status: "Cancelled" }));
+    });
+
+    it("should place both exit orders as soon as the entry has filled", async () => {
+      const bracket = await manager.attach(createTrade(), {
+        takeProfit: { percent: 5 },
+        stopLoss: { price: 58000 },
+      });
+
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith({
+        Symbol: "BTCUSD",
+        Side: "Sell",
+        Type: "Limit",
+        Amount: "1",
+        Price: "63000",
+        Comment: "Bracket 1 take-profit",
+        ClientId: "bracket-1-tp",
+      });
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ Type: "Stop", StopPrice: "58000", ClientId: "bracket-1-sl" }),
+      );
+      expect(bracket).toMatchObject({
+        status: "active",
+        amount: 1,
+        entryPrice: 60000,
+        takeProfit: { price: 63000, orderId: 100, status: "open" },
+        stopLoss: { price: 58000, orderId: 101, status: "open" },
+      });
+    });
+
+    it("should wait for a pending entry to fill", async () => {
+      const entry = createTrade({ Status: "Pending", FilledAmount: 0 });
+      await manager.attach(entry, { stopLoss: { percent: 1 } });
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+
+      orders.set(1, { ...entry, Status: "Completed", FilledAmount: 1, OrderFillPrice: 59000 });
+      await manager.poll();
+
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ Type: "Stop", StopPrice: "58410" }),
+      );
+      expect((await store.get(1))?.status).toBe("active");
+    });
+
+    it("should price the exits from the current price when the fill price is missing", async () => {
+      await manager.attach(createTrade({ Price: 0, CurrentPrice: 61000 }), {
+        takeProfit: { percent: 10 },
+      });
+
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ Type: "Limit", Price: "67100" }),
+      );
+    });
+
+    it("should cancel the bracket when the entry is cancelled unfilled", async () => {
+      const entry = createTrade({ Status: "Pending", FilledAmount: 0 });
+      await manager.attach(entry, { takeProfit: { percent: 1 } });
+
+      orders.set(1, { ...entry, Status: "Cancelled" });
+      await manager.poll();
+
+      expect((await store.get(1))?.status).toBe("cancelled");
+    });
+
+    it("should cancel the other exit order when one fills", async () => {
+      await manager.attach(createTrade(), {
+        takeProfit: { percent: 5 },
+        stopLoss: { percent: 5 },
+      });
+
+      orders.set(101, createTrade({ Id: 101, Type: "Stop", Side: "Sell" }));
+      await manager.poll();
+
+      expect(cryptoApi.cancelTrade).toHaveBeenCalledWith("100");
+      expect(await store.get(1)).toMatchObject({
+        status: "closed",
+        takeProfit: { status: "cancelled" },
+        stopLoss: { status: "filled" },
+      });
+    });
+
+    it("should retry temporary failures and give up on rejections", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      jest
+        .mocked(cryptoApi.createTrade)
+        .mockRejectedValueOnce(new AppError("Service unavailable", 503))
+        .mockRejectedValueOnce(new AppError("Invalid stop price", 400));
+
+      const bracket = await manager.attach(createTrade(), {
+        takeProfit: { percent: 5 },
+        stopLoss: { percent: 5 },
+      });
+      expect(bracket.takeProfit).toMatchObject({ status: "waiting", error: "Service unavailable" });
+      expect(bracket.stopLoss).toMatchObject({ status: "failed", error: "Invalid stop price" });
+
+      await manager.poll();
+
+      expect(await store.get(1)).toMatchObject({
+        status: "active",
+        takeProfit: { status: "open", orderId: 100, error: null },
+        stopLoss: { status: "failed" },
+      });
+    });
+
+    it("should cancel the open exit orders on request", async () => {
+      await manager.attach(createTrade(), { takeProfit: { percent: 5 } });
+
+      const bracket = await manager.cancel(1);
+
+      expect(cryptoApi.cancelTrade).toHaveBeenCalledWith("100");
+      expect(bracket).toMatchObject({ status: "cancelled", takeProfit: { status: "cancelled" } });
+      await expect(manager.cancel(1)).rejects.toThrow("Bracket 1 is already cancelled");
+      await expect(manager.cancel(2)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { MemoryLruCache } from "../../../src/services/cache";
+
+describe("MemoryLruCache - Unit Tests", () => {
+  let clock: number;
+  let cache: MemoryLruCache;
+
+  beforeEach(() => {
+    clock = 0;
+    cache = new MemoryLruCache(2, () => clock);
+  });
+
+  it("should return stored values until they expire", async () => {
+    await cache.set("a", { value: 1 }, 1000);
+
+    clock = 999;
+    await expect(cache.get("a")).resolves.toEqual({ value: 1 });
+
+    clock = 1000;
+    await expect(cache.get("a")).resolves.toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("should evict the least recently used entry when full", async () => {
+    await cache.set("a", 1, 1000);
+    await cache.set("b", 2, 1000);
+    await cache.get("a");
+    await cache.set("c", 3, 1000);
+
+    await expect(cache.get("a")).resolves.toBe(1);
+    await expect(cache.get("b")).resolves.toBeUndefined();
+    await expect(cache.get("c")).resolves.toBe(3);
+  });
+
+  it("should delete and clear entries", async () => {
+    await cache.set("a", 1, 1000);
+    await cache.set("b", 2, 1000);
+
+    await cache.delete("a");
+    await expect(cache.get("a")).resolves.toBeUndefined();
+
+    await cache.clear();
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,262 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileCandleStore,
+  MemoryCandleStore,
+  TickRecorder,
+  addTickSample,
+  aggregateCandles,
+} from "../../../src/services/candles";
+import type { MinuteBar } from "../../../src/types/candles";
+import { createTick } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+jest.mock("../../../src/config/env", () => ({
+  getCandleOptions: jest.fn(),
+  getStorageOptions: jest.fn(),
+}));
+
+const MINUTE = 60 * 1000;
+const START = Date.parse("2024-09-22T10:00:00Z");
+
+function createBar(minute: number, open: number, close: number, samples = 12): MinuteBar {
+  const ohlc = {
+    open,
+    high: Math.max(open, close) + 1,
+    low: Math.min(open, close) - 1,
+    close,
+  };
+  return { time: START + minute * MINUTE, bid: ohlc, ask: ohlc, mid: ohlc, samples };
+}
+
+describe("candles - Unit Tests", () => {
+  describe("addTickSample", () => {
+    it("should track bid, ask and mid prices within the minute", () => {
+      let bar = addTickSample(undefined, createTick(100), START + 5000);
+      bar = addTickSample(bar, createTick(104), START + 10000);
+      bar = addTickSample(bar, createTick(98), START + 15000);
+
+      expect(bar).toEqual({
+        time: START,
+        bid: { open: 100, high: 104, low: 98, close: 98 },
+        ask: { open: 102, high: 106, low: 100, close: 100 },
+        mid: { open: 101, high: 105, low: 99, close: 99 },
+        samples: 3,
+      });
+    });
+  });
+
+  describe("aggregateCandles", () => {
+    const bars = [
+      createBar(0, 10, 11),
+      createBar(1, 11, 15),
+      createBar(4, 15, 12),
+      createBar(5, 12, 13),
+    ];
+
+    it("should merge minute bars into candles of the interval", () => {
+      const candles = aggregateCandles(bars, { interval: "5m", price: "mid", gaps: "fill" });
+
+      expect(candles).toEqual([
+        { time: START, open: 10, high: 16, low: 9, close: 12, samples: 36, gap: false },
+        {
+          time: START + 5 * MINUTE,
+          open: 12,
+          high: 14,
+          low: 11,
+          close: 13,
+          samples: 12,
+          gap: false,
+        },
+      ]);
+    });
+
+    it("should fill gaps with flat candles at the previous close", () => {
+      const candles = aggregateCandles(bars, { interval: "1m", price: "mid", gaps: "fill" });
+
+      expect(candles.map((candle) => [candle.time - START, candle.gap])).toEqual([
+        [0, false],
+        [MINUTE, false],
+        [2 * MINUTE, true],
+        [3 * MINUTE, true],
+        [4 * MINUTE, false],
+        [5 * MINUTE, false],
+      ]);
+      expect(candles[2]).toMatchObject({ open: 15, high: 15, low: 15, close: 15, samples: 0 });
+    });
+
+    it("should leave gaps out when asked to", () => {
+      const candles = aggregateCandles(bars, { interval: "1m", price: "mid", gaps: "omit" });
+
+      expect(candles).toHaveLength(4);
+      expect(candles.every((candle) => !candle.gap)).toBe(true);
+    });
+
+    it("should only return candles that start within the range", () => {
+      const candles = aggregateCandles(bars, {
+        interval: "1m",
+        price: "mid",
+        gaps: "fill",
+        from: START + 2 * MINUTE,
+        to: START + 4 * MINUTE,
+      });
+
+      expect(candles.map((candle) => [candle.time - START, candle.gap])).toEqual([
+        [2 * MINUTE, true],
+        [3 * MINUTE, true],
+        [4 * MINUTE, false],
+      ]);
+    });
+
+    it("should start daily candles at midnight UTC", () => {
+      const [candle] = aggregateCandles(bars, { interval: "1d", price: "mid", gaps: "fill" });
+
+      expect(candle?.time).toBe(Date.parse("2024-09-22T00:00:00Z"));
+    });
+  });
+
+  describe("FileCandleStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "candles-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should append bars to a file per symbol", async () => {
+      const store = new FileCandleStore(directory);
+      await store.appendBar("BTCUSD", createBar(0, 1, 2));
+      await store.appendBar("BTCUSD", createBar(1, 2, 3));
+      await store.appendBar("ETH/USD", createBar(0, 5, 6));
+
+      expect((await store.getBars("BTCUSD")).map((bar) => bar.time)).toEqual([
+        START,
+        START + MINUTE,
+      ]);
+      expect(await store.getBars("ETH/USD")).toEqual([createBar(0, 5, 6)]);
+      expect(await store.getBars("XRPUSD")).toEqual([]);
+
+      await store.saveBars("BTCUSD", [createBar(1, 2, 3)]);
+      const content = await readFile(join(directory, "BTCUSD.ndjson"), "utf8");
+      expect(content).toBe(`${JSON.stringify(createBar(1, 2, 3))}\n`);
+    });
+
+    it("should skip a line left incomplete by an interrupted append", async () => {
+      const file = join(directory, "BTCUSD.ndjson");
+      await writeFile(file, `${JSON.stringify(createBar(0, 1, 2))}\n{"time":`);
+
+      await expect(new FileCandleStore(directory).getBars("BTCUSD")).resolves.toEqual([
+        createBar(0, 1, 2),
+      ]);
+    });
+  });
+
+  describe("TickRecorder", () => {
+    let store: MemoryCandleStore;
+    let dailyStore: MemoryCandleStore;
+    let now: number;
+
+    beforeEach(() => {
+      store = new MemoryCandleStore();
+      dailyStore = new MemoryCandleStore();
+      now = START;
+    });
+
+    it("should store finished minutes and keep the current one in memory", async () => {
+      let bid = 100;
+      const fetchTick = jest.fn(async () => createTick(bid++));
+      const recorder = new TickRecorder(
+        { symbols: ["BTCUSD"], sampleIntervalMs: 20000, retentionDays: 7, dailyRetentionDays: 30 },
+        store,
+        dailyStore,
+        fetchTick,
+        () => now,
+      );
+
+      for (const offset of [0, 20000, 40000, 60000, 80000]) {
+        now = START + offset;
+        await recorder.sample();
+      }
+
+      const stored = await store.getBars("BTCUSD");
+      expect(stored).toEqual([expect.objectContaining({ time: START, samples: 3 })]);
+      expect(stored[0]?.bid).toEqual({ open: 100, high: 102, low: 100, close: 102 });
+
+      const bars = await recorder.getBars("BTCUSD");
+      expect(bars.map((bar) => [bar.time, bar.samples])).toEqual([
+        [START, 3],
+        [START + MINUTE, 2],
+      ]);
+    });
+
+    it("should drop stored minutes older than the retention", async () => {
+      await store.saveBars("BTCUSD", [createBar(-3 * 24 * 60, 1, 1)]);
+      const recorder = new TickRecorder(
+        { symbols: ["BTCUSD"], sampleIntervalMs: 20000, retentionDays: 2, dailyRetentionDays: 30 },
+        store,
+        dailyStore,
+        async () => createTick(100),
+        () => now,
+      );
+
+      await recorder.sample();
+      now += MINUTE;
+      await recorder.sample();
+
+      expect((await store.getBars("BTCUSD")).map((bar) => bar.time)).toEqual([START]);
+    });
+
+    it("should keep daily bars of finished days beyond the minute retention", async () => {
+      const DAY = 24 * 60;
+      await store.saveBars("BTCUSD", [createBar(-2 * DAY, 10, 11), createBar(-DAY, 20, 21)]);
+      await store.appendBar("BTCUSD", createBar(-DAY + 1, 21, 25));
+      const recorder = new TickRecorder(
+        { symbols: ["BTCUSD"], sampleIntervalMs: 20000, retentionDays: 1, dailyRetentionDays: 30 },
+        store,
+        dailyStore,
+        async () => createTick(100),
+        () => now,
+      );
+
+      await recorder.sample();
+      now += MINUTE;
+      await recorder.sample();
+
+      const days = await dailyStore.getBars("BTCUSD");
+      expect(days.map((day) => [day.time, day.mid.open, day.mid.close, day.samples])).toEqual([
+        [Date.parse("2024-09-20T00:00:00Z"), 10, 11, 12],
+        [Date.parse("2024-09-21T00:00:00Z"), 20, 25, 24],
+      ]);
+      expect((await store.getBars("BTCUSD")).map((bar) => bar.time)).toEqual([
+        createBar(-DAY + 1, 0, 0).time,
+        START,
+      ]);
+
+      const daily = aggregateCandles(await recorder.getBars("BTCUSD", "1d"), {
+        interval: "1d",
+        price: "bid",
+        gaps: "fill",
+      });
+      expect(daily.map((candle) => candle.time)).toEqual([
+        Date.parse("2024-09-20T00:00:00Z"),
+        Date.parse("2024-09-21T00:00:00Z"),
+        Date.parse("2024-09-22T00:00:00Z"),
+      ]);
+    });
+
+    it("should only record configured symbols", () => {
+      const recorder = new TickRecorder(
+        { symbols: ["BTCUSD"], sampleIntervalMs: 5000, retentionDays: 7, dailyRetentionDays: 30 },
+        store,
+        dailyStore,
+      );
+
+      expect(recorder.isRecording("BTCUSD")).toBe(true);
+      expect(recorder.isRecording("ETHUSD")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { CircuitBreaker } from "../../../src/services/circuitBreaker";
+
+describe("CircuitBreaker - Unit Tests", () => {
+  let clock: number;
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error("down"));
+  const succeed = () => Promise.resolve("ok");
+
+  beforeEach(() => {
+    clock = 0;
+    breaker = new CircuitBreaker(
+      "Test API",
+      { failureThreshold: 3, cooldownMs: 1000 },
+      (error) => error instanceof Error && error.message === "down",
+      () => clock,
+    );
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should stay closed below the failure threshold", async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow("down");
+    await expect(breaker.execute(fail)).rejects.toThrow("down");
+
+    expect(breaker.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 2 });
+  });
+
+  it("should reset the failure count after a success", async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 1 });
+  });
+
+  it("should open at the threshold and reject calls without running them", async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow("down");
+    }
+    const fn = jest.fn(succeed);
+
+    await expect(breaker.execute(fn)).rejects.toMatchObject({ statusCode: 503 });
+    expect(fn).not.toHaveBeenCalled();
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      openedAt: new Date(0).toISOString(),
+      retryAt: new Date(1000).toISOString(),
+    });
+  });
+
+  it("should close after a successful trial call in half-open state", async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    clock = 1000;
+
+    expect(breaker.getStatus().state).toBe("half-open");
+    await expect(breaker.execute(succeed)).resolves.toBe("ok");
+    expect(breaker.getStatus()).toMatchObject({ state: "closed", consecutiveFailures: 0 });
+  });
+
+  it("should re-open when the trial call fails", async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    clock = 1500;
+
+    await expect(breaker.execute(fail)).rejects.toThrow("down");
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      retryAt: new Date(2500).toISOString(),
+    });
+  });
+
+  it("should let only one trial call through while half-open", async () => {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+    }
+    clock = 1000;
+
+    let release: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>((resolve) => (release = resolve)));
+
+    await expect(breaker.execute(succeed)).rejects.toMatchObject({ statusCode: 503 });
+    release("ok");
+    await expect(trial).resolves.toBe("ok");
+  });
+
+  it("should not count errors that are not failures", async () => {
+    const rejected = () => Promise.reject(new Error("bad request"));
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(rejected)).rejects.toThrow("bad request");
+    }
+
+    expect(breaker.getStatus().state).toBe("closed");
+  });
+});
@@ -0,0 +1,320 @@
+import { AxiosError, AxiosHeaders } from "axios";
+import { CryptoApiClient } from "../../../src/services/cryptoApi";
+import { UpstreamContractError } from "../../../src/services/upstreamContract";
+
+const mockRequest = jest.fn();
+
+jest.mock("axios", () => {
+  const actual = jest.requireActual("axios");
+  return {
+    ...actual,
+    __esModule: true,
+    default: {
+      ...actual.default,
+      create: jest.fn(() => ({ request: (...args: unknown[]) => mockRequest(...args) })),
+    },
+  };
+});
+
+// Mock the env module
+jest.mock("../../../src/config/env", () => ({
+  env: {
+    WEB_API_ID: "id",
+    WEB_API_KEY: "key",
+    WEB_API_SECRET: "secret",
+    WEB_API_HOST: "api.example.com",
+  },
+  getRetryPolicy: jest.fn(() => ({ maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000 })),
+  getCircuitBreakerOptions: jest.fn(() => ({ failureThreshold: 100, cooldownMs: 1000 })),
+  getCacheOptions: jest.fn(() => ({
+    maxEntries: 100,
+    ttls: { symbols: 60000, serverInfo: 60000, ticks: 1000 },
+  })),
+  getResponseValidationMode: jest.fn(() => "log"),
+}));
+
+function upstreamError(status?: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError(
+    status ? `Request failed with status code ${status}` : "socket hang up",
+    status ? "ERR_BAD_RESPONSE" : "ECONNRESET",
+    config,
+    undefined,
+    status
+      ? { status, statusText: "", headers, config, data: { message: `Upstream ${status}` } }
+      : undefined,
+  );
+}
+
+describe("CryptoApiClient retries - Unit Tests", () => {
+  let client: CryptoApiClient;
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+    client = new CryptoApiClient(
+      { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 1000 },
+      { failureThreshold: 100, cooldownMs: 1000 },
+    );
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should retry GET requests on 5xx and network errors", async () => {
+    mockRequest
+      .mockRejectedValueOnce(upstreamError(502))
+      .mockRejectedValueOnce(upstreamError())
+      .mockResolvedValueOnce({ data: [{ Symbol: "BTCUSD" }] });
+
+    await expect(client.getSymbols()).resolves.toEqual([{ Symbol: "BTCUSD" }]);
+    expect(mockRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it("should sign every attempt with a fresh timestamp", async () => {
+    let clock = 0;
+    const now = jest.spyOn(Date, "now").mockImplementation(() => (clock += 1000));
+    mockRequest.mockRejectedValueOnce(upstreamError(503)).mockResolvedValueOnce({ data: [] });
+
+    await client.getTrades();
+    now.mockRestore();
+
+    const [first, second] = mockRequest.mock.calls.map(
+      ([config]) => config.headers.Authorization as string,
+    );
+    const [, , firstTimestamp, firstSignature] = first?.split(":") ?? [];
+    const [, , secondTimestamp, secondSignature] = second?.split(":") ?? [];
+    expect(Number(secondTimestamp)).toBeGreaterThan(Number(firstTimestamp));
+    expect(secondSignature).not.toBe(firstSignature);
+  });
+
+  it("should give up after maxAttempts and surface the upstream error", async () => {
+    mockRequest.mockRejectedValue(upstreamError(500));
+
+    await expect(client.getTrades()).rejects.toMatchObject({
+      statusCode: 500,
+      message: "Upstream 500",
+    });
+    expect(mockRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry client errors", async () => {
+    mockRequest.mockRejectedValue(upstreamError(400));
+
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should honor Retry-After and give up when it exceeds the maximum delay", async () => {
+    mockRequest
+      .mockRejectedValueOnce(upstreamError(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce({ data: [] });
+    await expect(client.getTrades()).resolves.toEqual([]);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+
+    mockRequest.mockReset();
+    mockRequest.mockRejectedValue(upstreamError(429, { "retry-after": "60" }));
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 429 });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should never retry order creation without a ClientId", async () => {
+    mockRequest.mockRejectedValue(upstreamError(502));
+
+    await expect(
+      client.createTrade({ Symbol: "BTCUSD", Side: "Buy", Amount: "1" }),
+    ).rejects.toMatchObject({ statusCode: 502 });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry order creation when a ClientId is provided", async () => {
+    mockRequest.mockRejectedValueOnce(upstreamError(502)).mockResolvedValueOnce({ data: { Id: 1 } });
+
+    await expect(
+      client.createTrade({ Symbol: "BTCUSD", Side: "Buy", Amount: "1", ClientId: "order-1" }),
+    ).resolves.toEqual({ Id: 1 });
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("CryptoApiClient circuit breaker - Unit Tests", () => {
+  beforeEach(() => {
+    mockRequest.mockReset();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should fail fast with 503 once the circuit opens", async () => {
+    const client = new CryptoApiClient(
+      { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      { failureThreshold: 2, cooldownMs: 60000 },
+    );
+    mockRequest.mockRejectedValue(upstreamError(502));
+
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 502 });
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 502 });
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 503 });
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+    expect(client.getCircuitStatus().state).toBe("open");
+  });
+
+  it("should not open the circuit on client errors", async () => {
+    const client = new CryptoApiClient(
+      { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      { failureThreshold: 1, cooldownMs: 60000 },
+    );
+    mockRequest.mockRejectedValue(upstreamError(404));
+
+    await expect(client.getTrades()).rejects.toMatchObject({ statusCode: 404 });
+    expect(client.getCircuitStatus().state).toBe("closed");
+  });
+});
+
+describe("CryptoApiClient caching - Unit Tests", () => {
+  let client: CryptoApiClient;
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+    client = new CryptoApiClient(
+      { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      { failureThreshold: 100, cooldownMs: 1000 },
+      { maxEntries: 100, ttls: { symbols: 60000, serverInfo: 60000, ticks: 1000 } },
+    );
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should serve repeated symbol requests from the cache", async () => {
+    mockRequest.mockResolvedValue({ data: [{ Symbol: "BTCUSD" }] });
+
+    await client.getSymbols();
+    await client.getSymbols();
+    await client.getSymbol("BTCUSD");
+    await client.getSymbol("BTCUSD");
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it("should share one upstream call between concurrent tick requests", async () => {
+    let resolve: (value: unknown) => void = () => {};
+    mockRequest.mockReturnValue(new Promise((r) => (resolve = r)));
+
+    const requests = [client.getTick("BTCUSD"), client.getTick("BTCUSD"), client.getTick("BTCUSD")];
+    resolve({ data: [{ Symbol: "BTCUSD" }] });
+
+    await expect(Promise.all(requests)).resolves.toEqual([
+      [{ Symbol: "BTCUSD" }],
+      [{ Symbol: "BTCUSD" }],
+      [{ Symbol: "BTCUSD" }],
+    ]);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failed requests", async () => {
+    mockRequest
+      .mockRejectedValueOnce(upstreamError(404))
+      .mockResolvedValueOnce({ data: { ServerName: "live" } });
+
+    await expect(client.getServerInfo()).rejects.toMatchObject({ statusCode: 404 });
+    await expect(client.getServerInfo()).resolves.toEqual({ ServerName: "live" });
+  });
+
+  it("should not cache account data", async () => {
+    mockRequest.mockResolvedValue({ data: [] });
+
+    await client.getTrades();
+    await client.getTrades();
+
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("CryptoApiClient response validation - Unit Tests", () => {
+  const trade = {
+    Id: 1,
+    ClientId: "order-1",
+    AccountId: 10,
+    Type: "Limit",
+    InitialType: "Limit",
+    Side: "Buy",
+    Status: "Active",
+    Symbol: "BTCUSD",
+    SymbolPrecision: 2,
+    Price: 50000,
+    CurrentPrice: 50100,
+    InitialAmount: 0.5,
+    RemainingAmount: 0.5,
+    FilledAmount: 0,
+    Margin: 0,
+    ImmediateOrCancel: false,
+    MarketWithSlippage: false,
+    FillOrKill: false,
+    OneCancelsTheOther: false,
+    Created: 1700000000000,
+    Modified: 1700000000000,
+    ClientApp: "web",
+    ContingentOrder: false,
+  };
+
+  const createClient = (mode: "strict" | "log") =>
+    new CryptoApiClient(
+      { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+      { failureThreshold: 1, cooldownMs: 60000 },
+      { maxEntries: 100, ttls: { symbols: 60000, serverInfo: 60000, ticks: 1000 } },
+      undefined,
+      mode,
+    );
+
+  beforeEach(() => {
+    mockRequest.mockReset();
+  });
+
+  it("should pass valid responses through, keeping unknown fields", async () => {
+    mockRequest.mockResolvedValue({ data: [{ ...trade, Extra: "kept" }] });
+
+    await expect(createClient("strict").getTrades()).resolves.toEqual([
+      { ...trade, Extra: "kept" },
+    ]);
+  });
+
+  it("should reject mismatching responses in strict mode, naming the failing field", async () => {
+    const { InitialAmount: _omitted, ...broken } = trade;
+    mockRequest.mockResolvedValue({ data: [trade, broken] });
+    const client = createClient("strict");
+
+    const error = await client.getTrades().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UpstreamContractError);
+    expect(error).toMatchObject({
+      statusCode: 502,
+      endpoint: "/v2/trade",
+      issues: [{ path: "[1].InitialAmount", message: "Required" }],
+    });
+    expect((error as Error).message).toContain("[1].InitialAmount");
+    // A contract mismatch is not an outage
+    expect(client.getCircuitStatus().state).toBe("closed");
+  });
+
+  it("should not cache mismatching responses in strict mode", async () => {
+    mockRequest
+      .mockResolvedValueOnce({ data: { ServerName: "live" } })
+      .mockResolvedValueOnce({ data: { ServerName: "live", ServerAddress: "example.com" } });
+    const client = createClient("strict");
+
+    await expect(client.getServerInfo()).rejects.toBeInstanceOf(UpstreamContractError);
+    await expect(client.getServerInfo()).resolves.toEqual({
+      ServerName: "live",
+      ServerAddress: "example.com",
+    });
+  });
+
+  it("should only log mismatches in log mode", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    mockRequest.mockResolvedValue({ data: { ...trade, Status: "Unknown" } });
+
+    await expect(createClient("log").getTrade("1")).resolves.toMatchObject({ Status: "Unknown" });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("Upstream response contract mismatch"),
+      expect.objectContaining({
+        endpoint: "/v2/trade/1",
+        issues: [expect.objectContaining({ path: "Status" })],
+      }),
+    );
+  });
+});
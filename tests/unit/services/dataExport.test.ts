@@ -0,0 +1,146 @@
+import { PassThrough, Writable } from "node:stream";
+import ExcelJS from "exceljs";
+import { resolveColumns, toCsvField, writeExport } from "../../../src/services/dataExport";
+
+const mockGetPositions = jest.fn();
+const mockGetTradesHistory = jest.fn();
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getPositions: (...args: unknown[]) => mockGetPositions(...args),
+    getTradesHistory: (...args: unknown[]) => mockGetTradesHistory(...args),
+  },
+}));
+
+async function exportToBuffer(
+  options: Parameters<typeof writeExport>[0],
+): Promise<{ buffer: Buffer; rows: number }> {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const rows = await writeExport(options, out);
+  return { buffer: Buffer.concat(chunks), rows };
+}
+
+describe("dataExport - Unit Tests", () => {
+  beforeEach(() => {
+    mockGetPositions.mockResolvedValue([
+      { Id: 1, Symbol: "BTCUSD", LongAmount: 0.5, Created: 1727000000000 },
+      { Id: 2, Symbol: "=cmd()", LongAmount: 1, Created: 1727000000000 },
+    ]);
+  });
+
+  describe("toCsvField", () => {
+    it("should quote separators and neutralize formulas", () => {
+      expect(toCsvField('say "hi", bye')).toBe('"say ""hi"", bye"');
+      expect(toCsvField("=SUM(A1)")).toBe("'=SUM(A1)");
+      expect(toCsvField(-5)).toBe("-5");
+      expect(toCsvField(null)).toBe("");
+    });
+  });
+
+  describe("resolveColumns", () => {
+    it("should reject unknown columns", () => {
+      expect(resolveColumns("assets", ["Currency", "Amount"])).toEqual(["Currency", "Amount"]);
+      expect(() => resolveColumns("assets", ["Currency", "Nope"])).toThrow(
+        "Unknown assets columns: Nope",
+      );
+    });
+  });
+
+  describe("writeExport", () => {
+    it("should write CSV with selected columns and zoned timestamps", async () => {
+      const { buffer, rows } = await exportToBuffer({
+        dataset: "positions",
+        format: "csv",
+        columns: ["Id", "Symbol", "Created"],
+        timeZone: "Europe/Berlin",
+      });
+
+      expect(rows).toBe(2);
+      expect(buffer.toString()).toBe(
+        "Id,Symbol,Created\r\n" +
+          "1,BTCUSD,2024-09-22T12:13:20+02:00\r\n" +
+          "2,'=cmd(),2024-09-22T12:13:20+02:00\r\n",
+      );
+    });
+
+    it("should stop when the stream is closed while it is backed up", async () => {
+      // Never takes a chunk, like a client that stopped reading
+      const out = new Writable({ highWaterMark: 1, write: () => undefined });
+      const exported = writeExport({ dataset: "positions", format: "csv", timeZone: "UTC" }, out);
+      setImmediate(() => out.destroy());
+
+      await expect(exported).rejects.toMatchObject({ statusCode: 499 });
+    });
+
+    it("should write one JSON object per line", async () => {
+      const { buffer } = await exportToBuffer({
+        dataset: "positions",
+        format: "ndjson",
+        columns: ["Symbol", "LongAmount"],
+        timeZone: "UTC",
+      });
+
+      expect(buffer.toString().trim().split("\n").map((line) => JSON.parse(line))).toEqual([
+        { Symbol: "BTCUSD", LongAmount: 0.5 },
+        { Symbol: "=cmd()", LongAmount: 1 },
+      ]);
+    });
+
+    it("should write a readable XLSX workbook", async () => {
+      const { buffer } = await exportToBuffer({
+        dataset: "positions",
+        format: "xlsx",
+        columns: ["Id", "Symbol"],
+        timeZone: "UTC",
+      });
+
+      const workbook = new ExcelJS.Workbook();
+      await workbook.xlsx.load(buffer);
+      const sheet = workbook.getWorksheet("positions");
+      expect(sheet?.getRow(1).values).toEqual([undefined, "Id", "Symbol"]);
+      expect(sheet?.getRow(2).values).toEqual([undefined, 1, "BTCUSD"]);
+    });
+
+    it("should walk the trade history within the range", async () => {
+      mockGetTradesHistory
+        .mockResolvedValueOnce([{ Id: 7, Symbol: "BTCUSD", Modified: 1727000000000 }])
+        .mockResolvedValue([]);
+
+      const { buffer } = await exportToBuffer({
+        dataset: "trades",
+        format: "csv",
+        columns: ["Id", "Modified"],
+        timeZone: "UTC",
+        from: 1726000000000,
+        to: 1728000000000,
+      });
+
+      expect(buffer.toString()).toBe("Id,Modified\r\n7,2024-09-22T10:13:20+00:00\r\n");
+      expect(mockGetTradesHistory).toHaveBeenCalledWith(
+        expect.objectContaining({ TimestampFrom: 1726000000000, TimestampTo: 1728000000000 }),
+      );
+    });
+
+    it("should fail before writing anything when the upstream call fails", async () => {
+      mockGetPositions.mockRejectedValue(new Error("Upstream down"));
+      const onStart = jest.fn();
+
+      await expect(
+        writeExport(
+          { dataset: "positions", format: "csv", timeZone: "UTC" },
+          new PassThrough(),
+          onStart,
+        ),
+      ).rejects.toThrow("Upstream down");
+      expect(onStart).not.toHaveBeenCalled();
+    });
+
+    it("should reject unknown time zones", async () => {
+      await expect(
+        exportToBuffer({ dataset: "assets", format: "csv", timeZone: "Mars/Olympus" }),
+      ).rejects.toThrow("Unknown time zone: Mars/Olympus");
+    });
+  });
+});
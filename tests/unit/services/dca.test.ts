@@ -0,0 +1,227 @@
+import { AppError } from "../../../src/middleware/errorHandler";
+import { recordAudit } from "../../../src/services/audit";
+import { cryptoApi } from "../../../src/services/cryptoApi";
+import { DcaScheduler, DcaStore, quoteToBaseAmount } from "../../../src/services/dca";
+import { getRiskEngine } from "../../../src/services/risk";
+import { MemoryDataStore } from "../../../src/services/storage";
+import type { Symbol as TradingSymbol, Trade, TradingTick } from "../../../src/types/api";
+import { createTick } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: { getSymbol: jest.fn(), createTrade: jest.fn() },
+}));
+jest.mock("../../../src/services/tradeValidator", () => ({
+  validateTrade: jest.fn(async (trade) => ({ trade, adjustments: [] })),
+}));
+jest.mock("../../../src/services/risk", () => {
+  const engine = { placeTrade: jest.fn((_trade, place) => place()) };
+  return { getRiskEngine: () => engine };
+});
+jest.mock("../../../src/services/audit", () => ({ recordAudit: jest.fn() }));
+jest.mock("../../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+jest.mock("../../../src/config/env", () => ({ getDcaOptions: jest.fn() }));
+
+const MINUTE_MS = 60 * 1000;
+// Sunday
+const START = Date.parse("2024-09-22T10:00:00Z");
+const OPTIONS = { pollIntervalMs: 30000, maxDelayMs: 60 * MINUTE_MS, historyLimit: 2 };
+const SYMBOL = {
+  Symbol: "BTCUSD",
+  ContractSize: 1,
+  TradeAmountStep: 0.0001,
+  MinTradeAmount: 0.001,
+  ProfitCurrency: "USD",
+} as TradingSymbol;
+
+describe("dca - Unit Tests", () => {
+  describe("quoteToBaseAmount", () => {
+    it("should round the base amount down to the amount step", () => {
+      expect(quoteToBaseAmount(100, 60000, SYMBOL)).toBe(0.0016);
+      expect(quoteToBaseAmount(100, 3, { ContractSize: 10, TradeAmountStep: 1 })).toBe(3);
+    });
+  });
+
+  describe("DcaScheduler", () => {
+    let store: DcaStore;
+    let ticks: Map<string, TradingTick>;
+    let now: number;
+    let scheduler: DcaScheduler;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      store = new DcaStore(new MemoryDataStore());
+      ticks = new Map([["BTCUSD", createTick(60000 - 2)]]);
+      now = START;
+      scheduler = new DcaScheduler(
+        OPTIONS,
+        store,
+        async (symbol) => ticks.get(symbol),
+        () => now,
+      );
+      jest.mocked(cryptoApi.getSymbol).mockResolvedValue(SYMBOL);
+      jest.mocked(cryptoApi.createTrade).mockResolvedValue({ Id: 500 } as Trade);
+    });
+
+    const createDaily = (maxPrice: number | null = null) =>
+      scheduler.create({ symbol: "BTCUSD", schedule: "0 12 * * *", quoteAmount: 100, maxPrice });
+
+    it("should schedule a new plan at its next cron time", async () => {
+      const plan = await createDaily();
+
+      expect(plan).toMatchObject({
+        id: 1,
+        active: true,
+        nextRunAt: Date.parse("2024-09-22T12:00:00Z"),
+        lastRunAt: null,
+      });
+    });
+
+    it("should reject invalid schedules and unknown symbols", async () => {
+      const input = { symbol: "BTCUSD", schedule: "0 25 * *", quoteAmount: 1, maxPrice: null };
+      await expect(scheduler.create(input)).rejects.toThrow(
+        "Invalid schedule: Cron expression needs 5 fields",
+      );
+      jest.mocked(cryptoApi.getSymbol).mockRejectedValue(new AppError("Not found", 404));
+      await expect(createDaily()).rejects.toThrow("Symbol BTCUSD not found");
+    });
+
+    it("should place a Market buy for the quote amount once the plan is due", async () => {
+      await createDaily();
+      await scheduler.poll();
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+
+      now = Date.parse("2024-09-22T12:00:20Z");
+      await scheduler.poll();
+
+      const trade = {
+        Symbol: "BTCUSD",
+        Side: "Buy",
+        Type: "Market",
+        Amount: "0.0016",
+        Comment: "DCA plan 1",
+        ClientId: `dca-1-${Date.parse("2024-09-22T12:00:00Z")}`,
+      };
+      expect(getRiskEngine().placeTrade).toHaveBeenCalledWith(trade, expect.any(Function));
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith(trade);
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "trade.create", source: "dca", tradeId: 500 }),
+      );
+      expect(await store.listExecutions(1)).toEqual([
+        expect.objectContaining({ status: "placed", price: 60000, amount: 0.0016, orderId: 500 }),
+      ]);
+      expect(await store.getPlan(1)).toMatchObject({
+        lastRunAt: now,
+        nextRunAt: Date.parse("2024-09-23T12:00:00Z"),
+      });
+    });
+
+    it("should buy with an immediate-or-cancel Limit at the cap and skip above it", async () => {
+      await createDaily(59000);
+      now = Date.parse("2024-09-22T12:00:00Z");
+      await scheduler.poll();
+
+      now = Date.parse("2024-09-23T12:00:00Z");
+      ticks.set("BTCUSD", createTick(58000 - 2));
+      await scheduler.poll();
+
+      expect(cryptoApi.createTrade).toHaveBeenCalledTimes(1);
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith(
+        expect.objectContaining({ Type: "Limit", Price: "59000", ImmediateOrCancel: true }),
+      );
+      const [placed, skipped] = await store.listExecutions(1);
+      expect(placed).toMatchObject({ status: "placed", amount: 0.0017 });
+      expect(skipped).toMatchObject({
+        status: "skipped",
+        reason: "Ask 60000 is above the price cap 59000",
+      });
+    });
+
+    it("should skip runs below the minimum amount and record failed orders", async () => {
+      await scheduler.create({
+        symbol: "BTCUSD",
+        schedule: "@hourly",
+        quoteAmount: 50,
+        maxPrice: null,
+      });
+      now = Date.parse("2024-09-22T11:00:00Z");
+      await scheduler.poll();
+
+      await scheduler.update(1, { quoteAmount: 100 });
+      jest.mocked(getRiskEngine().placeTrade).mockRejectedValueOnce(
+        new AppError("Order notional exceeds the limit", 422),
+      );
+      now = Date.parse("2024-09-22T12:00:00Z");
+      await scheduler.poll();
+
+      const [failed, skipped] = await store.listExecutions(1);
+      expect(skipped).toMatchObject({
+        status: "skipped",
+        reason: "50 USD buys less than the minimum amount 0.001",
+      });
+      expect(failed).toMatchObject({
+        status: "failed",
+        reason: "Order notional exceeds the limit",
+      });
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+    });
+
+    it("should retry temporary failures and skip runs that are too late", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      await createDaily();
+      jest.mocked(cryptoApi.createTrade).mockRejectedValueOnce(new Error("socket hang up"));
+
+      now = Date.parse("2024-09-22T12:00:00Z");
+      await scheduler.poll();
+      expect(await store.listExecutions(1)).toEqual([]);
+
+      now = Date.parse("2024-09-22T12:01:00Z");
+      await scheduler.poll();
+      expect(cryptoApi.createTrade).toHaveBeenCalledTimes(2);
+      expect((await store.listExecutions(1))[0]?.status).toBe("placed");
+
+      now = Date.parse("2024-09-23T14:00:00Z");
+      await scheduler.poll();
+      expect((await store.listExecutions(1))[0]).toMatchObject({
+        status: "skipped",
+        reason: "Missed the run due at 2024-09-23T12:00:00.000Z",
+      });
+      expect((await store.getPlan(1))?.nextRunAt).toBe(Date.parse("2024-09-24T12:00:00Z"));
+    });
+
+    it("should not run paused plans nor catch up after resuming", async () => {
+      await createDaily();
+      await expect(scheduler.setActive(1, false)).resolves.toMatchObject({
+        active: false,
+        nextRunAt: null,
+      });
+
+      now = Date.parse("2024-09-22T13:00:00Z");
+      await scheduler.poll();
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+
+      await expect(scheduler.setActive(1, true)).resolves.toMatchObject({
+        active: true,
+        nextRunAt: Date.parse("2024-09-23T12:00:00Z"),
+      });
+      await expect(scheduler.setActive(2, true)).resolves.toBeUndefined();
+    });
+
+    it("should keep the newest executions and delete them with the plan", async () => {
+      await createDaily();
+      for (const day of [22, 23, 24]) {
+        now = Date.parse(`2024-09-${day}T12:00:00Z`);
+        await scheduler.poll();
+      }
+
+      const executions = await store.listExecutions(1);
+      expect(executions.map((execution) => execution.scheduledAt)).toEqual([
+        Date.parse("2024-09-24T12:00:00Z"),
+        Date.parse("2024-09-23T12:00:00Z"),
+      ]);
+
+      await expect(scheduler.delete(1)).resolves.toBe(true);
+      expect(await store.listExecutions(1)).toEqual([]);
+      await expect(scheduler.delete(1)).resolves.toBe(false);
+    });
+  });
+});
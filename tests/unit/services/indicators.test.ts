@@ -0,0 +1,170 @@
+import {
+  atr,
+  bollinger,
+  computeIndicators,
+  ema,
+  formatIndicatorSpec,
+  macd,
+  parseIndicatorSet,
+  rsi,
+  sma,
+} from "../../../src/services/indicators";
+import type { Candle } from "../../../src/types/candles";
+
+// Closes of the 10-day moving average example on StockCharts ChartSchool
+const REFERENCE_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61,
+  23.36, 24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.1, 23.33, 22.68, 23.1,
+  22.4, 22.17,
+];
+
+function expectSeries(actual: (number | null)[], expected: (number | null)[], digits = 4) {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, index) => {
+    if (value === null) {
+      expect(actual[index]).toBeNull();
+    } else {
+      expect(actual[index]).toBeCloseTo(value, digits);
+    }
+  });
+}
+
+function createCandle(high: number, low: number, close: number, time = 0): Candle {
+  return { time, open: close, high, low, close, samples: 1, gap: false };
+}
+
+describe("indicators - Unit Tests", () => {
+  describe("sma", () => {
+    it("should average the last period values", () => {
+      expectSeries(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+    });
+
+    it("should match the reference 10-day simple moving average", () => {
+      const expected = [22.22, 22.21, 22.23, 22.26, 22.3, 22.42, 22.61, 22.77, 22.91, 23.08];
+      expectSeries(sma(REFERENCE_CLOSES, 10).slice(9, 19), expected, 2);
+    });
+  });
+
+  describe("ema", () => {
+    it("should seed with the simple average and smooth with 2 / (period + 1)", () => {
+      expectSeries(ema([2, 4, 6, 8, 10], 3), [null, null, 4, 6, 8]);
+    });
+
+    it("should match the reference 10-day exponential moving average", () => {
+      const expected = [22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.8, 22.97, 23.13, 23.28];
+      expectSeries(ema(REFERENCE_CLOSES, 10).slice(9, 19), expected, 2);
+    });
+  });
+
+  describe("rsi", () => {
+    it("should smooth gains and losses with Wilder's method", () => {
+      // Changes +1, +1, -1, +1: averages 1/0, then 0.5/0.5, then 0.75/0.25
+      expectSeries(rsi([1, 2, 3, 2, 3], 2), [null, null, 100, 50, 75]);
+    });
+
+    it("should stay within 0 and 100", () => {
+      const values = rsi(REFERENCE_CLOSES, 14).filter((value) => value !== null);
+
+      expect(values).toHaveLength(REFERENCE_CLOSES.length - 14);
+      expect(values.every((value) => value >= 0 && value <= 100)).toBe(true);
+    });
+
+    it("should return 50 for a flat series", () => {
+      expect(rsi([5, 5, 5, 5], 2).at(-1)).toBe(50);
+    });
+  });
+
+  describe("macd", () => {
+    it("should compute the MACD line, signal line and histogram", () => {
+      const [, , first, second, third, fourth] = macd([1, 3, 2, 4, 3, 5], 2, 3, 2);
+
+      expect(first).toEqual({ macd: 0, signal: null, histogram: null });
+      expect(second?.macd).toBeCloseTo(1 / 3, 4);
+      expect(second?.signal).toBeCloseTo(1 / 6, 4);
+      expect(third?.signal).toBeCloseTo(0.12963, 4);
+      expect(fourth?.macd).toBeCloseTo(0.37037, 4);
+      expect(fourth?.signal).toBeCloseTo(0.29012, 4);
+      expect(fourth?.histogram).toBeCloseTo(0.08025, 4);
+    });
+
+    it("should equal the fast minus the slow exponential moving average", () => {
+      const line = macd(REFERENCE_CLOSES, 5, 10, 3);
+      const fast = ema(REFERENCE_CLOSES, 5);
+      const slow = ema(REFERENCE_CLOSES, 10);
+
+      expect(line[8]).toBeNull();
+      expect(line[20]?.macd).toBeCloseTo((fast[20] ?? 0) - (slow[20] ?? 0), 10);
+    });
+  });
+
+  describe("bollinger", () => {
+    it("should add and subtract multiples of the population standard deviation", () => {
+      const [band] = bollinger([1, 2, 3, 4, 5], 5, 2).slice(4);
+
+      expect(band?.middle).toBe(3);
+      expect(band?.upper).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+      expect(band?.lower).toBeCloseTo(3 - 2 * Math.SQRT2, 10);
+    });
+  });
+
+  describe("atr", () => {
+    it("should include gaps to the previous close in the true range", () => {
+      const candles = [
+        createCandle(10, 8, 9),
+        createCandle(11, 9, 10),
+        createCandle(12, 10, 11),
+        createCandle(15, 11, 14),
+        createCandle(14, 13, 13),
+        createCandle(20, 19, 19.5),
+      ];
+
+      expectSeries(atr(candles, 3), [null, null, 2, 8 / 3, 19 / 9, 101 / 27]);
+    });
+  });
+
+  describe("parseIndicatorSet", () => {
+    it("should parse indicators and fill in default parameters", () => {
+      expect(parseIndicatorSet("rsi:14, EMA:50,macd,bb::3")).toEqual([
+        { name: "rsi", period: 14 },
+        { name: "ema", period: 50 },
+        { name: "macd", fast: 12, slow: 26, signal: 9 },
+        { name: "bb", period: 20, multiplier: 3 },
+      ]);
+    });
+
+    it.each([
+      ["", "At least one indicator is required"],
+      ["vwap:14", 'Unknown indicator "vwap"'],
+      ["rsi:0", 'Invalid parameters in "rsi:0"'],
+      ["sma:1.5", 'Invalid parameters in "sma:1.5"'],
+      ["atr:14:2", 'Too many parameters in "atr:14:2"'],
+      ["macd:26:12", "The fast period must be shorter than the slow one"],
+    ])("should reject %p", (set, message) => {
+      expect(() => parseIndicatorSet(set)).toThrow(message);
+    });
+  });
+
+  describe("computeIndicators", () => {
+    it("should key series by their full spec and return the most recent values", () => {
+      const candles = [1, 2, 3, 4, 5].map((close, index) =>
+        createCandle(close, close, close, index * 1000),
+      );
+      const specs = parseIndicatorSet("sma:2,bb:2:1");
+
+      const result = computeIndicators(candles, specs, 2);
+
+      expect(Object.keys(result)).toEqual(["sma:2", "bb:2:1"]);
+      expect(result["sma:2"]).toEqual({
+        spec: { name: "sma", period: 2 },
+        latest: 4.5,
+        values: [
+          { time: 3000, value: 3.5 },
+          { time: 4000, value: 4.5 },
+        ],
+      });
+      expect(formatIndicatorSpec({ name: "macd", fast: 5, slow: 35, signal: 5 })).toBe(
+        "macd:5:35:5",
+      );
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { OrderWatcher, detectOrderEvents } from "../../../src/services/orderNotifications";
+import { MemoryDataStore } from "../../../src/services/storage";
+import { publishWebhookEvent } from "../../../src/services/webhooks";
+import type { Trade } from "../../../src/types/api";
+import { TRADE_TIME, createTrade } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+jest.mock("../../../src/config/env", () => ({
+  getOrderNotificationOptions: jest.fn(() => ({ pollIntervalMs: 30000 })),
+}));
+jest.mock("../../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+
+const NOW = TRADE_TIME;
+
+// A resting limit order, open until the overrides say otherwise
+function createOrder(overrides: Partial<Trade> = {}): Trade {
+  return createTrade({
+    Type: "Limit",
+    InitialType: "Limit",
+    Status: "Active",
+    RemainingAmount: 1,
+    FilledAmount: 0,
+    ...overrides,
+  });
+}
+
+describe("orderNotifications - Unit Tests", () => {
+  describe("detectOrderEvents", () => {
+    const open = { status: "Active" as const, filledAmount: 0 };
+
+    it("should report fills, partial fills and cancellations", () => {
+      const partial = createOrder({ FilledAmount: 0.4 });
+      expect(detectOrderEvents(open, partial)).toEqual([
+        { type: "partial", trade: partial, filledDelta: 0.4 },
+      ]);
+
+      const filled = createOrder({ Status: "Completed", FilledAmount: 1 });
+      expect(detectOrderEvents({ ...open, filledAmount: 0.4 }, filled)).toEqual([
+        { type: "filled", trade: filled, filledDelta: 0.6 },
+      ]);
+
+      expect(detectOrderEvents(open, createOrder({ Status: "Cancelled" }))).toMatchObject([
+        { type: "cancelled" },
+      ]);
+    });
+
+    it("should report activated pending orders", () => {
+      const trade = createOrder({ FilledAmount: 0.5 });
+      expect(
+        detectOrderEvents({ status: "Pending", filledAmount: 0 }, trade).map((e) => e.type),
+      ).toEqual(["activated", "partial"]);
+    });
+
+    it("should report nothing for unchanged orders", () => {
+      expect(detectOrderEvents(open, createOrder())).toEqual([]);
+      expect(detectOrderEvents(undefined, createOrder())).toEqual([]);
+      const completed = createOrder({ Status: "Completed", FilledAmount: 1 });
+      expect(detectOrderEvents({ status: "Completed", filledAmount: 1 }, completed)).toEqual([]);
+    });
+
+    it("should report orders completed between two polls", () => {
+      const trade = createOrder({ Status: "Completed", FilledAmount: 1 });
+      expect(detectOrderEvents(undefined, trade)).toMatchObject([
+        { type: "filled", filledDelta: 1 },
+      ]);
+    });
+  });
+
+  describe("OrderWatcher", () => {
+    const options = { pollIntervalMs: 1000 };
+    let store: MemoryDataStore;
+
+    beforeEach(() => {
+      store = new MemoryDataStore();
+    });
+
+    it("should record a baseline first and notify subscribed chats afterwards", async () => {
+      const fetchTrades = jest
+        .fn()
+        .mockResolvedValueOnce([createOrder({ Id: 1 }), createOrder({ Id: 2 })])
+        .mockResolvedValueOnce([
+          createOrder({ Id: 1, Status: "Completed", FilledAmount: 1, Modified: NOW + 1 }),
+          createOrder({ Id: 1, FilledAmount: 0.5 }),
+          createOrder({ Id: 2 }),
+        ]);
+      const notify = jest.fn(async () => undefined);
+      const watcher = new OrderWatcher(notify, options, store, fetchTrades, () => NOW);
+      await watcher.setSubscription(10, ["filled"]);
+      await watcher.setSubscription(20, ["cancelled"]);
+
+      await expect(watcher.poll()).resolves.toEqual([]);
+      const events = await watcher.poll();
+
+      expect(events).toMatchObject([{ type: "filled", trade: { Id: 1 } }]);
+      expect(notify).toHaveBeenCalledTimes(1);
+      expect(notify).toHaveBeenCalledWith(10, events[0]);
+      expect(fetchTrades).toHaveBeenLastCalledWith(NOW - 60000, NOW);
+      expect(publishWebhookEvent).toHaveBeenCalledWith("trade.filled", events[0]?.trade);
+    });
+
+    it("should publish webhook events before a notifier is set", async () => {
+      const fetchTrades = jest
+        .fn()
+        .mockResolvedValueOnce([createOrder()])
+        .mockResolvedValue([createOrder({ Status: "Cancelled", Modified: NOW + 1 })]);
+      const watcher = new OrderWatcher(undefined, options, store, fetchTrades, () => NOW);
+      await watcher.setSubscription(10, ["cancelled"]);
+
+      await watcher.poll();
+      const events = await watcher.poll();
+
+      expect(events).toMatchObject([{ type: "cancelled" }]);
+      expect(publishWebhookEvent).toHaveBeenCalledWith("trade.cancelled", events[0]?.trade);
+    });
+
+    it("should not repeat notifications after a restart", async () => {
+      const filled = createOrder({ Status: "Completed", FilledAmount: 1 });
+      const fetchTrades = jest
+        .fn()
+        .mockResolvedValueOnce([createOrder()])
+        .mockResolvedValue([filled]);
+      const notify = jest.fn(async () => undefined);
+
+      const first = new OrderWatcher(notify, options, store, fetchTrades, () => NOW);
+      await first.setSubscription(10, ["filled", "partial"]);
+      await first.poll();
+      await first.poll();
+
+      const restarted = new OrderWatcher(notify, options, store, fetchTrades, () => NOW + 30000);
+      await expect(restarted.poll()).resolves.toEqual([]);
+      await expect(restarted.getSubscription(10)).resolves.toEqual(["filled", "partial"]);
+      expect(notify).toHaveBeenCalledTimes(1);
+
+      expect(await store.get("orderWatcher", "state")).toMatchObject({
+        lastPolledAt: NOW + 30000,
+        orders: { 1: { status: "Completed" } },
+      });
+    });
+
+    it("should unsubscribe with an empty event list", async () => {
+      const watcher = new OrderWatcher(jest.fn(), options, store, jest.fn());
+      await watcher.setSubscription(10, ["cancelled", "filled"]);
+      await expect(watcher.getSubscription(10)).resolves.toEqual(["filled", "cancelled"]);
+
+      await watcher.setSubscription(10, []);
+      await expect(watcher.getSubscription(10)).resolves.toEqual([]);
+    });
+  });
+});
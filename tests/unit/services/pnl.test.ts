@@ -0,0 +1,186 @@
+import {
+  RealizedPnlTracker,
+  applyFill,
+  getPnlReport,
+  replayFills,
+  toFills,
+} from "../../../src/services/pnl";
+import type { Position, Trade } from "../../../src/types/api";
+import type { Fill, Lot } from "../../../src/types/trading";
+import { createTrade } from "../../fixtures/trades";
+
+const mockGetTradesHistory = jest.fn();
+const mockGetPositions = jest.fn();
+const mockGetSymbols = jest.fn();
+const mockGetTick = jest.fn();
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getTradesHistory: (...args: unknown[]) => mockGetTradesHistory(...args),
+    getPositions: (...args: unknown[]) => mockGetPositions(...args),
+    getSymbols: (...args: unknown[]) => mockGetSymbols(...args),
+    getTick: (...args: unknown[]) => mockGetTick(...args),
+  },
+}));
+
+function fill(side: "Buy" | "Sell", amount: number, price: number, timestamp = 0): Fill {
+  return { orderId: timestamp, symbol: "BTCUSD", side, amount, price, timestamp };
+}
+
+describe("pnl - Unit Tests", () => {
+  describe("applyFill", () => {
+    it("should close the oldest lots first with FIFO", () => {
+      const lots: Lot[] = [];
+      applyFill(lots, fill("Buy", 1, 100), "fifo");
+      applyFill(lots, fill("Buy", 1, 200), "fifo");
+
+      expect(applyFill(lots, fill("Sell", 1.5, 300), "fifo")).toBeCloseTo(200 + 50);
+      expect(lots).toEqual([{ amount: 0.5, price: 200, timestamp: 0 }]);
+    });
+
+    it("should close at the weighted average cost with the average method", () => {
+      const lots: Lot[] = [];
+      applyFill(lots, fill("Buy", 1, 100), "average");
+      applyFill(lots, fill("Buy", 1, 200), "average");
+
+      expect(applyFill(lots, fill("Sell", 1.5, 300), "average")).toBeCloseTo(225);
+      expect(lots).toHaveLength(1);
+      expect(lots[0]?.amount).toBeCloseTo(0.5);
+      expect(lots[0]?.price).toBeCloseTo(150);
+    });
+
+    it("should open a short lot with the remainder of an oversized sell", () => {
+      const lots: Lot[] = [];
+      applyFill(lots, fill("Buy", 1, 100), "fifo");
+
+      expect(applyFill(lots, fill("Sell", 3, 120), "fifo")).toBeCloseTo(20);
+      expect(lots).toEqual([{ amount: -2, price: 120, timestamp: 0 }]);
+      expect(applyFill(lots, fill("Buy", 2, 110), "fifo")).toBeCloseTo(20);
+      expect(lots).toEqual([]);
+    });
+  });
+
+  describe("replayFills", () => {
+    it("should only count realized P&L inside the range, using earlier lots as cost basis", () => {
+      const ledgers = replayFills(
+        [fill("Buy", 2, 100, 10), fill("Sell", 1, 150, 20), fill("Sell", 1, 130, 30)],
+        "fifo",
+        25,
+      );
+
+      expect(ledgers.get("BTCUSD")).toEqual({ realized: 30, lots: [] });
+    });
+  });
+
+  describe("toFills", () => {
+    it("should keep the latest record per order and drop unfilled orders", () => {
+      const fills = toFills([
+        createTrade({ Id: 1, Price: 100, FilledAmount: 0.5, Modified: 10 }),
+        createTrade({ Id: 1, Price: 100, FilledAmount: 1, Modified: 20 }),
+        createTrade({ Id: 2, Type: "Limit", Price: 90, FilledAmount: 0, Modified: 15 }),
+        createTrade({
+          Id: 3,
+          Side: "Sell",
+          Price: 0,
+          CurrentPrice: 120,
+          FilledAmount: 1,
+          Modified: 5,
+        }),
+      ]);
+
+      expect(fills).toEqual([
+        { orderId: 3, symbol: "BTCUSD", side: "Sell", amount: 1, price: 120, timestamp: 5 },
+        { orderId: 1, symbol: "BTCUSD", side: "Buy", amount: 1, price: 100, timestamp: 20 },
+      ]);
+    });
+  });
+
+  describe("getPnlReport", () => {
+    beforeEach(() => {
+      mockGetTradesHistory.mockReset();
+      mockGetPositions.mockResolvedValue([]);
+      mockGetSymbols.mockResolvedValue([{ Symbol: "BTCUSD", ProfitCurrency: "USD" }]);
+      mockGetTick.mockResolvedValue([
+        { Symbol: "BTCUSD", BestBid: { Price: 130 }, BestAsk: { Price: 131 } },
+      ]);
+    });
+
+    it("should report realized and unrealized P&L per symbol and currency", async () => {
+      mockGetTradesHistory
+        .mockResolvedValueOnce([
+          createTrade({ Id: 1, Price: 100, FilledAmount: 2, Modified: 10 }),
+          createTrade({ Id: 2, Side: "Sell", Price: 150, FilledAmount: 1, Modified: 20 }),
+        ])
+        .mockResolvedValue([]);
+
+      const report = await getPnlReport({ method: "fifo", to: 1000 });
+
+      expect(report.symbols).toEqual([
+        {
+          symbol: "BTCUSD",
+          currency: "USD",
+          realized: 50,
+          unrealized: 30,
+          total: 80,
+          openAmount: 1,
+          averageCost: 100,
+          marketPrice: 130,
+        },
+      ]);
+      expect(report.totals).toEqual([
+        { currency: "USD", realized: 50, unrealized: 30, total: 80 },
+      ]);
+    });
+
+    it("should value positions opened before the available history", async () => {
+      mockGetTradesHistory.mockResolvedValue([]);
+      mockGetPositions.mockResolvedValue([
+        { Symbol: "BTCUSD", LongAmount: 2, LongPrice: 120, ShortAmount: 0 } as Position,
+      ]);
+
+      const report = await getPnlReport({ method: "average", to: 1000 });
+
+      expect(report.symbols[0]).toMatchObject({ openAmount: 2, unrealized: 20, realized: 0 });
+    });
+  });
+
+  describe("RealizedPnlTracker", () => {
+    beforeEach(() => {
+      mockGetTradesHistory.mockReset();
+      mockGetTick.mockClear();
+      mockGetSymbols.mockResolvedValue([{ Symbol: "BTCUSD", ProfitCurrency: "USD" }]);
+    });
+
+    it("should read the history before the day once and then only the day", async () => {
+      const history = [
+        createTrade({ Id: 1, Price: 100, FilledAmount: 2, Modified: 10 }),
+        createTrade({ Id: 2, Side: "Sell", Price: 150, FilledAmount: 1, Modified: 120 }),
+        createTrade({ Id: 3, Side: "Sell", Price: 90, FilledAmount: 1, Modified: 130 }),
+      ];
+      mockGetTradesHistory.mockImplementation(
+        async (request: { TimestampFrom?: number; TimestampTo: number }) =>
+          history.filter(
+            (trade) =>
+              trade.Modified >= (request.TimestampFrom ?? 0) &&
+              trade.Modified <= request.TimestampTo,
+          ),
+      );
+      const tracker = new RealizedPnlTracker();
+
+      await expect(tracker.getTotals(100, "fifo", 125)).resolves.toEqual([
+        { currency: "USD", realized: 50, unrealized: 0, total: 50 },
+      ]);
+      await expect(tracker.getTotals(100, "fifo", 135)).resolves.toEqual([
+        { currency: "USD", realized: 40, unrealized: 0, total: 40 },
+      ]);
+
+      const ranges = mockGetTradesHistory.mock.calls.map(([request]) => [
+        request.TimestampFrom,
+        request.TimestampTo,
+      ]);
+      expect(ranges.filter(([from]) => from === undefined)).toEqual([[undefined, 99]]);
+      expect(ranges).toContainEqual([100, 135]);
+      expect(mockGetTick).not.toHaveBeenCalled();
+    });
+  });
+});
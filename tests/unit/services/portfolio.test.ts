@@ -0,0 +1,52 @@
+import { buildPortfolio } from "../../../src/services/portfolio";
+import type { Asset } from "../../../src/types/api";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+jest.mock("../../../src/config/env", () => ({ getReportCurrency: jest.fn(() => "USD") }));
+
+function createAsset(currency: string, amount: number, rate: number, locked = 0): Asset {
+  return {
+    Currency: currency,
+    Amount: amount,
+    FreeAmount: amount - locked,
+    LockedAmount: locked,
+    CurrencyToReportConversionRate: rate,
+    ReportToCurrencyConversionRate: rate > 0 ? 1 / rate : 0,
+  };
+}
+
+describe("portfolio - Unit Tests", () => {
+  it("should value assets in the report currency, largest first", () => {
+    const portfolio = buildPortfolio(
+      [
+        createAsset("USD", 1000, 1),
+        createAsset("BTC", 0.05, 60000, 0.01),
+        createAsset("ETH", 0, 3000),
+      ],
+      "USD",
+    );
+
+    expect(portfolio).toMatchObject({
+      reportCurrency: "USD",
+      equity: 4000,
+      freeValue: 3400,
+      lockedValue: 600,
+    });
+    expect(
+      portfolio.assets.map((asset) => [asset.currency, asset.value, asset.allocation]),
+    ).toEqual([
+      ["BTC", 3000, 75],
+      ["USD", 1000, 25],
+    ]);
+  });
+
+  it("should report zero allocations for an empty account", () => {
+    expect(buildPortfolio([createAsset("USD", 0, 1)], "USD")).toEqual({
+      reportCurrency: "USD",
+      equity: 0,
+      freeValue: 0,
+      lockedValue: 0,
+      assets: [],
+    });
+  });
+});
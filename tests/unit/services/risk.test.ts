@@ -0,0 +1,399 @@
+import { recordAudit } from "../../../src/services/audit";
+import { cryptoApi } from "../../../src/services/cryptoApi";
+import type { RealizedPnlTracker } from "../../../src/services/pnl";
+import {
+  RiskEngine,
+  type RiskContext,
+  type RiskOptions,
+  RiskRejectionError,
+  RiskStore,
+  evaluateRisk,
+  realizedInReportCurrency,
+} from "../../../src/services/risk";
+import { MemoryDataStore } from "../../../src/services/storage";
+import type {
+  Asset,
+  CreateTradeRequest,
+  Position,
+  Symbol as TradingSymbol,
+} from "../../../src/types/api";
+import { createTrade } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getSymbols: jest.fn(),
+    getPositions: jest.fn(),
+    getTrades: jest.fn(),
+    getAccountAssets: jest.fn(),
+    getTick: jest.fn(),
+  },
+}));
+jest.mock("../../../src/services/audit", () => ({ recordAudit: jest.fn() }));
+jest.mock("../../../src/config/env", () => ({
+  getRiskOptions: jest.fn(),
+  getReportCurrency: () => "USD",
+}));
+
+const NOW = Date.parse("2024-09-22T10:00:00Z");
+
+const OFF: RiskOptions = {
+  maxOrderNotional: 0,
+  maxPositionValue: 0,
+  maxTotalExposure: 0,
+  maxDailyLoss: 0,
+  maxOrdersPerMinute: 0,
+};
+
+const BTCUSD = { Symbol: "BTCUSD", ContractSize: 1, ProfitCurrency: "USD" } as TradingSymbol;
+const ETHEUR = { Symbol: "ETHEUR", ContractSize: 1, ProfitCurrency: "EUR" } as TradingSymbol;
+
+function createAsset(currency: string, rate: number): Asset {
+  return {
+    Currency: currency,
+    Amount: 1,
+    FreeAmount: 1,
+    LockedAmount: 0,
+    CurrencyToReportConversionRate: rate,
+    ReportToCurrencyConversionRate: 1 / rate,
+  };
+}
+
+function createPosition(symbol: string, net: number, price: number): Position {
+  return {
+    Symbol: symbol,
+    LongAmount: Math.max(net, 0),
+    ShortAmount: Math.max(-net, 0),
+    CurrentBestBid: price,
+    CurrentBestAsk: price,
+  } as Position;
+}
+
+function createContext(overrides: Partial<RiskContext> = {}): RiskContext {
+  return {
+    reportCurrency: "USD",
+    symbols: [BTCUSD, ETHEUR],
+    positions: [],
+    openOrders: [],
+    assets: [createAsset("USD", 1), createAsset("EUR", 1.1)],
+    price: 60000,
+    dailyRealized: 0,
+    recentOrders: 0,
+    ...overrides,
+  };
+}
+
+// A resting limit order that has not filled yet
+function createOpenOrder(side: "Buy" | "Sell", amount: number, symbol = "BTCUSD") {
+  return createTrade({
+    Symbol: symbol,
+    Side: side,
+    Type: "Limit",
+    Status: "Active",
+    InitialAmount: amount,
+    RemainingAmount: amount,
+    FilledAmount: 0,
+  });
+}
+
+// Places the order with a stub that stands for cryptoApi.createTrade
+function place(engine: RiskEngine, trade: CreateTradeRequest): Promise<string> {
+  return engine.placeTrade(trade, async () => "placed");
+}
+
+function order(side: "Buy" | "Sell", amount: string, symbol = "BTCUSD"): CreateTradeRequest {
+  return { Symbol: symbol, Side: side, Type: "Market", Amount: amount };
+}
+
+describe("risk - Unit Tests", () => {
+  describe("evaluateRisk", () => {
+    it("should pass every order when all limits are off", () => {
+      expect(evaluateRisk(order("Buy", "100"), createContext(), OFF)).toEqual([]);
+    });
+
+    it("should reject orders above the notional limit", () => {
+      const violations = evaluateRisk(order("Buy", "0.5"), createContext(), {
+        ...OFF,
+        maxOrderNotional: 25000,
+      });
+
+      expect(violations).toEqual([
+        {
+          rule: "MAX_ORDER_NOTIONAL",
+          message: "Order value 30000 USD exceeds the limit of 25000 USD",
+          limit: 25000,
+          value: 30000,
+        },
+      ]);
+    });
+
+    it("should convert values with the asset conversion rate of the profit currency", () => {
+      const context = createContext({ price: 2000 });
+      const options = { ...OFF, maxOrderNotional: 2000 };
+
+      const [violation] = evaluateRisk(order("Buy", "1", "ETHEUR"), context, options);
+
+      expect(violation).toMatchObject({ rule: "MAX_ORDER_NOTIONAL", value: 2200 });
+    });
+
+    it("should limit the position value after the order but let positions shrink", () => {
+      const context = createContext({ positions: [createPosition("BTCUSD", 1, 60000)] });
+      const options = { ...OFF, maxPositionValue: 80000 };
+
+      expect(evaluateRisk(order("Buy", "0.5"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 90000 }),
+      ]);
+      expect(evaluateRisk(order("Sell", "0.5"), context, options)).toEqual([]);
+      expect(evaluateRisk(order("Sell", "2.5"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 90000 }),
+      ]);
+    });
+
+    it("should add other positions to the total exposure", () => {
+      const context = createContext({
+        positions: [createPosition("ETHEUR", -10, 2000)],
+      });
+      const options = { ...OFF, maxTotalExposure: 50000 };
+
+      expect(evaluateRisk(order("Buy", "0.5"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_TOTAL_EXPOSURE", value: 52000 }),
+      ]);
+    });
+
+    it("should add open orders on the same side to the position", () => {
+      const context = createContext({
+        openOrders: [
+          createOpenOrder("Buy", 0.5),
+          createOpenOrder("Buy", 0.5),
+          createOpenOrder("Sell", 2),
+        ],
+      });
+      const options = { ...OFF, maxPositionValue: 80000 };
+
+      expect(evaluateRisk(order("Buy", "0.5"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 90000 }),
+      ]);
+      expect(evaluateRisk(order("Sell", "0.5"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 150000 }),
+      ]);
+    });
+
+    it("should add open orders of other symbols to the total exposure", () => {
+      const context = createContext({
+        price: 2000,
+        openOrders: [{ ...createOpenOrder("Buy", 0.5), Price: 60000 }],
+      });
+      const options = { ...OFF, maxTotalExposure: 40000 };
+
+      expect(evaluateRisk(order("Buy", "5", "ETHEUR"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_TOTAL_EXPOSURE", value: 41000 }),
+      ]);
+    });
+
+    it("should refuse new risk once the daily loss limit is reached", () => {
+      const context = createContext({
+        positions: [createPosition("BTCUSD", 1, 60000)],
+        dailyRealized: -500,
+      });
+      const options = { ...OFF, maxDailyLoss: 500 };
+
+      expect(evaluateRisk(order("Buy", "0.1"), context, options)).toEqual([
+        expect.objectContaining({ rule: "MAX_DAILY_LOSS", limit: 500, value: 500 }),
+      ]);
+      expect(evaluateRisk(order("Sell", "1"), context, options)).toEqual([]);
+    });
+
+    it("should limit the number of orders per minute", () => {
+      const violations = evaluateRisk(order("Buy", "1"), createContext({ recentOrders: 5 }), {
+        ...OFF,
+        maxOrdersPerMinute: 5,
+      });
+
+      expect(violations).toEqual([expect.objectContaining({ rule: "MAX_ORDERS_PER_MINUTE" })]);
+    });
+
+    it("should fail closed when the order cannot be valued", () => {
+      const options = { ...OFF, maxOrderNotional: 1000 };
+
+      expect(
+        evaluateRisk(order("Buy", "1"), createContext({ price: undefined }), options),
+      ).toEqual([expect.objectContaining({ rule: "PRICE_UNAVAILABLE" })]);
+      expect(
+        evaluateRisk(order("Buy", "1", "ETHEUR"), createContext({ assets: [] }), options),
+      ).toEqual([expect.objectContaining({ rule: "CONVERSION_RATE_UNAVAILABLE" })]);
+    });
+  });
+
+  describe("realizedInReportCurrency", () => {
+    it("should sum realized P&L of every currency in the report currency", () => {
+      const totals = [
+        { currency: "USD", realized: -300, unrealized: 0, total: -300 },
+        { currency: "EUR", realized: -100, unrealized: 50, total: -50 },
+      ];
+      const assets = [createAsset("EUR", 1.1)];
+
+      expect(realizedInReportCurrency(totals, assets, "USD")).toBeCloseTo(-410, 8);
+      expect(realizedInReportCurrency(totals, [], "USD")).toBeUndefined();
+    });
+  });
+
+  describe("RiskEngine", () => {
+    let store: RiskStore;
+    let now: number;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      store = new RiskStore(new MemoryDataStore());
+      now = NOW;
+      jest.mocked(cryptoApi.getSymbols).mockResolvedValue([BTCUSD]);
+      jest.mocked(cryptoApi.getPositions).mockResolvedValue([]);
+      jest.mocked(cryptoApi.getTrades).mockResolvedValue([]);
+      jest.mocked(cryptoApi.getAccountAssets).mockResolvedValue([createAsset("USD", 1)]);
+    });
+
+    it("should reject every order while the kill switch is on", async () => {
+      const engine = new RiskEngine(OFF, store, () => now);
+      await engine.setKillSwitch(true, { reason: "Exchange outage", actor: "42", source: "api" });
+
+      const check = place(engine, order("Sell", "1"));
+
+      await expect(check).rejects.toBeInstanceOf(RiskRejectionError);
+      await expect(check).rejects.toMatchObject({
+        statusCode: 422,
+        details: {
+          violations: [{ rule: "KILL_SWITCH", message: "Trading is halted: Exchange outage" }],
+        },
+      });
+      expect(recordAudit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: "risk.kill_switch",
+          actor: "42",
+          details: { active: true, reason: "Exchange outage" },
+        }),
+      );
+      expect((await engine.getStatus()).killSwitch).toEqual({
+        active: true,
+        reason: "Exchange outage",
+        actor: "42",
+        source: "api",
+        updatedAt: NOW,
+      });
+
+      await engine.setKillSwitch(false, { actor: "42", source: "telegram" });
+      await expect(place(engine, order("Sell", "1"))).resolves.toBe("placed");
+    });
+
+    it("should value market orders at the touch price", async () => {
+      jest.mocked(cryptoApi.getTick).mockResolvedValue([
+        { BestBid: { Price: 59990 }, BestAsk: { Price: 60010 } },
+      ] as Awaited<ReturnType<typeof cryptoApi.getTick>>);
+      const engine = new RiskEngine({ ...OFF, maxOrderNotional: 60000 }, store, () => now);
+
+      await expect(place(engine, order("Sell", "1"))).resolves.toBe("placed");
+      await expect(place(engine, order("Buy", "1"))).rejects.toMatchObject({
+        violations: [expect.objectContaining({ rule: "MAX_ORDER_NOTIONAL", value: 60010 })],
+      });
+      await expect(
+        place(engine, { ...order("Buy", "1"), Type: "Limit", Price: "59000" }),
+      ).resolves.toBe("placed");
+    });
+
+    it("should count resting orders towards the position limit", async () => {
+      jest.mocked(cryptoApi.getTrades).mockResolvedValue([
+        createOpenOrder("Buy", 1),
+        { ...createOpenOrder("Buy", 1), Id: 2, RemainingAmount: 0 },
+      ]);
+      const engine = new RiskEngine({ ...OFF, maxPositionValue: 100000 }, store, () => now);
+      const limit = (amount: string) => ({
+        ...order("Buy", amount),
+        Type: "Limit",
+        Price: "60000",
+      });
+
+      await expect(place(engine, limit("0.5"))).resolves.toBe("placed");
+      await expect(place(engine, limit("1"))).rejects.toMatchObject({
+        violations: [expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 120000 })],
+      });
+    });
+
+    it("should check an order change in place of the open order", async () => {
+      const open = { ...createOpenOrder("Buy", 1), Id: 7, Price: 60000 };
+      jest.mocked(cryptoApi.getTrades).mockResolvedValue([open]);
+      const engine = new RiskEngine({ ...OFF, maxPositionValue: 100000 }, store, () => now);
+      const modify = jest.fn(async () => "modified");
+
+      await expect(engine.modifyTrade(open, { Price: "59000" }, modify)).resolves.toBe("modified");
+      await expect(engine.modifyTrade(open, { Amount: "2" }, modify)).rejects.toMatchObject({
+        violations: [expect.objectContaining({ rule: "MAX_POSITION_VALUE", value: 120000 })],
+      });
+      expect(modify).toHaveBeenCalledTimes(1);
+
+      await engine.setKillSwitch(true, { actor: "42", source: "api" });
+      await expect(engine.modifyTrade(open, { Price: "59000" }, modify)).rejects.toMatchObject({
+        violations: [expect.objectContaining({ rule: "KILL_SWITCH" })],
+      });
+    });
+
+    it("should count accepted orders over a sliding minute", async () => {
+      const engine = new RiskEngine({ ...OFF, maxOrdersPerMinute: 2 }, store, () => now);
+
+      await place(engine, order("Buy", "1"));
+      now += 30000;
+      await place(engine, order("Buy", "1"));
+      await expect(place(engine, order("Buy", "1"))).rejects.toThrow(
+        "At most 2 orders per minute are allowed",
+      );
+
+      now += 30001;
+      await expect(place(engine, order("Buy", "1"))).resolves.toBe("placed");
+      expect((await engine.getStatus()).ordersLastMinute).toBe(2);
+    });
+
+    it("should check concurrent orders one after the other", async () => {
+      const engine = new RiskEngine({ ...OFF, maxOrdersPerMinute: 2 }, store, () => now);
+      const placed: string[] = [];
+
+      const results = await Promise.allSettled(
+        ["1", "2", "3"].map((amount) =>
+          engine.placeTrade(order("Buy", amount), async () => {
+            placed.push(amount);
+            return amount;
+          }),
+        ),
+      );
+
+      expect(placed).toEqual(["1", "2"]);
+      expect(results.map((result) => result.status)).toEqual([
+        "fulfilled",
+        "fulfilled",
+        "rejected",
+      ]);
+    });
+
+    it("should not count orders that failed upstream", async () => {
+      const engine = new RiskEngine({ ...OFF, maxOrdersPerMinute: 1 }, store, () => now);
+
+      await expect(
+        engine.placeTrade(order("Buy", "1"), async () => {
+          throw new Error("Upstream unavailable");
+        }),
+      ).rejects.toThrow("Upstream unavailable");
+
+      await expect(place(engine, order("Buy", "1"))).resolves.toBe("placed");
+      expect((await engine.getStatus()).ordersLastMinute).toBe(1);
+    });
+
+    it("should read realized P&L from midnight UTC for the daily loss limit", async () => {
+      const getTotals = jest
+        .fn()
+        .mockResolvedValue([{ currency: "USD", realized: -1200, unrealized: 0, total: -1200 }]);
+      const tracker = { getTotals } as unknown as RealizedPnlTracker;
+      const engine = new RiskEngine({ ...OFF, maxDailyLoss: 1000 }, store, () => now, tracker);
+
+      await expect(place(engine, order("Buy", "1"))).rejects.toMatchObject({
+        violations: [expect.objectContaining({ rule: "MAX_DAILY_LOSS", value: 1200 })],
+      });
+      expect(getTotals).toHaveBeenCalledWith(Date.parse("2024-09-22T00:00:00Z"), "fifo", now);
+      expect(cryptoApi.getSymbols).not.toHaveBeenCalled();
+    });
+  });
+});
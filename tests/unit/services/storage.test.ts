@@ -0,0 +1,271 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  type BlobStore,
+  BlobsDataStore,
+  FileDataStore,
+  MemoryDataStore,
+  SharedFileDataStore,
+  createStorageAdapter,
+} from "../../../src/services/storage";
+import {
+  STORAGE_MIGRATIONS,
+  type StorageMigration,
+  emptyStorageDocument,
+  migrateStorageDocument,
+} from "../../../src/services/storageMigrations";
+
+jest.mock("../../../src/config/env", () => ({
+  getStorageOptions: jest.fn(() => ({ driver: "memory", file: "" })),
+}));
+
+const LATEST_VERSION = STORAGE_MIGRATIONS.at(-1)?.version;
+
+// In-memory stand-in for a Netlify Blobs store with conditional writes
+class FakeBlobStore implements BlobStore {
+  readonly blobs = new Map<string, { data: string; etag: string }>();
+  private version = 0;
+
+  async get(key: string): Promise<unknown> {
+    const blob = this.blobs.get(key);
+    return blob ? JSON.parse(blob.data) : null;
+  }
+
+  async getWithMetadata(key: string) {
+    const blob = this.blobs.get(key);
+    return blob ? { data: JSON.parse(blob.data), etag: blob.etag } : null;
+  }
+
+  async setJSON(
+    key: string,
+    data: unknown,
+    options?: { onlyIfMatch: string } | { onlyIfNew: boolean },
+  ) {
+    const blob = this.blobs.get(key);
+    if (options && ("onlyIfNew" in options ? blob : blob?.etag !== options.onlyIfMatch)) {
+      return { modified: false };
+    }
+    this.version += 1;
+    this.blobs.set(key, { data: JSON.stringify(data), etag: String(this.version) });
+    return { modified: true };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.blobs.delete(key);
+  }
+
+  async list({ prefix }: { prefix: string }) {
+    const keys = [...this.blobs.keys()].filter((key) => key.startsWith(prefix));
+    return { blobs: keys.map((key) => ({ key })) };
+  }
+}
+
+describe("storage - Unit Tests", () => {
+  describe("migrateStorageDocument", () => {
+    it("should apply pending migrations in order", () => {
+      const document = emptyStorageDocument();
+
+      expect(migrateStorageDocument(document)).toEqual(STORAGE_MIGRATIONS.map((m) => m.version));
+      expect(document.schemaVersion).toBe(LATEST_VERSION);
+      expect(Object.keys(document.collections)).toEqual(
+        expect.arrayContaining(["sessions", "conversations", "alerts", "audit"]),
+      );
+      expect(migrateStorageDocument(document)).toEqual([]);
+    });
+
+    it("should only run migrations newer than the document", () => {
+      const up = jest.fn();
+      const migrations: StorageMigration[] = [
+        { version: 1, description: "first", up: () => undefined },
+        { version: 2, description: "second", up },
+      ];
+      const document = { ...emptyStorageDocument(), schemaVersion: 1 };
+
+      expect(migrateStorageDocument(document, migrations)).toEqual([2]);
+      expect(up).toHaveBeenCalledWith(document);
+    });
+
+    it("should refuse documents written by a newer schema", () => {
+      const document = { ...emptyStorageDocument(), schemaVersion: 99 };
+      expect(() => migrateStorageDocument(document)).toThrow("newer than the supported version");
+    });
+  });
+
+  describe("MemoryDataStore", () => {
+    it("should store, list and delete copies of records", async () => {
+      const store = new MemoryDataStore();
+      const value = { price: 1 };
+      await store.set("alerts", "1", value);
+      value.price = 2;
+
+      await expect(store.get("alerts", "1")).resolves.toEqual({ price: 1 });
+      await expect(store.list("alerts")).resolves.toEqual([{ key: "1", value: { price: 1 } }]);
+      await expect(store.delete("alerts", "1")).resolves.toBe(true);
+      await expect(store.delete("alerts", "1")).resolves.toBe(false);
+      await expect(store.get("alerts", "1")).resolves.toBeUndefined();
+    });
+
+    it("should hand out increasing IDs per sequence", async () => {
+      const store = new MemoryDataStore();
+
+      await expect(store.nextId("alerts")).resolves.toBe(1);
+      await expect(store.nextId("alerts")).resolves.toBe(2);
+      await expect(store.nextId("audit")).resolves.toBe(1);
+    });
+
+    it("should reject unknown collections", async () => {
+      await expect(new MemoryDataStore().set("unknown", "1", {})).rejects.toThrow(
+        "Unknown storage collection: unknown",
+      );
+    });
+  });
+
+  describe("FileDataStore", () => {
+    let directory: string;
+    let file: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "storage-"));
+      file = join(directory, "nested", "data.json");
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should create and migrate a missing file", async () => {
+      const store = new FileDataStore(file);
+      await store.open();
+
+      const document = JSON.parse(await readFile(file, "utf8"));
+      expect(document.schemaVersion).toBe(LATEST_VERSION);
+    });
+
+    it("should keep records across instances", async () => {
+      const first = new FileDataStore(file);
+      await Promise.all([
+        first.set("sessions", "42", { step: "amount" }),
+        first.set("sessions", "43", { step: "price" }),
+        first.nextId("alerts"),
+      ]);
+
+      const second = new FileDataStore(file);
+      await expect(second.list("sessions")).resolves.toHaveLength(2);
+      await expect(second.get("sessions", "42")).resolves.toEqual({ step: "amount" });
+      await expect(second.nextId("alerts")).resolves.toBe(2);
+    });
+
+    it("should migrate documents written by an older schema", async () => {
+      const oldFile = join(directory, "old.json");
+      await writeFile(
+        oldFile,
+        JSON.stringify({ schemaVersion: 1, collections: { sessions: { 1: {} } }, sequences: {} }),
+      );
+      const store = new FileDataStore(oldFile);
+
+      await expect(store.get("sessions", "1")).resolves.toEqual({});
+      await expect(store.list("audit")).resolves.toEqual([]);
+      expect(store.schemaVersion).toBe(LATEST_VERSION);
+    });
+
+    it("should fail on unreadable files and read them again on the next operation", async () => {
+      await writeFile(join(directory, "broken.json"), "{");
+      const store = new FileDataStore(join(directory, "broken.json"));
+
+      await expect(store.open()).rejects.toThrow("Cannot read storage file");
+      await expect(store.get("sessions", "1")).rejects.toThrow("Cannot read storage file");
+
+      await writeFile(join(directory, "broken.json"), JSON.stringify(emptyStorageDocument()));
+      await expect(store.get("sessions", "1")).resolves.toBeUndefined();
+    });
+  });
+
+  describe("SharedFileDataStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "storage-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should see the changes of other processes", async () => {
+      const file = join(directory, "shared.json");
+      const server = new SharedFileDataStore(file);
+      const bot = new SharedFileDataStore(file);
+      await expect(bot.get("risk", "killSwitch")).resolves.toBeUndefined();
+
+      await server.set("risk", "killSwitch", { active: true });
+      await expect(bot.get("risk", "killSwitch")).resolves.toEqual({ active: true });
+
+      await bot.set("risk", "killSwitch", { active: false });
+      await expect(server.get("risk", "killSwitch")).resolves.toEqual({ active: false });
+    });
+  });
+
+  describe("BlobsDataStore", () => {
+    let blobs: FakeBlobStore;
+
+    beforeEach(() => {
+      blobs = new FakeBlobStore();
+    });
+
+    it("should share records and sequences between instances", async () => {
+      const first = new BlobsDataStore(blobs);
+      const second = new BlobsDataStore(blobs);
+      await first.set("sessions", "-100:42", { step: "amount" });
+
+      await expect(second.get("sessions", "-100:42")).resolves.toEqual({ step: "amount" });
+      await expect(second.list("sessions")).resolves.toEqual([
+        { key: "-100:42", value: { step: "amount" } },
+      ]);
+      const ids = await Promise.all([first.nextId("alerts"), second.nextId("alerts")]);
+      expect(ids.sort()).toEqual([1, 2]);
+      await expect(second.delete("sessions", "-100:42")).resolves.toBe(true);
+      await expect(first.get("sessions", "-100:42")).resolves.toBeUndefined();
+      await expect(first.delete("sessions", "-100:42")).resolves.toBe(false);
+    });
+
+    it("should record the schema once and reject unknown collections", async () => {
+      const store = new BlobsDataStore(blobs);
+
+      await expect(store.set("unknown", "1", {})).rejects.toThrow(
+        "Unknown storage collection: unknown",
+      );
+      expect(await blobs.get("schema")).toMatchObject({
+        schemaVersion: LATEST_VERSION,
+        collections: expect.arrayContaining(["sessions", "alerts"]),
+      });
+    });
+
+    it("should retry an increment that another instance got in first", async () => {
+      const store = new BlobsDataStore(blobs);
+      const setJSON = blobs.setJSON.bind(blobs);
+      let raced = false;
+      jest.spyOn(blobs, "setJSON").mockImplementation(async (key, data, options) => {
+        if (key.startsWith("sequences/") && !raced) {
+          // Another instance takes ID 1 between the read and the write
+          raced = true;
+          await setJSON(key, 1);
+        }
+        return setJSON(key, data, options);
+      });
+
+      await expect(store.nextId("alerts")).resolves.toBe(2);
+    });
+  });
+
+  describe("createStorageAdapter", () => {
+    it("should read, write and delete session data", async () => {
+      const adapter = createStorageAdapter<{ step?: string }>(new MemoryDataStore(), "sessions");
+
+      await adapter.write("42", { step: "symbol" });
+      await expect(adapter.read("42")).resolves.toEqual({ step: "symbol" });
+      await adapter.delete("42");
+      await expect(adapter.read("42")).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  StreamHub,
+  type StreamOptions,
+  diffActiveTrades,
+  formatStreamMessage,
+  matchesStreamFilter,
+} from "../../../src/services/stream";
+import type { Trade } from "../../../src/types/api";
+import type { StreamMessage } from "../../../src/types/stream";
+import { TRADE_TIME, createTick, createTrade } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+jest.mock("../../../src/config/env", () => ({ getStreamOptions: jest.fn() }));
+
+const NOW = TRADE_TIME;
+
+const options: StreamOptions = {
+  pollIntervalMs: 2000,
+  heartbeatIntervalMs: 15000,
+  bufferSize: 3,
+  maxClients: 10,
+};
+
+describe("stream - Unit Tests", () => {
+  describe("formatStreamMessage", () => {
+    it("should format the message as a Server-Sent Event", () => {
+      const message: StreamMessage = {
+        id: 7,
+        event: "trade",
+        symbol: "BTCUSD",
+        data: { action: "closed", trade: createTrade() },
+      };
+
+      expect(formatStreamMessage(message)).toBe(
+        `id: 7\nevent: trade\ndata: ${JSON.stringify(message.data)}\n\n`,
+      );
+    });
+  });
+
+  describe("matchesStreamFilter", () => {
+    const tick: StreamMessage = {
+      id: 1,
+      event: "tick",
+      symbol: "BTCUSD",
+      data: createTick(1),
+    };
+    const trade: StreamMessage = {
+      id: 2,
+      event: "trade",
+      symbol: "ETHUSD",
+      data: { action: "created", trade: createTrade({ Symbol: "ETHUSD" }) },
+    };
+
+    it("should match ticks of subscribed symbols only", () => {
+      expect(matchesStreamFilter(tick, { events: ["ticks"], symbols: ["BTCUSD"] })).toBe(true);
+      expect(matchesStreamFilter(tick, { events: ["ticks"], symbols: ["ETHUSD"] })).toBe(false);
+      expect(matchesStreamFilter(tick, { events: ["trades"], symbols: ["BTCUSD"] })).toBe(false);
+    });
+
+    it("should match trades of all symbols when no symbols are given", () => {
+      expect(matchesStreamFilter(trade, { events: ["trades"], symbols: [] })).toBe(true);
+      expect(matchesStreamFilter(trade, { events: ["trades"], symbols: ["BTCUSD"] })).toBe(false);
+    });
+  });
+
+  describe("diffActiveTrades", () => {
+    it("should report created, updated and closed trades", () => {
+      const previous = [createTrade({ Id: 1 }), createTrade({ Id: 2 })];
+      const current = [
+        createTrade({ Id: 2, RemainingAmount: 0.5, Modified: NOW + 1 }),
+        createTrade({ Id: 3 }),
+      ];
+
+      expect(
+        diffActiveTrades(previous, current).map(({ action, trade }) => [action, trade.Id]),
+      ).toEqual([
+        ["updated", 2],
+        ["created", 3],
+        ["closed", 1],
+      ]);
+    });
+  });
+
+  describe("StreamHub", () => {
+    let unsubscribers: (() => void)[];
+
+    beforeEach(() => {
+      unsubscribers = [];
+    });
+
+    afterEach(() => {
+      for (const unsubscribe of unsubscribers) {
+        unsubscribe();
+      }
+    });
+
+    it("should fan out changed ticks to matching subscribers", async () => {
+      const fetchTick = jest
+        .fn()
+        .mockImplementation(async (symbol: string) => createTick(100, { Symbol: symbol }));
+      const hub = new StreamHub(options, fetchTick, async () => [], () => NOW);
+      const btc = jest.fn();
+      const eth = jest.fn();
+      unsubscribers.push(hub.subscribe({ events: ["ticks"], symbols: ["BTCUSD"] }, btc));
+      unsubscribers.push(hub.subscribe({ events: ["ticks"], symbols: ["ETHUSD"] }, eth));
+
+      await hub.poll();
+      await hub.poll();
+
+      expect(btc).toHaveBeenCalledTimes(1);
+      expect(btc).toHaveBeenCalledWith(expect.objectContaining({ event: "tick", id: NOW + 1 }));
+      expect(eth).toHaveBeenCalledTimes(1);
+      expect(hub.latestTick("BTCUSD")).toMatchObject({ BestBid: { Price: 100 } });
+    });
+
+    it("should record a trade baseline and publish changes afterwards", async () => {
+      const fetchTrades = jest
+        .fn()
+        .mockResolvedValueOnce([createTrade()])
+        .mockResolvedValue([]);
+      const hub = new StreamHub(options, async () => undefined, fetchTrades, () => NOW);
+      const deliver = jest.fn();
+      unsubscribers.push(hub.subscribe({ events: ["trades"], symbols: [] }, deliver));
+
+      await hub.poll();
+      await hub.poll();
+
+      expect(deliver).toHaveBeenCalledTimes(1);
+      expect(deliver).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: "trade",
+          data: { action: "closed", trade: createTrade() },
+        }),
+      );
+    });
+
+    it("should replay buffered messages after the last event ID", async () => {
+      let bid = 100;
+      const fetchTick = jest.fn(async (symbol: string) => createTick(bid++, { Symbol: symbol }));
+      const hub = new StreamHub(options, fetchTick, async () => [], () => NOW);
+      const filter = { events: ["ticks" as const], symbols: ["BTCUSD"] };
+      unsubscribers.push(hub.subscribe(filter, jest.fn()));
+      for (let poll = 0; poll < 5; poll++) {
+        await hub.poll();
+      }
+
+      const resumed = hub.replaySince(NOW + 4, filter);
+      expect(resumed.complete).toBe(true);
+      expect(resumed.messages.map((message) => message.id)).toEqual([NOW + 5]);
+
+      const outdated = hub.replaySince(NOW + 1, filter);
+      expect(outdated.complete).toBe(false);
+      expect(outdated.messages).toHaveLength(3);
+
+      expect(hub.replaySince(NOW + 99, filter).complete).toBe(false);
+    });
+
+    it("should not resume across a break of the polling loop", async () => {
+      const fetchTick = async (symbol: string) => createTick(100, { Symbol: symbol });
+      const hub = new StreamHub(options, fetchTick, async () => [], () => NOW);
+      const filter = { events: ["ticks" as const], symbols: ["BTCUSD"] };
+      const unsubscribe = hub.subscribe(filter, jest.fn());
+      await hub.poll();
+      unsubscribe();
+
+      expect(hub.replaySince(NOW + 1, filter).complete).toBe(false);
+      unsubscribers.push(hub.subscribe(filter, jest.fn()));
+      expect(hub.replaySince(NOW + 1, filter).complete).toBe(false);
+    });
+
+    it("should stop polling once the last subscriber leaves", async () => {
+      const fetchTick = jest.fn(async (symbol: string) => createTick(100, { Symbol: symbol }));
+      const hub = new StreamHub(options, fetchTick, async () => [], () => NOW);
+
+      const unsubscribe = hub.subscribe({ events: ["ticks"], symbols: ["BTCUSD"] }, jest.fn());
+      expect(hub.clientCount).toBe(1);
+      unsubscribe();
+
+      expect(hub.clientCount).toBe(0);
+      await hub.poll();
+      expect(fetchTick).toHaveBeenCalledTimes(1);
+    });
+  });
+});
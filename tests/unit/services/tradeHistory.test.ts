@@ -0,0 +1,125 @@
+import {
+  decodeCursor,
+  encodeCursor,
+  getTradeHistoryPage,
+} from "../../../src/services/tradeHistory";
+import type { Trade, TradeHistoryRequest } from "../../../src/types/api";
+import { createTrade } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({ cryptoApi: {} }));
+
+/**
+ * Fake upstream history: inclusive time range, ordered by direction and
+ * capped at a fixed page size regardless of RequestPageSize
+ */
+function createUpstream(records: Trade[], pageSize = 3) {
+  return jest.fn(async (request: TradeHistoryRequest): Promise<Trade[]> => {
+    const backwards = request.RequestDirection === "Backwards";
+    return records
+      .filter(
+        (record) =>
+          (request.TimestampFrom === undefined || record.Modified >= request.TimestampFrom) &&
+          (request.TimestampTo === undefined || record.Modified <= request.TimestampTo),
+      )
+      .sort((a, b) => (backwards ? b.Modified - a.Modified : a.Modified - b.Modified))
+      .slice(0, pageSize);
+  });
+}
+
+async function readAll(
+  fetchPage: (request: TradeHistoryRequest) => Promise<Trade[]>,
+  query: Parameters<typeof getTradeHistoryPage>[0],
+  limit: number,
+): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getTradeHistoryPage(query, limit, cursor, fetchPage);
+    ids.push(...page.trades.map((trade) => trade.Id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor !== undefined);
+  return ids;
+}
+
+describe("tradeHistory - Unit Tests", () => {
+  const records = [
+    createTrade({ Id: 1, Modified: 100 }),
+    createTrade({ Id: 2, Modified: 200 }),
+    createTrade({ Id: 3, Modified: 200, Symbol: "ETHUSD" }),
+    createTrade({ Id: 4, Modified: 200, Side: "Sell" }),
+    createTrade({ Id: 5, Modified: 300 }),
+    createTrade({ Id: 6, Modified: 400, Type: "Limit" }),
+    createTrade({ Id: 7, Modified: 500 }),
+  ];
+
+  it("should walk every upstream page backwards without gaps or duplicates", async () => {
+    const ids = await readAll(createUpstream(records), { RequestDirection: "Backwards" }, 2);
+
+    expect(ids.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(new Set(ids).size).toBe(7);
+  });
+
+  it("should walk forwards from TimestampFrom", async () => {
+    const ids = await readAll(
+      createUpstream(records),
+      { RequestDirection: "Forwards", TimestampFrom: 200 },
+      4,
+    );
+
+    expect(ids.sort()).toEqual([2, 3, 4, 5, 6, 7]);
+  });
+
+  it("should apply symbol, side and type filters across upstream pages", async () => {
+    const upstream = createUpstream(records);
+
+    await expect(
+      readAll(upstream, { RequestDirection: "Backwards", Symbol: "BTCUSD", Side: "Buy" }, 10),
+    ).resolves.toEqual([7, 6, 5, 2, 1]);
+    await expect(
+      readAll(upstream, { RequestDirection: "Backwards", Type: "Limit" }, 10),
+    ).resolves.toEqual([6]);
+  });
+
+  it("should stop at the limit and resume from the cursor", async () => {
+    const upstream = createUpstream(records);
+
+    const first = await getTradeHistoryPage({ RequestDirection: "Backwards" }, 3, undefined, upstream);
+    expect(first.trades.map((trade) => trade.Id)).toEqual([7, 6, 5]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getTradeHistoryPage(
+      { RequestDirection: "Backwards" },
+      3,
+      first.nextCursor ?? undefined,
+      upstream,
+    );
+    expect(upstream).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ TimestampTo: 300 }),
+    );
+    expect(second.trades).toHaveLength(3);
+  });
+
+  it("should pass upstream filters through", async () => {
+    const upstream = createUpstream([]);
+
+    const page = await getTradeHistoryPage(
+      { RequestDirection: "Backwards", OrderId: 42, SkipCancelOrder: true, TimestampTo: 1000 },
+      10,
+      undefined,
+      upstream,
+    );
+
+    expect(page).toEqual({ trades: [], nextCursor: null });
+    expect(upstream).toHaveBeenCalledWith(
+      expect.objectContaining({ OrderId: 42, SkipCancelOrder: true, TimestampTo: 1000 }),
+    );
+  });
+
+  it("should round-trip cursors and reject malformed ones", () => {
+    const cursor = { t: 200, ids: [2, 3] };
+
+    expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    expect(() => decodeCursor("not-a-cursor")).toThrow("Invalid history cursor");
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  TradeValidationError,
+  checkTradeAgainstSymbol,
+  validateTrade,
+} from "../../../src/services/tradeValidator";
+import type { Symbol as TradingSymbol } from "../../../src/types/api";
+
+const mockGetSymbol = jest.fn();
+const mockGetPositions = jest.fn();
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getSymbol: (...args: unknown[]) => mockGetSymbol(...args),
+    getPositions: (...args: unknown[]) => mockGetPositions(...args),
+  },
+}));
+
+function createSymbol(overrides: Partial<TradingSymbol> = {}): TradingSymbol {
+  return {
+    Symbol: "BTCUSD",
+    Precision: 2,
+    IsTradeAllowed: true,
+    MinTradeAmount: 0.001,
+    MaxTradeAmount: 10,
+    TradeAmountStep: 0.001,
+    IsCloseOnly: false,
+    IsLongOnly: false,
+    ...overrides,
+  } as TradingSymbol;
+}
+
+describe("tradeValidator - Unit Tests", () => {
+  describe("checkTradeAgainstSymbol", () => {
+    it("should accept a trade that satisfies every constraint", () => {
+      const result = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "0.5", Type: "Limit", Price: "50000.25" },
+        createSymbol(),
+      );
+
+      expect(result.violations).toEqual([]);
+      expect(result.adjustments).toEqual([]);
+    });
+
+    it("should report amount limits with the violated rule", () => {
+      const tooSmall = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "0.0001" },
+        createSymbol({ TradeAmountStep: 0.0001 }),
+      );
+      const tooLarge = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "11" },
+        createSymbol(),
+      );
+
+      expect(tooSmall.violations).toEqual([
+        expect.objectContaining({ rule: "MIN_TRADE_AMOUNT", field: "Amount", limit: 0.001 }),
+      ]);
+      expect(tooLarge.violations).toEqual([
+        expect.objectContaining({ rule: "MAX_TRADE_AMOUNT", field: "Amount", limit: 10 }),
+      ]);
+    });
+
+    it("should reject off-step amounts and excess price precision without rounding", () => {
+      const result = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "0.0015", Type: "Limit", Price: "50000.123" },
+        createSymbol(),
+      );
+
+      expect(result.violations.map((violation) => violation.rule)).toEqual([
+        "TRADE_AMOUNT_STEP",
+        "PRICE_PRECISION",
+      ]);
+    });
+
+    it("should round amount down and price to precision when rounding is enabled", () => {
+      const result = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "0.0019", Type: "Limit", Price: "50000.126" },
+        createSymbol(),
+        { round: true },
+      );
+
+      expect(result.violations).toEqual([]);
+      expect(result.trade.Amount).toBe("0.001");
+      expect(result.trade.Price).toBe("50000.13");
+      expect(result.adjustments).toEqual([
+        { field: "Amount", from: "0.0019", to: "0.001" },
+        { field: "Price", from: "50000.126", to: "50000.13" },
+      ]);
+    });
+
+    it("should write rounded values without exponent notation", () => {
+      const result = checkTradeAgainstSymbol(
+        {
+          Symbol: "SHIBUSD",
+          Side: "Buy",
+          Amount: "0.00000015",
+          Type: "Limit",
+          Price: "0.000000123",
+        },
+        createSymbol({ MinTradeAmount: 1e-7, TradeAmountStep: 1e-7, Precision: 8 }),
+        { round: true },
+      );
+
+      expect(result.trade.Amount).toBe("0.0000001");
+      expect(result.trade.Price).toBe("0.00000012");
+    });
+
+    it("should still enforce the minimum after rounding down", () => {
+      const result = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "0.0009" },
+        createSymbol(),
+        { round: true },
+      );
+
+      expect(result.violations).toEqual([expect.objectContaining({ rule: "MIN_TRADE_AMOUNT" })]);
+    });
+
+    it("should reject trading on disabled and close-only symbols", () => {
+      const result = checkTradeAgainstSymbol(
+        { Symbol: "BTCUSD", Side: "Buy", Amount: "1" },
+        createSymbol({ IsTradeAllowed: false, IsCloseOnly: true }),
+      );
+
+      expect(result.violations.map((violation) => violation.rule)).toEqual([
+        "TRADE_NOT_ALLOWED",
+        "CLOSE_ONLY",
+      ]);
+    });
+
+    it("should allow close-only orders that reduce the held position", () => {
+      const symbol = createSymbol({ IsCloseOnly: true });
+      const check = (Side: "Buy" | "Sell", Amount: string) =>
+        checkTradeAgainstSymbol({ Symbol: "BTCUSD", Side, Amount }, symbol, {}, 1, 2).violations;
+
+      expect(check("Sell", "1")).toEqual([]);
+      expect(check("Buy", "2")).toEqual([]);
+      expect(check("Sell", "1.5")).toEqual([
+        expect.objectContaining({ rule: "CLOSE_ONLY", limit: 1 }),
+      ]);
+      expect(check("Buy", "3")).toEqual([
+        expect.objectContaining({ rule: "CLOSE_ONLY", limit: 2 }),
+      ]);
+    });
+
+    it("should allow long-only sells up to the held amount", () => {
+      const symbol = createSymbol({ IsLongOnly: true });
+
+      expect(
+        checkTradeAgainstSymbol({ Symbol: "BTCUSD", Side: "Sell", Amount: "1" }, symbol, {}, 1)
+          .violations,
+      ).toEqual([]);
+      expect(
+        checkTradeAgainstSymbol({ Symbol: "BTCUSD", Side: "Sell", Amount: "2" }, symbol, {}, 1)
+          .violations,
+      ).toEqual([expect.objectContaining({ rule: "LONG_ONLY", field: "Side" })]);
+    });
+  });
+
+  describe("validateTrade", () => {
+    it("should throw a 422 TradeValidationError for unknown symbols", async () => {
+      mockGetSymbol.mockResolvedValue(undefined);
+
+      const error = await validateTrade({ Symbol: "NOPE", Side: "Buy", Amount: "1" }).catch(
+        (err: unknown) => err,
+      );
+
+      expect(error).toBeInstanceOf(TradeValidationError);
+      expect((error as TradeValidationError).statusCode).toBe(422);
+      expect((error as TradeValidationError).violations).toEqual([
+        expect.objectContaining({ rule: "SYMBOL_NOT_FOUND" }),
+      ]);
+    });
+
+    it("should look up the long position only for long-only sells", async () => {
+      mockGetSymbol.mockResolvedValue(createSymbol({ IsLongOnly: true }));
+      mockGetPositions.mockResolvedValue([{ Symbol: "BTCUSD", LongAmount: 2 }]);
+
+      await expect(
+        validateTrade({ Symbol: "BTCUSD", Side: "Sell", Amount: "1.5" }),
+      ).resolves.toEqual({
+        trade: { Symbol: "BTCUSD", Side: "Sell", Amount: "1.5" },
+        adjustments: [],
+      });
+      expect(mockGetPositions).toHaveBeenCalledTimes(1);
+
+      await validateTrade({ Symbol: "BTCUSD", Side: "Buy", Amount: "1" });
+      expect(mockGetPositions).toHaveBeenCalledTimes(1);
+    });
+
+    it("should let a close-only order through when it closes the held position", async () => {
+      mockGetSymbol.mockResolvedValue(createSymbol({ IsCloseOnly: true }));
+      mockGetPositions.mockResolvedValue([{ Symbol: "BTCUSD", LongAmount: 2, ShortAmount: 0 }]);
+
+      await expect(
+        validateTrade({ Symbol: "BTCUSD", Side: "Sell", Type: "Stop", Amount: "2" }),
+      ).resolves.toMatchObject({ adjustments: [] });
+      await expect(
+        validateTrade({ Symbol: "BTCUSD", Side: "Buy", Amount: "1" }),
+      ).rejects.toBeInstanceOf(TradeValidationError);
+    });
+  });
+});
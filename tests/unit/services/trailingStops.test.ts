@@ -0,0 +1,171 @@
+import { cryptoApi } from "../../../src/services/cryptoApi";
+import { MemoryDataStore } from "../../../src/services/storage";
+import {
+  TrailingStopManager,
+  TrailingStopStore,
+  trailStopPrice,
+} from "../../../src/services/trailingStops";
+import type { Position, Trade, TradingTick } from "../../../src/types/api";
+import { createTick } from "../../fixtures/trades";
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: {
+    getPositions: jest.fn(),
+    createTrade: jest.fn(),
+    modifyTrade: jest.fn(),
+    cancelTrade: jest.fn(),
+  },
+}));
+jest.mock("../../../src/services/tradeValidator", () => ({
+  validateTrade: jest.fn(async (trade) => ({ trade, adjustments: [] })),
+}));
+jest.mock("../../../src/config/env", () => ({ getTrailingStopOptions: jest.fn() }));
+jest.mock("../../../src/services/webhooks", () => ({ publishWebhookEvent: jest.fn() }));
+
+const NOW = Date.parse("2024-09-22T10:00:00Z");
+const OPTIONS = { pollIntervalMs: 5000, atrInterval: "5m" as const, atrPeriod: 14 };
+
+function position(net: number): Position {
+  return {
+    Symbol: "BTCUSD",
+    LongAmount: Math.max(net, 0),
+    ShortAmount: Math.max(-net, 0),
+  } as Position;
+}
+
+function order(overrides: Partial<Trade> = {}): Trade {
+  return { Id: 100, Status: "Pending", SymbolPrecision: 2, ...overrides } as Trade;
+}
+
+describe("trailingStops - Unit Tests", () => {
+  describe("trailStopPrice", () => {
+    it("should trail below the price for Sell stops and above it for Buy stops", () => {
+      expect(trailStopPrice("Sell", 60000, 500)).toBe(59500);
+      expect(trailStopPrice("Buy", 60000, 500)).toBe(60500);
+    });
+  });
+
+  describe("TrailingStopManager", () => {
+    let store: TrailingStopStore;
+    let ticks: Map<string, TradingTick>;
+    let orders: Map<number, Trade>;
+    let atr: number;
+    let manager: TrailingStopManager;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      store = new TrailingStopStore(new MemoryDataStore());
+      ticks = new Map([["BTCUSD", createTick(60000)]]);
+      orders = new Map();
+      atr = 150;
+      manager = new TrailingStopManager(
+        OPTIONS,
+        store,
+        async (symbol) => ticks.get(symbol),
+        async () => orders,
+        async () => atr,
+        () => NOW,
+      );
+      jest.mocked(cryptoApi.getPositions).mockResolvedValue([position(0.5)]);
+      jest.mocked(cryptoApi.createTrade).mockResolvedValue(order());
+      jest.mocked(cryptoApi.modifyTrade).mockResolvedValue(order());
+      jest.mocked(cryptoApi.cancelTrade).mockResolvedValue(order({ Status: "Cancelled" }));
+    });
+
+    it("should place a Sell stop behind the bid of a long position", async () => {
+      const stop = await manager.create({ symbol: "BTCUSD", distance: { percent: 2 } });
+
+      expect(cryptoApi.createTrade).toHaveBeenCalledWith({
+        Symbol: "BTCUSD",
+        Side: "Sell",
+        Type: "Stop",
+        Amount: "0.5",
+        StopPrice: "58800",
+        Comment: "Trailing stop",
+      });
+      expect(stop).toMatchObject({
+        id: 1,
+        side: "Sell",
+        amount: 0.5,
+        extremePrice: 60000,
+        stopPrice: 58800,
+        orderId: 100,
+        status: "active",
+      });
+    });
+
+    it("should refuse symbols without a position and amounts above it", async () => {
+      await expect(
+        manager.create({ symbol: "ETHUSD", distance: { price: 50 } }),
+      ).rejects.toMatchObject({ statusCode: 422 });
+      await expect(
+        manager.create({ symbol: "BTCUSD", distance: { price: 50 }, amount: 1 }),
+      ).rejects.toThrow("Amount 1 exceeds the BTCUSD position of 0.5");
+      expect(cryptoApi.createTrade).not.toHaveBeenCalled();
+    });
+
+    it("should raise the stop as the bid rises but never lower it", async () => {
+      await manager.create({ symbol: "BTCUSD", distance: { price: 500 } });
+
+      ticks.set("BTCUSD", createTick(60300));
+      await manager.poll();
+      expect(cryptoApi.modifyTrade).toHaveBeenCalledWith({ Id: 100, StopPrice: "59800" });
+
+      ticks.set("BTCUSD", createTick(60100));
+      await manager.poll();
+      expect(cryptoApi.modifyTrade).toHaveBeenCalledTimes(1);
+      expect(await store.get(1)).toMatchObject({ extremePrice: 60300, stopPrice: 59800 });
+    });
+
+    it("should lower a Buy stop after the ask of a short position in ATR multiples", async () => {
+      jest.mocked(cryptoApi.getPositions).mockResolvedValue([position(-2)]);
+      const stop = await manager.create({ symbol: "BTCUSD", distance: { atr: 2 } });
+      expect(stop).toMatchObject({ side: "Buy", amount: 2, extremePrice: 60002, stopPrice: 60302 });
+
+      ticks.set("BTCUSD", createTick(59500, { BestAsk: { Type: "Ask", Price: 59510, Volume: 1 } }));
+      atr = 100;
+      await manager.poll();
+
+      expect(cryptoApi.modifyTrade).toHaveBeenCalledWith({ Id: 100, StopPrice: "59710" });
+    });
+
+    it("should keep the stop and record the error when moving it fails", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => {});
+      await manager.create({ symbol: "BTCUSD", distance: { price: 500 } });
+      jest.mocked(cryptoApi.modifyTrade).mockRejectedValueOnce(new Error("Rate limit exceeded"));
+
+      ticks.set("BTCUSD", createTick(61000));
+      await manager.poll();
+
+      expect(await store.get(1)).toMatchObject({
+        status: "active",
+        extremePrice: 61000,
+        stopPrice: 59500,
+        error: "Rate limit exceeded",
+      });
+    });
+
+    it("should finish once the stop order fills or is cancelled elsewhere", async () => {
+      await manager.create({ symbol: "BTCUSD", distance: { price: 500 } });
+      jest.mocked(cryptoApi.createTrade).mockResolvedValue(order({ Id: 101 }));
+      await manager.create({ symbol: "BTCUSD", distance: { price: 800 } });
+
+      orders.set(100, order({ Status: "Completed" }));
+      orders.set(101, order({ Id: 101, Status: "Cancelled" }));
+      await manager.poll();
+
+      expect((await store.get(1))?.status).toBe("triggered");
+      expect((await store.get(2))?.status).toBe("cancelled");
+      expect(await store.list("active")).toEqual([]);
+    });
+
+    it("should cancel the stop order on request", async () => {
+      await manager.create({ symbol: "BTCUSD", distance: { price: 500 } });
+
+      await expect(manager.cancel(1)).resolves.toMatchObject({ status: "cancelled" });
+      expect(cryptoApi.cancelTrade).toHaveBeenCalledWith("100");
+      await expect(manager.cancel(1)).rejects.toThrow("Trailing stop 1 is already cancelled");
+      await expect(manager.cancel(2)).resolves.toBeUndefined();
+    });
+  });
+});
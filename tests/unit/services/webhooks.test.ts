@@ -0,0 +1,210 @@
+import { createHmac } from "node:crypto";
+import { cryptoApi } from "../../../src/services/cryptoApi";
+import { MemoryDataStore } from "../../../src/services/storage";
+import {
+  WebhookDispatcher,
+  type WebhookOptions,
+  WebhookStore,
+  signWebhookPayload,
+  webhookRetryDelay,
+  withoutSecret,
+} from "../../../src/services/webhooks";
+import type { Asset } from "../../../src/types/api";
+
+jest.mock("../../../src/services/cryptoApi", () => ({
+  cryptoApi: { getPositions: jest.fn(), getAccountAssets: jest.fn() },
+}));
+jest.mock("../../../src/config/env", () => ({ getWebhookOptions: jest.fn() }));
+
+const NOW = Date.parse("2024-09-22T10:00:00Z");
+
+const options: WebhookOptions = {
+  pollIntervalMs: 15000,
+  timeoutMs: 10000,
+  retry: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 60000 },
+  logLimit: 100,
+};
+
+function createAsset(overrides: Partial<Asset> = {}): Asset {
+  return {
+    Currency: "USD",
+    Amount: 1000,
+    FreeAmount: 1000,
+    LockedAmount: 0,
+    CurrencyToReportConversionRate: 1,
+    ReportToCurrencyConversionRate: 1,
+    ...overrides,
+  };
+}
+
+describe("webhooks - Unit Tests", () => {
+  describe("signWebhookPayload", () => {
+    it("should sign the timestamp and body with HMAC-SHA256", () => {
+      const expected = createHmac("sha256", "secret").update('1000.{"a":1}').digest("hex");
+
+      expect(signWebhookPayload("secret", 1000, '{"a":1}')).toBe(`sha256=${expected}`);
+    });
+  });
+
+  describe("webhookRetryDelay", () => {
+    it("should double the delay per attempt up to the maximum", () => {
+      expect(webhookRetryDelay(1, options.retry)).toBe(1000);
+      expect(webhookRetryDelay(3, options.retry)).toBe(4000);
+      expect(webhookRetryDelay(10, options.retry)).toBe(60000);
+    });
+  });
+
+  describe("WebhookStore", () => {
+    let store: WebhookStore;
+
+    beforeEach(() => {
+      store = new WebhookStore(new MemoryDataStore());
+    });
+
+    it("should generate a secret when none is given and hide it from listings", async () => {
+      const subscription = await store.createSubscription({
+        url: "https://example.com/hook",
+        events: ["trade.created"],
+        active: true,
+        description: null,
+      });
+
+      expect(subscription.secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(withoutSecret(subscription)).not.toHaveProperty("secret");
+    });
+
+    it("should prune only finished deliveries beyond the limit", async () => {
+      const event = { id: "e", type: "trade.created" as const, timestamp: NOW, data: {} };
+      for (const status of ["delivered", "dead", "pending", "delivered"] as const) {
+        await store.createDelivery({
+          subscriptionId: 1,
+          event,
+          status,
+          attempts: [],
+          nextAttemptAt: null,
+          replayOf: null,
+          createdAt: NOW,
+        });
+      }
+
+      await store.pruneDeliveries(1, 1);
+
+      const remaining = await store.listDeliveries({ subscriptionId: 1 });
+      expect(remaining.map((delivery) => [delivery.id, delivery.status])).toEqual([
+        [4, "delivered"],
+        [3, "pending"],
+      ]);
+    });
+  });
+
+  describe("WebhookDispatcher", () => {
+    let store: WebhookStore;
+    let now: number;
+    const clock = () => now;
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      now = NOW;
+      store = new WebhookStore(new MemoryDataStore());
+      await store.createSubscription({
+        url: "https://example.com/hook",
+        events: ["trade.created", "balance.changed"],
+        secret: "0123456789abcdef",
+        active: true,
+        description: null,
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should deliver signed events to matching subscriptions", async () => {
+      const send = jest.fn(async () => 200);
+      const dispatcher = new WebhookDispatcher(store, options, send, clock);
+
+      const [delivery] = await dispatcher.publish("trade.created", { Id: 1 });
+      await expect(dispatcher.publish("trade.filled", { Id: 1 })).resolves.toEqual([]);
+
+      expect(delivery).toMatchObject({ status: "delivered", nextAttemptAt: null });
+      expect(send).toHaveBeenCalledTimes(1);
+      const [url, body, headers] = send.mock.calls[0] as unknown as [
+        string,
+        string,
+        Record<string, string>,
+      ];
+      expect(url).toBe("https://example.com/hook");
+      expect(JSON.parse(body)).toMatchObject({ type: "trade.created", data: { Id: 1 } });
+      expect(headers["X-Webhook-Signature"]).toBe(
+        signWebhookPayload("0123456789abcdef", NOW, body),
+      );
+    });
+
+    it("should retry failed deliveries with backoff and dead-letter them", async () => {
+      const send = jest
+        .fn()
+        .mockResolvedValueOnce(503)
+        .mockRejectedValueOnce(new Error("timeout"))
+        .mockResolvedValueOnce(500);
+      const dispatcher = new WebhookDispatcher(store, options, send, clock);
+
+      const [delivery] = await dispatcher.publish("trade.created", {});
+      expect(delivery).toMatchObject({ status: "pending", nextAttemptAt: NOW + 1000 });
+
+      await expect(dispatcher.processDue()).resolves.toBe(0);
+      now += 1000;
+      await expect(dispatcher.processDue()).resolves.toBe(1);
+      now += 2000;
+      await dispatcher.processDue();
+
+      const [dead] = await store.listDeliveries({ status: "dead" });
+      expect(dead?.attempts.map((attempt) => attempt.error)).toEqual([
+        "Subscriber responded with HTTP 503",
+        "timeout",
+        "Subscriber responded with HTTP 500",
+      ]);
+      expect(dead?.nextAttemptAt).toBeNull();
+    });
+
+    it("should dead-letter deliveries rejected with a client error right away", async () => {
+      const dispatcher = new WebhookDispatcher(store, options, async () => 410, clock);
+
+      const [delivery] = await dispatcher.publish("trade.created", {});
+
+      expect(delivery).toMatchObject({ status: "dead", attempts: [{ responseStatus: 410 }] });
+    });
+
+    it("should replay a delivery as a new delivery with the same event", async () => {
+      const send = jest.fn().mockResolvedValueOnce(400).mockResolvedValueOnce(204);
+      const dispatcher = new WebhookDispatcher(store, options, send, clock);
+      const [dead] = await dispatcher.publish("trade.created", {});
+
+      const replayed = await dispatcher.replay(dead!);
+
+      expect(replayed).toMatchObject({ status: "delivered", replayOf: dead?.id });
+      expect(replayed.event).toEqual(dead?.event);
+      expect(replayed.id).not.toBe(dead?.id);
+    });
+
+    it("should publish balance changes after the baseline check", async () => {
+      jest
+        .mocked(cryptoApi.getAccountAssets)
+        .mockResolvedValueOnce([createAsset()])
+        .mockResolvedValueOnce([createAsset({ Amount: 900, FreeAmount: 900 })]);
+      const send = jest.fn(async () => 200);
+      const dispatcher = new WebhookDispatcher(store, options, send, clock);
+
+      await dispatcher.checkAccount();
+      expect(send).not.toHaveBeenCalled();
+      await dispatcher.checkAccount();
+
+      expect(cryptoApi.getPositions).not.toHaveBeenCalled();
+      const [delivery] = await store.listDeliveries();
+      expect(delivery?.event).toMatchObject({
+        type: "balance.changed",
+        data: { currency: "USD", previous: { Amount: 1000 }, current: { Amount: 900 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { IntervalTask, createLock } from "../../../src/utils/async";
+
+describe("async utils - Unit Tests", () => {
+  describe("createLock", () => {
+    it("should run tasks one at a time in call order", async () => {
+      const exclusive = createLock();
+      const events: string[] = [];
+      const task = (name: string) => async () => {
+        events.push(`${name} start`);
+        await new Promise((resolve) => setImmediate(resolve));
+        events.push(`${name} end`);
+        return name;
+      };
+
+      await expect(Promise.all([exclusive(task("a")), exclusive(task("b"))])).resolves.toEqual([
+        "a",
+        "b",
+      ]);
+      expect(events).toEqual(["a start", "a end", "b start", "b end"]);
+    });
+
+    it("should only reject the caller of a failed task", async () => {
+      const exclusive = createLock();
+
+      const failed = exclusive(async () => {
+        throw new Error("boom");
+      });
+      const next = exclusive(async () => "next");
+
+      await expect(failed).rejects.toThrow("boom");
+      await expect(next).resolves.toBe("next");
+    });
+  });
+
+  describe("IntervalTask", () => {
+    let consoleWarn: jest.SpyInstance;
+
+    beforeEach(() => {
+      consoleWarn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      consoleWarn.mockRestore();
+    });
+
+    it("should skip a run while the previous one is in progress", async () => {
+      let finish = () => {};
+      const task = jest.fn(
+        () =>
+          new Promise<void>((resolve) => {
+            finish = resolve;
+          }),
+      );
+      const interval = new IntervalTask("Test poll", 1000, task);
+
+      const first = interval.run();
+      await interval.run();
+      expect(task).toHaveBeenCalledTimes(1);
+
+      finish();
+      await first;
+      const second = interval.run();
+      finish();
+      await second;
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it("should log failed runs instead of rejecting", async () => {
+      const interval = new IntervalTask("Test poll", 1000, async () => {
+        throw new Error("upstream down");
+      });
+
+      await expect(interval.run()).resolves.toBeUndefined();
+      expect(consoleWarn).toHaveBeenCalledWith(
+        expect.stringContaining("Test poll failed:"),
+        "upstream down",
+      );
+    });
+
+    it("should start once and stop", () => {
+      const interval = new IntervalTask("Test poll", 1000, async () => {});
+
+      interval.start();
+      interval.start();
+      expect(interval.started).toBe(true);
+
+      interval.stop();
+      expect(interval.started).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { nextCronTime, parseCron } from "../../../src/utils/cron";
+
+const next = (expression: string, after: string): string | undefined => {
+  const time = nextCronTime(parseCron(expression), Date.parse(after));
+  return time === undefined ? undefined : new Date(time).toISOString();
+};
+
+describe("cron - Unit Tests", () => {
+  describe("parseCron", () => {
+    it("should expand lists, ranges and steps", () => {
+      const schedule = parseCron("5/20 9-17/4 1,15 * 1-5");
+
+      expect([...schedule.minutes]).toEqual([5, 25, 45]);
+      expect([...schedule.hours]).toEqual([9, 13, 17]);
+      expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+      expect(schedule.eitherDay).toBe(true);
+    });
+
+    it("should accept shortcuts and 7 for Sunday", () => {
+      expect(parseCron("@weekly")).toEqual(parseCron("0 0 * * 7"));
+      expect(parseCron("@DAILY").eitherDay).toBe(false);
+    });
+
+    it.each([
+      ["0 9 * *", "needs 5 fields"],
+      ["60 * * * *", 'Invalid minute "60"'],
+      ["0 24 * * *", 'Invalid hour "24"'],
+      ["0 0 0 * *", 'Invalid day of month "0"'],
+      ["0 0 * 5-2 *", 'Invalid month "5-2"'],
+      ["0 0 * * mon", 'Invalid day of week "mon"'],
+      ["*/0 * * * *", 'Invalid minute "*/0"'],
+    ])("should reject %p", (expression, message) => {
+      expect(() => parseCron(expression)).toThrow(message);
+    });
+  });
+
+  describe("nextCronTime", () => {
+    it("should return the next matching minute in UTC", () => {
+      expect(next("0 9 * * 1", "2024-09-22T10:00:00Z")).toBe("2024-09-23T09:00:00.000Z");
+      expect(next("*/15 * * * *", "2024-09-22T10:07:30Z")).toBe("2024-09-22T10:15:00.000Z");
+      expect(next("@monthly", "2024-12-15T00:00:00Z")).toBe("2025-01-01T00:00:00.000Z");
+    });
+
+    it("should be strictly later than the given time", () => {
+      expect(next("0 9 * * *", "2024-09-23T09:00:00Z")).toBe("2024-09-24T09:00:00.000Z");
+    });
+
+    it("should match either day field when both are restricted", () => {
+      expect(next("0 0 13 * 5", "2024-09-22T00:00:00Z")).toBe("2024-09-27T00:00:00.000Z");
+      expect(next("0 0 13 * 5", "2024-09-27T00:00:00Z")).toBe("2024-10-04T00:00:00.000Z");
+      expect(next("0 0 13 * 5", "2024-10-11T00:00:00Z")).toBe("2024-10-13T00:00:00.000Z");
+    });
+
+    it("should handle leap days and schedules that never fire", () => {
+      expect(next("0 0 29 2 *", "2024-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+      expect(next("0 0 30 2 *", "2024-03-01T00:00:00Z")).toBeUndefined();
+    });
+  });
+});
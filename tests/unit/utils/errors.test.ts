@@ -0,0 +1,20 @@
+import { AppError } from "../../../src/middleware/errorHandler";
+import { errorMessage, isRetryableError } from "../../../src/utils/errors";
+
+describe("error utils - Unit Tests", () => {
+  describe("errorMessage", () => {
+    it("should read the message of errors and other thrown values", () => {
+      expect(errorMessage(new Error("boom"))).toBe("boom");
+      expect(errorMessage("boom")).toBe("boom");
+    });
+  });
+
+  describe("isRetryableError", () => {
+    it("should retry network errors, 429 and 5xx only", () => {
+      expect(isRetryableError(new Error("socket hang up"))).toBe(true);
+      expect(isRetryableError(new AppError("Too many requests", 429))).toBe(true);
+      expect(isRetryableError(new AppError("Bad gateway", 502))).toBe(true);
+      expect(isRetryableError(new AppError("Insufficient margin", 400))).toBe(false);
+    });
+  });
+});
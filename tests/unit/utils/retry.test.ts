@@ -0,0 +1,53 @@
+import { computeBackoffDelay, isRetryableStatus, parseRetryAfter } from "../../../src/utils/retry";
+
+const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+describe("retry utils - Unit Tests", () => {
+  describe("computeBackoffDelay", () => {
+    it("should double the jitter window for every attempt", () => {
+      const maxRandom = () => 0.999999;
+
+      expect(computeBackoffDelay(1, policy, maxRandom)).toBe(99);
+      expect(computeBackoffDelay(2, policy, maxRandom)).toBe(199);
+      expect(computeBackoffDelay(3, policy, maxRandom)).toBe(399);
+    });
+
+    it("should cap the window at maxDelayMs", () => {
+      expect(computeBackoffDelay(10, policy, () => 0.999999)).toBe(999);
+    });
+
+    it("should apply full jitter", () => {
+      expect(computeBackoffDelay(3, policy, () => 0)).toBe(0);
+      expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(200);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delta seconds", () => {
+      expect(parseRetryAfter("2")).toBe(2000);
+      expect(parseRetryAfter(" 0 ")).toBe(0);
+    });
+
+    it("should parse HTTP dates relative to now", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:03 GMT", now)).toBe(3000);
+      expect(parseRetryAfter("Tue, 31 Dec 2024 23:59:00 GMT", now)).toBe(0);
+    });
+
+    it("should ignore missing or invalid values", () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+
+  describe("isRetryableStatus", () => {
+    it("should retry network errors, 429 and 5xx only", () => {
+      expect(isRetryableStatus(undefined)).toBe(true);
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(502)).toBe(true);
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(404)).toBe(false);
+    });
+  });
+});